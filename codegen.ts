@@ -0,0 +1,15 @@
+/**
+ * Codegen Entry Point
+ * 
+ * Generate typed integration clients from the MCP server's tools/list (Node only):
+ * ```typescript
+ * import { generateIntegrationTypes } from 'integrate-sdk/codegen';
+ * ```
+ * 
+ * Or from the command line:
+ * ```bash
+ * npx integrate-sdk-codegen --integrations github,linear --out src/integrate-types.ts
+ * ```
+ */
+
+export * from './src/codegen/index.js';
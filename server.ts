@@ -28,28 +28,36 @@ export * from './src/adapters/index.js';
 export {
   // Vercel AI
   getVercelAITools,
+  convertPromptToVercelAIMessages,
   type VercelAITool,
   type VercelAIToolsOptions,
+  type VercelAIPromptMessage,
   
   // OpenAI
   getOpenAITools,
   handleOpenAIResponse,
+  convertPromptToOpenAIMessages,
   type OpenAITool,
   type OpenAIToolsOptions,
+  type OpenAIPromptMessage,
   
   // Anthropic
   getAnthropicTools,
   handleAnthropicMessage,
+  convertPromptToAnthropicMessages,
   type AnthropicTool,
   type AnthropicToolsOptions,
   type AnthropicToolUseBlock,
   type AnthropicToolResultBlock,
+  type AnthropicPromptMessage,
   
   // Google
   getGoogleTools,
   executeGoogleFunctionCalls,
+  convertPromptToGoogleMessages,
   type GoogleTool,
   type GoogleFunctionCall,
+  type GoogleContent,
   type GoogleToolsOptions,
   
   // Utilities
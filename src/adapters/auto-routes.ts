@@ -4,6 +4,7 @@
  */
 
 import { OAuthHandler, type OAuthHandlerConfig } from './base-handler.js';
+import { resolveLogger } from '../utils/logger.js';
 
 /**
  * Global OAuth configuration
@@ -63,7 +64,7 @@ export function getGlobalOAuthConfig(): OAuthHandlerConfig | null {
 
 /**
  * Universal POST handler
- * Handles authorize, callback, and disconnect actions
+ * Handles authorize, callback, disconnect, and refresh actions
  */
 export async function POST(
   req: any,
@@ -76,6 +77,7 @@ export async function POST(
   }
 
   const handler = new OAuthHandler(globalOAuthConfig);
+  const logger = resolveLogger(globalOAuthConfig.logger);
   const action = context?.params?.action;
 
   if (!action) {
@@ -122,13 +124,19 @@ export async function POST(
       }
       
       // Pass the request object for context extraction
-      const result = await handler.handleDisconnect({ provider: body.provider }, accessToken, req);
+      const result = await handler.handleDisconnect({ provider: body.provider, accountId: body.accountId }, accessToken, req);
+      return createSuccessResponse(result);
+    }
+
+    if (action === 'refresh') {
+      // Pass full Request object for context detection
+      const result = await handler.handleRefresh(req);
       return createSuccessResponse(result);
     }
 
     return createErrorResponse(`Unknown action: ${action}`, 404);
   } catch (error: any) {
-    console.error(`[OAuth ${action}] Error:`, error);
+    logger.error(`[OAuth ${action}] Error`, { error });
     return createErrorResponse(error.message, 500);
   }
 }
@@ -148,6 +156,7 @@ export async function GET(
   }
 
   const handler = new OAuthHandler(globalOAuthConfig);
+  const logger = resolveLogger(globalOAuthConfig.logger);
   const action = context?.params?.action;
 
   if (!action) {
@@ -173,7 +182,7 @@ export async function GET(
 
     return createErrorResponse(`Unknown action: ${action}`, 404);
   } catch (error: any) {
-    console.error(`[OAuth ${action}] Error:`, error);
+    logger.error(`[OAuth ${action}] Error`, { error });
     return createErrorResponse(error.message, 500);
   }
 }
@@ -3,8 +3,15 @@
  * Framework-agnostic OAuth route logic for secure server-side token management
  */
 
-import type { MCPContext } from '../config/types.js';
+import type { MCPContext, ToolCallMiddleware, ToolEventListener } from '../config/types.js';
 import type { ProviderTokenData } from '../oauth/types.js';
+import { accountArgs } from '../oauth/accounts.js';
+import { runToolCallMiddleware } from '../utils/middleware.js';
+import { observeToolCall } from '../utils/tool-events.js';
+import { resolveLogger, type Logger } from '../utils/logger.js';
+import { isRateLimitError, parseServerError } from '../errors.js';
+import { getDedupeKey, type ToolCallLimiter } from '../utils/tool-call-limiter.js';
+import { withSpan, getTraceHeaders, SpanName, SpanAttribute, type Tracer, type TraceSpan } from '../utils/tracing.js';
 
 /**
  * MCP Server URL - managed by Integrate
@@ -62,6 +69,7 @@ export interface OAuthHandlerConfig {
    * @param provider - Provider name (e.g., 'github')
    * @param tokenData - OAuth tokens (accessToken, refreshToken, etc.)
    * @param context - User context (userId, organizationId, etc.)
+   * @param accountId - Connected account the token belongs to; undefined for the provider's default account
    * 
    * @example
    * ```typescript
@@ -74,13 +82,14 @@ export interface OAuthHandlerConfig {
    * }
    * ```
    */
-  setProviderToken?: (provider: string, tokenData: ProviderTokenData, context?: MCPContext) => Promise<void> | void;
+  setProviderToken?: (provider: string, tokenData: ProviderTokenData, context?: MCPContext, accountId?: string) => Promise<void> | void;
   /**
    * Optional callback to delete provider tokens from database
    * Called automatically when disconnecting providers
    * 
    * @param provider - Provider name (e.g., 'github')
    * @param context - User context (userId, organizationId, etc.)
+   * @param accountId - Connected account to delete; undefined for the provider's default account
    * 
    * @example
    * ```typescript
@@ -94,7 +103,36 @@ export interface OAuthHandlerConfig {
    * }
    * ```
    */
-  removeProviderToken?: (provider: string, context?: MCPContext) => Promise<void> | void;
+  removeProviderToken?: (provider: string, context?: MCPContext, accountId?: string) => Promise<void> | void;
+  /**
+   * Middleware run around tool calls proxied through the /mcp route, in order
+   * Receives the user context from getSessionContext when a Web Request is available
+   */
+  middleware?: ToolCallMiddleware[];
+  /**
+   * Resolve the OAuth provider that owns a tool
+   * Passed to middleware as `ctx.provider`
+   */
+  getToolProvider?: (toolName: string) => string | undefined;
+  /**
+   * Receives `tool:start`, `tool:success` and `tool:error` events for tool calls
+   * forwarded to the MCP server through the /mcp route
+   */
+  onToolEvent?: ToolEventListener;
+  /**
+   * OpenTelemetry tracer for spans around handleAuthorize, handleCallback and handleToolCall
+   * Trace context is sent to the MCP server as a `traceparent` header
+   */
+  tracer?: Tracer;
+  /**
+   * Logger for handler errors and warnings (redacted; defaults to the console)
+   */
+  logger?: Logger;
+  /**
+   * Deduplication and per-provider concurrency limits for forwarded tool calls
+   * createMCPServer() passes its client's, so the limits cover both
+   */
+  toolCallLimiter?: ToolCallLimiter;
 }
 
 /**
@@ -103,6 +141,8 @@ export interface OAuthHandlerConfig {
 export interface AuthorizeRequest {
   provider: string;
   scopes?: string[];
+  /** Scopes to request on top of `scopes` (incremental authorization) */
+  additionalScopes?: string[];
   state: string;
   codeChallenge: string;
   codeChallengeMethod: string;
@@ -126,6 +166,8 @@ export interface CallbackRequest {
   code: string;
   codeVerifier: string;
   state: string;
+  /** Account being connected (omitted for the provider's default account) */
+  accountId?: string;
 }
 
 /**
@@ -142,6 +184,28 @@ export interface CallbackResponse {
   clearCookie?: string;
 }
 
+/**
+ * Request body for refresh endpoint
+ */
+export interface RefreshRequest {
+  provider: string;
+  refreshToken: string;
+  /** Account the refresh token belongs to (omitted for the provider's default account) */
+  accountId?: string;
+}
+
+/**
+ * Response from refresh endpoint
+ */
+export interface RefreshResponse {
+  accessToken: string;
+  refreshToken?: string;
+  tokenType: string;
+  expiresIn: number;
+  expiresAt?: string;
+  scopes?: string[];
+}
+
 /**
  * Response from status endpoint
  */
@@ -156,6 +220,8 @@ export interface StatusResponse {
  */
 export interface DisconnectRequest {
   provider: string;
+  /** Account to disconnect (omitted for the provider's default account) */
+  accountId?: string;
 }
 
 /**
@@ -191,6 +257,46 @@ export interface ToolCallResponse {
   _meta?: Record<string, unknown>;
 }
 
+/**
+ * Request body for proxied (non tool-call) MCP requests on the /mcp endpoint
+ * Used for resources and prompts
+ */
+export interface MCPProxyRequest {
+  /** JSON-RPC method (e.g., 'resources/read', 'prompts/get') */
+  method: string;
+  /** JSON-RPC params */
+  params?: Record<string, unknown>;
+}
+
+/**
+ * MCP methods that may be proxied through the /mcp endpoint
+ * Subscriptions are excluded - they require a persistent MCP session
+ */
+const PROXIED_MCP_METHODS = new Set([
+  'tools/call',
+  'resources/list',
+  'resources/read',
+  'resources/templates/list',
+  'prompts/list',
+  'prompts/get',
+]);
+
+/**
+ * Status and headers for a failed /mcp route request
+ * Rate-limited calls answer 429 with the upstream `Retry-After`, so the
+ * browser client can surface a RateLimitError
+ */
+export function getMCPErrorResponseInit(error: any): ResponseInit {
+  const parsed = parseServerError(error);
+  if (!isRateLimitError(parsed)) {
+    return { status: error?.statusCode || 500 };
+  }
+  return {
+    status: 429,
+    headers: parsed.retryAfter === undefined ? undefined : { 'Retry-After': String(Math.ceil(parsed.retryAfter)) },
+  };
+}
+
 /**
  * OAuth Handler
  * Handles OAuth authorization flows by proxying requests to MCP server
@@ -199,6 +305,7 @@ export interface ToolCallResponse {
 export class OAuthHandler {
   private readonly serverUrl: string;
   private readonly apiKey?: string;
+  private readonly logger: Logger;
   
   constructor(private config: OAuthHandlerConfig) {
     // Validate config on initialization
@@ -209,6 +316,7 @@ export class OAuthHandler {
     // Use configured serverUrl or default
     this.serverUrl = config.serverUrl || MCP_SERVER_URL;
     this.apiKey = config.apiKey;
+    this.logger = resolveLogger(config.logger);
   }
   
   /**
@@ -238,7 +346,14 @@ export class OAuthHandler {
    * @throws Error if provider is not configured
    * @throws Error if MCP server request fails
    */
-  async handleAuthorize(request: AuthorizeRequest | Request): Promise<AuthorizeResponse> {
+  handleAuthorize(request: AuthorizeRequest | Request): Promise<AuthorizeResponse> {
+    return withSpan(this.config.tracer, SpanName.HANDLER_AUTHORIZE, {}, (span) => this.authorize(request, span));
+  }
+
+  /**
+   * Get the authorization URL from the MCP server (see handleAuthorize)
+   */
+  private async authorize(request: AuthorizeRequest | Request, span?: TraceSpan): Promise<AuthorizeResponse> {
     // Determine if request is a Web Request or parsed body
     let webRequest: Request | undefined;
     let authorizeRequest: AuthorizeRequest;
@@ -255,6 +370,8 @@ export class OAuthHandler {
       authorizeRequest = request as AuthorizeRequest;
     }
     
+    span?.setAttribute(SpanAttribute.PROVIDER, authorizeRequest.provider);
+
     // Get OAuth config from environment (server-side)
     const providerConfig = this.config.providers[authorizeRequest.provider];
     if (!providerConfig) {
@@ -273,7 +390,11 @@ export class OAuthHandler {
     url.searchParams.set('client_secret', providerConfig.clientSecret);
     
     // Use scopes from request if provided, otherwise use provider config scopes
-    const scopes = authorizeRequest.scopes || providerConfig.scopes || [];
+    // Additional scopes (incremental authorization) are appended to either
+    const scopes = Array.from(new Set([
+      ...(authorizeRequest.scopes || providerConfig.scopes || []),
+      ...(authorizeRequest.additionalScopes || []),
+    ]));
     if (scopes.length > 0) {
       url.searchParams.set('scope', scopes.join(','));
     }
@@ -300,7 +421,7 @@ export class OAuthHandler {
     // Forward to MCP server
     const response = await fetch(url.toString(), {
       method: 'GET',
-      headers: this.getHeaders(),
+      headers: this.getHeaders(getTraceHeaders(span)),
     });
 
     if (!response.ok) {
@@ -338,7 +459,7 @@ export class OAuthHandler {
       } catch (error) {
         // Context capture failed - continue without it
         // This is not a fatal error since user can still complete OAuth manually
-        console.warn('[OAuth] Failed to capture user context:', error);
+        this.logger.warn('[OAuth] Failed to capture user context', { error });
       }
     }
     
@@ -356,7 +477,14 @@ export class OAuthHandler {
    * @throws Error if provider is not configured
    * @throws Error if MCP server request fails
    */
-  async handleCallback(request: CallbackRequest | Request): Promise<CallbackResponse> {
+  handleCallback(request: CallbackRequest | Request): Promise<CallbackResponse> {
+    return withSpan(this.config.tracer, SpanName.HANDLER_CALLBACK, {}, (span) => this.callback(request, span));
+  }
+
+  /**
+   * Exchange the authorization code for tokens (see handleCallback)
+   */
+  private async callback(request: CallbackRequest | Request, span?: TraceSpan): Promise<CallbackResponse> {
     // Determine if request is a Web Request or parsed body
     let webRequest: Request | undefined;
     let callbackRequest: CallbackRequest;
@@ -373,6 +501,8 @@ export class OAuthHandler {
       callbackRequest = request as CallbackRequest;
     }
     
+    span?.setAttribute(SpanAttribute.PROVIDER, callbackRequest.provider);
+
     // Get OAuth config from environment (server-side)
     const providerConfig = this.config.providers[callbackRequest.provider];
 
@@ -403,7 +533,7 @@ export class OAuthHandler {
         }
       } catch (error) {
         // Context restoration failed - continue without it
-        console.warn('[OAuth] Failed to restore user context:', error);
+        this.logger.warn('[OAuth] Failed to restore user context', { error });
       }
     }
 
@@ -414,6 +544,7 @@ export class OAuthHandler {
       method: 'POST',
       headers: this.getHeaders({
         'Content-Type': 'application/json',
+        ...getTraceHeaders(span),
       }),
       body: JSON.stringify({
         provider: callbackRequest.provider,
@@ -448,10 +579,10 @@ export class OAuthHandler {
           scopes: result.scopes, // Include scopes in token data
         };
         
-        await this.config.setProviderToken(callbackRequest.provider, tokenData, context);
+        await this.config.setProviderToken(callbackRequest.provider, tokenData, context, ...accountArgs(callbackRequest.accountId));
       } catch (error) {
         // Token storage failed - log but don't fail the OAuth flow
-        console.error('[OAuth] Failed to save provider token:', error);
+        this.logger.error('[OAuth] Failed to save provider token', { error });
       }
     }
     
@@ -464,6 +595,105 @@ export class OAuthHandler {
     return result;
   }
 
+  /**
+   * Handle token refresh
+   * Exchanges a refresh token for a new access token
+   * Also saves the refreshed tokens if callback is configured
+   * 
+   * @param request - Refresh request with provider and refresh token OR full Web Request object
+   * @returns Refreshed access token and authorization details
+   * 
+   * @throws Error if provider is not configured
+   * @throws Error if no refresh token is provided
+   * @throws Error if MCP server request fails
+   */
+  async handleRefresh(request: RefreshRequest | Request): Promise<RefreshResponse> {
+    // Determine if request is a Web Request or parsed body
+    let webRequest: Request | undefined;
+    let refreshRequest: RefreshRequest;
+    
+    if (request instanceof Request) {
+      // Full Web Request object - extract body
+      webRequest = request;
+      refreshRequest = await request.json();
+    } else if (typeof request === 'object' && 'json' in request && typeof request.json === 'function') {
+      // Mock Request-like object with json() method (for testing)
+      refreshRequest = await request.json();
+    } else {
+      // Already parsed RefreshRequest
+      refreshRequest = request as RefreshRequest;
+    }
+
+    // Get OAuth config from environment (server-side)
+    const providerConfig = this.config.providers[refreshRequest.provider];
+
+    if (!providerConfig) {
+      throw new Error(`Provider ${refreshRequest.provider} not configured. Add OAuth credentials to your API route configuration.`);
+    }
+
+    // Validate required fields
+    if (!providerConfig.clientId || !providerConfig.clientSecret) {
+      throw new Error(`Missing OAuth credentials for ${refreshRequest.provider}. Check your environment variables.`);
+    }
+
+    if (!refreshRequest.refreshToken) {
+      throw new Error('No refresh token provided. Cannot refresh provider token.');
+    }
+
+    // Forward to MCP server for token refresh with credentials
+    const url = new URL('/oauth/refresh', this.serverUrl);
+
+    const response = await fetch(url.toString(), {
+      method: 'POST',
+      headers: this.getHeaders({
+        'Content-Type': 'application/json',
+      }),
+      body: JSON.stringify({
+        provider: refreshRequest.provider,
+        refresh_token: refreshRequest.refreshToken,
+        client_id: providerConfig.clientId,
+        client_secret: providerConfig.clientSecret,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`MCP server failed to refresh token: ${error}`);
+    }
+
+    const data = await response.json();
+    const result: RefreshResponse = {
+      ...(data as RefreshResponse),
+      // Providers that don't rotate refresh tokens omit it from the response
+      refreshToken: (data as RefreshResponse).refreshToken ?? refreshRequest.refreshToken,
+    };
+
+    // Call setProviderToken callback if configured and user context is available
+    if (webRequest && this.config.setProviderToken) {
+      try {
+        let context: MCPContext | undefined;
+
+        // Try custom session context extractor first
+        if (this.config.getSessionContext) {
+          context = await this.config.getSessionContext(webRequest);
+        }
+
+        // Fallback to automatic detection
+        if (!context || !context.userId) {
+          const { detectSessionContext } = await import('./session-detector.js');
+          context = await detectSessionContext(webRequest);
+        }
+
+        await this.config.setProviderToken(refreshRequest.provider, result, context, ...accountArgs(refreshRequest.accountId));
+      } catch (error) {
+        // Token storage failed - log but don't fail the refresh
+        this.logger.error('[OAuth] Failed to save refreshed provider token', { error });
+      }
+    }
+
+    return result;
+  }
+
   /**
    * Handle authorization status check
    * Checks if a provider access token is valid
@@ -538,15 +768,15 @@ export class OAuthHandler {
         // Call removeProviderToken callback with context
         if (context) {
           try {
-            await this.config.removeProviderToken(request.provider, context);
+            await this.config.removeProviderToken(request.provider, context, ...accountArgs(request.accountId));
           } catch (error) {
             // Log error but don't fail the request - MCP server revocation will still happen
-            console.error(`Failed to delete token for ${request.provider} from database via removeProviderToken:`, error);
+            this.logger.error(`Failed to delete token for ${request.provider} from database via removeProviderToken`, { error });
           }
         }
       } catch (error) {
         // Log error but continue - context extraction failure shouldn't block disconnect
-        console.error(`Failed to extract context for disconnect:`, error);
+        this.logger.error(`Failed to extract context for disconnect`, { error });
       }
     }
 
@@ -577,19 +807,176 @@ export class OAuthHandler {
    * Handle MCP tool call
    * Forwards tool call requests to MCP server with API key and provider token
    * 
+   * Runs configured middleware around the call and reports the forwarded
+   * call to `onToolEvent`
+   * 
    * @param request - Tool call request with name and arguments
    * @param authHeader - Authorization header from client (Bearer token)
+   * @param signal - Optional signal (e.g., the incoming request's signal) to cancel the call
+   * @param webRequest - Optional Web Request object for middleware user context
    * @returns Tool call response
    * 
    * @throws Error if MCP server request fails
    */
-  async handleToolCall(request: ToolCallRequest, authHeader: string | null): Promise<ToolCallResponse> {
+  handleToolCall(
+    request: ToolCallRequest,
+    authHeader: string | null,
+    signal?: AbortSignal,
+    webRequest?: Request
+  ): Promise<ToolCallResponse> {
+    return withSpan(
+      this.config.tracer,
+      SpanName.HANDLER_TOOL_CALL,
+      {
+        [SpanAttribute.TOOL_NAME]: request.name,
+        [SpanAttribute.PROVIDER]: this.config.getToolProvider?.(request.name),
+      },
+      (span) => this.callTool(request, authHeader, signal, webRequest, span)
+    );
+  }
+
+  /**
+   * Run middleware and forward the tool call to the MCP server (see handleToolCall)
+   */
+  private async callTool(
+    request: ToolCallRequest,
+    authHeader: string | null,
+    signal?: AbortSignal,
+    webRequest?: Request,
+    span?: TraceSpan
+  ): Promise<ToolCallResponse> {
+    const forwardToServer = (args: Record<string, unknown>, forwardSignal?: AbortSignal) =>
+      this.forwardToMCPServer<ToolCallResponse>(
+        'tools/call',
+        {
+          name: request.name,
+          arguments: args,
+        },
+        authHeader,
+        'MCP server failed to execute tool call',
+        'Tool call failed',
+        forwardSignal,
+        span
+      );
+
+    const limiter = this.config.toolCallLimiter;
+    const send = (args: Record<string, unknown>) => {
+      if (!limiter) {
+        return forwardToServer(args, signal);
+      }
+      const provider = this.config.getToolProvider?.(request.name);
+      return limiter.run(
+        {
+          provider,
+          dedupeKey: getDedupeKey(request.name, provider, args, { authorization: authHeader ?? undefined }),
+          signal,
+        },
+        (sharedSignal) => forwardToServer(args, sharedSignal)
+      );
+    };
+
+    const onToolEvent = this.config.onToolEvent;
+    const forward = onToolEvent
+      ? (args: Record<string, unknown>) =>
+          observeToolCall(
+            onToolEvent,
+            {
+              toolName: request.name,
+              provider: this.config.getToolProvider?.(request.name),
+              args,
+              retryCount: 0,
+            },
+            () => send(args)
+          )
+      : send;
+
+    const middleware = this.config.middleware;
+    if (!middleware || middleware.length === 0) {
+      return await forward(request.arguments || {});
+    }
+
+    let context: MCPContext | undefined;
+    if (webRequest && this.config.getSessionContext) {
+      try {
+        context = await this.config.getSessionContext(webRequest);
+      } catch (error) {
+        // Middleware still runs, just without user context
+        this.logger.error('Failed to extract context for tool call middleware', { error });
+      }
+    }
+
+    return await runToolCallMiddleware(
+      middleware,
+      {
+        toolName: request.name,
+        arguments: request.arguments || {},
+        provider: this.config.getToolProvider?.(request.name),
+        context,
+        signal,
+      },
+      (ctx) => forward(ctx.arguments)
+    );
+  }
+
+  /**
+   * Handle a proxied MCP request (resources, prompts, etc.)
+   * Forwards an allowed JSON-RPC method to the MCP server with API key and provider token
+   * 
+   * @param request - JSON-RPC method and params from client
+   * @param authHeader - Authorization header from client (Bearer token)
+   * @param signal - Optional signal (e.g., the incoming request's signal) to cancel the request
+   * @param webRequest - Optional Web Request object for tool call middleware user context
+   * @returns JSON-RPC result from MCP server
+   * 
+   * @throws Error with statusCode 400 if the method cannot be proxied
+   * @throws Error if MCP server request fails
+   */
+  async handleMCPRequest(
+    request: MCPProxyRequest,
+    authHeader: string | null,
+    signal?: AbortSignal,
+    webRequest?: Request
+  ): Promise<unknown> {
+    if (!request.method || !PROXIED_MCP_METHODS.has(request.method)) {
+      const error = new Error(`Unsupported MCP method: ${request.method}`);
+      (error as any).statusCode = 400;
+      throw error;
+    }
+
+    if (request.method === 'tools/call') {
+      return await this.handleToolCall(request.params as unknown as ToolCallRequest, authHeader, signal, webRequest);
+    }
+
+    return await this.forwardToMCPServer(
+      request.method,
+      request.params,
+      authHeader,
+      `MCP server failed to handle ${request.method}`,
+      `${request.method} failed`,
+      signal
+    );
+  }
+
+  /**
+   * Forward a JSON-RPC request to the MCP server
+   * If the signal aborts mid-flight, the MCP server is sent `notifications/cancelled`
+   */
+  private async forwardToMCPServer<T>(
+    method: string,
+    params: Record<string, unknown> | undefined,
+    authHeader: string | null,
+    failureMessage: string,
+    defaultErrorMessage: string,
+    signal?: AbortSignal,
+    span?: TraceSpan
+  ): Promise<T> {
     // Use the MCP server URL directly (JSON-RPC method is in the body, not the path)
     const url = this.serverUrl;
 
     // Prepare headers with API key
     const headers: Record<string, string> = this.getHeaders({
       'Content-Type': 'application/json',
+      ...getTraceHeaders(span),
     });
 
     // Add provider token from Authorization header if present
@@ -601,36 +988,63 @@ export class OAuthHandler {
     const jsonRpcRequest = {
       jsonrpc: '2.0',
       id: Date.now() + Math.random(),
-      method: 'tools/call',
-      params: {
-        name: request.name,
-        arguments: request.arguments || {},
-      },
+      method,
+      params,
     };
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(jsonRpcRequest),
-    });
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(jsonRpcRequest),
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) {
+        this.sendCancelledNotification(jsonRpcRequest.id, headers);
+      }
+      throw error;
+    }
 
     if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`MCP server failed to execute tool call: ${error}`);
+      const error = new Error(`${failureMessage}: ${await response.text()}`);
+      // Rate limits are passed on to the caller with their Retry-After
+      if (response.status === 429) {
+        (error as any).statusCode = 429;
+        (error as any).retryAfter = response.headers.get('retry-after') ?? undefined;
+      }
+      throw error;
     }
 
     const jsonRpcResponse = await response.json();
 
     // Handle JSON-RPC error response
     if (jsonRpcResponse.error) {
-      const error = new Error(jsonRpcResponse.error.message || 'Tool call failed');
+      const error = new Error(jsonRpcResponse.error.message || defaultErrorMessage);
       (error as any).code = jsonRpcResponse.error.code;
       (error as any).data = jsonRpcResponse.error.data;
       throw error;
     }
 
-    // Return the result (which should be ToolCallResponse)
-    return jsonRpcResponse.result as ToolCallResponse;
+    return jsonRpcResponse.result as T;
   }
-}
 
+  /**
+   * Tell the MCP server to stop working on a cancelled request
+   * Best-effort: failures are logged, never thrown
+   */
+  private sendCancelledNotification(requestId: number, headers: Record<string, string>): void {
+    fetch(this.serverUrl, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        method: 'notifications/cancelled',
+        params: { requestId, reason: 'Client cancelled the request' },
+      }),
+    }).catch((error) => {
+      this.logger.error('[MCP Tool Call] Failed to send cancellation', { error });
+    });
+  }
+}
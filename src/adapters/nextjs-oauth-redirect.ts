@@ -4,6 +4,7 @@
  */
 
 import { parseState } from '../oauth/pkce.js';
+import { resolveLogger, type Logger } from '../utils/logger.js';
 
 // Type-only imports to avoid requiring Next.js at build time
 type NextRequest = any;
@@ -14,6 +15,8 @@ export interface OAuthRedirectConfig {
   redirectUrl?: string;
   /** URL to redirect to on OAuth error (default: '/auth-error') */
   errorRedirectUrl?: string;
+  /** Logger for callback errors (redacted; defaults to the console) */
+  logger?: Logger;
 }
 
 /**
@@ -45,6 +48,7 @@ export interface OAuthRedirectConfig {
 export function createOAuthRedirectHandler(config?: OAuthRedirectConfig) {
   const defaultRedirectUrl = config?.redirectUrl || '/';
   const errorRedirectUrl = config?.errorRedirectUrl || '/auth-error';
+  const logger = resolveLogger(config?.logger);
 
   return async function GET(req: NextRequest): Promise<NextResponse> {
     const { searchParams } = new URL(req.url);
@@ -57,7 +61,7 @@ export function createOAuthRedirectHandler(config?: OAuthRedirectConfig) {
     // Handle OAuth error
     if (error) {
       const errorMsg = errorDescription || error;
-      console.error('[OAuth Redirect] Error:', errorMsg);
+      logger.error('[OAuth Redirect] Error', { error: errorMsg });
       
       return Response.redirect(
         new URL(`${errorRedirectUrl}?error=${encodeURIComponent(errorMsg)}`, req.url)
@@ -66,7 +70,7 @@ export function createOAuthRedirectHandler(config?: OAuthRedirectConfig) {
 
     // Validate required parameters
     if (!code || !state) {
-      console.error('[OAuth Redirect] Missing code or state parameter');
+      logger.error('[OAuth Redirect] Missing code or state parameter');
       
       return Response.redirect(
         new URL(`${errorRedirectUrl}?error=${encodeURIComponent('Invalid OAuth callback')}`, req.url)
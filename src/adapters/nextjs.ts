@@ -6,7 +6,8 @@
  * The actual Next.js types are used at runtime when available.
  */
 
-import { OAuthHandler, type OAuthHandlerConfig } from './base-handler.js';
+import { OAuthHandler, getMCPErrorResponseInit, type OAuthHandlerConfig } from './base-handler.js';
+import { resolveLogger } from '../utils/logger.js';
 
 // Type-only imports to avoid requiring Next.js at build time
 type NextRequest = any;
@@ -50,6 +51,9 @@ type NextResponse = any;
  * // app/api/integrate/oauth/callback/route.ts
  * export const POST = handler.callback;
  * 
+ * // app/api/integrate/oauth/refresh/route.ts
+ * export const POST = handler.refresh;
+ * 
  * // app/api/integrate/oauth/status/route.ts
  * export const GET = handler.status;
  * 
@@ -59,6 +63,7 @@ type NextResponse = any;
  */
 export function createNextOAuthHandler(config: OAuthHandlerConfig) {
   const handler = new OAuthHandler(config);
+  const logger = resolveLogger(config.logger);
 
   const handlers = {
     /**
@@ -117,7 +122,7 @@ export function createNextOAuthHandler(config: OAuthHandlerConfig) {
         
         return response;
       } catch (error: any) {
-        console.error('[OAuth Authorize] Error:', error);
+        logger.error('[OAuth Authorize] Error', { error });
         return Response.json(
           { error: error.message || 'Failed to get authorization URL' },
           { status: 500 }
@@ -182,7 +187,7 @@ export function createNextOAuthHandler(config: OAuthHandlerConfig) {
         
         return response;
       } catch (error: any) {
-        console.error('[OAuth Callback] Error:', error);
+        logger.error('[OAuth Callback] Error', { error });
         return Response.json(
           { error: error.message || 'Failed to exchange authorization code' },
           { status: 500 }
@@ -190,6 +195,61 @@ export function createNextOAuthHandler(config: OAuthHandlerConfig) {
       }
     },
 
+    /**
+     * POST /api/integrate/oauth/refresh
+     * 
+     * Exchange a refresh token for a new access token
+     * 
+     * Request body:
+     * ```json
+     * {
+     *   "provider": "github",
+     *   "refreshToken": "refresh-token-123"
+     * }
+     * ```
+     * 
+     * Response:
+     * ```json
+     * {
+     *   "accessToken": "new-access-token",
+     *   "refreshToken": "refresh-token-123",
+     *   "tokenType": "Bearer",
+     *   "expiresIn": 3600,
+     *   "expiresAt": "2025-11-06T00:32:08Z"
+     * }
+     * ```
+     * 
+     * @example
+     * ```typescript
+     * // app/api/integrate/oauth/refresh/route.ts
+     * import { createNextOAuthHandler } from 'integrate-sdk';
+     * 
+     * const handler = createNextOAuthHandler({
+     *   providers: {
+     *     github: {
+     *       clientId: process.env.GITHUB_CLIENT_ID!,
+     *       clientSecret: process.env.GITHUB_CLIENT_SECRET!,
+     *     },
+     *   },
+     * });
+     * 
+     * export const POST = handler.refresh;
+     * ```
+     */
+    async refresh(req: NextRequest): Promise<NextResponse> {
+      try {
+        // Pass full Request object to handler for context detection
+        const result = await handler.handleRefresh(req);
+        return Response.json(result);
+      } catch (error: any) {
+        logger.error('[OAuth Refresh] Error', { error });
+        return Response.json(
+          { error: error.message || 'Failed to refresh token' },
+          { status: 500 }
+        );
+      }
+    },
+
     /**
      * GET /api/integrate/oauth/status?provider=github
      * 
@@ -250,7 +310,7 @@ export function createNextOAuthHandler(config: OAuthHandlerConfig) {
         const result = await handler.handleStatus(provider, accessToken);
         return Response.json(result);
       } catch (error: any) {
-        console.error('[OAuth Status] Error:', error);
+        logger.error('[OAuth Status] Error', { error });
         return Response.json(
           { error: error.message || 'Failed to check authorization status' },
           { status: 500 }
@@ -311,7 +371,7 @@ export function createNextOAuthHandler(config: OAuthHandlerConfig) {
 
         const accessToken = authHeader.substring(7); // Remove 'Bearer ' prefix
         const body = await req.json();
-        const { provider } = body;
+        const { provider, accountId } = body;
 
         if (!provider) {
           return Response.json(
@@ -321,10 +381,10 @@ export function createNextOAuthHandler(config: OAuthHandlerConfig) {
         }
 
         // Pass the request object for context extraction
-        const result = await handler.handleDisconnect({ provider }, accessToken, req);
+        const result = await handler.handleDisconnect({ provider, accountId }, accessToken, req);
         return Response.json(result);
       } catch (error: any) {
-        console.error('[OAuth Disconnect] Error:', error);
+        logger.error('[OAuth Disconnect] Error', { error });
         return Response.json(
           { error: error.message || 'Failed to disconnect provider' },
           { status: 500 }
@@ -360,7 +420,7 @@ export function createNextOAuthHandler(config: OAuthHandlerConfig) {
     createRoutes() {
       return {
         /**
-         * POST handler for authorize, callback, and disconnect actions
+         * POST handler for authorize, callback, disconnect, and refresh actions
          */
         async POST(
           req: NextRequest,
@@ -382,6 +442,10 @@ export function createNextOAuthHandler(config: OAuthHandlerConfig) {
             return handlers.disconnect(req);
           }
 
+          if (action === 'refresh') {
+            return handlers.refresh(req);
+          }
+
           if (action === 'mcp') {
             return handlers.mcp(req);
           }
@@ -428,6 +492,14 @@ export function createNextOAuthHandler(config: OAuthHandlerConfig) {
      * }
      * ```
      * 
+     * Resource and prompt requests send a JSON-RPC method and params instead:
+     * ```json
+     * {
+     *   "method": "resources/read",
+     *   "params": { "uri": "notion://pages/abc123" }
+     * }
+     * ```
+     * 
      * Headers:
      * - Authorization: Bearer <provider_access_token>
      * 
@@ -443,13 +515,15 @@ export function createNextOAuthHandler(config: OAuthHandlerConfig) {
       try {
         const body = await req.json();
         const authHeader = req.headers.get('authorization');
-        const result = await handler.handleToolCall(body, authHeader);
+        const result = typeof body?.method === 'string'
+          ? await handler.handleMCPRequest(body, authHeader, req.signal, req)
+          : await handler.handleToolCall(body, authHeader, req.signal, req);
         return Response.json(result);
       } catch (error: any) {
-        console.error('[MCP Tool Call] Error:', error);
+        logger.error('[MCP Tool Call] Error', { error });
         return Response.json(
           { error: error.message || 'Failed to execute tool call' },
-          { status: error.statusCode || 500 }
+          getMCPErrorResponseInit(error)
         );
       }
     },
@@ -488,6 +562,7 @@ export function createNextOAuthHandler(config: OAuthHandlerConfig) {
      * - GET /api/integrate/oauth/callback - Provider OAuth redirect
      * - GET /api/integrate/oauth/status - Check authorization status
      * - POST /api/integrate/oauth/disconnect - Disconnect provider
+     * - POST /api/integrate/oauth/refresh - Refresh provider token
      * - POST /api/integrate/mcp - Execute MCP tool calls
      */
     toNextJsHandler(redirectConfig?: {
@@ -501,7 +576,7 @@ export function createNextOAuthHandler(config: OAuthHandlerConfig) {
 
       return {
         /**
-         * POST handler for authorize, callback, and disconnect actions
+         * POST handler for authorize, callback, disconnect, and refresh actions
          */
         async POST(
           req: NextRequest,
@@ -527,6 +602,10 @@ export function createNextOAuthHandler(config: OAuthHandlerConfig) {
               return handlers.disconnect(req);
             }
 
+            if (action === 'refresh') {
+              return handlers.refresh(req);
+            }
+
             return Response.json(
               { error: `Unknown action: ${action}` },
               { status: 404 }
@@ -576,7 +655,7 @@ export function createNextOAuthHandler(config: OAuthHandlerConfig) {
               // Handle OAuth error
               if (error) {
                 const errorMsg = errorDescription || error;
-                console.error('[OAuth Redirect] Error:', errorMsg);
+                logger.error('[OAuth Redirect] Error', { error: errorMsg });
 
                 return Response.redirect(
                   new URL(`${errorRedirectUrl}?error=${encodeURIComponent(errorMsg)}`, req.url)
@@ -585,7 +664,7 @@ export function createNextOAuthHandler(config: OAuthHandlerConfig) {
 
               // Validate required parameters
               if (!code || !state) {
-                console.error('[OAuth Redirect] Missing code or state parameter');
+                logger.error('[OAuth Redirect] Missing code or state parameter');
 
                 return Response.redirect(
                   new URL(`${errorRedirectUrl}?error=${encodeURIComponent('Invalid OAuth callback')}`, req.url)
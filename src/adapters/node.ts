@@ -4,6 +4,7 @@
  */
 
 import { OAuthHandler, type OAuthHandlerConfig } from './base-handler.js';
+import { resolveLogger } from '../utils/logger.js';
 import type { IncomingHttpHeaders, IncomingMessage, ServerResponse } from 'http';
 
 /**
@@ -109,6 +110,7 @@ async function sendWebResponse(webRes: Response, nodeRes: ServerResponse): Promi
  */
 export function toNodeHandler(config: OAuthHandlerConfig) {
   const oauthHandler = new OAuthHandler(config);
+  const logger = resolveLogger(config.logger);
 
   return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
     try {
@@ -162,7 +164,7 @@ export function toNodeHandler(config: OAuthHandlerConfig) {
           } else {
             const accessToken = authHeader.substring(7);
             const body = await webReq.json();
-            const { provider } = body;
+            const { provider, accountId } = body;
 
             if (!provider) {
               webRes = new Response(
@@ -174,13 +176,20 @@ export function toNodeHandler(config: OAuthHandlerConfig) {
               );
             } else {
               // Pass the request object for context extraction
-              const result = await oauthHandler.handleDisconnect({ provider }, accessToken, webReq);
+              const result = await oauthHandler.handleDisconnect({ provider, accountId }, accessToken, webReq);
               webRes = new Response(JSON.stringify(result), {
                 status: 200,
                 headers: { 'Content-Type': 'application/json' },
               });
             }
           }
+        } else if (action === 'refresh') {
+          // Pass full Web Request for context detection
+          const result = await oauthHandler.handleRefresh(webReq);
+          webRes = new Response(JSON.stringify(result), {
+            status: 200,
+            headers: { 'Content-Type': 'application/json' },
+          });
         } else {
           webRes = new Response(
             JSON.stringify({ error: `Unknown action: ${action}` }),
@@ -232,7 +241,7 @@ export function toNodeHandler(config: OAuthHandlerConfig) {
 
       await sendWebResponse(webRes, res);
     } catch (error: any) {
-      console.error('[OAuth Handler] Error:', error);
+      logger.error('[OAuth Handler] Error', { error });
       const errorRes = new Response(
         JSON.stringify({ error: error.message || 'Internal server error' }),
         {
@@ -5,8 +5,15 @@
  */
 
 import type { MCPClient } from "../client.js";
-import type { MCPTool } from "../protocol/messages.js";
-import { executeToolWithToken, ensureClientConnected, getProviderTokens, type AIToolsOptions } from "./utils.js";
+import type { MCPTool, MCPGetPromptResponse } from "../protocol/messages.js";
+import {
+  executeToolWithToken,
+  ensureClientConnected,
+  getProviderTokens,
+  getPromptContentText,
+  getPromptContentData,
+  type AIToolsOptions
+} from "./utils.js";
 import type Anthropic from "@anthropic-ai/sdk";
 
 /**
@@ -48,6 +55,17 @@ export interface AnthropicToolResultBlock {
   content: string;
 }
 
+/**
+ * Anthropic message built from an MCP prompt message
+ */
+export interface AnthropicPromptMessage {
+  role: 'user' | 'assistant';
+  content: Array<
+    | { type: 'text'; text: string }
+    | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } }
+  >;
+}
+
 /**
  * Convert a single MCP tool to Anthropic Claude API format
  * 
@@ -308,3 +326,49 @@ export async function handleAnthropicMessage(
   ];
 }
 
+/**
+ * Convert an MCP prompt into Anthropic Messages API messages
+ * 
+ * Text and embedded text resources become text blocks, images become base64
+ * image blocks. Content Claude cannot accept (audio, other binary resources)
+ * is skipped.
+ * 
+ * @param prompt - Prompt returned by client.getPrompt()
+ * @returns Messages ready to pass to `anthropic.messages.create`
+ * 
+ * @example
+ * ```typescript
+ * const prompt = await serverClient.getPrompt('triage_issue', { issue: '42' });
+ * 
+ * const message = await anthropic.messages.create({
+ *   model: 'claude-sonnet-4-5',
+ *   max_tokens: 1024,
+ *   messages: convertPromptToAnthropicMessages(prompt),
+ *   tools: await getAnthropicTools(serverClient),
+ * });
+ * ```
+ */
+export function convertPromptToAnthropicMessages(prompt: MCPGetPromptResponse): AnthropicPromptMessage[] {
+  const messages: AnthropicPromptMessage[] = [];
+
+  for (const message of prompt.messages) {
+    const text = getPromptContentText(message.content);
+    if (text !== undefined) {
+      messages.push({ role: message.role, content: [{ type: 'text', text }] });
+      continue;
+    }
+
+    const binary = getPromptContentData(message.content);
+    if (binary && message.content.type === 'image') {
+      messages.push({
+        role: message.role,
+        content: [{
+          type: 'image',
+          source: { type: 'base64', media_type: binary.mimeType, data: binary.data },
+        }],
+      });
+    }
+  }
+
+  return messages;
+}
@@ -5,8 +5,15 @@
  */
 
 import type { MCPClient } from "../client.js";
-import type { MCPTool } from "../protocol/messages.js";
-import { executeToolWithToken, ensureClientConnected, getProviderTokens, type AIToolsOptions } from "./utils.js";
+import type { MCPTool, MCPGetPromptResponse } from "../protocol/messages.js";
+import {
+  executeToolWithToken,
+  ensureClientConnected,
+  getProviderTokens,
+  getPromptContentText,
+  getPromptContentData,
+  type AIToolsOptions
+} from "./utils.js";
 
 // Type-only imports from @google/genai
 // These will match exactly what the @google/genai SDK expects
@@ -14,12 +21,14 @@ import type {
   Schema,
   FunctionDeclaration,
   FunctionCall,
+  Content,
   Type
 } from "@google/genai";
 
 // Export with aliases for convenience
 export type GoogleTool = FunctionDeclaration;
 export type GoogleFunctionCall = FunctionCall;
+export type GoogleContent = Content;
 export type { Schema, Type };
 
 /**
@@ -331,3 +340,45 @@ export async function getGoogleTools(
   );
 }
 
+/**
+ * Convert an MCP prompt into Google GenAI contents
+ * 
+ * Assistant turns map to the `model` role. Text and embedded text resources
+ * become text parts; images, audio and binary resources become `inlineData` parts.
+ * 
+ * @param prompt - Prompt returned by client.getPrompt()
+ * @returns Contents ready to pass to `ai.models.generateContent`
+ * 
+ * @example
+ * ```typescript
+ * const prompt = await serverClient.getPrompt('triage_issue', { issue: '42' });
+ * 
+ * const response = await ai.models.generateContent({
+ *   model: 'gemini-2.0-flash-001',
+ *   contents: convertPromptToGoogleMessages(prompt),
+ *   config: {
+ *     tools: [{ functionDeclarations: await getGoogleTools(serverClient) }],
+ *   },
+ * });
+ * ```
+ */
+export function convertPromptToGoogleMessages(prompt: MCPGetPromptResponse): GoogleContent[] {
+  const contents: GoogleContent[] = [];
+
+  for (const message of prompt.messages) {
+    const role = message.role === 'assistant' ? 'model' : 'user';
+
+    const text = getPromptContentText(message.content);
+    if (text !== undefined) {
+      contents.push({ role, parts: [{ text }] });
+      continue;
+    }
+
+    const binary = getPromptContentData(message.content);
+    if (binary) {
+      contents.push({ role, parts: [{ inlineData: { mimeType: binary.mimeType, data: binary.data } }] });
+    }
+  }
+
+  return contents;
+}
@@ -7,31 +7,39 @@
 // Re-export allowed provider integrations
 export {
   getVercelAITools,
+  convertPromptToVercelAIMessages,
   type VercelAITool,
-  type VercelAIToolsOptions
+  type VercelAIToolsOptions,
+  type VercelAIPromptMessage
 } from "./vercel-ai.js";
 
 export {
   getOpenAITools,
   handleOpenAIResponse,
+  convertPromptToOpenAIMessages,
   type OpenAITool,
-  type OpenAIToolsOptions
+  type OpenAIToolsOptions,
+  type OpenAIPromptMessage
 } from "./openai.js";
 
 export {
   getAnthropicTools,
   handleAnthropicMessage,
+  convertPromptToAnthropicMessages,
   type AnthropicTool,
   type AnthropicToolsOptions,
   type AnthropicToolUseBlock,
-  type AnthropicToolResultBlock
+  type AnthropicToolResultBlock,
+  type AnthropicPromptMessage
 } from "./anthropic.js";
 
 export {
   getGoogleTools,
   executeGoogleFunctionCalls,
+  convertPromptToGoogleMessages,
   type GoogleTool,
   type GoogleFunctionCall,
+  type GoogleContent,
   type GoogleToolsOptions
 } from "./google.js";
 
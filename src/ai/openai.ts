@@ -5,8 +5,15 @@
  */
 
 import type { MCPClient } from "../client.js";
-import type { MCPTool } from "../protocol/messages.js";
-import { executeToolWithToken, ensureClientConnected, getProviderTokens, type AIToolsOptions } from "./utils.js";
+import type { MCPTool, MCPGetPromptResponse } from "../protocol/messages.js";
+import {
+  executeToolWithToken,
+  ensureClientConnected,
+  getProviderTokens,
+  getPromptContentText,
+  getPromptContentData,
+  type AIToolsOptions
+} from "./utils.js";
 import type { OpenAI } from "openai";
 
 /**
@@ -23,6 +30,19 @@ export interface OpenAITool {
   description?: string | null;
 }
 
+/**
+ * OpenAI Responses API input message
+ * Built from MCP prompt messages by convertPromptToOpenAIMessages
+ */
+export interface OpenAIPromptMessage {
+  type: 'message';
+  role: 'user' | 'assistant';
+  content: string | Array<
+    | { type: 'input_text'; text: string }
+    | { type: 'input_image'; image_url: string; detail: 'auto' }
+  >;
+}
+
 /**
  * Options for converting MCP tools to OpenAI format
  */
@@ -289,3 +309,50 @@ export async function handleOpenAIResponse(
   return handleOpenAIToolCalls(client, functionCalls, finalOptions);
 }
 
+/**
+ * Convert an MCP prompt into OpenAI Responses API input messages
+ * 
+ * Text and embedded text resources become text content, user images become
+ * `input_image` data URLs. Content OpenAI cannot accept as input (audio, binary
+ * resources, images in assistant turns) is skipped.
+ * 
+ * @param prompt - Prompt returned by client.getPrompt()
+ * @returns Messages ready to pass as (or prepend to) the `input` of a Responses API request
+ * 
+ * @example
+ * ```typescript
+ * const prompt = await serverClient.getPrompt('triage_issue', { issue: '42' });
+ * 
+ * const response = await openai.responses.create({
+ *   model: 'gpt-4o-2024-11-20',
+ *   input: convertPromptToOpenAIMessages(prompt),
+ *   tools: await getOpenAITools(serverClient),
+ * });
+ * ```
+ */
+export function convertPromptToOpenAIMessages(prompt: MCPGetPromptResponse): OpenAIPromptMessage[] {
+  const messages: OpenAIPromptMessage[] = [];
+
+  for (const message of prompt.messages) {
+    const text = getPromptContentText(message.content);
+    if (text !== undefined) {
+      messages.push({ type: 'message', role: message.role, content: text });
+      continue;
+    }
+
+    const binary = getPromptContentData(message.content);
+    if (binary && message.content.type === 'image' && message.role === 'user') {
+      messages.push({
+        type: 'message',
+        role: 'user',
+        content: [{
+          type: 'input_image',
+          image_url: `data:${binary.mimeType};base64,${binary.data}`,
+          detail: 'auto',
+        }],
+      });
+    }
+  }
+
+  return messages;
+}
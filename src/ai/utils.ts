@@ -6,6 +6,7 @@
 
 import { z } from "zod";
 import type { MCPClient } from "../client.js";
+import type { MCPPromptContent } from "../protocol/messages.js";
 
 /**
  * Options for AI provider tool conversions
@@ -260,6 +261,38 @@ export async function ensureClientConnected(client: MCPClient<any>): Promise<voi
   }
 }
 
+/**
+ * Get the text of a prompt content block
+ * Embedded text resources are inlined as their text; binary content returns undefined
+ * @internal
+ */
+export function getPromptContentText(content: MCPPromptContent): string | undefined {
+  if (content.type === 'text') {
+    return content.text;
+  }
+  if (content.type === 'resource') {
+    return content.resource.text;
+  }
+  return undefined;
+}
+
+/**
+ * Get the base64 data and MIME type of binary prompt content (images, audio, blob resources)
+ * @internal
+ */
+export function getPromptContentData(content: MCPPromptContent): { data: string; mimeType: string } | undefined {
+  if (content.type === 'image' || content.type === 'audio') {
+    return { data: content.data, mimeType: content.mimeType };
+  }
+  if (content.type === 'resource' && content.resource.blob) {
+    return {
+      data: content.resource.blob,
+      mimeType: content.resource.mimeType || 'application/octet-stream',
+    };
+  }
+  return undefined;
+}
+
 /**
  * Re-export token extraction utilities
  * These help extract provider tokens from request headers automatically
@@ -6,13 +6,15 @@
 
 import { z } from "zod";
 import type { MCPClient } from "../client.js";
-import type { MCPTool } from "../protocol/messages.js";
+import type { MCPTool, MCPGetPromptResponse } from "../protocol/messages.js";
 import type { MCPContext } from "../config/types.js";
 import {
   jsonSchemaToZod,
   ensureClientConnected,
   getProviderTokens,
   executeToolWithToken,
+  getPromptContentText,
+  getPromptContentData,
   type AIToolsOptions
 } from "./utils.js";
 
@@ -26,6 +28,23 @@ export interface VercelAITool {
   execute: (args: any, options?: any) => Promise<any>;
 }
 
+/**
+ * Message compatible with the Vercel AI SDK v5 ModelMessage type
+ * Built from MCP prompt messages by convertPromptToVercelAIMessages
+ */
+export type VercelAIPromptMessage =
+  | {
+    role: 'user';
+    content: string | Array<
+      | { type: 'image'; image: string; mediaType: string }
+      | { type: 'file'; data: string; mediaType: string }
+    >;
+  }
+  | {
+    role: 'assistant';
+    content: string | Array<{ type: 'file'; data: string; mediaType: string }>;
+  };
+
 /**
  * Options for converting MCP tools to Vercel AI SDK format
  */
@@ -144,3 +163,53 @@ export async function getVercelAITools(
   return vercelTools;
 }
 
+/**
+ * Convert an MCP prompt into Vercel AI SDK messages
+ * 
+ * Text and embedded text resources become string content. User images become
+ * image parts; audio, binary resources and assistant images become file parts.
+ * 
+ * @param prompt - Prompt returned by client.getPrompt()
+ * @returns Messages ready to pass to `generateText` / `streamText`
+ * 
+ * @example
+ * ```typescript
+ * const prompt = await serverClient.getPrompt('triage_issue', { issue: '42' });
+ * 
+ * const result = streamText({
+ *   model: "openai/gpt-4",
+ *   messages: [...convertPromptToVercelAIMessages(prompt), ...messages],
+ *   tools: await getVercelAITools(serverClient),
+ * });
+ * ```
+ */
+export function convertPromptToVercelAIMessages(prompt: MCPGetPromptResponse): VercelAIPromptMessage[] {
+  const messages: VercelAIPromptMessage[] = [];
+
+  for (const message of prompt.messages) {
+    const text = getPromptContentText(message.content);
+    if (text !== undefined) {
+      messages.push({ role: message.role, content: text });
+      continue;
+    }
+
+    const binary = getPromptContentData(message.content);
+    if (!binary) {
+      continue;
+    }
+
+    if (message.role === 'user' && message.content.type === 'image') {
+      messages.push({
+        role: 'user',
+        content: [{ type: 'image', image: binary.data, mediaType: binary.mimeType }],
+      });
+    } else {
+      messages.push({
+        role: message.role,
+        content: [{ type: 'file', data: binary.data, mediaType: binary.mimeType }],
+      });
+    }
+  }
+
+  return messages;
+}
@@ -4,25 +4,64 @@
  */
 
 import { HttpSessionTransport } from "./transport/http-session.js";
+import { HttpStreamTransport } from "./transport/http-stream.js";
+import type { MCPTransport } from "./transport/types.js";
 import type {
   MCPTool,
   MCPToolsListResponse,
   MCPToolCallResponse,
   MCPInitializeParams,
   MCPInitializeResponse,
+  MCPResourcesListResponse,
+  MCPResourceTemplatesListResponse,
+  MCPResourceReadResponse,
+  MCPPromptsListResponse,
+  MCPGetPromptParams,
+  MCPGetPromptResponse,
+  MCPProgressNotificationParams,
 } from "./protocol/messages.js";
-import { MCPMethod } from "./protocol/messages.js";
-import type { MCPIntegration, OAuthConfig } from "./integrations/types.js";
-import type { MCPClientConfig, ReauthHandler, ToolCallOptions, MCPContext } from "./config/types.js";
+import {
+  MCPMethod,
+  MCPNotification,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  LATEST_PROTOCOL_VERSION,
+} from "./protocol/messages.js";
+import type { MCPIntegration, OAuthConfig, ExtractIntegrationClient } from "./integrations/types.js";
+import type {
+  MCPClientConfig,
+  ReauthHandler,
+  ToolCallOptions,
+  PaginateOptions,
+  ToolProgressHandler,
+  ResourceRequestOptions,
+  ListRequestOptions,
+  MCPContext,
+  ToolCallMiddleware,
+  ToolCallMiddlewareContext,
+  ToolEventListener,
+  ToolStartEvent,
+  ToolSuccessEvent,
+  ToolErrorEvent,
+} from "./config/types.js";
 import {
   parseServerError,
   isAuthError,
+  ConnectionError,
+  ValidationError,
+  AuthorizationError,
   type AuthenticationError,
 } from "./errors.js";
 import { methodToToolName } from "./utils/naming.js";
-import type { GitHubIntegrationClient } from "./integrations/github-client.js";
-import type { GmailIntegrationClient } from "./integrations/gmail-client.js";
-import type { NotionIntegrationClient } from "./integrations/notion-client.js";
+import { runToolCallMiddleware } from "./utils/middleware.js";
+import { observeToolCall } from "./utils/tool-events.js";
+import { resolveLogger, type Logger } from "./utils/logger.js";
+import { withSpan, getTraceHeaders, SpanName, SpanAttribute, type Tracer, type TraceSpan } from "./utils/tracing.js";
+import { parseToolResult } from "./utils/tool-result.js";
+import { ToolResultCache, type ToolCacheStats } from "./utils/tool-cache.js";
+import { getRetryDelay, waitForRetry, type RetryPolicy } from "./utils/retry.js";
+import { ToolCallLimiter, getDedupeKey, type ToolCallLimiterStats } from "./utils/tool-call-limiter.js";
+import { paginate } from "./utils/pagination.js";
+import { validateToolArguments, formatValidationIssues } from "./utils/validation.js";
 import type { ServerIntegrationClient } from "./integrations/server-client.js";
 import { OAuthManager } from "./oauth/manager.js";
 import type {
@@ -37,11 +76,13 @@ import type {
 } from "./oauth/types.js";
 
 /**
- * Simple EventEmitter implementation for OAuth events
+ * Simple EventEmitter implementation for OAuth and tool call events
  */
 class SimpleEventEmitter {
   private handlers: Map<string, Set<OAuthEventHandler>> = new Map();
 
+  constructor(private logger: Logger) {}
+
   on(event: string, handler: OAuthEventHandler): void {
     if (!this.handlers.has(event)) {
       this.handlers.set(event, new Set());
@@ -63,7 +104,7 @@ class SimpleEventEmitter {
         try {
           handler(payload);
         } catch (error) {
-          console.error(`Error in event handler for ${event}:`, error);
+          this.logger.error(`Error in event handler for ${event}`, { error });
         }
       });
     }
@@ -108,28 +149,14 @@ export interface ToolInvocationOptions {
   arguments?: Record<string, unknown>;
 }
 
-/**
- * Extract all integration IDs from a integrations array as a union
- */
-type ExtractIntegrationId<T> = T extends { id: infer Id } ? Id : never;
-type IntegrationIds<TIntegrations extends readonly MCPIntegration[]> = ExtractIntegrationId<TIntegrations[number]>;
-
 /**
  * Integration namespace type mapping - only includes properties for configured integrations
+ * Each integration contributes `client.<id>` typed by its TClient parameter;
+ * integrations without a literal id (plain `string`) get no namespace type
  * Uses a single mapped type to avoid intersection issues with IDE autocomplete
  */
 type IntegrationNamespaces<TIntegrations extends readonly MCPIntegration[]> = {
-  [K in IntegrationIds<TIntegrations> as K extends "github" 
-    ? "github" 
-    : K extends "gmail" 
-    ? "gmail"
-    : K extends "notion"
-    ? "notion"
-    : never]: 
-      K extends "github" ? GitHubIntegrationClient :
-      K extends "gmail" ? GmailIntegrationClient :
-      K extends "notion" ? NotionIntegrationClient :
-      never;
+  [I in TIntegrations[number] as string extends I["id"] ? never : I["id"]]: ExtractIntegrationClient<I>;
 };
 
 /**
@@ -147,18 +174,29 @@ export type MCPClient<TIntegrations extends readonly MCPIntegration[] = readonly
  * @internal
  */
 export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = readonly MCPIntegration[]> {
-  private transport: HttpSessionTransport;
+  private transport: MCPTransport;
+  private hasCustomTransport: boolean;
+  private middleware: ToolCallMiddleware[];
+  private tracer?: Tracer;
+  private toolCache?: ToolResultCache;
+  private retryPolicy?: RetryPolicy;
+  private validateArguments: 'off' | 'warn' | 'strict';
+  private onMissingScopes: 'error' | 'authorize' | 'ignore';
   private integrations: TIntegrations;
   private availableTools: Map<string, MCPTool> = new Map();
   private enabledToolNames: Set<string> = new Set();
   private initialized = false;
+  private protocolVersion?: string;
+  private serverCapabilities?: MCPInitializeResponse["capabilities"];
+  private serverInfo?: MCPInitializeResponse["serverInfo"];
   private clientInfo: { name: string; version: string };
   private onReauthRequired?: ReauthHandler;
   private maxReauthRetries: number;
   private authState: Map<string, { authenticated: boolean; lastError?: AuthenticationError }> = new Map();
   private oauthManager: OAuthManager;
-  private eventEmitter: SimpleEventEmitter = new SimpleEventEmitter();
+  private eventEmitter: SimpleEventEmitter;
   private apiRouteBase: string;
+  private progressTokenCounter = 0;
   private apiBaseUrl?: string;
   
   /**
@@ -167,15 +205,45 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
    */
   oauthCallbackPromise?: Promise<void> | null;
 
+  /**
+   * Logger for the client's internal logging, with secrets redacted
+   * Integrations can log through it from their lifecycle hooks
+   */
+  readonly logger: Logger;
+
+  /**
+   * Deduplication and per-provider concurrency limits for tool calls
+   * @internal Shared with the /mcp route by createMCPServer
+   */
+  readonly toolCallLimiter: ToolCallLimiter;
+
+  /**
+   * Emit a tool call lifecycle event to `tool:*` listeners
+   * @internal Used by createMCPServer to report calls made through the /mcp route
+   */
+  readonly emitToolEvent: ToolEventListener = (event, payload) => {
+    this.eventEmitter.emit(event, payload);
+  };
+
   // Server namespace - always available for server-level tools
   public readonly server!: ServerIntegrationClient;
 
   constructor(config: MCPClientConfig<TIntegrations>) {
-    this.transport = new HttpSessionTransport({
-      url: config.serverUrl || MCP_SERVER_URL,
-      headers: config.headers,
-      timeout: config.timeout,
+    this.logger = resolveLogger(config.logger);
+    this.eventEmitter = new SimpleEventEmitter(this.logger);
+    this.transport = this.createTransport(config);
+    this.hasCustomTransport = typeof config.transport === 'object';
+    this.middleware = config.middleware || [];
+    this.tracer = config.tracer;
+    this.toolCache = config.cache ? new ToolResultCache(config.cache) : undefined;
+    this.retryPolicy = config.retry;
+    this.toolCallLimiter = new ToolCallLimiter({
+      concurrency: config.concurrency,
+      maxQueueWait: config.maxQueueWait,
+      dedupeRequests: config.dedupeRequests,
     });
+    this.validateArguments = config.validateArguments ?? 'off';
+    this.onMissingScopes = config.onMissingScopes ?? 'error';
 
     // Note: API key is only set server-side via createMCPServer()
     // Client-side instances should never have access to the API key
@@ -220,8 +288,11 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
         getProviderToken: (config as any).getProviderToken,
         setProviderToken: (config as any).setProviderToken,
         removeProviderToken: (config as any).removeProviderToken,
+        listProviderAccounts: (config as any).listProviderAccounts,
+        refreshProviderToken: (config as any).refreshProviderToken,
         skipLocalStorage: config.skipLocalStorage,
-      }
+      },
+      this.logger
     );
 
     // Collect all enabled tool names from integrations
@@ -264,7 +335,7 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
                 this.authState.set(provider, { authenticated: !!tokenData });
               }
             } catch (error) {
-              console.error(`Failed to check token for ${provider}:`, error);
+              this.logger.error(`Failed to check token for ${provider}`, { error });
               // Only set to false if state hasn't been modified
               const currentState = this.authState.get(provider);
               if (currentState && !currentState.authenticated && !currentState.lastError) {
@@ -274,7 +345,7 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
           }
         }
       }).catch(error => {
-        console.error('Failed to load provider tokens:', error);
+        this.logger.error('Failed to load provider tokens', { error });
       });
     } else {
       // localStorage: Load tokens synchronously for immediate availability
@@ -295,25 +366,56 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
       }
     }
 
-    // Initialize integration namespaces dynamically based on configuration
-    const integrationIds = this.integrations.map(i => i.id);
-    if (integrationIds.includes("github")) {
-      (this as any).github = this.createIntegrationProxy("github");
-    }
-    if (integrationIds.includes("gmail")) {
-      (this as any).gmail = this.createIntegrationProxy("gmail");
-    }
-    if (integrationIds.includes("notion")) {
-      (this as any).notion = this.createIntegrationProxy("notion");
-    }
-    
     // Server namespace is always available
     this.server = this.createServerProxy() as any;
 
+    // Initialize a namespace for every configured integration
+    for (const integration of this.integrations) {
+      if (integration.id in this) {
+        this.logger.warn(
+          `Integration "${integration.id}" conflicts with a client property; use _callToolByName() for its tools`
+        );
+        continue;
+      }
+      (this as any)[integration.id] = this.createIntegrationProxy(integration.id);
+    }
+
     // Initialize integrations
     this.initializeIntegrations();
   }
 
+  /**
+   * Create the transport selected by config.transport
+   * Custom transports are used as-is; serverUrl, headers and timeout only apply to the built-in ones
+   */
+  private createTransport(config: MCPClientConfig<TIntegrations>): MCPTransport {
+    const transport = config.transport ?? 'http-session';
+    if (typeof transport === 'object') {
+      return transport;
+    }
+
+    const url = config.serverUrl || MCP_SERVER_URL;
+    switch (transport) {
+      case 'http-session':
+        return new HttpSessionTransport({
+          url,
+          headers: config.headers,
+          timeout: config.timeout,
+          onSessionExpired: () => this.reinitializeSession(),
+          logger: this.logger,
+        });
+      case 'http-stream':
+        return new HttpStreamTransport({
+          url,
+          headers: config.headers,
+          timeout: config.timeout,
+          logger: this.logger,
+        });
+      default:
+        throw new Error(`Unknown transport: ${String(transport)}`);
+    }
+  }
+
   /**
    * Get default redirect URI for OAuth flows
    * Uses window.location.origin + OAuth API base path
@@ -350,17 +452,65 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
     
     return new Proxy({}, {
       get: (_target, methodName: string) => {
+        if (methodName === "paginate") {
+          return this.createPaginationProxy(integrationId);
+        }
+
         // Return a function that calls the tool
-        return async (args?: Record<string, unknown>, options?: ToolCallOptions) => {
-          // When routing through API handlers, skip ensureConnected
-          // The tool will be validated by the server-side handler
-          const toolName = methodToToolName(methodName, integrationId);
-          return await this.callToolWithRetry(toolName, args, 0, options);
+        return (args?: Record<string, unknown>, options?: ToolCallOptions) =>
+          this.callIntegrationMethod(integrationId, methodName, args, options);
+      },
+    });
+  }
+
+  /**
+   * Create the `paginate` namespace of an integration proxy
+   * Each method returns an AsyncIterable over the items of every page
+   */
+  private createPaginationProxy(integrationId: string): any {
+    return new Proxy({}, {
+      get: (_target, methodName: string) => {
+        return (args?: Record<string, unknown>, options: PaginateOptions = {}) => {
+          const strategy = this.integrations.find(i => i.id === integrationId)?.pagination;
+          if (!strategy) {
+            throw new Error(`Integration "${integrationId}" does not support pagination`);
+          }
+
+          const { maxItems, maxPages, ...callOptions } = options;
+          return paginate(
+            (pageArgs) => this.callIntegrationMethod(integrationId, methodName, pageArgs, callOptions),
+            strategy,
+            { ...args },
+            { maxItems, maxPages }
+          );
         };
       },
     });
   }
 
+  /**
+   * Call an integration method's tool and parse its result
+   */
+  private async callIntegrationMethod(
+    integrationId: string,
+    methodName: string,
+    args?: Record<string, unknown>,
+    options?: ToolCallOptions
+  ): Promise<unknown> {
+    // When routing through API handlers, skip ensureConnected
+    // The tool will be validated by the server-side handler
+    const toolName = methodToToolName(methodName, integrationId);
+    const response = await this.callToolWithMiddleware(
+      toolName,
+      args,
+      this.getProviderForTool(toolName),
+      options,
+      (finalArgs, finalOptions) => this.callToolWithRetry(toolName, finalArgs, 0, finalOptions)
+    );
+    // Typed integration methods return data; getRawResponse() recovers the response
+    return parseToolResult(response, toolName);
+  }
+
   /**
    * Create a proxy for the server namespace that handles server-level tools
    */
@@ -373,7 +523,13 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
           const toolName = methodToToolName(methodName, "");
           // Remove leading underscore if present
           const finalToolName = toolName.startsWith("_") ? toolName.substring(1) : toolName;
-          return await this.callServerToolInternal(finalToolName, args, options);
+          return await this.callToolWithMiddleware(
+            finalToolName,
+            args,
+            undefined,
+            options,
+            (finalArgs, finalOptions) => this.callServerToolInternal(finalToolName, finalArgs, finalOptions)
+          );
         };
       },
     });
@@ -387,16 +543,53 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
     args?: Record<string, unknown>,
     options?: ToolCallOptions
   ): Promise<MCPToolCallResponse> {
-    // When routing through API handlers, server-side validates tools
-    try {
-      // Route through API handler (server tools don't have providers)
-      const response = await this.callToolThroughHandler(name, args, undefined, options);
-      return response;
-    } catch (error) {
-      // For server tools, we don't have provider info, so just parse the error
-      const parsedError = parseServerError(error, { toolName: name });
-      throw parsedError;
-    }
+    return await withSpan(this.tracer, SpanName.TOOL_CALL, { [SpanAttribute.TOOL_NAME]: name }, (span) =>
+      observeToolCall(
+        this.emitToolEvent,
+        { toolName: name, args, retryCount: 0 },
+        async () => {
+          this.checkToolArguments(name, args);
+
+          // When routing through API handlers, server-side validates tools
+          try {
+            // Route through API handler (server tools don't have providers)
+            const response = await this.callToolThroughHandler(name, args, undefined, options, span);
+            return response;
+          } catch (error) {
+            if (options?.signal?.aborted) {
+              throw error;
+            }
+            // For server tools, we don't have provider info, so just parse the error
+            const parsedError = parseServerError(error, { toolName: name });
+            throw parsedError;
+          }
+        }
+      )
+    );
+  }
+
+  /**
+   * Run a tool call through the configured middleware
+   * `invoke` performs the call with the arguments and context the middleware left
+   */
+  private async callToolWithMiddleware(
+    name: string,
+    args: Record<string, unknown> | undefined,
+    provider: string | undefined,
+    options: ToolCallOptions | undefined,
+    invoke: (args: Record<string, unknown>, options?: ToolCallOptions) => Promise<MCPToolCallResponse>
+  ): Promise<MCPToolCallResponse> {
+    const ctx: ToolCallMiddlewareContext = {
+      toolName: name,
+      arguments: args || {},
+      provider,
+      context: options?.context,
+      signal: options?.signal,
+    };
+
+    return await runToolCallMiddleware(this.middleware, ctx, (finalCtx) =>
+      invoke(finalCtx.arguments, { ...options, context: finalCtx.context })
+    );
   }
 
   /**
@@ -413,7 +606,14 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
   /**
    * Connect to the MCP server
    */
-  async connect(): Promise<void> {
+  connect(): Promise<void> {
+    return withSpan(this.tracer, SpanName.CONNECT, {}, () => this.connectTransport());
+  }
+
+  /**
+   * Connect the transport, initialize the protocol and discover tools
+   */
+  private async connectTransport(): Promise<void> {
     // Call onBeforeConnect hooks
     for (const integration of this.integrations) {
       if (integration.onBeforeConnect) {
@@ -440,10 +640,23 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
 
   /**
    * Initialize the MCP protocol
+   * Requests the latest supported protocol version and accepts any supported
+   * version the server answers with
+   */
+  private initialize(): Promise<MCPInitializeResponse> {
+    return withSpan(this.tracer, SpanName.INITIALIZE, {}, async (span) => {
+      const response = await this.sendInitialize(span);
+      span?.setAttribute(SpanAttribute.PROTOCOL_VERSION, response.protocolVersion);
+      return response;
+    });
+  }
+
+  /**
+   * Send initialize, check the negotiated version, and send notifications/initialized
    */
-  private async initialize(): Promise<MCPInitializeResponse> {
+  private async sendInitialize(span?: TraceSpan): Promise<MCPInitializeResponse> {
     const params: MCPInitializeParams = {
-      protocolVersion: "2024-11-05",
+      protocolVersion: LATEST_PROTOCOL_VERSION,
       capabilities: {
         tools: {},
       },
@@ -452,19 +665,58 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
 
     const response = await this.transport.sendRequest<MCPInitializeResponse>(
       MCPMethod.INITIALIZE,
-      params
+      params,
+      { headers: getTraceHeaders(span) }
     );
 
+    if (!SUPPORTED_PROTOCOL_VERSIONS.includes(response.protocolVersion)) {
+      throw new ConnectionError(
+        `MCP server selected unsupported protocol version "${response.protocolVersion}". ` +
+        `Supported versions: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}`
+      );
+    }
+
+    this.protocolVersion = response.protocolVersion;
+    this.serverCapabilities = response.capabilities;
+    this.serverInfo = response.serverInfo;
+
+    // Streamable HTTP servers expect the negotiated version on every later request
+    this.transport.setHeader('MCP-Protocol-Version', response.protocolVersion);
+
+    try {
+      await this.transport.sendNotification?.(MCPNotification.INITIALIZED);
+    } catch (error) {
+      this.logger.error('Failed to send initialized notification', { error });
+    }
+
     this.initialized = true;
     return response;
   }
 
+  /**
+   * Re-establish the MCP session after the server discarded it
+   * Called by the transport before it replays the request that hit the stale session
+   */
+  private async reinitializeSession(): Promise<void> {
+    await this.initialize();
+    await this.discoverTools();
+  }
+
   /**
    * Discover available tools from the server
    */
-  private async discoverTools(): Promise<void> {
+  private discoverTools(): Promise<void> {
+    return withSpan(this.tracer, SpanName.DISCOVER_TOOLS, {}, (span) => this.listTools(span));
+  }
+
+  /**
+   * Fetch tools/list and record the available tools
+   */
+  private async listTools(span?: TraceSpan): Promise<void> {
     const response = await this.transport.sendRequest<MCPToolsListResponse>(
-      MCPMethod.TOOLS_LIST
+      MCPMethod.TOOLS_LIST,
+      undefined,
+      { headers: getTraceHeaders(span) }
     );
 
     // Store all available tools
@@ -477,8 +729,9 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
       this.enabledToolNames.has(tool.name)
     );
 
-    console.log(
-      `Discovered ${response.tools.length} tools, ${enabledTools.length} enabled by integrations`
+    this.logger.info(
+      `Discovered ${response.tools.length} tools, ${enabledTools.length} enabled by integrations`,
+      { total: response.tools.length, enabled: enabledTools.length }
     );
   }
 
@@ -492,7 +745,13 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
     args?: Record<string, unknown>,
     options?: ToolCallOptions
   ): Promise<MCPToolCallResponse> {
-    return await this.callToolWithRetry(name, args, 0, options);
+    return await this.callToolWithMiddleware(
+      name,
+      args,
+      this.getProviderForTool(name),
+      options,
+      (finalArgs, finalOptions) => this.callToolWithRetry(name, finalArgs, 0, finalOptions)
+    );
   }
 
   /**
@@ -513,14 +772,240 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
   ): Promise<MCPToolCallResponse> {
     // When routing through API handlers, no initialization required
     // The server-side handler will validate tools
+    return await this.callToolWithMiddleware(name, args, undefined, undefined, (finalArgs) =>
+      this.callServerToolInternal(name, finalArgs)
+    );
+  }
+
+  /**
+   * Tool result cache hits, misses and invalidations (see the `cache` option)
+   * All counts are 0 when caching is not configured
+   * 
+   * @example
+   * ```typescript
+   * const { hits, misses } = client.getCacheStats();
+   * console.log(`Cache hit rate: ${hits / (hits + misses)}`);
+   * ```
+   */
+  getCacheStats(): ToolCacheStats {
+    return this.toolCache?.getStats() ?? { hits: 0, misses: 0, invalidations: 0 };
+  }
+
+  /**
+   * Queue metrics for providers with a concurrency limit, and the number of
+   * calls that shared an in-flight request (see `concurrency` and `dedupeRequests`)
+   * 
+   * @example
+   * ```typescript
+   * const { queues } = client.getQueueStats();
+   * console.log(`GitHub: ${queues.github?.active} active, ${queues.github?.queued} queued`);
+   * ```
+   */
+  getQueueStats(): ToolCallLimiterStats {
+    return this.toolCallLimiter.getStats();
+  }
+
+  /**
+   * List resources exposed by the MCP server
+   * 
+   * @param options - Optional cursor, provider and user context
+   * @returns One page of resources; pass `nextCursor` back as `cursor` for the next page
+   * 
+   * @example
+   * ```typescript
+   * const { resources } = await client.listResources({ provider: 'notion' });
+   * ```
+   */
+  async listResources(options?: ListRequestOptions): Promise<MCPResourcesListResponse> {
+    return await this.sendMCPRequest<MCPResourcesListResponse>(
+      MCPMethod.RESOURCES_LIST,
+      options?.cursor ? { cursor: options.cursor } : undefined,
+      options?.provider,
+      options
+    );
+  }
+
+  /**
+   * List resource templates (parameterized resource URIs) exposed by the MCP server
+   * 
+   * @param options - Optional cursor, provider and user context
+   */
+  async listResourceTemplates(options?: ListRequestOptions): Promise<MCPResourceTemplatesListResponse> {
+    return await this.sendMCPRequest<MCPResourceTemplatesListResponse>(
+      MCPMethod.RESOURCES_TEMPLATES_LIST,
+      options?.cursor ? { cursor: options.cursor } : undefined,
+      options?.provider,
+      options
+    );
+  }
+
+  /**
+   * Read the contents of a resource
+   * 
+   * The provider token is chosen from `options.provider`, or inferred from the
+   * URI scheme when it matches a configured OAuth provider.
+   * 
+   * @param uri - Resource URI (e.g., 'notion://pages/abc123')
+   * @param options - Optional provider and user context
+   * 
+   * @example
+   * ```typescript
+   * const { contents } = await client.readResource('github://repos/acme/app/contents/README.md');
+   * console.log(contents[0].text);
+   * ```
+   */
+  async readResource(uri: string, options?: ResourceRequestOptions): Promise<MCPResourceReadResponse> {
+    return await this.sendMCPRequest<MCPResourceReadResponse>(
+      MCPMethod.RESOURCES_READ,
+      { uri },
+      this.getProviderForResource(uri, options),
+      options
+    );
+  }
+
+  /**
+   * Subscribe to update notifications for a resource
+   * 
+   * Updates arrive as `notifications/resources/updated` messages through onMessage().
+   * Subscriptions are tied to the MCP session, so they are only available on
+   * server-side clients (createMCPServer) that have called connect().
+   * 
+   * @param uri - Resource URI to watch
+   * @param options - Optional provider and user context
+   * 
+   * @example
+   * ```typescript
+   * await client.subscribeResource('notion://pages/abc123');
+   * client.onMessage((message) => {
+   *   if ('method' in message && message.method === MCPNotification.RESOURCES_UPDATED) {
+   *     console.log('Updated:', message.params.uri);
+   *   }
+   * });
+   * ```
+   */
+  async subscribeResource(uri: string, options?: ResourceRequestOptions): Promise<void> {
+    this.assertSessionSupported('Resource subscriptions');
+    await this.sendMCPRequest(
+      MCPMethod.RESOURCES_SUBSCRIBE,
+      { uri },
+      this.getProviderForResource(uri, options),
+      options
+    );
+  }
+
+  /**
+   * Stop receiving update notifications for a resource
+   * 
+   * @param uri - Resource URI passed to subscribeResource()
+   * @param options - Optional provider and user context
+   */
+  async unsubscribeResource(uri: string, options?: ResourceRequestOptions): Promise<void> {
+    this.assertSessionSupported('Resource subscriptions');
+    await this.sendMCPRequest(
+      MCPMethod.RESOURCES_UNSUBSCRIBE,
+      { uri },
+      this.getProviderForResource(uri, options),
+      options
+    );
+  }
+
+  /**
+   * List prompt templates exposed by the MCP server
+   * 
+   * @param options - Optional cursor, provider and user context
+   * @returns One page of prompts; pass `nextCursor` back as `cursor` for the next page
+   */
+  async listPrompts(options?: ListRequestOptions): Promise<MCPPromptsListResponse> {
+    return await this.sendMCPRequest<MCPPromptsListResponse>(
+      MCPMethod.PROMPTS_LIST,
+      options?.cursor ? { cursor: options.cursor } : undefined,
+      options?.provider,
+      options
+    );
+  }
+
+  /**
+   * Get a prompt, rendered by the server with the given arguments
+   * 
+   * Use the AI adapters (e.g., convertPromptToOpenAIMessages) to turn the
+   * returned messages into a provider-specific conversation.
+   * 
+   * @param name - Prompt name from listPrompts()
+   * @param args - Prompt arguments (values are always strings per the MCP spec)
+   * @param options - Optional provider and user context
+   * 
+   * @example
+   * ```typescript
+   * const prompt = await client.getPrompt('summarize_issue', { issue: '42' });
+   * const messages = convertPromptToAnthropicMessages(prompt);
+   * ```
+   */
+  async getPrompt(
+    name: string,
+    args?: Record<string, string>,
+    options?: ResourceRequestOptions
+  ): Promise<MCPGetPromptResponse> {
+    const params: MCPGetPromptParams = { name };
+    if (args) {
+      params.arguments = args;
+    }
+
+    return await this.sendMCPRequest<MCPGetPromptResponse>(
+      MCPMethod.PROMPTS_GET,
+      params as unknown as Record<string, unknown>,
+      options?.provider,
+      options
+    );
+  }
+
+  /**
+   * Send a resource or prompt request and normalize errors
+   */
+  private async sendMCPRequest<T>(
+    method: MCPMethod,
+    params: Record<string, unknown> | undefined,
+    provider: string | undefined,
+    options?: ResourceRequestOptions
+  ): Promise<T> {
     try {
-      // Route through API handler (server tools don't have providers)
-      const response = await this.callToolThroughHandler(name, args);
-      return response;
+      return await this.sendThroughHandler<T>(method, params, provider, options);
     } catch (error) {
-      // For server tools, we don't have provider info, so just parse the error
-      const parsedError = parseServerError(error, { toolName: name });
-      throw parsedError;
+      if (options?.signal?.aborted) {
+        throw error;
+      }
+      throw parseServerError(error, { provider });
+    }
+  }
+
+  /**
+   * Get the OAuth provider for a resource URI
+   * Uses the explicit provider if given, otherwise matches the URI scheme
+   * against configured OAuth providers
+   */
+  private getProviderForResource(uri: string, options?: ResourceRequestOptions): string | undefined {
+    if (options?.provider) {
+      return options.provider;
+    }
+
+    const scheme = uri.split('://')[0];
+    if (!scheme || scheme === uri) {
+      return undefined;
+    }
+
+    const integration = this.integrations.find(i => i.oauth?.provider === scheme);
+    return integration?.oauth?.provider;
+  }
+
+  /**
+   * Throw if the current client cannot hold an MCP session
+   * Browser clients route through stateless API handlers, so server-initiated
+   * notifications never reach them
+   */
+  private assertSessionSupported(feature: string): void {
+    if (!this.isServerSideClient()) {
+      throw new Error(
+        `${feature} require a server-side client (createMCPServer) with an active MCP session`
+      );
     }
   }
 
@@ -532,50 +1017,172 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
     name: string,
     args?: Record<string, unknown>,
     provider?: string,
-    options?: ToolCallOptions
+    options?: ToolCallOptions,
+    span?: TraceSpan
   ): Promise<MCPToolCallResponse> {
-    // Check if this is a server-side client (has API key in transport headers)
-    const transportHeaders = (this.transport as any).headers || {};
-    const hasApiKey = !!transportHeaders['X-API-KEY'];
+    // Provider token is scoped to this request only - the transport is shared
+    // across concurrent calls (singleton server client), so it must never be
+    // written to the transport's shared headers
+    const requestHeaders = {
+      ...await this.getProviderAuthHeaders(provider, options?.context, options?.accountId),
+      ...getTraceHeaders(span),
+    };
+
+    const identity = {
+      authorization: requestHeaders['Authorization'],
+      accountId: options?.accountId,
+      context: options?.context,
+    };
+    const send = () => this.toolCallLimiter.run(
+      {
+        provider,
+        // Progress is routed to one caller, so calls tracking it are never shared
+        dedupeKey: options?.onProgress ? undefined : getDedupeKey(name, provider, args, identity),
+        signal: options?.signal,
+      },
+      (signal) => this.sendToolCall(name, args, requestHeaders, { ...options, signal })
+    );
+
+    if (!this.toolCache) {
+      return await send();
+    }
+
+    return await this.toolCache.call({ toolName: name, args, provider, identity }, send);
+  }
 
+  /**
+   * Send a tools/call request directly or through the API handler
+   */
+  private async sendToolCall(
+    name: string,
+    args: Record<string, unknown> | undefined,
+    requestHeaders: Record<string, string>,
+    options?: ToolCallOptions
+  ): Promise<MCPToolCallResponse> {
     // Server-side clients with API key should call MCP server directly through transport
-    if (hasApiKey) {
-      // Add provider token to transport if available
-      if (provider) {
-        const tokenData = await this.oauthManager.getProviderToken(provider, options?.context);
-        if (tokenData && this.transport.setHeader) {
-          const previousAuthHeader = transportHeaders['Authorization'];
-          
-          try {
-            // Temporarily set the authorization header
-            this.transport.setHeader('Authorization', `Bearer ${tokenData.accessToken}`);
-            
-            // Call through transport (goes directly to MCP server with API key)
-            const result = await this.transport.sendRequest('tools/call', {
-              name,
-              arguments: args || {},
-            });
-            return result as MCPToolCallResponse;
-          } finally {
-            // Restore previous auth header
-            if (previousAuthHeader && this.transport.setHeader) {
-              this.transport.setHeader('Authorization', previousAuthHeader);
-            } else if (this.transport.removeHeader) {
-              this.transport.removeHeader('Authorization');
-            }
-          }
-        }
+    if (this.isServerSideClient()) {
+      const params: Record<string, unknown> = {
+        name,
+        arguments: args || {},
+      };
+      const stopProgress = options?.onProgress
+        ? this.trackProgress(params, options.onProgress)
+        : undefined;
+
+      try {
+        // Call through transport (goes directly to MCP server with API key)
+        const result = await this.transport.sendRequest(
+          MCPMethod.TOOLS_CALL,
+          params,
+          { headers: requestHeaders, signal: options?.signal }
+        );
+        return result as MCPToolCallResponse;
+      } finally {
+        stopProgress?.();
       }
+    }
 
-      // No provider token needed or available - call directly
-      const result = await this.transport.sendRequest('tools/call', {
+    // Browser clients (no API key) - route through API handler
+    return await this.fetchThroughHandler<MCPToolCallResponse>(
+      {
         name,
-        arguments: args || {},
+        arguments: args,
+      },
+      requestHeaders,
+      options?.signal
+    );
+  }
+
+  /**
+   * Send an arbitrary MCP request (resources, prompts) through the API handler for
+   * browser clients, or directly through transport for server-side clients
+   */
+  private async sendThroughHandler<T>(
+    method: MCPMethod,
+    params?: Record<string, unknown>,
+    provider?: string,
+    options?: ToolCallOptions
+  ): Promise<T> {
+    const requestHeaders = await this.getProviderAuthHeaders(provider, options?.context, options?.accountId);
+
+    if (this.isServerSideClient()) {
+      return await this.transport.sendRequest<T>(method, params, {
+        headers: requestHeaders,
+        signal: options?.signal,
       });
-      return result as MCPToolCallResponse;
     }
 
-    // Browser clients (no API key) - route through API handler
+    return await this.fetchThroughHandler<T>({ method, params }, requestHeaders, options?.signal);
+  }
+
+  /**
+   * Attach a progress token to request params and route matching
+   * `notifications/progress` messages to the handler
+   * 
+   * @returns Function that stops routing progress for this request
+   */
+  private trackProgress(
+    params: Record<string, unknown>,
+    onProgress: ToolProgressHandler
+  ): () => void {
+    const progressToken = `progress-${Date.now()}-${++this.progressTokenCounter}`;
+    params._meta = { progressToken };
+
+    return this.transport.onMessage((message) => {
+      if (!('method' in message) || message.method !== MCPNotification.PROGRESS) {
+        return;
+      }
+
+      const progress = message.params as unknown as MCPProgressNotificationParams | undefined;
+      if (progress?.progressToken !== progressToken) {
+        return;
+      }
+
+      try {
+        onProgress(progress.progress, progress.total, progress.message);
+      } catch (error) {
+        this.logger.error('Error in progress handler', { error });
+      }
+    });
+  }
+
+  /**
+   * Check if this client talks to the MCP server directly
+   * True when it has an API key in transport headers, or when it was given its own
+   * transport instance (routing through the API handler would bypass that transport)
+   */
+  private isServerSideClient(): boolean {
+    return this.hasCustomTransport || !!this.transport.getHeaders()['X-API-KEY'];
+  }
+
+  /**
+   * Build the Authorization header for a provider account's token, if one is available
+   */
+  private async getProviderAuthHeaders(
+    provider?: string,
+    context?: MCPContext,
+    accountId?: string
+  ): Promise<Record<string, string>> {
+    const headers: Record<string, string> = {};
+    if (provider) {
+      const tokenData = await this.oauthManager.getProviderToken(provider, context, accountId);
+      if (tokenData) {
+        headers['Authorization'] = `Bearer ${tokenData.accessToken}`;
+      }
+    }
+    return headers;
+  }
+
+  /**
+   * POST a request body to the API handler's /mcp route
+   * Aborting the signal cancels the fetch; the handler forwards the
+   * cancellation to the MCP server
+   */
+  private async fetchThroughHandler<T>(
+    body: Record<string, unknown>,
+    requestHeaders: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<T> {
     // Construct URL: {apiBaseUrl}{apiRouteBase}/mcp
     // If apiBaseUrl is not set, use relative URL (same origin)
     const url = this.apiBaseUrl 
@@ -585,31 +1192,23 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
     // Prepare headers
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
+      ...requestHeaders,
     };
 
-    // Add provider token if available
-    if (provider) {
-      const tokenData = await this.oauthManager.getProviderToken(provider, options?.context);
-      if (tokenData) {
-        headers['Authorization'] = `Bearer ${tokenData.accessToken}`;
-      }
-    }
-
     // Make request to API handler
     const response = await fetch(url, {
       method: 'POST',
       headers,
-      body: JSON.stringify({
-        name,
-        arguments: args,
-      }),
+      body: JSON.stringify(body),
+      signal,
     });
 
     if (!response.ok) {
       // Try to parse error response
       let errorMessage = `Request failed: ${response.statusText}`;
-      const error = new Error(errorMessage) as Error & { statusCode?: number; code?: number; data?: unknown; jsonrpcError?: unknown };
+      const error = new Error(errorMessage) as Error & { statusCode?: number; retryAfter?: string; code?: number; data?: unknown; jsonrpcError?: unknown };
       error.statusCode = response.status;
+      error.retryAfter = response.headers?.get('retry-after') ?? undefined;
 
       try {
         const errorData = await response.json();
@@ -635,50 +1234,54 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
     }
 
     const result = await response.json();
-    return result as MCPToolCallResponse;
+    return result as T;
   }
 
   /**
    * Internal method to call a tool with retry logic
+   * Retries after re-authentication, and after transient errors per the retry policy
+   * 
+   * @param retryCount - Retries made so far, of either kind
+   * @param transientRetries - Retries made so far after transient errors
    */
   private async callToolWithRetry(
     name: string,
     args?: Record<string, unknown>,
     retryCount = 0,
-    options?: ToolCallOptions
+    options?: ToolCallOptions,
+    transientRetries = 0
   ): Promise<MCPToolCallResponse> {
-    // When routing through API handlers, we don't need to check initialization
-    // The server-side handler will validate tools and permissions
-    if (!this.enabledToolNames.has(name)) {
-      throw new Error(
-        `Tool "${name}" is not enabled. Enable it by adding the appropriate integration.`
-      );
-    }
-
     // Get provider for this tool
     const provider = this.getProviderForTool(name);
 
     try {
-      // Route through API handler instead of direct MCP server call
-      const response = await this.callToolThroughHandler(name, args, provider, options);
-
-      // Mark provider as authenticated on success
-      if (provider) {
-        this.authState.set(provider, { authenticated: true });
-      }
-
-      return response;
+      return await withSpan(
+        this.tracer,
+        SpanName.TOOL_CALL,
+        {
+          [SpanAttribute.TOOL_NAME]: name,
+          [SpanAttribute.PROVIDER]: provider,
+          [SpanAttribute.RETRY_COUNT]: retryCount,
+        },
+        (span) => observeToolCall(
+          this.emitToolEvent,
+          { toolName: name, provider, args, retryCount },
+          () => this.attemptToolCall(name, args, provider, options, span)
+        )
+      );
     } catch (error) {
-      // Parse the error to determine if it's an auth error
-      const parsedError = parseServerError(error, { toolName: name, provider });
+      // Cancelled calls surface the abort reason as-is and are never retried
+      if (options?.signal?.aborted) {
+        throw error;
+      }
 
       // Handle authentication errors with retry logic
-      if (isAuthError(parsedError) && retryCount < this.maxReauthRetries) {
+      if (isAuthError(error) && retryCount - transientRetries < this.maxReauthRetries) {
         // Update auth state
         if (provider) {
           this.authState.set(provider, {
             authenticated: false,
-            lastError: parsedError,
+            lastError: error,
           });
         }
 
@@ -686,20 +1289,163 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
         if (this.onReauthRequired && provider) {
           const reauthSuccess = await this.onReauthRequired({
             provider,
-            error: parsedError,
+            error,
             toolName: name,
           });
 
           if (reauthSuccess) {
             // Retry the tool call after successful re-authentication
-            return await this.callToolWithRetry(name, args, retryCount + 1);
+            return await this.callToolWithRetry(name, args, retryCount + 1, options, transientRetries);
           }
         }
       }
 
-      // If no handler or re-auth failed, throw the parsed error
-      throw parsedError;
+      // Network errors, timeouts, 5xx and rate limits are retried with backoff
+      const delay = this.retryPolicy
+        ? getRetryDelay(this.retryPolicy, { toolName: name, provider, error, retries: transientRetries })
+        : undefined;
+      if (delay !== undefined) {
+        await waitForRetry(delay, options?.signal);
+        return await this.callToolWithRetry(name, args, retryCount + 1, options, transientRetries + 1);
+      }
+
+      // If no handler or re-auth failed, throw the (already parsed) error
+      throw error;
+    }
+  }
+
+  /**
+   * Make a single tool call attempt
+   * Server errors are parsed into IntegrateSDKErrors; abort reasons are rethrown as-is
+   */
+  private async attemptToolCall(
+    name: string,
+    args: Record<string, unknown> | undefined,
+    provider: string | undefined,
+    options?: ToolCallOptions,
+    span?: TraceSpan
+  ): Promise<MCPToolCallResponse> {
+    // When routing through API handlers, we don't need to check initialization
+    // The server-side handler will validate tools and permissions
+    if (!this.enabledToolNames.has(name)) {
+      throw new Error(
+        `Tool "${name}" is not enabled. Enable it by adding the appropriate integration.`
+      );
+    }
+
+    this.checkToolArguments(name, args);
+
+    await this.checkToolScopes(name, provider, options);
+
+    try {
+      // Route through API handler instead of direct MCP server call
+      const response = await this.callToolThroughHandler(name, args, provider, options, span);
+
+      // Mark provider as authenticated on success
+      if (provider) {
+        this.authState.set(provider, { authenticated: true });
+      }
+
+      return response;
+    } catch (error) {
+      if (options?.signal?.aborted) {
+        throw error;
+      }
+      throw parseServerError(error, { toolName: name, provider });
+    }
+  }
+
+  /**
+   * Check arguments against the tool's discovered inputSchema (config.validateArguments)
+   * Tools that have not been discovered are skipped
+   */
+  private checkToolArguments(name: string, args?: Record<string, unknown>): void {
+    if (this.validateArguments === 'off') {
+      return;
+    }
+
+    const tool = this.availableTools.get(name);
+    if (!tool) {
+      return;
+    }
+
+    const issues = validateToolArguments(tool, args);
+    if (issues.length === 0) {
+      return;
+    }
+
+    const message = `Invalid arguments for tool "${name}": ${formatValidationIssues(issues)}`;
+    if (this.validateArguments === 'strict') {
+      throw new ValidationError(message, name, issues);
+    }
+    this.logger.warn(message, { toolName: name, issues });
+  }
+
+  /**
+   * Check the provider token's granted scopes against the tool's declared scopes
+   * (config.onMissingScopes)
+   */
+  private async checkToolScopes(name: string, provider: string | undefined, options?: ToolCallOptions): Promise<void> {
+    if (this.onMissingScopes === 'ignore' || !provider) {
+      return;
+    }
+
+    let missing = await this.getMissingScopes(name, options);
+    if (missing.length === 0) {
+      return;
+    }
+
+    if (this.onMissingScopes === 'authorize') {
+      await this.authorize(provider, { additionalScopes: missing, accountId: options?.accountId });
+      missing = await this.getMissingScopes(name, options);
+      if (missing.length === 0) {
+        return;
+      }
+    }
+
+    throw new AuthorizationError(
+      `Tool "${name}" requires ${provider} scopes that have not been granted: ${missing.join(', ')}`,
+      403,
+      missing
+    );
+  }
+
+  /**
+   * Get the scopes a tool needs that the provider token hasn't been granted
+   * 
+   * Returns an empty array when the integration doesn't declare scopes for the tool
+   * (`oauth.toolScopes`), when no token is stored, or when the token doesn't report
+   * its granted scopes. A scope with alternatives isn't missing if any of them was granted.
+   * 
+   * @param toolName - Tool name (e.g., 'gmail_send_message')
+   * @param options - Optional context and account whose token is checked
+   * 
+   * @example
+   * ```typescript
+   * const missing = await client.getMissingScopes('gmail_send_message');
+   * if (missing.length > 0) {
+   *   await client.authorize('gmail', { additionalScopes: missing });
+   * }
+   * ```
+   */
+  async getMissingScopes(toolName: string, options?: Pick<ToolCallOptions, 'context' | 'accountId'>): Promise<string[]> {
+    const oauth = this.integrations.find(integration => integration.tools.includes(toolName) && integration.oauth)?.oauth;
+    const required = oauth?.toolScopes?.[toolName];
+    if (!oauth || !required?.length) {
+      return [];
+    }
+
+    const tokenData = await this.oauthManager.getProviderToken(oauth.provider, options?.context, options?.accountId);
+    if (!tokenData?.scopes) {
+      return [];
     }
+
+    // An array entry is satisfied by any one of its scopes; report the first
+    const granted = new Set(tokenData.scopes);
+    return required
+      .map(scope => (Array.isArray(scope) ? scope : [scope]))
+      .filter(alternatives => alternatives.length > 0 && !alternatives.some(scope => granted.has(scope)))
+      .map(alternatives => alternatives[0]!);
   }
 
   /**
@@ -714,6 +1460,37 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
     return undefined;
   }
 
+  /**
+   * Get the protocol version negotiated with the MCP server
+   * Undefined until connect() has completed
+   */
+  getProtocolVersion(): string | undefined {
+    return this.protocolVersion;
+  }
+
+  /**
+   * Get the capabilities the MCP server declared during initialization
+   * Undefined until connect() has completed
+   * 
+   * @example
+   * ```typescript
+   * await client.connect();
+   * if (client.getServerCapabilities()?.resources) {
+   *   const { resources } = await client.listResources();
+   * }
+   * ```
+   */
+  getServerCapabilities(): MCPInitializeResponse["capabilities"] | undefined {
+    return this.serverCapabilities;
+  }
+
+  /**
+   * Get the MCP server's name and version from initialization
+   */
+  getServerInfo(): MCPInitializeResponse["serverInfo"] | undefined {
+    return this.serverInfo;
+  }
+
   /**
    * Get a tool by name
    */
@@ -777,7 +1554,10 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
   }
 
   /**
-   * Add event listener for OAuth events
+   * Add event listener for OAuth and tool call events
+   * 
+   * `tool:*` events fire for every tool call attempt (re-authentication
+   * retries included) with the tool, its provider, and the attempt's timing.
    * 
    * @param event - Event type to listen for
    * @param handler - Handler function to call when event is emitted
@@ -795,6 +1575,10 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
    * client.on('auth:logout', () => {
    *   console.log('User logged out from all services');
    * });
+   * 
+   * client.on('tool:error', ({ toolName, durationMs, error }) => {
+   *   metrics.record(toolName, durationMs, error.name);
+   * });
    * ```
    */
   on(event: 'auth:started', handler: OAuthEventHandler<AuthStartedEvent>): void;
@@ -802,12 +1586,15 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
   on(event: 'auth:error', handler: OAuthEventHandler<AuthErrorEvent>): void;
   on(event: 'auth:disconnect', handler: OAuthEventHandler<AuthDisconnectEvent>): void;
   on(event: 'auth:logout', handler: OAuthEventHandler<AuthLogoutEvent>): void;
+  on(event: 'tool:start', handler: OAuthEventHandler<ToolStartEvent>): void;
+  on(event: 'tool:success', handler: OAuthEventHandler<ToolSuccessEvent>): void;
+  on(event: 'tool:error', handler: OAuthEventHandler<ToolErrorEvent>): void;
   on(event: string, handler: OAuthEventHandler): void {
     this.eventEmitter.on(event, handler);
   }
 
   /**
-   * Remove event listener for OAuth events
+   * Remove event listener for OAuth and tool call events
    * 
    * @param event - Event type to stop listening for
    * @param handler - Handler function to remove
@@ -817,6 +1604,9 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
   off(event: 'auth:error', handler: OAuthEventHandler<AuthErrorEvent>): void;
   off(event: 'auth:disconnect', handler: OAuthEventHandler<AuthDisconnectEvent>): void;
   off(event: 'auth:logout', handler: OAuthEventHandler<AuthLogoutEvent>): void;
+  off(event: 'tool:start', handler: OAuthEventHandler<ToolStartEvent>): void;
+  off(event: 'tool:success', handler: OAuthEventHandler<ToolSuccessEvent>): void;
+  off(event: 'tool:error', handler: OAuthEventHandler<ToolErrorEvent>): void;
   off(event: string, handler: OAuthEventHandler): void {
     this.eventEmitter.off(event, handler);
   }
@@ -848,6 +1638,7 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
    * 
    * @param provider - Provider name to disconnect (e.g., 'github', 'gmail')
    * @param context - Optional user context (userId, organizationId, etc.) for multi-tenant apps
+   * @param accountId - Optional account to disconnect (defaults to the provider's default account)
    * 
    * @example
    * ```typescript
@@ -865,8 +1656,14 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
    * await client.disconnectProvider('github', context);
    * // Token is now deleted from database for the specific user
    * ```
+   * 
+   * @example
+   * ```typescript
+   * // Disconnect one of several connected accounts
+   * await client.disconnectProvider('github', undefined, 'work');
+   * ```
    */
-  async disconnectProvider(provider: string, context?: MCPContext): Promise<void> {
+  async disconnectProvider(provider: string, context?: MCPContext, accountId?: string): Promise<void> {
     // Verify the provider exists in integrations
     const integration = this.integrations.find(p => p.oauth?.provider === provider);
 
@@ -877,17 +1674,19 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
     try {
       // Make server-side call to disconnect the provider
       // Pass context so removeProviderToken callback can delete the correct user's token
-      await this.oauthManager.disconnectProvider(provider, context);
+      await this.oauthManager.disconnectProvider(provider, context, accountId);
 
-      // Reset authentication state for this provider only
-      this.authState.set(provider, { authenticated: false });
+      // Reset authentication state for this provider once no accounts remain
+      const remainingAccounts = await this.oauthManager.listAccounts(provider, context);
+      this.authState.set(provider, { authenticated: remainingAccounts.length > 0 });
 
       // Emit disconnect event for this provider
-      this.eventEmitter.emit('auth:disconnect', { provider });
+      this.eventEmitter.emit('auth:disconnect', { provider, accountId });
     } catch (error) {
       // Emit error event
       this.eventEmitter.emit('auth:error', {
         provider,
+        accountId,
         error: error as Error
       });
       throw error;
@@ -1094,10 +1893,55 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
    * Get detailed authorization status for a provider
    * 
    * @param provider - Provider name
+   * @param accountId - Optional account (defaults to the provider's default account)
    * @returns Full authorization status including scopes and expiration
    */
-  async getAuthorizationStatus(provider: string): Promise<AuthStatus> {
-    return await this.oauthManager.checkAuthStatus(provider);
+  async getAuthorizationStatus(provider: string, accountId?: string): Promise<AuthStatus> {
+    return await this.oauthManager.checkAuthStatus(provider, accountId);
+  }
+
+  /**
+   * List the connected accounts for a provider
+   * The provider's unnamed account (connected without an accountId) is listed as 'default'
+   * 
+   * @param provider - Provider name
+   * @param context - Optional user context (userId, organizationId, etc.) for multi-tenant apps
+   * @returns Account ids, in the order they were connected
+   * 
+   * @example
+   * ```typescript
+   * await client.authorize('github', { accountId: 'personal' });
+   * await client.authorize('github', { accountId: 'work' });
+   * 
+   * console.log(await client.listAccounts('github')); // ['personal', 'work']
+   * ```
+   */
+  async listAccounts(provider: string, context?: MCPContext): Promise<string[]> {
+    return await this.oauthManager.listAccounts(provider, context);
+  }
+
+  /**
+   * Choose the account used for a provider when a call doesn't pass an accountId
+   * 
+   * Without a chosen default, calls use the account connected without an accountId,
+   * or the first connected account if there is none. Pass null to go back to that rule.
+   * 
+   * Not available with `getProviderToken` callbacks, where tokens belong to each
+   * call's context: calls then use the first account `listProviderAccounts` returns
+   * for the context, or the account connected without an accountId.
+   * 
+   * @param provider - Provider name
+   * @param accountId - Account to use by default, or null
+   * 
+   * @example
+   * ```typescript
+   * client.setDefaultAccount('github', 'work');
+   * await client.github.listOwnRepos({}); // uses the 'work' account
+   * await client.github.listOwnRepos({}, { accountId: 'personal' });
+   * ```
+   */
+  setDefaultAccount(provider: string, accountId: string | null): void {
+    this.oauthManager.setDefaultAccount(provider, accountId);
   }
 
   /**
@@ -1108,6 +1952,8 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
    * @param options - Optional configuration for the authorization flow
    * @param options.returnUrl - URL to redirect to after OAuth completion (for redirect mode)
    * @param options.useExistingConnection - If true and a connection exists, skip OAuth and use existing token. If false or undefined, proceed with OAuth flow (allows creating new account even if one exists)
+   * @param options.accountId - Account to connect, for users with several accounts on one provider (defaults to the provider's default account)
+   * @param options.additionalScopes - Scopes to request on top of the integration's scopes (incremental authorization, e.g. from getMissingScopes())
    * 
    * @example
    * ```typescript
@@ -1133,29 +1979,44 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
    * await client.authorize('github', { 
    *   useExistingConnection: false 
    * });
+   * 
+   * // Connect a second account for the same provider
+   * await client.authorize('github', { 
+   *   accountId: 'work' 
+   * });
+   * 
+   * // Upgrade an existing connection with another scope
+   * await client.authorize('gmail', { 
+   *   additionalScopes: ['https://www.googleapis.com/auth/gmail.send'] 
+   * });
    * ```
    */
-  async authorize(provider: string, options?: { returnUrl?: string; useExistingConnection?: boolean }): Promise<void> {
+  async authorize(
+    provider: string,
+    options?: { returnUrl?: string; useExistingConnection?: boolean; accountId?: string; additionalScopes?: string[] }
+  ): Promise<void> {
+    const accountId = options?.accountId;
     const integration = this.integrations.find(p => p.oauth?.provider === provider);
 
     if (!integration?.oauth) {
       const error = new Error(`No OAuth configuration found for provider: ${provider}`);
-      this.eventEmitter.emit('auth:error', { provider, error });
+      this.eventEmitter.emit('auth:error', { provider, accountId, error });
       throw error;
     }
 
-    // Check if we should use existing connection
-    if (options?.useExistingConnection) {
-      const authStatus = await this.oauthManager.checkAuthStatus(provider);
+    // Check if we should use existing connection (not when asking for more scopes)
+    if (options?.useExistingConnection && !options.additionalScopes?.length) {
+      const authStatus = await this.oauthManager.checkAuthStatus(provider, accountId);
       
       if (authStatus.authorized) {
         // Connection exists, use it without OAuth flow
-        const tokenData = await this.oauthManager.getProviderToken(provider);
+        const tokenData = await this.oauthManager.getProviderToken(provider, undefined, accountId);
         
         if (tokenData) {
           // Emit auth:complete event with existing token
           this.eventEmitter.emit('auth:complete', {
             provider,
+            accountId,
             accessToken: tokenData.accessToken,
             expiresAt: tokenData.expiresAt
           });
@@ -1171,18 +2032,22 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
     }
 
     // Emit auth:started event
-    this.eventEmitter.emit('auth:started', { provider });
+    this.eventEmitter.emit('auth:started', { provider, accountId });
 
     try {
-      await this.oauthManager.initiateFlow(provider, integration.oauth, options?.returnUrl);
+      await this.oauthManager.initiateFlow(provider, integration.oauth, options?.returnUrl, {
+        accountId,
+        additionalScopes: options?.additionalScopes,
+      });
 
       // Get the provider token after authorization
-      const tokenData = await this.oauthManager.getProviderToken(provider);
+      const tokenData = await this.oauthManager.getProviderToken(provider, undefined, accountId);
 
       if (tokenData) {
         // Emit auth:complete event
         this.eventEmitter.emit('auth:complete', {
           provider,
+          accountId,
           accessToken: tokenData.accessToken,
           expiresAt: tokenData.expiresAt
         });
@@ -1191,7 +2056,7 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
       // Update auth state
       this.authState.set(provider, { authenticated: true });
     } catch (error) {
-      this.eventEmitter.emit('auth:error', { provider, error: error as Error });
+      this.eventEmitter.emit('auth:error', { provider, accountId, error: error as Error });
       throw error;
     }
   }
@@ -1225,6 +2090,7 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
       // Emit auth:complete event for the provider
       this.eventEmitter.emit('auth:complete', {
         provider: result.provider,
+        accountId: result.accountId,
         accessToken: result.accessToken,
         expiresAt: result.expiresAt
       });
@@ -1244,10 +2110,11 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
    * 
    * @param provider - Provider name (e.g., 'github', 'gmail')
    * @param context - Optional user context (userId, organizationId, etc.) for multi-tenant apps
+   * @param accountId - Optional account (defaults to the provider's default account)
    * @returns Provider token data or undefined if not authorized
    */
-  async getProviderToken(provider: string, context?: MCPContext): Promise<import('./oauth/types.js').ProviderTokenData | undefined> {
-    return await this.oauthManager.getProviderToken(provider, context);
+  async getProviderToken(provider: string, context?: MCPContext, accountId?: string): Promise<import('./oauth/types.js').ProviderTokenData | undefined> {
+    return await this.oauthManager.getProviderToken(provider, context, accountId);
   }
 
   /**
@@ -1258,14 +2125,16 @@ export class MCPClientBase<TIntegrations extends readonly MCPIntegration[] = rea
    * @param provider - Provider name
    * @param tokenData - Provider token data, or null to delete
    * @param context - Optional user context (userId, organizationId, etc.) for multi-tenant apps
+   * @param accountId - Optional account the token belongs to (defaults to the provider's unnamed account)
    */
-  async setProviderToken(provider: string, tokenData: import('./oauth/types.js').ProviderTokenData | null, context?: MCPContext): Promise<void> {
-    await this.oauthManager.setProviderToken(provider, tokenData, context);
+  async setProviderToken(provider: string, tokenData: import('./oauth/types.js').ProviderTokenData | null, context?: MCPContext, accountId?: string): Promise<void> {
+    await this.oauthManager.setProviderToken(provider, tokenData, context, accountId);
     
     // Update authState based on whether token is being set or deleted
     if (tokenData === null) {
-      // Token is being deleted - update authState to reflect disconnection
-      this.authState.set(provider, { authenticated: false });
+      // Token is being deleted - update authState once no accounts remain
+      const remainingAccounts = await this.oauthManager.listAccounts(provider, context);
+      this.authState.set(provider, { authenticated: remainingAccounts.length > 0 });
     } else {
       // Token is being set - update authState to reflect connection
       this.authState.set(provider, { authenticated: true });
@@ -1360,7 +2229,7 @@ function registerCleanupHandlers() {
             await client.disconnect();
           }
         } catch (error) {
-          console.error('Error disconnecting client:', error);
+          client.logger.error('Error disconnecting client', { error });
         }
       })
     );
@@ -1403,10 +2272,34 @@ function generateCacheKey<TIntegrations extends readonly MCPIntegration[]>(
     JSON.stringify(config.integrations.map(p => ({ id: p.id, tools: p.tools }))),
     JSON.stringify(config.headers || {}),
     config.timeout?.toString() || '30000',
+    typeof config.transport === 'string' ? config.transport : 'http-session',
+    JSON.stringify({
+      concurrency: config.concurrency,
+      maxQueueWait: config.maxQueueWait,
+      dedupeRequests: config.dedupeRequests,
+      retry: config.retry,
+      validateArguments: config.validateArguments,
+      onMissingScopes: config.onMissingScopes,
+    }),
   ];
   return parts.join('|');
 }
 
+/**
+ * Whether a configuration can share a cached client
+ * Options holding functions or per-client state (a custom transport, middleware,
+ * a tracer, a logger, a result cache) can't be compared, so they always get a new client
+ */
+function canShareClient<TIntegrations extends readonly MCPIntegration[]>(
+  config: MCPClientConfig<TIntegrations>
+): boolean {
+  return typeof config.transport !== 'object' &&
+    !config.middleware?.length &&
+    !config.tracer &&
+    !config.logger &&
+    !config.cache;
+}
+
 /**
  * Create a new MCP Client instance (CLIENT-SIDE)
  * 
@@ -1449,7 +2342,7 @@ function generateCacheKey<TIntegrations extends readonly MCPIntegration[]>(
 export function createMCPClient<TIntegrations extends readonly MCPIntegration[]>(
   config: MCPClientConfig<TIntegrations>
 ): MCPClient<TIntegrations> {
-  const useSingleton = config.singleton ?? true;
+  const useSingleton = (config.singleton ?? true) && canShareClient(config);
   const connectionMode = config.connectionMode ?? 'lazy';
   const autoCleanup = config.autoCleanup ?? true;
 
@@ -1481,7 +2374,7 @@ export function createMCPClient<TIntegrations extends readonly MCPIntegration[]>
     if (connectionMode === 'eager') {
       // Connect asynchronously, don't block
       client.connect().catch((error) => {
-        console.error('Failed to connect client:', error);
+        client.logger.error('Failed to connect client', { error });
       });
     }
 
@@ -1503,7 +2396,7 @@ export function createMCPClient<TIntegrations extends readonly MCPIntegration[]>
     // Eager connection if requested
     if (connectionMode === 'eager') {
       client.connect().catch((error) => {
-        console.error('Failed to connect client:', error);
+        client.logger.error('Failed to connect client', { error });
       });
     }
 
@@ -1559,7 +2452,7 @@ function processOAuthCallbackFromHash(
           }).catch((error) => {
             // Handle error based on configured behavior
             if (mode === 'console') {
-              console.error('Failed to process OAuth callback:', error);
+              client.logger.error('Failed to process OAuth callback', { error });
             } else if (mode === 'redirect' && errorBehavior?.redirectUrl) {
               // Redirect to error page
               window.location.href = errorBehavior.redirectUrl;
@@ -1576,7 +2469,7 @@ function processOAuthCallbackFromHash(
   } catch (error) {
     // Handle parsing errors based on configured behavior
     if (mode === 'console') {
-      console.error('Failed to process OAuth callback from hash:', error);
+      client.logger.error('Failed to process OAuth callback from hash', { error });
     } else if (mode === 'redirect' && errorBehavior?.redirectUrl) {
       window.location.href = errorBehavior.redirectUrl;
       return null;
@@ -1619,7 +2512,7 @@ export async function clearClientCache(): Promise<void> {
           await client.disconnect();
         }
       } catch (error) {
-        console.error('Error disconnecting client during cache clear:', error);
+        client.logger.error('Error disconnecting client during cache clear', { error });
       }
     })
   );
@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+/**
+ * integrate-sdk-codegen executable
+ */
+
+import { runCodegenCli } from './cli.js';
+
+runCodegenCli(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,98 @@
+/**
+ * Code Generator CLI
+ * Argument parsing and file output for integrate-sdk-codegen
+ */
+
+import { writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { generateIntegrationTypes } from './generate.js';
+import { getEnv } from '../utils/env.js';
+
+const USAGE = `Usage: integrate-sdk-codegen [options]
+
+Generate typed integration clients from the MCP server's tools/list.
+
+Options:
+  --server-url <url>       MCP server URL (default: https://mcp.integrate.dev/api/v1/mcp)
+  --api-key <key>          API key (default: INTEGRATE_API_KEY env var)
+  --snapshot <file>        Generate from a saved tools/list JSON file instead of the server
+  --save-snapshot <file>   Also write the tools/list result to a JSON file
+  --integrations <ids>     Comma-separated integration ids to generate (default: all)
+  --out <file>             Output file (default: stdout)
+  -h, --help               Show this message
+`;
+
+/**
+ * Output streams used by the CLI (injectable for tests)
+ */
+export interface CodegenCliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+/**
+ * Run the code generator CLI
+ *
+ * @param args - Command-line arguments (without the node and script paths)
+ * @param io - Output streams
+ * @returns Process exit code
+ */
+export async function runCodegenCli(
+  args: string[],
+  io: CodegenCliIO = {
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+  }
+): Promise<number> {
+  let values: Record<string, string | boolean | undefined>;
+  try {
+    ({ values } = parseArgs({
+      args,
+      options: {
+        'server-url': { type: 'string' },
+        'api-key': { type: 'string' },
+        snapshot: { type: 'string' },
+        'save-snapshot': { type: 'string' },
+        integrations: { type: 'string' },
+        out: { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    }));
+  } catch (error) {
+    io.stderr(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+    return 1;
+  }
+
+  if (values.help) {
+    io.stdout(USAGE);
+    return 0;
+  }
+
+  try {
+    const integrations = typeof values.integrations === 'string'
+      ? values.integrations.split(',').map((id) => id.trim()).filter(Boolean)
+      : undefined;
+
+    const result = await generateIntegrationTypes({
+      serverUrl: values['server-url'] as string | undefined,
+      apiKey: (values['api-key'] as string | undefined) ?? getEnv('INTEGRATE_API_KEY'),
+      snapshot: values.snapshot as string | undefined,
+      integrations,
+    });
+
+    if (typeof values['save-snapshot'] === 'string') {
+      await writeFile(values['save-snapshot'], `${JSON.stringify({ tools: result.tools }, null, 2)}\n`);
+    }
+
+    if (typeof values.out === 'string') {
+      await writeFile(values.out, result.code);
+      io.stderr(`Generated ${Object.keys(result.files).length} integration(s) in ${values.out}\n`);
+    } else {
+      io.stdout(result.code);
+    }
+    return 0;
+  } catch (error) {
+    io.stderr(`Code generation failed: ${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+}
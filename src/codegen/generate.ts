@@ -0,0 +1,215 @@
+/**
+ * Integration Type Generator
+ * Emits typed integration client interfaces from the MCP server's tools/list
+ */
+
+import { readFile } from 'node:fs/promises';
+import type {
+  MCPTool,
+  MCPToolsListResponse,
+  MCPInitializeParams,
+} from '../protocol/messages.js';
+import { MCPMethod, MCPNotification, LATEST_PROTOCOL_VERSION } from '../protocol/messages.js';
+import type { MCPTransport } from '../transport/types.js';
+import { HttpSessionTransport } from '../transport/http-session.js';
+import { toolNameToMethod } from '../utils/naming.js';
+import { objectSchemaToTypeScript, schemaToTypeScript, escapeComment } from './schema-to-ts.js';
+import type { JSONSchema } from './schema-to-ts.js';
+
+/**
+ * Default MCP server URL (same as the client's)
+ */
+const MCP_SERVER_URL = 'https://mcp.integrate.dev/api/v1/mcp';
+
+/**
+ * Options for generateIntegrationTypes()
+ */
+export interface GenerateIntegrationTypesOptions {
+  /** MCP server URL (default: https://mcp.integrate.dev/api/v1/mcp) */
+  serverUrl?: string;
+  /** API key sent as X-API-KEY when fetching tools/list */
+  apiKey?: string;
+  /**
+   * Saved tools/list result to generate from instead of calling the server
+   * A file path (JSON), a `{ tools }` response, or an array of tools
+   */
+  snapshot?: string | MCPToolsListResponse | MCPTool[];
+  /** Transport to fetch tools/list over (overrides serverUrl and apiKey) */
+  transport?: MCPTransport;
+  /**
+   * Integration ids (tool name prefixes) to generate
+   * Default: every prefix found in tools/list
+   */
+  integrations?: string[];
+}
+
+/**
+ * Output of generateIntegrationTypes()
+ */
+export interface GeneratedIntegrationTypes {
+  /** TypeScript source for every generated integration */
+  code: string;
+  /** TypeScript source per integration id (without the header and its ToolCallOptions import) */
+  files: Record<string, string>;
+  /** Tools the code was generated from */
+  tools: MCPTool[];
+}
+
+/**
+ * Generate TypeScript client interfaces and `*_TOOLS` arrays from tools/list
+ *
+ * Tools are grouped by the prefix before their first underscore
+ * (`github_create_issue` belongs to `github`); method names come from
+ * toolNameToMethod(), parameter types from each tool's inputSchema and JSDoc
+ * from the descriptions.
+ *
+ * @example
+ * ```typescript
+ * import { writeFile } from 'node:fs/promises';
+ * import { generateIntegrationTypes } from 'integrate-sdk/codegen';
+ *
+ * const { code } = await generateIntegrationTypes({
+ *   apiKey: process.env.INTEGRATE_API_KEY,
+ *   integrations: ['github', 'linear'],
+ * });
+ * await writeFile('src/integrate-types.ts', code);
+ * ```
+ */
+export async function generateIntegrationTypes(
+  options: GenerateIntegrationTypesOptions = {}
+): Promise<GeneratedIntegrationTypes> {
+  const tools = options.snapshot !== undefined
+    ? await loadSnapshot(options.snapshot)
+    : await fetchTools(options);
+
+  const groups = groupToolsByIntegration(tools, options.integrations);
+  const files: Record<string, string> = {};
+  for (const [integrationId, integrationTools] of groups) {
+    files[integrationId] = renderIntegration(integrationId, integrationTools);
+  }
+
+  const code = [HEADER, ...Object.values(files)].join('\n');
+  return { code, files, tools };
+}
+
+/**
+ * Read tools from a saved tools/list result
+ */
+async function loadSnapshot(snapshot: NonNullable<GenerateIntegrationTypesOptions['snapshot']>): Promise<MCPTool[]> {
+  let data: unknown = snapshot;
+  if (typeof snapshot === 'string') {
+    try {
+      data = JSON.parse(await readFile(snapshot, 'utf8'));
+    } catch (error) {
+      throw new Error(`Failed to read tools snapshot ${snapshot}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const tools = Array.isArray(data) ? data : (data as Partial<MCPToolsListResponse> | null)?.tools;
+  if (!Array.isArray(tools)) {
+    throw new Error('Tools snapshot must be a tools/list result ({ tools: [...] }) or an array of tools');
+  }
+  return tools;
+}
+
+/**
+ * Fetch tools/list from the MCP server
+ */
+async function fetchTools(options: GenerateIntegrationTypesOptions): Promise<MCPTool[]> {
+  const transport = options.transport ?? new HttpSessionTransport({
+    url: options.serverUrl || MCP_SERVER_URL,
+    headers: options.apiKey ? { 'X-API-KEY': options.apiKey } : undefined,
+  });
+
+  await transport.connect();
+  try {
+    const params: MCPInitializeParams = {
+      protocolVersion: LATEST_PROTOCOL_VERSION,
+      capabilities: { tools: {} },
+      clientInfo: { name: 'integrate-sdk-codegen', version: '0.1.0' },
+    };
+    await transport.sendRequest(MCPMethod.INITIALIZE, params);
+    await transport.sendNotification?.(MCPNotification.INITIALIZED);
+
+    const response = await transport.sendRequest<MCPToolsListResponse>(MCPMethod.TOOLS_LIST);
+    return response.tools;
+  } finally {
+    await transport.disconnect();
+  }
+}
+
+/**
+ * Group tools by integration prefix, sorted by integration id and tool name
+ */
+function groupToolsByIntegration(tools: MCPTool[], only?: string[]): Map<string, MCPTool[]> {
+  const groups = new Map<string, MCPTool[]>();
+  for (const tool of tools) {
+    const separator = tool.name.indexOf('_');
+    if (separator <= 0) {
+      continue;
+    }
+    const integrationId = tool.name.slice(0, separator);
+    if (only && !only.includes(integrationId)) {
+      continue;
+    }
+    groups.set(integrationId, [...(groups.get(integrationId) ?? []), tool]);
+  }
+
+  return new Map(
+    Array.from(groups.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([id, group]) => [id, group.sort((a, b) => a.name.localeCompare(b.name))])
+  );
+}
+
+const HEADER = `/**
+ * Integration client types generated from the MCP server's tools/list
+ * Do not edit by hand; regenerate with integrate-sdk-codegen
+ */
+
+import type { ToolCallOptions } from 'integrate-sdk';
+`;
+
+/**
+ * Render one integration's `*_TOOLS` array and client interface
+ */
+function renderIntegration(integrationId: string, tools: MCPTool[]): string {
+  const pascal = integrationId
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0]!.toUpperCase() + part.slice(1))
+    .join('');
+  const constName = `${integrationId.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_TOOLS`;
+
+  const lines: string[] = [
+    `/**`,
+    ` * Tools exposed by the ${integrationId} integration`,
+    ` */`,
+    `export const ${constName} = [`,
+    ...tools.map((tool) => `  ${JSON.stringify(tool.name)},`),
+    `] as const;`,
+    ``,
+    `/**`,
+    ` * ${pascal} Integration Client Interface`,
+    ` */`,
+    `export interface ${pascal}IntegrationClient {`,
+  ];
+
+  tools.forEach((tool, index) => {
+    if (index > 0) {
+      lines.push('');
+    }
+    const description = tool.description ? escapeComment(tool.description) : `Call ${tool.name}`;
+    lines.push(`  /**`, `   * ${description}`, `   */`);
+
+    const schema = tool.inputSchema as JSONSchema | undefined;
+    const params = objectSchemaToTypeScript(schema ?? {}, '  ');
+    const optional = (schema?.required?.length ?? 0) === 0 ? '?' : '';
+    const outputSchema = (tool as MCPTool & { outputSchema?: unknown }).outputSchema;
+    const result = outputSchema ? schemaToTypeScript(outputSchema, '  ') : 'unknown';
+    lines.push(`  ${toolNameToMethod(tool.name)}(params${optional}: ${params}, options?: ToolCallOptions): Promise<${result}>;`);
+  });
+
+  lines.push('}', '');
+  return lines.join('\n');
+}
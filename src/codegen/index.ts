@@ -0,0 +1,13 @@
+/**
+ * Code Generation
+ * Typed integration clients generated from the MCP server's tools/list
+ */
+
+export { generateIntegrationTypes } from "./generate.js";
+export type { GenerateIntegrationTypesOptions, GeneratedIntegrationTypes } from "./generate.js";
+
+export { runCodegenCli } from "./cli.js";
+export type { CodegenCliIO } from "./cli.js";
+
+export { schemaToTypeScript } from "./schema-to-ts.js";
+export type { JSONSchema } from "./schema-to-ts.js";
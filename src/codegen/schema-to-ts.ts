@@ -0,0 +1,167 @@
+/**
+ * JSON Schema to TypeScript
+ * Renders tool inputSchemas as TypeScript type literals for the code generator
+ */
+
+/**
+ * JSON Schema subset understood by the generator
+ * Anything else renders as `unknown`
+ */
+export interface JSONSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema | JSONSchema[];
+  additionalProperties?: boolean | JSONSchema;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JSONSchema[];
+  oneOf?: JSONSchema[];
+  allOf?: JSONSchema[];
+  nullable?: boolean;
+  [key: string]: unknown;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Render a JSON Schema as a TypeScript type
+ *
+ * @param schema - Schema to render
+ * @param indent - Indentation of the line the type starts on
+ * @returns TypeScript type source (may span several lines for objects)
+ *
+ * @example
+ * schemaToTypeScript({ type: 'array', items: { type: 'string' } }) // 'string[]'
+ * schemaToTypeScript({ enum: ['open', 'closed'] }) // '"open" | "closed"'
+ */
+export function schemaToTypeScript(schema: unknown, indent = ''): string {
+  return render(schema, indent).type;
+}
+
+/**
+ * Render the properties of an object schema as a type literal
+ *
+ * @param schema - Object schema
+ * @param indent - Indentation of the line the literal starts on
+ */
+export function objectSchemaToTypeScript(schema: JSONSchema, indent = ''): string {
+  const properties = schema.properties ?? {};
+  const required = new Set(schema.required ?? []);
+  const inner = `${indent}  `;
+  const lines: string[] = [];
+
+  for (const [name, property] of Object.entries(properties)) {
+    const description = (property as JSONSchema | undefined)?.description;
+    if (description) {
+      lines.push(`${inner}/** ${escapeComment(description)} */`);
+    }
+    const key = IDENTIFIER.test(name) ? name : JSON.stringify(name);
+    const optional = required.has(name) ? '' : '?';
+    lines.push(`${inner}${key}${optional}: ${schemaToTypeScript(property, inner)};`);
+  }
+
+  const additional = schema.additionalProperties;
+  if (additional && typeof additional === 'object') {
+    lines.push(`${inner}[key: string]: ${schemaToTypeScript(additional, inner)};`);
+  }
+
+  if (lines.length === 0) {
+    return additional === false ? 'Record<string, never>' : 'Record<string, unknown>';
+  }
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+/**
+ * Escape text for use inside a JSDoc comment
+ */
+export function escapeComment(text: string): string {
+  return text.replace(/\*\//g, '*\\/').replace(/\s*\n\s*/g, ' ').trim();
+}
+
+/**
+ * Rendered type plus whether it is a top-level union or intersection
+ * (which needs parentheses before `[]`, `|` or `&`)
+ */
+interface Rendered {
+  type: string;
+  composite: boolean;
+}
+
+function render(schema: unknown, indent: string): Rendered {
+  if (!schema || typeof schema !== 'object') {
+    return simple('unknown');
+  }
+  const s = schema as JSONSchema;
+
+  let rendered: Rendered;
+  if (s.const !== undefined) {
+    rendered = simple(JSON.stringify(s.const));
+  } else if (Array.isArray(s.enum) && s.enum.length > 0) {
+    rendered = join(s.enum.map((value) => simple(JSON.stringify(value))), ' | ');
+  } else if (s.anyOf || s.oneOf) {
+    rendered = join((s.anyOf ?? s.oneOf)!.map((member) => render(member, indent)), ' | ');
+  } else if (s.allOf) {
+    rendered = join(s.allOf.map((member) => render(member, indent)), ' & ');
+  } else if (Array.isArray(s.type)) {
+    rendered = join(s.type.map((member) => render({ ...s, type: member }, indent)), ' | ');
+  } else {
+    rendered = simple(renderType(s, indent));
+  }
+
+  return s.nullable && rendered.type !== 'unknown'
+    ? join([rendered, simple('null')], ' | ')
+    : rendered;
+}
+
+function renderType(schema: JSONSchema, indent: string): string {
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      if (Array.isArray(schema.items)) {
+        return `[${schema.items.map((item) => schemaToTypeScript(item, indent)).join(', ')}]`;
+      }
+      return `${parenthesize(render(schema.items, indent))}[]`;
+    }
+    case 'object':
+      return objectSchemaToTypeScript(schema, indent);
+    default:
+      // Untyped schemas that still describe properties are objects
+      return schema.properties ? objectSchemaToTypeScript(schema, indent) : 'unknown';
+  }
+}
+
+function simple(type: string): Rendered {
+  return { type, composite: false };
+}
+
+/**
+ * Join members with ' | ' or ' & '
+ * A union with an unknown member is unknown; unknown members of an intersection are dropped
+ */
+function join(members: Rendered[], separator: ' | ' | ' & '): Rendered {
+  const known = members.filter((member) => member.type !== 'unknown');
+  if (known.length === 0 || (separator === ' | ' && known.length < members.length)) {
+    return simple('unknown');
+  }
+  if (known.length === 1) {
+    return known[0]!;
+  }
+  const types = Array.from(new Set(known.map(parenthesize)));
+  return types.length === 1
+    ? known[0]!
+    : { type: types.join(separator), composite: true };
+}
+
+function parenthesize(rendered: Rendered): string {
+  return rendered.composite ? `(${rendered.type})` : rendered.type;
+}
@@ -4,8 +4,14 @@
  */
 
 import type { MCPIntegration } from "../integrations/types.js";
-import type { AuthenticationError } from "../errors.js";
+import type { AuthenticationError, IntegrateSDKError } from "../errors.js";
 import type { ProviderTokenData } from "../oauth/types.js";
+import type { BuiltInTransport, MCPTransport } from "../transport/types.js";
+import type { MCPToolCallResponse } from "../protocol/messages.js";
+import type { Tracer } from "../utils/tracing.js";
+import type { Logger } from "../utils/logger.js";
+import type { ToolCacheConfig } from "../utils/tool-cache.js";
+import type { RetryPolicy } from "../utils/retry.js";
 
 /**
  * Re-authentication context provided to the callback
@@ -53,6 +59,15 @@ export interface MCPContext {
   [key: string]: any;
 }
 
+/**
+ * Progress callback for long-running tool calls
+ * 
+ * @param progress - Progress so far (increases with each notification)
+ * @param total - Total amount of work, if known
+ * @param message - Optional human-readable status message
+ */
+export type ToolProgressHandler = (progress: number, total?: number, message?: string) => void;
+
 /**
  * Options passed to tool calls
  * Contains context and other metadata for request processing
@@ -60,8 +75,168 @@ export interface MCPContext {
 export interface ToolCallOptions {
   /** User context for multi-tenant token storage */
   context?: MCPContext;
+  /**
+   * Connected account whose token authorizes the call
+   * Defaults to the provider's default account (see `client.setDefaultAccount()`)
+   * 
+   * @example
+   * ```typescript
+   * await client.github.listOwnRepos({}, { accountId: 'work' });
+   * ```
+   */
+  accountId?: string;
+  /**
+   * Signal to cancel the call
+   * Aborting rejects the call with the signal's reason and sends
+   * `notifications/cancelled` to the MCP server
+   * 
+   * @example
+   * ```typescript
+   * const controller = new AbortController();
+   * const commits = client.github.listCommits({ owner, repo }, { signal: controller.signal });
+   * stopButton.onclick = () => controller.abort();
+   * ```
+   */
+  signal?: AbortSignal;
+  /**
+   * Called with `notifications/progress` updates for this call
+   * The client attaches a `progressToken` to the request's `_meta` and routes
+   * matching notifications here. Progress is delivered over the MCP session,
+   * so it is only available on server-side clients (createMCPServer).
+   * 
+   * @example
+   * ```typescript
+   * await client.gmail.searchMessages({ query: 'from:billing' }, {
+   *   onProgress: (progress, total) => setPercent(total ? progress / total : undefined),
+   * });
+   * ```
+   */
+  onProgress?: ToolProgressHandler;
 }
 
+/**
+ * Options for `client.<integration>.paginate.*`
+ * Each page is a separate tool call made with these options
+ * 
+ * @example
+ * ```typescript
+ * for await (const issue of client.github.paginate.listIssues({ owner, repo }, { maxItems: 500 })) {
+ *   await sync(issue);
+ * }
+ * ```
+ */
+export interface PaginateOptions extends ToolCallOptions {
+  /** Stop after yielding this many items */
+  maxItems?: number;
+  /** Stop after fetching this many pages */
+  maxPages?: number;
+}
+
+/**
+ * Options passed to resource and prompt requests
+ */
+export interface ResourceRequestOptions extends ToolCallOptions {
+  /**
+   * OAuth provider whose token authorizes the request
+   * For resources, inferred from the URI scheme when omitted (e.g., 'notion://...' uses the notion token)
+   */
+  provider?: string;
+}
+
+/**
+ * Options passed to paginated list requests (resources, resource templates, prompts)
+ */
+export interface ListRequestOptions extends ResourceRequestOptions {
+  /** Opaque cursor from a previous response's `nextCursor` */
+  cursor?: string;
+}
+
+/**
+ * Tool call seen by middleware
+ * `arguments` and `context` are mutable: changes made before calling `next()` apply to the call
+ */
+export interface ToolCallMiddlewareContext {
+  /** MCP tool name (e.g., 'github_create_issue') */
+  readonly toolName: string;
+  /** Tool arguments; replace or edit them to change what is sent */
+  arguments: Record<string, unknown>;
+  /** OAuth provider that owns the tool, if any */
+  readonly provider?: string;
+  /** User context for the call; replace it to change whose token is used */
+  context?: MCPContext;
+  /** Signal that cancels the call */
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * Tool call middleware
+ * Runs in order around every tool call. Call `next()` to continue to the next
+ * middleware (and finally the MCP server), return a result without calling it
+ * to short-circuit, or catch its rejection to transform errors.
+ * 
+ * @example
+ * ```typescript
+ * const logging: ToolCallMiddleware = async (ctx, next) => {
+ *   const start = Date.now();
+ *   try {
+ *     return await next();
+ *   } finally {
+ *     console.log(`${ctx.toolName} took ${Date.now() - start}ms`);
+ *   }
+ * };
+ * ```
+ */
+export type ToolCallMiddleware = (
+  ctx: ToolCallMiddlewareContext,
+  next: () => Promise<MCPToolCallResponse>
+) => Promise<MCPToolCallResponse>;
+
+/**
+ * Payload of the `tool:start` event
+ */
+export interface ToolStartEvent {
+  /** MCP tool name (e.g., 'github_create_issue') */
+  toolName: string;
+  /** OAuth provider that owns the tool, if any */
+  provider?: string;
+  /** Size of the JSON-encoded arguments in bytes */
+  argumentSize: number;
+  /** Re-authentication retries made before this attempt (0 for the first attempt) */
+  retryCount: number;
+}
+
+/**
+ * Payload of the `tool:success` event
+ */
+export interface ToolSuccessEvent extends ToolStartEvent {
+  /** Time the attempt took in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Payload of the `tool:error` event
+ */
+export interface ToolErrorEvent extends ToolStartEvent {
+  /** Time the attempt took in milliseconds */
+  durationMs: number;
+  /** The parsed error */
+  error: IntegrateSDKError;
+}
+
+/**
+ * Tool call lifecycle events and their payloads
+ */
+export interface ToolEventMap {
+  'tool:start': ToolStartEvent;
+  'tool:success': ToolSuccessEvent;
+  'tool:error': ToolErrorEvent;
+}
+
+/**
+ * Receives tool call lifecycle events
+ */
+export type ToolEventListener = <K extends keyof ToolEventMap>(event: K, payload: ToolEventMap[K]) => void;
+
 /**
  * Server-side configuration (extends client config with API key)
  * 
@@ -102,6 +277,7 @@ export interface MCPServerConfig<TIntegrations extends readonly MCPIntegration[]
    * 
    * @param provider - Provider name (e.g., 'github', 'gmail')
    * @param context - Optional user context (userId, organizationId, etc.) for multi-tenant apps
+   * @param accountId - Connected account to load; undefined for the provider's default account
    * @returns Provider token data from your database, or undefined if not found
    * 
    * @example
@@ -130,7 +306,35 @@ export interface MCPServerConfig<TIntegrations extends readonly MCPIntegration[]
    * });
    * ```
    */
-  getProviderToken?: (provider: string, context?: MCPContext) => Promise<ProviderTokenData | undefined> | ProviderTokenData | undefined;
+  getProviderToken?: (provider: string, context?: MCPContext, accountId?: string) => Promise<ProviderTokenData | undefined> | ProviderTokenData | undefined;
+
+  /**
+   * Custom account listing callback (SERVER-SIDE ONLY)
+   * Lists the accounts a user has connected for a provider, used by `listAccounts()`
+   * and to pick the default account when a call doesn't name one
+   * 
+   * Return `'default'` for a token stored without an account id.
+   * When not provided, accounts are listed from tokens already loaded into memory.
+   * 
+   * @param provider - Provider name (e.g., 'github', 'gmail')
+   * @param context - Optional user context (userId, organizationId, etc.) for multi-tenant apps
+   * @returns Account ids, in the order they were connected
+   * 
+   * @example
+   * ```typescript
+   * createMCPServer({
+   *   integrations: [...],
+   *   listProviderAccounts: async (provider, context) => {
+   *     const tokens = await db.tokens.findMany({
+   *       where: { provider, userId: context?.userId },
+   *       orderBy: { createdAt: 'asc' },
+   *     });
+   *     return tokens.map((token) => token.accountId ?? 'default');
+   *   }
+   * });
+   * ```
+   */
+  listProviderAccounts?: (provider: string, context?: MCPContext) => Promise<string[]> | string[];
 
   /**
    * Custom session context extraction callback (SERVER-SIDE ONLY)
@@ -167,6 +371,7 @@ export interface MCPServerConfig<TIntegrations extends readonly MCPIntegration[]
    * @param provider - Provider name (e.g., 'github', 'gmail')
    * @param tokenData - Token data to store in your database
    * @param context - Optional user context (userId, organizationId, etc.) for multi-tenant apps
+   * @param accountId - Connected account the token belongs to; undefined for the provider's default account
    * 
    * @example
    * ```typescript
@@ -188,7 +393,7 @@ export interface MCPServerConfig<TIntegrations extends readonly MCPIntegration[]
    * });
    * ```
    */
-  setProviderToken?: (provider: string, tokenData: ProviderTokenData | null, context?: MCPContext) => Promise<void> | void;
+  setProviderToken?: (provider: string, tokenData: ProviderTokenData | null, context?: MCPContext, accountId?: string) => Promise<void> | void;
 
   /**
    * Custom token deletion callback (SERVER-SIDE ONLY)
@@ -200,6 +405,7 @@ export interface MCPServerConfig<TIntegrations extends readonly MCPIntegration[]
    * 
    * @param provider - Provider name (e.g., 'github', 'gmail')
    * @param context - Optional user context (userId, organizationId, etc.) for multi-tenant apps
+   * @param accountId - Connected account to delete; undefined for the provider's default account
    * 
    * @example
    * ```typescript
@@ -220,7 +426,7 @@ export interface MCPServerConfig<TIntegrations extends readonly MCPIntegration[]
    * });
    * ```
    */
-  removeProviderToken?: (provider: string, context?: MCPContext) => Promise<void> | void;
+  removeProviderToken?: (provider: string, context?: MCPContext, accountId?: string) => Promise<void> | void;
 }
 
 /**
@@ -288,6 +494,193 @@ export interface MCPClientConfig<TIntegrations extends readonly MCPIntegration[]
   /** Request timeout in milliseconds (default: 30000) */
   timeout?: number;
 
+  /**
+   * Transport used to reach the MCP server
+   * 
+   * - `'http-session'`: POST per request with an optional SSE notification stream
+   * - `'http-stream'`: persistent stream; responses are matched by request id
+   * - An `MCPTransport` instance: your own implementation (corporate proxies, tests)
+   * 
+   * `serverUrl`, `headers` and `timeout` only configure the built-in transports.
+   * A custom transport receives the API key through `setHeader()` when used with createMCPServer(),
+   * and tool calls always go through it directly rather than through the API route handler.
+   * For local MCP server processes, use `StdioTransport` from 'integrate-sdk/server'.
+   * 
+   * @default 'http-session'
+   * 
+   * @example
+   * ```typescript
+   * createMCPServer({
+   *   apiKey: process.env.INTEGRATE_API_KEY,
+   *   transport: new ProxyTransport({ proxyUrl: 'http://proxy.corp:3128' }),
+   *   integrations: [githubIntegration({ ... })]
+   * })
+   * ```
+   */
+  transport?: BuiltInTransport | MCPTransport;
+
+  /**
+   * Middleware run around every tool call, in order
+   * 
+   * On createMCPServer() the same middleware also runs in the `/mcp` route
+   * for tool calls proxied from browser clients.
+   * 
+   * @example
+   * ```typescript
+   * createMCPClient({
+   *   integrations: [githubIntegration()],
+   *   middleware: [
+   *     async (ctx, next) => {
+   *       if (ctx.toolName === 'github_list_own_repos') {
+   *         ctx.arguments = { per_page: 50, ...ctx.arguments };
+   *       }
+   *       return next();
+   *     },
+   *   ],
+   * })
+   * ```
+   */
+  middleware?: ToolCallMiddleware[];
+
+  /**
+   * OpenTelemetry tracer for spans around connect, initialize, tool discovery
+   * and tool calls; trace context is sent to the MCP server as a `traceparent` header
+   * 
+   * On createMCPServer() the OAuth handler (authorize, callback and `/mcp` tool
+   * calls) is traced too. Tracing is off when no tracer is given.
+   * 
+   * @example
+   * ```typescript
+   * import { trace } from '@opentelemetry/api';
+   * 
+   * createMCPServer({
+   *   integrations: [githubIntegration()],
+   *   tracer: trace.getTracer('integrate-sdk'),
+   * })
+   * ```
+   */
+  tracer?: Tracer;
+
+  /**
+   * Logger for the SDK's internal logging (transports, OAuth, tool discovery)
+   * 
+   * Access tokens, client secrets, API keys and authorization codes are
+   * redacted before entries reach the logger. On createMCPServer() the OAuth
+   * route handlers log through it too.
+   * 
+   * @default createConsoleLogger() (info and above to the console)
+   * 
+   * @example
+   * ```typescript
+   * createMCPServer({
+   *   integrations: [githubIntegration()],
+   *   logger: createConsoleLogger({ level: 'warn' }),
+   * })
+   * ```
+   */
+  logger?: Logger;
+
+  /**
+   * Cache results of idempotent tools, such as `github_get_repo`
+   * 
+   * Results are keyed by tool name, arguments, provider token, account and
+   * context, and expire after the tool's TTL. Calling a provider's write tools
+   * (anything that isn't a get/list/search-style read) clears that provider's
+   * cached results. The cache applies to integration methods and AI tool
+   * `execute` functions alike; see `client.getCacheStats()`.
+   * 
+   * @example
+   * ```typescript
+   * createMCPServer({
+   *   integrations: [githubIntegration(), gmailIntegration()],
+   *   cache: {
+   *     tools: { github_get_repo: 5 * 60_000, gmail_get_message: 60_000 },
+   *   },
+   * })
+   * ```
+   */
+  cache?: ToolCacheConfig;
+
+  /**
+   * Maximum tool calls in flight per provider
+   * Calls over the limit wait in a queue; see `client.getQueueStats()`.
+   * On createMCPServer() the limits also cover tool calls through the `/mcp` route.
+   * 
+   * @example
+   * ```typescript
+   * createMCPServer({
+   *   integrations: [githubIntegration(), gmailIntegration()],
+   *   concurrency: { github: 4, gmail: 2 },
+   *   maxQueueWait: 10_000,
+   * })
+   * ```
+   */
+  concurrency?: Record<string, number>;
+
+  /**
+   * Longest a tool call waits for a `concurrency` slot, in milliseconds
+   * Calls that wait longer fail with a QueueTimeoutError. No limit when omitted.
+   */
+  maxQueueWait?: number;
+
+  /**
+   * Share one request between identical read tool calls made at the same time
+   * 
+   * Calls match when their tool, arguments, token, account and context are equal.
+   * Write tools (anything that isn't a get/list/search-style read) and calls
+   * with `onProgress` are always sent on their own. On createMCPServer() this
+   * also applies to tool calls through the `/mcp` route.
+   * 
+   * @default false
+   */
+  dedupeRequests?: boolean;
+
+  /**
+   * Retry tool calls that fail with network errors, timeouts, 5xx responses or
+   * rate limits, with exponential backoff and jitter
+   * 
+   * Only idempotent (read) tools are retried unless `tools: 'all'` is set.
+   * Rate-limited calls wait for the server's `Retry-After`. Without a policy,
+   * only re-authentication (`onReauthRequired`) retries a call.
+   * 
+   * @example
+   * ```typescript
+   * createMCPServer({
+   *   integrations: [githubIntegration()],
+   *   retry: { maxAttempts: 4, initialDelay: 500, maxDelay: 30_000 },
+   * })
+   * ```
+   */
+  retry?: RetryPolicy;
+
+  /**
+   * Check tool arguments against the tool's discovered inputSchema before sending
+   * 
+   * - 'off' (default): Send arguments unchecked
+   * - 'warn': Log a warning and send anyway
+   * - 'strict': Throw a ValidationError listing each invalid field
+   * 
+   * Tools whose schema has not been discovered (e.g., before connect()) are not checked.
+   * 
+   * @default 'off'
+   */
+  validateArguments?: 'off' | 'warn' | 'strict';
+
+  /**
+   * What to do when a tool needs OAuth scopes the provider token wasn't granted
+   * Tools declare their scopes with the integration's `oauth.toolScopes`
+   * 
+   * - 'error' (default): Throw an AuthorizationError listing the missing scopes before calling the tool
+   * - 'authorize': Run `authorize(provider, { additionalScopes })` for the missing scopes, then call
+   *   the tool if they were granted (browser clients using popup mode)
+   * - 'ignore': Call the tool anyway and let the provider reject it
+   * 
+   * Tokens that don't report their granted scopes are not checked.
+   * 
+   * @default 'error'
+   */
+  onMissingScopes?: 'error' | 'authorize' | 'ignore';
+
   /** Client information */
   clientInfo?: {
     name: string;
@@ -340,6 +733,9 @@ export interface MCPClientConfig<TIntegrations extends readonly MCPIntegration[]
    * - true (default): Reuses client with same configuration
    * - false: Always creates a new instance
    * 
+   * Ignored (always a new client) when `transport` is an `MCPTransport` instance,
+   * or when `middleware`, `tracer`, `logger` or `cache` is set
+   * 
    * @default true
    */
   singleton?: boolean;
@@ -400,6 +796,7 @@ export interface MCPClientConfig<TIntegrations extends readonly MCPIntegration[]
    * The SDK will call:
    * - POST {oauthApiBase}/authorize - Get authorization URL
    * - POST {oauthApiBase}/callback - Exchange code for token
+   * - POST {oauthApiBase}/refresh - Refresh an expiring token
    * - GET {oauthApiBase}/status - Check authorization status
    * 
    * @default '/api/integrate/oauth'
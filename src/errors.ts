@@ -2,6 +2,8 @@
  * Custom error types for the Integrate SDK
  */
 
+import type { MCPToolCallResponse } from "./protocol/messages.js";
+
 /**
  * Base error class for all SDK errors
  */
@@ -80,6 +82,78 @@ export class ToolCallError extends IntegrateSDKError {
   }
 }
 
+/**
+ * Error thrown when a tool call result cannot be parsed into data
+ */
+export class ToolResultParseError extends ToolCallError {
+  public readonly response: MCPToolCallResponse;
+
+  constructor(message: string, toolName: string, response: MCPToolCallResponse, originalError?: unknown) {
+    super(message, toolName, originalError);
+    this.name = "ToolResultParseError";
+    this.response = response;
+  }
+}
+
+/**
+ * A single argument that failed schema validation
+ */
+export interface ValidationIssue {
+  /** Dotted path to the argument (e.g., 'owner' or 'labels.0'); empty for the whole object */
+  path: string;
+  /** What is wrong with the value */
+  message: string;
+}
+
+/**
+ * Error thrown when tool arguments do not match the tool's inputSchema
+ */
+export class ValidationError extends IntegrateSDKError {
+  public readonly toolName: string;
+  public readonly issues: ValidationIssue[];
+
+  constructor(message: string, toolName: string, issues: ValidationIssue[]) {
+    super(message);
+    this.name = "ValidationError";
+    this.toolName = toolName;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Error thrown when the MCP server or an upstream provider rate-limits a call (HTTP 429)
+ */
+export class RateLimitError extends IntegrateSDKError {
+  public readonly statusCode = 429;
+  /** Seconds to wait before retrying, from `Retry-After` or the server's rate-limit data */
+  public readonly retryAfter?: number;
+  public readonly provider?: string;
+
+  constructor(message: string, retryAfter?: number, provider?: string) {
+    super(message);
+    this.name = "RateLimitError";
+    this.retryAfter = retryAfter;
+    this.provider = provider;
+  }
+}
+
+/**
+ * Error thrown when a tool call waits longer than `maxQueueWait` for a
+ * provider's concurrency slot
+ */
+export class QueueTimeoutError extends IntegrateSDKError {
+  public readonly statusCode = 503;
+  public readonly provider: string;
+  public readonly waitedMs: number;
+
+  constructor(message: string, provider: string, waitedMs: number) {
+    super(message);
+    this.name = "QueueTimeoutError";
+    this.provider = provider;
+    this.waitedMs = waitedMs;
+  }
+}
+
 /**
  * Helper function to determine if an error is an authentication error
  */
@@ -101,6 +175,56 @@ export function isAuthorizationError(error: unknown): error is AuthorizationErro
   return error instanceof AuthorizationError;
 }
 
+/**
+ * Helper function to determine if an error is a rate limit error
+ */
+export function isRateLimitError(error: unknown): error is RateLimitError {
+  return error instanceof RateLimitError;
+}
+
+/**
+ * Parse a `Retry-After` value (seconds or an HTTP date) into seconds
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value >= 0 ? value : undefined;
+  }
+  if (typeof value !== "string" || value.trim() === "") {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return seconds >= 0 ? seconds : undefined;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, (date - Date.now()) / 1000);
+}
+
+/**
+ * Seconds until a rate-limited call may be retried
+ * Read from the `Retry-After` header (attached by transports as `retryAfter`)
+ * or the server's rate-limit data (`retryAfter`, `retry_after`, or upstream
+ * `retry-after` / `x-ratelimit-reset` headers)
+ */
+function getRetryAfter(error: any): number | undefined {
+  const data = error?.data;
+  const headers = data?.headers;
+  const retryAfter =
+    parseRetryAfter(error?.retryAfter) ??
+    parseRetryAfter(data?.retryAfter) ??
+    parseRetryAfter(data?.retry_after) ??
+    parseRetryAfter(headers?.["retry-after"]);
+  if (retryAfter !== undefined) {
+    return retryAfter;
+  }
+
+  // x-ratelimit-reset is the epoch second the limit resets
+  const reset = Number(headers?.["x-ratelimit-reset"] ?? data?.rateLimit?.reset);
+  return Number.isFinite(reset) && reset > 0
+    ? Math.max(0, reset - Date.now() / 1000)
+    : undefined;
+}
+
 /**
  * Helper function to parse error responses from the MCP server
  * and convert them to appropriate error types
@@ -109,6 +233,11 @@ export function parseServerError(
   error: any,
   context?: { toolName?: string; provider?: string }
 ): IntegrateSDKError {
+  // Already parsed, or raised by the SDK itself (e.g., QueueTimeoutError)
+  if (error instanceof IntegrateSDKError) {
+    return error;
+  }
+
   // Check if the error has an attached JSON-RPC error (from transport layer)
   if (error && typeof error === "object" && "jsonrpcError" in error) {
     const jsonrpcError = error.jsonrpcError;
@@ -150,6 +279,10 @@ export function parseServerError(
       return new AuthorizationError(message, 403);
     }
 
+    if (code === 429) {
+      return new RateLimitError(message, getRetryAfter(error), context?.provider);
+    }
+
     // Tool-specific errors
     if (context?.toolName) {
       return new ToolCallError(message, context.toolName, error);
@@ -173,6 +306,9 @@ export function parseServerError(
     if (statusCode === 403) {
       return new AuthorizationError(message, 403);
     }
+    if (statusCode === 429) {
+      return new RateLimitError(message, getRetryAfter(error), context?.provider);
+    }
 
     // Check for common auth error patterns in message
     if (
@@ -10,6 +10,7 @@ export type { ToolInvocationOptions } from "./client.js";
 
 // OAuth utilities
 export { OAuthManager } from "./oauth/manager.js";
+export { DEFAULT_ACCOUNT_ID } from "./oauth/accounts.js";
 export { OAuthWindowManager, sendCallbackToOpener } from "./oauth/window-manager.js";
 export { generateCodeVerifier, generateCodeChallenge, generateState, generateStateWithReturnUrl, parseState } from "./oauth/pkce.js";
 export type {
@@ -38,9 +39,12 @@ export type {
   AuthorizeResponse,
   CallbackRequest,
   CallbackResponse,
+  RefreshRequest,
+  RefreshResponse,
   StatusResponse,
   DisconnectRequest,
   DisconnectResponse,
+  MCPProxyRequest,
 } from "./adapters/base-handler.js";
 
 // Framework adapters
@@ -54,7 +58,26 @@ export { toSvelteKitHandler, svelteKitHandler } from "./adapters/svelte-kit.js";
 export { toTanStackStartHandler, createTanStackOAuthHandler } from "./adapters/tanstack-start.js";
 
 // Configuration
-export type { MCPClientConfig, ReauthContext, ReauthHandler, MCPContext, ToolCallOptions } from "./config/types.js";
+export type { MCPClientConfig, ReauthContext, ReauthHandler, MCPContext, ToolCallOptions, PaginateOptions, ToolProgressHandler, ResourceRequestOptions, ListRequestOptions, ToolCallMiddleware, ToolCallMiddlewareContext, ToolStartEvent, ToolSuccessEvent, ToolErrorEvent, ToolEventMap, ToolEventListener } from "./config/types.js";
+
+// Tracing
+export { SpanName, SpanAttribute, TraceStatusCode } from "./utils/tracing.js";
+export type { Tracer, TraceSpan, TraceAttributes, TraceAttributeValue } from "./utils/tracing.js";
+
+// Tool result cache
+export { createMemoryCacheStore } from "./utils/tool-cache.js";
+export type { ToolCacheConfig, ToolCacheStore, ToolCacheStats, MemoryCacheStoreOptions } from "./utils/tool-cache.js";
+
+// Deduplication and concurrency limits
+export { ToolCallLimiter } from "./utils/tool-call-limiter.js";
+export type { ToolCallLimiterOptions, ToolCallLimiterStats, ProviderQueueStats } from "./utils/tool-call-limiter.js";
+
+// Retries
+export type { RetryPolicy } from "./utils/retry.js";
+
+// Logging
+export { createConsoleLogger, redactSecrets } from "./utils/logger.js";
+export type { Logger, LogLevel, LogFields, ConsoleLoggerOptions } from "./utils/logger.js";
 
 // Errors
 export {
@@ -64,11 +87,20 @@ export {
   TokenExpiredError,
   ConnectionError,
   ToolCallError,
+  ToolResultParseError,
+  ValidationError,
+  QueueTimeoutError,
+  RateLimitError,
   isAuthError,
   isTokenExpiredError,
   isAuthorizationError,
+  isRateLimitError,
   parseServerError,
 } from "./errors.js";
+export type { ValidationIssue } from "./errors.js";
+
+// Tool results
+export { getRawResponse } from "./utils/tool-result.js";
 
 // Integration system
 export type {
@@ -76,17 +108,21 @@ export type {
   OAuthConfig,
   ExtractIntegrationIds,
   ExtractIntegrationTools,
+  ExtractIntegrationClient,
+  GenericIntegrationClient,
+  PaginationStrategy,
+  PaginatedPage,
 } from "./integrations/types.js";
 
 // Built-in integrations
 export { githubIntegration } from "./integrations/github.js";
-export type { GitHubIntegrationConfig, GitHubTools, GitHubIntegrationClient } from "./integrations/github.js";
+export type { GitHubIntegrationConfig, GitHubTools, GitHubIntegrationClient, GitHubPaginator, GitHubIssue, GitHubPullRequest, GitHubRepository, GitHubBranch, GitHubUser, GitHubCommit, GitHubMergeResult, GitHubRef } from "./integrations/github.js";
 
 export { gmailIntegration } from "./integrations/gmail.js";
-export type { GmailIntegrationConfig, GmailTools, GmailIntegrationClient } from "./integrations/gmail.js";
+export type { GmailIntegrationConfig, GmailTools, GmailIntegrationClient, GmailPaginator, GmailMessage, GmailMessageList, GmailLabel, GmailDraft } from "./integrations/gmail.js";
 
 export { notionIntegration } from "./integrations/notion.js";
-export type { NotionIntegrationConfig, NotionTools, NotionIntegrationClient } from "./integrations/notion.js";
+export type { NotionIntegrationConfig, NotionTools, NotionIntegrationClient, NotionPaginator, NotionPage, NotionDatabase, NotionSearchResult, NotionSearchResponse } from "./integrations/notion.js";
 
 // Server client
 export type { ServerIntegrationClient } from "./integrations/server-client.js";
@@ -113,14 +149,39 @@ export type {
   MCPToolCallResponse,
   MCPInitializeParams,
   MCPInitializeResponse,
+  MCPResource,
+  MCPResourceTemplate,
+  MCPResourcesListResponse,
+  MCPResourceTemplatesListResponse,
+  MCPResourceContents,
+  MCPResourceReadResponse,
+  MCPResourceUpdatedNotificationParams,
+  MCPProgressNotificationParams,
+  MCPPrompt,
+  MCPPromptArgument,
+  MCPPromptsListResponse,
+  MCPPromptContent,
+  MCPPromptMessage,
+  MCPGetPromptParams,
+  MCPGetPromptResponse,
 } from "./protocol/messages.js";
 
-export { MCPMethod } from "./protocol/messages.js";
+export {
+  MCPMethod,
+  MCPNotification,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  LATEST_PROTOCOL_VERSION,
+} from "./protocol/messages.js";
 
 // Transport
 export { HttpSessionTransport } from "./transport/http-session.js";
+export { HttpStreamTransport } from "./transport/http-stream.js";
+export type { HttpSessionTransportOptions } from "./transport/http-session.js";
+export type { HttpStreamTransportOptions } from "./transport/http-stream.js";
 export type {
+  MCPTransport,
+  BuiltInTransport,
   MessageHandler,
-  HttpSessionTransportOptions,
-} from "./transport/http-session.js";
+  SendRequestOptions,
+} from "./transport/types.js";
 
@@ -9,9 +9,9 @@ import { getEnv } from "../utils/env.js";
 /**
  * Generic OAuth integration configuration
  */
-export interface GenericOAuthIntegrationConfig {
+export interface GenericOAuthIntegrationConfig<TId extends string = string> {
   /** Integration unique identifier (must match the integration ID on the server) */
-  id: string;
+  id: TId;
   /** OAuth provider name */
   provider: string;
   /** OAuth client ID (defaults to {PROVIDER}_CLIENT_ID env var) */
@@ -20,6 +20,8 @@ export interface GenericOAuthIntegrationConfig {
   clientSecret?: string;
   /** OAuth scopes */
   scopes: string[];
+  /** Scopes each tool needs, keyed by tool name (see OAuthConfig.toolScopes) */
+  toolScopes?: Record<string, Array<string | string[]>>;
   /** Tool names to enable from the server (must exist on the server) */
   tools: string[];
   /** OAuth redirect URI */
@@ -62,8 +64,22 @@ export interface GenericOAuthIntegrationConfig {
  * });
  * 
  * await client.connect();
- * // Call server tools using _callToolByName
- * await client._callToolByName('slack_send_message', { channel: '#general', text: 'Hello' });
+ * // Methods map to tools by name: slack_send_message
+ * await client.slack.sendMessage({ channel: '#general', text: 'Hello' });
+ * ```
+ * 
+ * @example Typed namespace:
+ * ```typescript
+ * interface SlackClient {
+ *   sendMessage(params: { channel: string; text: string }): Promise<{ ts: string }>;
+ * }
+ * 
+ * const slackIntegration: MCPIntegration<'slack', SlackClient> = genericOAuthIntegration({
+ *   id: 'slack',
+ *   provider: 'slack',
+ *   scopes: ['chat:write'],
+ *   tools: ['slack_send_message'],
+ * });
  * ```
  * 
  * @example With explicit override:
@@ -78,9 +94,9 @@ export interface GenericOAuthIntegrationConfig {
  * });
  * ```
  */
-export function genericOAuthIntegration(
-  config: GenericOAuthIntegrationConfig
-): MCPIntegration {
+export function genericOAuthIntegration<TId extends string, TClient = unknown>(
+  config: GenericOAuthIntegrationConfig<TId>
+): MCPIntegration<TId, TClient> {
   const providerUpper = config.provider.toUpperCase().replace(/[^A-Z0-9]/g, '_');
 
   const oauth: OAuthConfig = {
@@ -88,6 +104,7 @@ export function genericOAuthIntegration(
     clientId: config.clientId ?? getEnv(`${providerUpper}_CLIENT_ID`),
     clientSecret: config.clientSecret ?? getEnv(`${providerUpper}_CLIENT_SECRET`),
     scopes: config.scopes,
+    toolScopes: config.toolScopes,
     redirectUri: config.redirectUri,
     config,
   };
@@ -115,15 +132,17 @@ export function genericOAuthIntegration(
  *   id: 'math',
  *   tools: ['math_add', 'math_subtract', 'math_multiply', 'math_divide'],
  * });
+ * 
+ * const sum = await client.math.add({ a: 1, b: 2 });
  * ```
  */
-export function createSimpleIntegration(config: {
-  id: string;
+export function createSimpleIntegration<TId extends string, TClient = unknown>(config: {
+  id: TId;
   tools: string[];
   onInit?: (client: any) => Promise<void> | void;
   onAfterConnect?: (client: any) => Promise<void> | void;
   onDisconnect?: (client: any) => Promise<void> | void;
-}): MCPIntegration {
+}): MCPIntegration<TId, TClient> {
   return {
     id: config.id,
     tools: config.tools,
@@ -3,7 +3,7 @@
  * Fully typed interface for GitHub integration methods
  */
 
-import type { MCPToolCallResponse } from "../protocol/messages.js";
+import type { PaginateOptions, ToolCallOptions } from "../config/types.js";
 
 /**
  * GitHub Issue
@@ -135,9 +135,64 @@ export interface GitHubCommit {
   };
 }
 
+/**
+ * Result of merging a pull request
+ */
+export interface GitHubMergeResult {
+  sha: string;
+  merged: boolean;
+  message: string;
+}
+
+/**
+ * GitHub Git Reference (e.g., a newly created branch)
+ */
+export interface GitHubRef {
+  ref: string;
+  url: string;
+  object: {
+    type: string;
+    sha: string;
+    url: string;
+  };
+}
+
+/**
+ * Paginated GitHub list methods
+ * Each method yields every item across pages; `page` is managed for you
+ */
+export interface GitHubPaginator {
+  listIssues(
+    params: Omit<Parameters<GitHubIntegrationClient["listIssues"]>[0], "page">,
+    options?: PaginateOptions
+  ): AsyncIterable<GitHubIssue>;
+  listPullRequests(
+    params: Omit<Parameters<GitHubIntegrationClient["listPullRequests"]>[0], "page">,
+    options?: PaginateOptions
+  ): AsyncIterable<GitHubPullRequest>;
+  listRepos(
+    params: Omit<Parameters<GitHubIntegrationClient["listRepos"]>[0], "page">,
+    options?: PaginateOptions
+  ): AsyncIterable<GitHubRepository>;
+  listOwnRepos(
+    params?: Omit<NonNullable<Parameters<GitHubIntegrationClient["listOwnRepos"]>[0]>, "page">,
+    options?: PaginateOptions
+  ): AsyncIterable<GitHubRepository>;
+  listBranches(
+    params: Omit<Parameters<GitHubIntegrationClient["listBranches"]>[0], "page">,
+    options?: PaginateOptions
+  ): AsyncIterable<GitHubBranch>;
+  listCommits(
+    params: Omit<Parameters<GitHubIntegrationClient["listCommits"]>[0], "page">,
+    options?: PaginateOptions
+  ): AsyncIterable<GitHubCommit>;
+}
+
 /**
  * GitHub Integration Client Interface
  * Provides type-safe methods for all GitHub operations
+ * Methods resolve with parsed data; use getRawResponse() to reach the MCP response
+ * Each method takes optional ToolCallOptions (signal, onProgress, accountId, context)
  */
 export interface GitHubIntegrationClient {
   /**
@@ -150,7 +205,7 @@ export interface GitHubIntegrationClient {
     body?: string;
     labels?: string[];
     assignees?: string[];
-  }): Promise<MCPToolCallResponse>;
+  }, options?: ToolCallOptions): Promise<GitHubIssue>;
 
   /**
    * List issues in a repository
@@ -164,7 +219,7 @@ export interface GitHubIntegrationClient {
     direction?: "asc" | "desc";
     per_page?: number;
     page?: number;
-  }): Promise<MCPToolCallResponse>;
+  }, options?: ToolCallOptions): Promise<GitHubIssue[]>;
 
   /**
    * Get a specific issue
@@ -173,7 +228,7 @@ export interface GitHubIntegrationClient {
     owner: string;
     repo: string;
     issue_number: number;
-  }): Promise<MCPToolCallResponse>;
+  }, options?: ToolCallOptions): Promise<GitHubIssue>;
 
   /**
    * Update an existing issue
@@ -187,7 +242,7 @@ export interface GitHubIntegrationClient {
     state?: "open" | "closed";
     labels?: string[];
     assignees?: string[];
-  }): Promise<MCPToolCallResponse>;
+  }, options?: ToolCallOptions): Promise<GitHubIssue>;
 
   /**
    * Close an issue
@@ -196,7 +251,7 @@ export interface GitHubIntegrationClient {
     owner: string;
     repo: string;
     issue_number: number;
-  }): Promise<MCPToolCallResponse>;
+  }, options?: ToolCallOptions): Promise<GitHubIssue>;
 
   /**
    * Create a pull request
@@ -209,7 +264,7 @@ export interface GitHubIntegrationClient {
     base: string;
     body?: string;
     draft?: boolean;
-  }): Promise<MCPToolCallResponse>;
+  }, options?: ToolCallOptions): Promise<GitHubPullRequest>;
 
   /**
    * List pull requests in a repository
@@ -222,7 +277,7 @@ export interface GitHubIntegrationClient {
     direction?: "asc" | "desc";
     per_page?: number;
     page?: number;
-  }): Promise<MCPToolCallResponse>;
+  }, options?: ToolCallOptions): Promise<GitHubPullRequest[]>;
 
   /**
    * Get a specific pull request
@@ -231,7 +286,7 @@ export interface GitHubIntegrationClient {
     owner: string;
     repo: string;
     pull_number: number;
-  }): Promise<MCPToolCallResponse>;
+  }, options?: ToolCallOptions): Promise<GitHubPullRequest>;
 
   /**
    * Merge a pull request
@@ -243,7 +298,7 @@ export interface GitHubIntegrationClient {
     commit_title?: string;
     commit_message?: string;
     merge_method?: "merge" | "squash" | "rebase";
-  }): Promise<MCPToolCallResponse>;
+  }, options?: ToolCallOptions): Promise<GitHubMergeResult>;
 
   /**
    * List repositories (for a user or organization)
@@ -255,7 +310,7 @@ export interface GitHubIntegrationClient {
     direction?: "asc" | "desc";
     per_page?: number;
     page?: number;
-  }): Promise<MCPToolCallResponse>;
+  }, options?: ToolCallOptions): Promise<GitHubRepository[]>;
 
   /**
    * List repositories for the authenticated user
@@ -268,7 +323,7 @@ export interface GitHubIntegrationClient {
     direction?: "asc" | "desc";
     per_page?: number;
     page?: number;
-  }): Promise<MCPToolCallResponse>;
+  }, options?: ToolCallOptions): Promise<GitHubRepository[]>;
 
   /**
    * Get a specific repository
@@ -276,7 +331,7 @@ export interface GitHubIntegrationClient {
   getRepo(params: {
     owner: string;
     repo: string;
-  }): Promise<MCPToolCallResponse>;
+  }, options?: ToolCallOptions): Promise<GitHubRepository>;
 
   /**
    * Create a new repository
@@ -288,7 +343,7 @@ export interface GitHubIntegrationClient {
     auto_init?: boolean;
     gitignore_template?: string;
     license_template?: string;
-  }): Promise<MCPToolCallResponse>;
+  }, options?: ToolCallOptions): Promise<GitHubRepository>;
 
   /**
    * List branches in a repository
@@ -299,7 +354,7 @@ export interface GitHubIntegrationClient {
     protected?: boolean;
     per_page?: number;
     page?: number;
-  }): Promise<MCPToolCallResponse>;
+  }, options?: ToolCallOptions): Promise<GitHubBranch[]>;
 
   /**
    * Create a new branch
@@ -309,14 +364,14 @@ export interface GitHubIntegrationClient {
     repo: string;
     branch: string;
     from_branch?: string;
-  }): Promise<MCPToolCallResponse>;
+  }, options?: ToolCallOptions): Promise<GitHubRef>;
 
   /**
    * Get information about a user
    */
   getUser(params: {
     username: string;
-  }): Promise<MCPToolCallResponse>;
+  }, options?: ToolCallOptions): Promise<GitHubUser>;
 
   /**
    * List commits in a repository
@@ -331,7 +386,7 @@ export interface GitHubIntegrationClient {
     until?: string;
     per_page?: number;
     page?: number;
-  }): Promise<MCPToolCallResponse>;
+  }, options?: ToolCallOptions): Promise<GitHubCommit[]>;
 
   /**
    * Get a specific commit
@@ -340,6 +395,20 @@ export interface GitHubIntegrationClient {
     owner: string;
     repo: string;
     ref: string;
-  }): Promise<MCPToolCallResponse>;
-}
+  }, options?: ToolCallOptions): Promise<GitHubCommit>;
 
+  /**
+   * Iterate over list results across pages
+   * 
+   * @example
+   * ```typescript
+   * for await (const issue of client.github.paginate.listIssues(
+   *   { owner: "octocat", repo: "hello-world", per_page: 100 },
+   *   { maxItems: 1000 }
+   * )) {
+   *   console.log(issue.title);
+   * }
+   * ```
+   */
+  readonly paginate: GitHubPaginator;
+}
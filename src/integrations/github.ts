@@ -4,7 +4,9 @@
  */
 
 import type { MCPIntegration, OAuthConfig } from "./types.js";
+import type { GitHubIntegrationClient } from "./github-client.js";
 import { getEnv } from "../utils/env.js";
+import { pageNumberPagination } from "../utils/pagination.js";
 
 /**
  * GitHub integration configuration
@@ -52,7 +54,7 @@ const GITHUB_TOOLS = [
 ] as const;
 
 
-export function githubIntegration(config: GitHubIntegrationConfig = {}): MCPIntegration<"github"> {
+export function githubIntegration(config: GitHubIntegrationConfig = {}): MCPIntegration<"github", GitHubIntegrationClient> {
   const oauth: OAuthConfig = {
     provider: "github",
     clientId: config.clientId ?? getEnv('GITHUB_CLIENT_ID'),
@@ -69,13 +71,14 @@ export function githubIntegration(config: GitHubIntegrationConfig = {}): MCPInte
     id: "github",
     tools: [...GITHUB_TOOLS],
     oauth,
+    pagination: pageNumberPagination(30),
 
-    async onInit(_client) {
-      console.log("GitHub integration initialized");
+    async onInit(client) {
+      client?.logger.debug("GitHub integration initialized");
     },
 
-    async onAfterConnect(_client) {
-      console.log("GitHub integration connected");
+    async onAfterConnect(client) {
+      client?.logger.debug("GitHub integration connected");
     },
   };
 }
@@ -88,5 +91,5 @@ export type GitHubTools = typeof GITHUB_TOOLS[number];
 /**
  * Export GitHub client types
  */
-export type { GitHubIntegrationClient } from "./github-client.js";
+export type { GitHubIntegrationClient, GitHubPaginator, GitHubIssue, GitHubPullRequest, GitHubRepository, GitHubBranch, GitHubUser, GitHubCommit, GitHubMergeResult, GitHubRef } from "./github-client.js";
 
@@ -3,7 +3,7 @@
  * Fully typed interface for Gmail integration methods
  */
 
-import type { MCPToolCallResponse } from "../protocol/messages.js";
+import type { PaginateOptions, ToolCallOptions } from "../config/types.js";
 
 /**
  * Gmail Email Message
@@ -58,9 +58,35 @@ export interface GmailDraft {
   message: GmailMessage;
 }
 
+/**
+ * Page of Gmail messages returned by list and search
+ */
+export interface GmailMessageList {
+  messages?: Array<Pick<GmailMessage, "id" | "threadId">>;
+  nextPageToken?: string;
+  resultSizeEstimate?: number;
+}
+
+/**
+ * Paginated Gmail list methods
+ * Each method yields every message across pages; `pageToken` is managed for you
+ */
+export interface GmailPaginator {
+  listMessages(
+    params?: Omit<NonNullable<Parameters<GmailIntegrationClient["listMessages"]>[0]>, "pageToken">,
+    options?: PaginateOptions
+  ): AsyncIterable<Pick<GmailMessage, "id" | "threadId">>;
+  searchMessages(
+    params: Omit<Parameters<GmailIntegrationClient["searchMessages"]>[0], "pageToken">,
+    options?: PaginateOptions
+  ): AsyncIterable<Pick<GmailMessage, "id" | "threadId">>;
+}
+
 /**
  * Gmail Integration Client Interface
  * Provides type-safe methods for all Gmail operations
+ * Methods resolve with parsed data; use getRawResponse() to reach the MCP response
+ * Each method takes optional ToolCallOptions (signal, onProgress, accountId, context)
  */
 export interface GmailIntegrationClient {
   /**
@@ -80,7 +106,7 @@ export interface GmailIntegrationClient {
       content: string;
       encoding?: string;
     }>;
-  }): Promise<MCPToolCallResponse>;
+  }, options?: ToolCallOptions): Promise<GmailMessage>;
 
   /**
    * List messages in the mailbox
@@ -91,7 +117,7 @@ export interface GmailIntegrationClient {
     q?: string;
     labelIds?: string[];
     includeSpamTrash?: boolean;
-  }): Promise<MCPToolCallResponse>;
+  }, options?: ToolCallOptions): Promise<GmailMessageList>;
 
   /**
    * Get a specific message by ID
@@ -99,7 +125,7 @@ export interface GmailIntegrationClient {
   getMessage(params: {
     id: string;
     format?: "minimal" | "full" | "raw" | "metadata";
-  }): Promise<MCPToolCallResponse>;
+  }, options?: ToolCallOptions): Promise<GmailMessage>;
 
   /**
    * Search messages with query
@@ -109,6 +135,10 @@ export interface GmailIntegrationClient {
     maxResults?: number;
     pageToken?: string;
     includeSpamTrash?: boolean;
-  }): Promise<MCPToolCallResponse>;
-}
+  }, options?: ToolCallOptions): Promise<GmailMessageList>;
 
+  /**
+   * Iterate over message lists across pages
+   */
+  readonly paginate: GmailPaginator;
+}
@@ -4,7 +4,9 @@
  */
 
 import type { MCPIntegration, OAuthConfig } from "./types.js";
+import type { GmailIntegrationClient } from "./gmail-client.js";
 import { getEnv } from "../utils/env.js";
+import { tokenPagination } from "../utils/pagination.js";
 
 /**
  * Gmail integration configuration
@@ -35,6 +37,30 @@ const GMAIL_TOOLS = [
   "gmail_search_messages",
 ] as const;
 
+const GMAIL_READ_SCOPES = [
+  "https://www.googleapis.com/auth/gmail.readonly",
+  "https://www.googleapis.com/auth/gmail.modify",
+  "https://mail.google.com/",
+];
+
+const GMAIL_SEND_SCOPES = [
+  "https://www.googleapis.com/auth/gmail.send",
+  "https://www.googleapis.com/auth/gmail.compose",
+  "https://www.googleapis.com/auth/gmail.modify",
+  "https://mail.google.com/",
+];
+
+/**
+ * Scopes each Gmail tool needs
+ * Each tool accepts its narrowest scope or any broader Gmail scope that covers it
+ */
+const GMAIL_TOOL_SCOPES: Record<string, Array<string | string[]>> = {
+  gmail_send_message: [GMAIL_SEND_SCOPES],
+  gmail_list_messages: [GMAIL_READ_SCOPES],
+  gmail_get_message: [GMAIL_READ_SCOPES],
+  gmail_search_messages: [GMAIL_READ_SCOPES],
+};
+
 /**
  * Gmail Integration
  * 
@@ -85,7 +111,7 @@ const GMAIL_TOOLS = [
  * });
  * ```
  */
-export function gmailIntegration(config: GmailIntegrationConfig = {}): MCPIntegration<"gmail"> {
+export function gmailIntegration(config: GmailIntegrationConfig = {}): MCPIntegration<"gmail", GmailIntegrationClient> {
   const oauth: OAuthConfig = {
     provider: "gmail",
     clientId: config.clientId ?? getEnv('GMAIL_CLIENT_ID'),
@@ -96,6 +122,7 @@ export function gmailIntegration(config: GmailIntegrationConfig = {}): MCPIntegr
       "https://www.googleapis.com/auth/gmail.modify",
       "https://www.googleapis.com/auth/gmail.labels",
     ],
+    toolScopes: GMAIL_TOOL_SCOPES,
     redirectUri: config.redirectUri,
     config,
   };
@@ -104,13 +131,14 @@ export function gmailIntegration(config: GmailIntegrationConfig = {}): MCPIntegr
     id: "gmail",
     tools: [...GMAIL_TOOLS],
     oauth,
+    pagination: tokenPagination("messages", "pageToken", "nextPageToken"),
 
-    async onInit(_client) {
-      console.log("Gmail integration initialized");
+    async onInit(client) {
+      client?.logger.debug("Gmail integration initialized");
     },
 
-    async onAfterConnect(_client) {
-      console.log("Gmail integration connected");
+    async onAfterConnect(client) {
+      client?.logger.debug("Gmail integration connected");
     },
   };
 }
@@ -123,5 +151,5 @@ export type GmailTools = typeof GMAIL_TOOLS[number];
 /**
  * Export Gmail client types
  */
-export type { GmailIntegrationClient } from "./gmail-client.js";
+export type { GmailIntegrationClient, GmailPaginator, GmailMessage, GmailMessageList, GmailLabel, GmailDraft } from "./gmail-client.js";
 
@@ -3,7 +3,7 @@
  * Fully typed interface for Notion integration methods
  */
 
-import type { MCPToolCallResponse } from "../protocol/messages.js";
+import type { PaginateOptions, ToolCallOptions } from "../config/types.js";
 
 /**
  * Notion Page Object
@@ -81,9 +81,32 @@ export interface NotionSearchResult {
   [key: string]: any;
 }
 
+/**
+ * Page of Notion search results
+ */
+export interface NotionSearchResponse {
+  object: "list";
+  results: NotionSearchResult[];
+  next_cursor: string | null;
+  has_more: boolean;
+}
+
+/**
+ * Paginated Notion list methods
+ * Each method yields every result across pages; `start_cursor` is managed for you
+ */
+export interface NotionPaginator {
+  search(
+    params?: Omit<NonNullable<Parameters<NotionIntegrationClient["search"]>[0]>, "start_cursor">,
+    options?: PaginateOptions
+  ): AsyncIterable<NotionSearchResult>;
+}
+
 /**
  * Notion Integration Client Interface
  * Provides type-safe methods for all Notion operations
+ * Methods resolve with parsed data; use getRawResponse() to reach the MCP response
+ * Each method takes optional ToolCallOptions (signal, onProgress, accountId, context)
  */
 export interface NotionIntegrationClient {
   /**
@@ -115,7 +138,7 @@ export interface NotionIntegrationClient {
     page_size?: number;
     /** Start cursor for pagination */
     start_cursor?: string;
-  }): Promise<MCPToolCallResponse>;
+  }, options?: ToolCallOptions): Promise<NotionSearchResponse>;
 
   /**
    * Retrieve a Notion page by ID
@@ -132,6 +155,17 @@ export interface NotionIntegrationClient {
     page_id: string;
     /** Filter the properties returned (optional) */
     filter_properties?: string[];
-  }): Promise<MCPToolCallResponse>;
-}
+  }, options?: ToolCallOptions): Promise<NotionPage>;
 
+  /**
+   * Iterate over search results across pages
+   * 
+   * @example
+   * ```typescript
+   * for await (const result of client.notion.paginate.search({ query: "Roadmap" }, { maxPages: 5 })) {
+   *   console.log(result.url);
+   * }
+   * ```
+   */
+  readonly paginate: NotionPaginator;
+}
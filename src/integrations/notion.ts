@@ -4,7 +4,9 @@
  */
 
 import type { MCPIntegration, OAuthConfig } from "./types.js";
+import type { NotionIntegrationClient } from "./notion-client.js";
 import { getEnv } from "../utils/env.js";
+import { notionCursorPagination } from "../utils/pagination.js";
 export interface NotionIntegrationConfig {
   /** Notion OAuth client ID (defaults to NOTION_CLIENT_ID env var) */
   clientId?: string;
@@ -43,7 +45,7 @@ const NOTION_TOOLS = [
  * - Does not use traditional OAuth scopes
  * 
  */
-export function notionIntegration(config: NotionIntegrationConfig = {}): MCPIntegration<"notion"> {
+export function notionIntegration(config: NotionIntegrationConfig = {}): MCPIntegration<"notion", NotionIntegrationClient> {
   const oauth: OAuthConfig = {
     provider: "notion",
     clientId: config.clientId ?? getEnv('NOTION_CLIENT_ID'),
@@ -62,13 +64,14 @@ export function notionIntegration(config: NotionIntegrationConfig = {}): MCPInte
     id: "notion",
     tools: [...NOTION_TOOLS],
     oauth,
+    pagination: notionCursorPagination,
 
-    async onInit(_client) {
-      console.log("Notion integration initialized");
+    async onInit(client) {
+      client?.logger.debug("Notion integration initialized");
     },
 
-    async onAfterConnect(_client) {
-      console.log("Notion integration connected");
+    async onAfterConnect(client) {
+      client?.logger.debug("Notion integration connected");
     },
   };
 }
@@ -81,5 +84,5 @@ export type NotionTools = typeof NOTION_TOOLS[number];
 /**
  * Export Notion client types
  */
-export type { NotionIntegrationClient } from "./notion-client.js";
+export type { NotionIntegrationClient, NotionPaginator, NotionPage, NotionDatabase, NotionSearchResult, NotionSearchResponse } from "./notion-client.js";
 
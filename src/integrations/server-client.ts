@@ -3,6 +3,7 @@
  * Fully typed interface for server-level tools that don't belong to a specific integration
  */
 
+import type { ToolCallOptions } from "../config/types.js";
 import type { MCPToolCallResponse } from "../protocol/messages.js";
 
 /**
@@ -15,6 +16,6 @@ export interface ServerIntegrationClient {
    */
   listToolsByIntegration(params: {
     integration: string;
-  }): Promise<MCPToolCallResponse>;
+  }, options?: ToolCallOptions): Promise<MCPToolCallResponse>;
 }
 
@@ -4,6 +4,7 @@
  */
 
 import type { MCPClientBase } from "../client.js";
+import type { ToolCallOptions } from "../config/types.js";
 
 /**
  * OAuth Configuration for a integration
@@ -33,6 +34,28 @@ export interface OAuthConfig {
   /** Required OAuth scopes */
   scopes: string[];
 
+  /**
+   * Scopes each tool needs, keyed by tool name
+   * Before a call, the client compares them with the scopes the provider token was
+   * granted (see `onMissingScopes`). Tools not listed are not checked.
+   * 
+   * An array entry lists alternatives: any one of them satisfies it, so broader
+   * scopes can stand in for a narrow one. The first alternative is the one
+   * reported (and requested) when none was granted.
+   * 
+   * @example
+   * ```typescript
+   * toolScopes: {
+   *   gmail_send_message: ['https://www.googleapis.com/auth/gmail.send'],
+   *   gmail_list_messages: [[
+   *     'https://www.googleapis.com/auth/gmail.readonly',
+   *     'https://www.googleapis.com/auth/gmail.modify',
+   *   ]],
+   * }
+   * ```
+   */
+  toolScopes?: Record<string, Array<string | string[]>>;
+
   /** Redirect URI for OAuth flow */
   redirectUri?: string;
 
@@ -40,23 +63,80 @@ export interface OAuthConfig {
   config?: unknown;
 }
 
+/**
+ * One page of a paginated list tool, as seen by a PaginationStrategy
+ */
+export interface PaginatedPage {
+  /** Items on this page */
+  items: unknown[];
+  /** Arguments for the next page, or undefined on the last page */
+  nextArgs?: Record<string, unknown>;
+}
+
+/**
+ * Cursor strategy used by `client.<integration>.paginate.*`
+ * Turns a parsed list result into its items and the arguments for the next page
+ */
+export interface PaginationStrategy {
+  /**
+   * @param args - Arguments the page was requested with
+   * @param result - Parsed tool result for the page
+   */
+  getPage(args: Record<string, unknown>, result: unknown): PaginatedPage;
+}
+
+/**
+ * Namespace type for integrations that do not declare a client interface
+ * Methods map to tools by name: `client.linear.createIssue()` calls `linear_create_issue`
+ */
+export interface GenericIntegrationClient {
+  [method: string]: (params?: Record<string, unknown>, options?: ToolCallOptions) => Promise<any>;
+}
+
 /**
  * MCP Integration Interface
  * 
  * Integrations enable specific tools and configure OAuth providers
  * 
  * @template TId - The literal type of the integration ID (e.g., "github", "gmail")
+ * @template TClient - Interface of the `client.<id>` namespace (defaults to GenericIntegrationClient)
+ * 
+ * @example
+ * ```typescript
+ * interface LinearClient {
+ *   createIssue(params: { teamId: string; title: string }): Promise<LinearIssue>;
+ * }
+ * 
+ * const linear: MCPIntegration<'linear', LinearClient> = genericOAuthIntegration({
+ *   id: 'linear',
+ *   provider: 'linear',
+ *   scopes: ['write'],
+ *   tools: ['linear_create_issue'],
+ * });
+ * 
+ * const client = createMCPClient({ integrations: [linear] });
+ * await client.linear.createIssue({ teamId, title: 'Bug' });
+ * ```
  */
-export interface MCPIntegration<TId extends string = string> {
+export interface MCPIntegration<TId extends string = string, TClient = unknown> {
   /** Unique integration identifier */
   id: TId;
 
+  /**
+   * Type-only marker carrying TClient; never set at runtime
+   * @internal
+   */
+  readonly __client?: TClient;
+
   /** List of tool names this integration enables */
   tools: string[];
 
   /** OAuth configuration for this integration */
   oauth?: OAuthConfig;
 
+  /** How list tools page through results (enables `client.<id>.paginate.*`) */
+  pagination?: PaginationStrategy;
+
   /** Called when the integration is initialized with the client */
   onInit?: (client: MCPClientBase<any>) => Promise<void> | void;
 
@@ -80,6 +160,14 @@ export type ExtractIntegrationIds<T extends readonly MCPIntegration[]> = T[numbe
  */
 export type ExtractIntegrationTools<T extends readonly MCPIntegration[]> = T[number]["tools"][number];
 
+/**
+ * Helper type to extract the `client.<id>` namespace type of an integration
+ */
+export type ExtractIntegrationClient<T extends MCPIntegration> =
+  T extends MCPIntegration<any, infer TClient>
+    ? unknown extends TClient ? GenericIntegrationClient : TClient
+    : never;
+
 /**
  * Type guard to check if a integration has OAuth configuration
  */
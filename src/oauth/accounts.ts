@@ -0,0 +1,38 @@
+/**
+ * Provider Accounts
+ * Helpers for storing several connected accounts per OAuth provider
+ */
+
+/**
+ * Id of the account used when none is named
+ * Its token is stored under the provider name alone, as before multiple accounts were supported,
+ * and token callbacks receive `accountId: undefined` for it
+ */
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+/**
+ * Normalize an account id: the default account is represented as undefined
+ */
+export function namedAccount(accountId?: string): string | undefined {
+  return accountId && accountId !== DEFAULT_ACCOUNT_ID ? accountId : undefined;
+}
+
+/**
+ * Build the cache and localStorage key for a provider account
+ * The default account keeps the provider name alone, so tokens stored before
+ * accounts existed still load
+ */
+export function getTokenKey(provider: string, accountId?: string): string {
+  const named = namedAccount(accountId);
+  return named ? `${provider}:${named}` : provider;
+}
+
+/**
+ * Trailing token callback arguments for an account
+ * Nothing is appended for the default account, so single-account callbacks
+ * are called exactly as before
+ */
+export function accountArgs(accountId?: string): [] | [string] {
+  const named = namedAccount(accountId);
+  return named ? [named] : [];
+}
@@ -15,6 +15,19 @@ import type {
 import type { MCPContext } from "../config/types.js";
 import { generateCodeVerifier, generateCodeChallenge, generateStateWithReturnUrl } from "./pkce.js";
 import { OAuthWindowManager } from "./window-manager.js";
+import { DEFAULT_ACCOUNT_ID, namedAccount, getTokenKey, accountArgs } from "./accounts.js";
+import { resolveLogger, type Logger } from "../utils/logger.js";
+
+/**
+ * Refresh tokens this long before they expire (milliseconds)
+ */
+const TOKEN_REFRESH_THRESHOLD_MS = 60 * 1000;
+
+/**
+ * Token refresh function
+ * Exchanges a refresh token for new token data
+ */
+export type RefreshTokenHandler = (provider: string, refreshToken: string, context?: MCPContext, accountId?: string) => Promise<OAuthCallbackResponse>;
 
 /**
  * OAuth Manager
@@ -27,25 +40,34 @@ export class OAuthManager {
   private flowConfig: OAuthFlowConfig;
   private oauthApiBase: string;
   private apiBaseUrl?: string;
-  private getTokenCallback?: (provider: string, context?: MCPContext) => Promise<ProviderTokenData | undefined> | ProviderTokenData | undefined;
-  private setTokenCallback?: (provider: string, tokenData: ProviderTokenData | null, context?: MCPContext) => Promise<void> | void;
-  private removeTokenCallback?: (provider: string, context?: MCPContext) => Promise<void> | void;
+  private getTokenCallback?: (provider: string, context?: MCPContext, accountId?: string) => Promise<ProviderTokenData | undefined> | ProviderTokenData | undefined;
+  private setTokenCallback?: (provider: string, tokenData: ProviderTokenData | null, context?: MCPContext, accountId?: string) => Promise<void> | void;
+  private removeTokenCallback?: (provider: string, context?: MCPContext, accountId?: string) => Promise<void> | void;
+  private listAccountsCallback?: (provider: string, context?: MCPContext) => Promise<string[]> | string[];
+  private refreshTokenHandler?: RefreshTokenHandler;
+  private pendingRefreshes: Map<string, Promise<ProviderTokenData>> = new Map();
+  private defaultAccounts: Map<string, string> = new Map();
   private skipLocalStorage: boolean;
+  private logger: Logger;
 
   constructor(
     oauthApiBase: string,
     flowConfig?: Partial<OAuthFlowConfig>,
     apiBaseUrl?: string,
     tokenCallbacks?: {
-      getProviderToken?: (provider: string, context?: MCPContext) => Promise<ProviderTokenData | undefined> | ProviderTokenData | undefined;
-      setProviderToken?: (provider: string, tokenData: ProviderTokenData | null, context?: MCPContext) => Promise<void> | void;
-      removeProviderToken?: (provider: string, context?: MCPContext) => Promise<void> | void;
+      getProviderToken?: (provider: string, context?: MCPContext, accountId?: string) => Promise<ProviderTokenData | undefined> | ProviderTokenData | undefined;
+      setProviderToken?: (provider: string, tokenData: ProviderTokenData | null, context?: MCPContext, accountId?: string) => Promise<void> | void;
+      removeProviderToken?: (provider: string, context?: MCPContext, accountId?: string) => Promise<void> | void;
+      listProviderAccounts?: (provider: string, context?: MCPContext) => Promise<string[]> | string[];
+      refreshProviderToken?: RefreshTokenHandler;
       skipLocalStorage?: boolean;
-    }
+    },
+    logger?: Logger
   ) {
     this.oauthApiBase = oauthApiBase;
     this.apiBaseUrl = apiBaseUrl;
-    this.windowManager = new OAuthWindowManager();
+    this.logger = resolveLogger(logger);
+    this.windowManager = new OAuthWindowManager(this.logger);
     this.flowConfig = {
       mode: flowConfig?.mode || 'redirect',
       popupOptions: flowConfig?.popupOptions,
@@ -54,6 +76,8 @@ export class OAuthManager {
     this.getTokenCallback = tokenCallbacks?.getProviderToken;
     this.setTokenCallback = tokenCallbacks?.setProviderToken;
     this.removeTokenCallback = tokenCallbacks?.removeProviderToken;
+    this.listAccountsCallback = tokenCallbacks?.listProviderAccounts;
+    this.refreshTokenHandler = tokenCallbacks?.refreshProviderToken;
     // Skip localStorage if explicitly requested OR if getTokenCallback is provided
     // (indicating server-side database storage is being used)
     this.skipLocalStorage = tokenCallbacks?.skipLocalStorage ?? !!tokenCallbacks?.getProviderToken;
@@ -70,6 +94,8 @@ export class OAuthManager {
    * @param provider - OAuth provider (github, gmail, etc.)
    * @param config - OAuth configuration (clientId/clientSecret not needed client-side)
    * @param returnUrl - Optional URL to redirect to after OAuth completion
+   * @param options - Optional account to connect (defaults to the provider's default account)
+   *   and scopes to request on top of the integration's configured scopes
    * @returns Promise that resolves when authorization is complete
    * 
    * @example
@@ -82,9 +108,22 @@ export class OAuthManager {
    * 
    * // With return URL
    * await oauthManager.initiateFlow('github', config, '/marketplace/github');
+   * 
+   * // Connect a second GitHub account
+   * await oauthManager.initiateFlow('github', config, undefined, { accountId: 'work' });
+   * 
+   * // Ask for a scope the current token lacks
+   * await oauthManager.initiateFlow('gmail', config, undefined, {
+   *   additionalScopes: ['https://www.googleapis.com/auth/gmail.send'],
+   * });
    * ```
    */
-  async initiateFlow(provider: string, config: OAuthConfig, returnUrl?: string): Promise<void> {
+  async initiateFlow(
+    provider: string,
+    config: OAuthConfig,
+    returnUrl?: string,
+    options?: { accountId?: string; additionalScopes?: string[] }
+  ): Promise<void> {
     // 1. Generate PKCE parameters
     const codeVerifier = generateCodeVerifier();
     const codeChallenge = await generateCodeChallenge(codeVerifier);
@@ -99,6 +138,7 @@ export class OAuthManager {
       codeChallenge,
       redirectUri: config.redirectUri,
       returnUrl,
+      accountId: namedAccount(options?.accountId),
       initiatedAt: Date.now(),
     };
     this.pendingAuths.set(state, pendingAuth);
@@ -109,7 +149,7 @@ export class OAuthManager {
 
     // 4. Request authorization URL from user's API route
     // Note: Scopes are NOT sent from client - they're defined server-side in integration config
-    const authUrl = await this.getAuthorizationUrl(provider, state, codeChallenge, config.redirectUri);
+    const authUrl = await this.getAuthorizationUrl(provider, state, codeChallenge, config.redirectUri, options?.additionalScopes);
 
     // 5. Open authorization URL (popup or redirect)
     if (this.flowConfig.mode === 'popup') {
@@ -145,7 +185,7 @@ export class OAuthManager {
    * console.log('Access token:', tokenData.accessToken);
    * ```
    */
-  async handleCallback(code: string, state: string): Promise<ProviderTokenData & { provider: string }> {
+  async handleCallback(code: string, state: string): Promise<ProviderTokenData & { provider: string; accountId?: string }> {
     // 1. Verify state and get pending auth
     let pendingAuth = this.pendingAuths.get(state);
 
@@ -171,7 +211,7 @@ export class OAuthManager {
       try {
         await this.flowConfig.onAuthCallback(pendingAuth.provider, code, state);
       } catch (error) {
-        console.error('Custom OAuth callback handler failed:', error);
+        this.logger.error('Custom OAuth callback handler failed', { error });
       }
     }
 
@@ -181,7 +221,8 @@ export class OAuthManager {
         pendingAuth.provider,
         code,
         pendingAuth.codeVerifier,
-        state
+        state,
+        pendingAuth.accountId
       );
 
       // 3. Store provider token
@@ -194,16 +235,16 @@ export class OAuthManager {
         scopes: response.scopes,
       };
 
-      this.providerTokens.set(pendingAuth.provider, tokenData);
+      this.providerTokens.set(getTokenKey(pendingAuth.provider, pendingAuth.accountId), tokenData);
 
       // 4. Save to database (via callback) or localStorage
-      await this.saveProviderToken(pendingAuth.provider, tokenData);
+      await this.saveProviderToken(pendingAuth.provider, tokenData, undefined, pendingAuth.accountId);
 
       // 5. Clean up pending auth from both memory and storage
       this.pendingAuths.delete(state);
       this.removePendingAuthFromStorage(state);
 
-      return { ...tokenData, provider: pendingAuth.provider };
+      return { ...tokenData, provider: pendingAuth.provider, accountId: pendingAuth.accountId };
     } catch (error) {
       this.pendingAuths.delete(state);
       this.removePendingAuthFromStorage(state);
@@ -219,6 +260,7 @@ export class OAuthManager {
    * Token validation happens when making actual API calls.
    * 
    * @param provider - OAuth provider to check
+   * @param accountId - Optional account to check (defaults to the provider's default account)
    * @returns Authorization status
    * 
    * @example
@@ -229,13 +271,14 @@ export class OAuthManager {
    * }
    * ```
    */
-  async checkAuthStatus(provider: string): Promise<AuthStatus> {
-    const tokenData = await this.getProviderToken(provider);
+  async checkAuthStatus(provider: string, accountId?: string): Promise<AuthStatus> {
+    const tokenData = await this.getProviderToken(provider, undefined, accountId);
 
     if (!tokenData) {
       return {
         authorized: false,
         provider,
+        accountId: namedAccount(accountId),
       };
     }
 
@@ -244,6 +287,7 @@ export class OAuthManager {
     return {
       authorized: true,
       provider,
+      accountId: namedAccount(accountId),
       scopes: tokenData.scopes,
       expiresAt: tokenData.expiresAt,
     };
@@ -267,43 +311,49 @@ export class OAuthManager {
    * 
    * @param provider - OAuth provider to disconnect
    * @param context - Optional user context (userId, organizationId, etc.) for multi-tenant apps
+   * @param accountId - Optional account to disconnect (defaults to the provider's default account)
    * @returns Promise that resolves when disconnection is complete
    * 
    * @example
    * ```typescript
    * await oauthManager.disconnectProvider('github');
    * // GitHub token is now cleared from cache and database
+   * 
+   * await oauthManager.disconnectProvider('github', undefined, 'work');
+   * // Only the 'work' GitHub account is disconnected
    * ```
    */
-  async disconnectProvider(provider: string, context?: MCPContext): Promise<void> {
+  async disconnectProvider(provider: string, context?: MCPContext, accountId?: string): Promise<void> {
+    const resolvedAccountId = await this.resolveAccountIdForContext(provider, context, accountId);
+
     // Delete token from database if using callbacks
     if (this.removeTokenCallback) {
       // Use dedicated removeProviderToken callback if available
       try {
-        await this.removeTokenCallback(provider, context);
+        await this.removeTokenCallback(provider, context, ...accountArgs(resolvedAccountId));
       } catch (error) {
         // If deletion fails, log but don't throw - we'll still clear local cache
-        console.error(`Failed to delete token for ${provider} from database via removeProviderToken:`, error);
+        this.logger.error(`Failed to delete token for ${provider} from database via removeProviderToken`, { error });
       }
     } else if (this.setTokenCallback) {
       // Fall back to setProviderToken(null) for backward compatibility
       try {
         // Try to get the token from the database to check if it exists
-        const tokenData = await this.getProviderToken(provider, context);
+        const tokenData = await this.getProviderToken(provider, context, resolvedAccountId);
         
         // If token exists in database, delete it by calling setProviderToken with null
         if (tokenData) {
-          await this.setTokenCallback(provider, null, context);
+          await this.setTokenCallback(provider, null, context, ...accountArgs(resolvedAccountId));
         }
       } catch (error) {
         // If deletion fails, log but don't throw - we'll still clear local cache
-        console.error(`Failed to delete token for ${provider} from database via setProviderToken:`, error);
+        this.logger.error(`Failed to delete token for ${provider} from database via setProviderToken`, { error });
       }
     } else {
       // Client-side: no database callbacks, make API call to server route
       try {
         // Get the provider token to include in Authorization header
-        const tokenData = await this.getProviderToken(provider);
+        const tokenData = await this.getProviderToken(provider, undefined, resolvedAccountId);
         
         if (tokenData?.accessToken) {
           // Construct URL: {apiBaseUrl}{oauthApiBase}/disconnect
@@ -320,13 +370,14 @@ export class OAuthManager {
             },
             body: JSON.stringify({
               provider,
+              accountId: resolvedAccountId,
             }),
           });
 
           if (!response.ok) {
             // Handle 404 (route doesn't exist) with a helpful warning
             if (response.status === 404) {
-              console.warn(
+              this.logger.warn(
                 `[Integrate SDK] OAuth disconnect route not found at ${url}. ` +
                 `The route may not be set up on your server. ` +
                 `Local token will still be cleared. ` +
@@ -335,7 +386,7 @@ export class OAuthManager {
             } else {
               // Other errors - log with details
               const errorText = await response.text();
-              console.warn(
+              this.logger.warn(
                 `[Integrate SDK] Failed to disconnect ${provider} via API: ${response.status} ${errorText}. ` +
                 `Local token will still be cleared.`
               );
@@ -351,14 +402,14 @@ export class OAuthManager {
         
         // Check if it's a network error that might indicate route doesn't exist
         if (error instanceof TypeError && error.message.includes('fetch')) {
-          console.warn(
+          this.logger.warn(
             `[Integrate SDK] Could not reach disconnect route at ${url}. ` +
             `The route may not be set up on your server. ` +
             `Local token will still be cleared. ` +
             `To enable server-side disconnect, set up the route handler at ${this.oauthApiBase}/disconnect`
           );
         } else {
-          console.warn(
+          this.logger.warn(
             `[Integrate SDK] Failed to disconnect ${provider} via API: ${error}. ` +
             `Local token will still be cleared.`
           );
@@ -368,41 +419,239 @@ export class OAuthManager {
     }
     
     // Clear provider token from in-memory cache (idempotent - safe to call even if already cleared)
-    this.providerTokens.delete(provider);
-    this.clearProviderToken(provider);
+    this.clearProviderToken(provider, resolvedAccountId);
   }
 
   /**
    * Get provider token data
    * Uses callback if provided, otherwise checks in-memory cache
+   * 
+   * Tokens with a refresh token that are expired or about to expire are
+   * refreshed automatically before being returned
+   * 
+   * Without an accountId, the provider's default account is used (see resolveAccountId)
+   * 
    * @param provider - Provider name (e.g., 'github', 'gmail')
    * @param context - Optional user context (userId, organizationId, etc.) for multi-tenant apps
+   * @param accountId - Optional account to get the token for
    */
-  async getProviderToken(provider: string, context?: MCPContext): Promise<ProviderTokenData | undefined> {
+  async getProviderToken(provider: string, context?: MCPContext, accountId?: string): Promise<ProviderTokenData | undefined> {
+    // Only await when callbacks are in use, so cache lookups resolve as quickly as before
+    const resolvedAccountId = this.listAccountsCallback || this.getTokenCallback
+      ? await this.resolveAccountIdForContext(provider, context, accountId)
+      : this.resolveAccountId(provider, accountId);
+    const key = getTokenKey(provider, resolvedAccountId);
+    let tokenData: ProviderTokenData | undefined;
+
     // If callback is provided, use it exclusively
     if (this.getTokenCallback) {
       try {
-        const tokenData = await this.getTokenCallback(provider, context);
+        tokenData = await this.getTokenCallback(provider, context, ...accountArgs(resolvedAccountId));
         // Update in-memory cache for performance
         if (tokenData) {
-          this.providerTokens.set(provider, tokenData);
+          this.providerTokens.set(key, tokenData);
         }
-        return tokenData;
       } catch (error) {
-        console.error(`Failed to get token for ${provider} via callback:`, error);
+        this.logger.error(`Failed to get token for ${provider} via callback`, { error });
         return undefined;
       }
+    } else {
+      // Otherwise use in-memory cache (loaded from localStorage)
+      tokenData = this.providerTokens.get(key);
     }
-    
-    // Otherwise use in-memory cache (loaded from localStorage)
-    return this.providerTokens.get(provider);
+
+    if (tokenData && this.isTokenNearExpiry(tokenData)) {
+      return await this.refreshProviderToken(provider, tokenData, context, resolvedAccountId);
+    }
+
+    return tokenData;
+  }
+
+  /**
+   * List the connected accounts for a provider
+   * Uses the listProviderAccounts callback if provided, otherwise the accounts
+   * in the in-memory cache, in the order they were connected.
+   * The provider's unnamed account is listed as DEFAULT_ACCOUNT_ID.
+   * 
+   * @param provider - Provider name (e.g., 'github', 'gmail')
+   * @param context - Optional user context (userId, organizationId, etc.) for multi-tenant apps
+   */
+  async listAccounts(provider: string, context?: MCPContext): Promise<string[]> {
+    if (this.listAccountsCallback) {
+      try {
+        return await this.listAccountsCallback(provider, context);
+      } catch (error) {
+        this.logger.error(`Failed to list accounts for ${provider} via callback`, { error });
+        return [];
+      }
+    }
+
+    const accounts: string[] = [];
+    for (const key of this.providerTokens.keys()) {
+      if (key === provider) {
+        accounts.push(DEFAULT_ACCOUNT_ID);
+      } else if (key.startsWith(`${provider}:`)) {
+        accounts.push(key.slice(provider.length + 1));
+      }
+    }
+    return accounts;
+  }
+
+  /**
+   * Choose the account used for a provider when no accountId is given
+   * Pass null (or DEFAULT_ACCOUNT_ID) to go back to the default rule
+   * Not used with a getProviderToken callback (see resolveAccountIdForContext)
+   * 
+   * @param provider - Provider name (e.g., 'github', 'gmail')
+   * @param accountId - Account to use by default
+   */
+  setDefaultAccount(provider: string, accountId: string | null): void {
+    if (this.getTokenCallback) {
+      this.logger.warn(
+        `[Integrate SDK] setDefaultAccount('${provider}') is ignored when tokens come from a getProviderToken callback. ` +
+        `Pass an accountId with each call, or return the accounts from listProviderAccounts with the default first.`
+      );
+    }
+    const named = namedAccount(accountId ?? undefined);
+    if (named) {
+      this.defaultAccounts.set(provider, named);
+    } else {
+      this.defaultAccounts.delete(provider);
+    }
+  }
+
+  /**
+   * Resolve the account to use for a provider from the in-memory cache
+   * 
+   * Default-account rule when no accountId is given:
+   * 1. The account chosen with setDefaultAccount()
+   * 2. The provider's unnamed account, if it is connected or no accounts are known
+   * 3. Otherwise the first connected account
+   * 
+   * @returns The named account id, or undefined for the unnamed account
+   */
+  private resolveAccountId(provider: string, accountId?: string): string | undefined {
+    if (accountId) {
+      return namedAccount(accountId);
+    }
+
+    const preferred = this.defaultAccounts.get(provider);
+    if (preferred || this.providerTokens.has(provider)) {
+      return preferred;
+    }
+
+    for (const key of this.providerTokens.keys()) {
+      if (key.startsWith(`${provider}:`)) {
+        return key.slice(provider.length + 1);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolve the account to use for a provider, listing accounts through the
+   * listProviderAccounts callback when the default account isn't known locally
+   * 
+   * With a getProviderToken callback, tokens belong to the caller's context,
+   * while the in-memory cache and setDefaultAccount() are shared by every
+   * context. The default is then the first account listed for the context, or
+   * the unnamed account when accounts can't be listed.
+   */
+  private async resolveAccountIdForContext(provider: string, context?: MCPContext, accountId?: string): Promise<string | undefined> {
+    if (accountId) {
+      return namedAccount(accountId);
+    }
+    if (this.getTokenCallback && !this.listAccountsCallback) {
+      return undefined;
+    }
+    if (!this.listAccountsCallback || (!this.getTokenCallback && this.defaultAccounts.has(provider))) {
+      return this.resolveAccountId(provider);
+    }
+
+    const accounts = await this.listAccounts(provider, context);
+    return accounts.length === 0 || accounts.includes(DEFAULT_ACCOUNT_ID) ? undefined : accounts[0];
+  }
+
+  /**
+   * Check whether a token can be refreshed and expires within the refresh threshold
+   */
+  private isTokenNearExpiry(tokenData: ProviderTokenData): boolean {
+    if (!tokenData.refreshToken || !tokenData.expiresAt) {
+      return false;
+    }
+
+    const expiresAt = new Date(tokenData.expiresAt).getTime();
+    if (Number.isNaN(expiresAt)) {
+      return false;
+    }
+
+    return expiresAt - Date.now() <= TOKEN_REFRESH_THRESHOLD_MS;
+  }
+
+  /**
+   * Refresh a provider token
+   * Single-flight per provider, account and context: concurrent callers share one refresh request.
+   * The refreshed token is persisted via setProviderToken with the original context.
+   * If the refresh fails, the current token is returned so the request can fall
+   * through to the normal TokenExpiredError / onReauthRequired handling.
+   */
+  private async refreshProviderToken(
+    provider: string,
+    tokenData: ProviderTokenData,
+    context?: MCPContext,
+    accountId?: string
+  ): Promise<ProviderTokenData> {
+    const key = `${getTokenKey(provider, accountId)}:${getContextKey(context)}`;
+
+    const pending = this.pendingRefreshes.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const refresh = (async (): Promise<ProviderTokenData> => {
+      try {
+        const response = this.refreshTokenHandler
+          ? await this.refreshTokenHandler(provider, tokenData.refreshToken!, context, ...accountArgs(accountId))
+          : await this.requestTokenRefresh(provider, tokenData.refreshToken!, accountId);
+
+        const refreshedToken: ProviderTokenData = {
+          accessToken: response.accessToken,
+          // Providers that don't rotate refresh tokens omit it from the response
+          refreshToken: response.refreshToken ?? tokenData.refreshToken,
+          tokenType: response.tokenType,
+          expiresIn: response.expiresIn,
+          expiresAt: response.expiresAt,
+          scopes: response.scopes ?? tokenData.scopes,
+        };
+
+        await this.setProviderToken(provider, refreshedToken, context, accountId);
+        return refreshedToken;
+      } catch (error) {
+        this.logger.error(`Failed to refresh token for ${provider}`, { error });
+        return tokenData;
+      } finally {
+        this.pendingRefreshes.delete(key);
+      }
+    })();
+
+    this.pendingRefreshes.set(key, refresh);
+    return refresh;
   }
 
   /**
    * Get all provider tokens
+   * Returns the default account's token for each provider in the cache
    */
   getAllProviderTokens(): Map<string, ProviderTokenData> {
-    return new Map(this.providerTokens);
+    const tokens = new Map<string, ProviderTokenData>();
+    for (const key of this.providerTokens.keys()) {
+      const provider = key.split(':')[0]!;
+      const tokenData = tokens.has(provider) ? undefined : this.getProviderTokenFromCache(provider);
+      if (tokenData) {
+        tokens.set(provider, tokenData);
+      }
+    }
+    return tokens;
   }
 
   /**
@@ -410,9 +659,10 @@ export class OAuthManager {
    * Only returns cached tokens, does not call database callbacks
    * Used for immediate synchronous checks after tokens are loaded
    * @param provider - Provider name (e.g., 'github', 'gmail')
+   * @param accountId - Optional account (defaults to the provider's default account)
    */
-  getProviderTokenFromCache(provider: string): ProviderTokenData | undefined {
-    return this.providerTokens.get(provider);
+  getProviderTokenFromCache(provider: string, accountId?: string): ProviderTokenData | undefined {
+    return this.providerTokens.get(getTokenKey(provider, this.resolveAccountId(provider, accountId)));
   }
 
   /**
@@ -421,32 +671,39 @@ export class OAuthManager {
    * @param provider - Provider name (e.g., 'github', 'gmail')
    * @param tokenData - Token data to store
    * @param context - Optional user context (userId, organizationId, etc.) for multi-tenant apps
+   * @param accountId - Optional account the token belongs to (defaults to the provider's unnamed account)
    */
-  async setProviderToken(provider: string, tokenData: ProviderTokenData | null, context?: MCPContext): Promise<void> {
+  async setProviderToken(provider: string, tokenData: ProviderTokenData | null, context?: MCPContext, accountId?: string): Promise<void> {
+    const key = getTokenKey(provider, accountId);
     if (tokenData === null) {
       // Delete token
-      this.providerTokens.delete(provider);
+      this.providerTokens.delete(key);
+      this.forgetDefaultAccount(provider, accountId);
     } else {
       // Set token
-      this.providerTokens.set(provider, tokenData);
+      this.providerTokens.set(key, tokenData);
     }
-    await this.saveProviderToken(provider, tokenData, context);
+    await this.saveProviderToken(provider, tokenData, context, accountId);
   }
 
   /**
    * Clear specific provider token
    * Note: When using database callbacks, this only clears the in-memory cache.
    * Token deletion from database should be handled by the host application.
+   * @param provider - Provider name (e.g., 'github', 'gmail')
+   * @param accountId - Optional account to clear (defaults to the provider's unnamed account)
    */
-  clearProviderToken(provider: string): void {
-    this.providerTokens.delete(provider);
+  clearProviderToken(provider: string, accountId?: string): void {
+    const key = getTokenKey(provider, accountId);
+    this.providerTokens.delete(key);
+    this.forgetDefaultAccount(provider, accountId);
     
     // Only clear from localStorage if not using server-side database storage
     if (!this.skipLocalStorage && typeof window !== 'undefined' && window.localStorage) {
       try {
-        window.localStorage.removeItem(`integrate_token_${provider}`);
+        window.localStorage.removeItem(`integrate_token_${key}`);
       } catch (error) {
-        console.error(`Failed to clear token for ${provider} from localStorage:`, error);
+        this.logger.error(`Failed to clear token for ${provider} from localStorage`, { error });
       }
     }
   }
@@ -457,21 +714,32 @@ export class OAuthManager {
    * Token deletion from database should be handled by the host application.
    */
   clearAllProviderTokens(): void {
-    const providers = Array.from(this.providerTokens.keys());
+    const keys = Array.from(this.providerTokens.keys());
     this.providerTokens.clear();
+    this.defaultAccounts.clear();
 
     // Only clear from localStorage if not using server-side database storage
     if (!this.skipLocalStorage && typeof window !== 'undefined' && window.localStorage) {
-      for (const provider of providers) {
+      for (const key of keys) {
         try {
-          window.localStorage.removeItem(`integrate_token_${provider}`);
+          window.localStorage.removeItem(`integrate_token_${key}`);
         } catch (error) {
-          console.error(`Failed to clear token for ${provider} from localStorage:`, error);
+          this.logger.error(`Failed to clear token for ${key} from localStorage`, { error });
         }
       }
     }
   }
 
+  /**
+   * Drop a removed account from the provider's default-account choice
+   */
+  private forgetDefaultAccount(provider: string, accountId?: string): void {
+    const named = namedAccount(accountId);
+    if (named && this.defaultAccounts.get(provider) === named) {
+      this.defaultAccounts.delete(provider);
+    }
+  }
+
   /**
    * Clear all pending OAuth flows
    * Removes all pending auths from memory and localStorage
@@ -495,7 +763,7 @@ export class OAuthManager {
 
         keysToRemove.forEach(key => window.localStorage.removeItem(key));
       } catch (error) {
-        console.error('Failed to clear pending auths from localStorage:', error);
+        this.logger.error('Failed to clear pending auths from localStorage', { error });
       }
     }
   }
@@ -505,14 +773,15 @@ export class OAuthManager {
    * @param provider - Provider name (e.g., 'github', 'gmail')
    * @param tokenData - Token data to store, or null to delete
    * @param context - Optional user context (userId, organizationId, etc.) for multi-tenant apps
+   * @param accountId - Optional account the token belongs to
    */
-  private async saveProviderToken(provider: string, tokenData: ProviderTokenData | null, context?: MCPContext): Promise<void> {
+  private async saveProviderToken(provider: string, tokenData: ProviderTokenData | null, context?: MCPContext, accountId?: string): Promise<void> {
     // If callback is provided, use it exclusively (server-side with database)
     if (this.setTokenCallback) {
       try {
-        await this.setTokenCallback(provider, tokenData, context);
+        await this.setTokenCallback(provider, tokenData, context, ...accountArgs(namedAccount(accountId)));
       } catch (error) {
-        console.error(`Failed to ${tokenData === null ? 'delete' : 'save'} token for ${provider} via callback:`, error);
+        this.logger.error(`Failed to ${tokenData === null ? 'delete' : 'save'} token for ${provider} via callback`, { error });
         throw error;
       }
       return;
@@ -520,7 +789,7 @@ export class OAuthManager {
     
     // If tokenData is null and we're using localStorage, delete it
     if (tokenData === null) {
-      this.clearProviderToken(provider);
+      this.clearProviderToken(provider, accountId);
       return;
     }
 
@@ -534,48 +803,42 @@ export class OAuthManager {
     // Otherwise use localStorage (browser-only, no database callbacks)
     if (typeof window !== 'undefined' && window.localStorage) {
       try {
-        const key = `integrate_token_${provider}`;
+        const key = `integrate_token_${getTokenKey(provider, accountId)}`;
         window.localStorage.setItem(key, JSON.stringify(tokenData));
       } catch (error) {
-        console.error(`Failed to save token for ${provider} to localStorage:`, error);
+        this.logger.error(`Failed to save token for ${provider} to localStorage`, { error });
       }
     }
   }
 
   /**
-   * Load provider token from database (via callback) or localStorage
+   * Load provider token from database (via callback)
    * Returns undefined if not found or invalid
    */
   private async loadProviderToken(provider: string): Promise<ProviderTokenData | undefined> {
-    // If callback is provided, use it exclusively
-    if (this.getTokenCallback) {
-      try {
-        return await this.getTokenCallback(provider);
-      } catch (error) {
-        console.error(`Failed to load token for ${provider} via callback:`, error);
-        return undefined;
-      }
+    if (!this.getTokenCallback) {
+      return undefined;
     }
 
-    // Otherwise use localStorage
-    if (typeof window !== 'undefined' && window.localStorage) {
-      try {
-        const key = `integrate_token_${provider}`;
-        const stored = window.localStorage.getItem(key);
-        if (stored) {
-          return JSON.parse(stored) as ProviderTokenData;
-        }
-      } catch (error) {
-        console.error(`Failed to load token for ${provider} from localStorage:`, error);
-      }
+    try {
+      return await this.getTokenCallback(provider);
+    } catch (error) {
+      this.logger.error(`Failed to load token for ${provider} via callback`, { error });
+      return undefined;
     }
-    return undefined;
   }
 
   /**
    * Load all provider tokens from database (via callback) or localStorage on initialization
+   * With callbacks only each provider's unnamed account is loaded; other accounts
+   * are fetched when first used
    */
   async loadAllProviderTokens(providers: string[]): Promise<void> {
+    if (!this.getTokenCallback) {
+      this.loadAllProviderTokensSync(providers);
+      return;
+    }
+
     for (const provider of providers) {
       const tokenData = await this.loadProviderToken(provider);
       if (tokenData) {
@@ -585,30 +848,43 @@ export class OAuthManager {
   }
 
   /**
-   * Load provider token synchronously from localStorage only
-   * Returns undefined if not found or if using database callbacks
+   * Load a provider's tokens synchronously from localStorage only
+   * Returns every stored account, keyed by token key (the unnamed account first)
+   * Returns an empty map if using database callbacks
    * This method is synchronous and should only be used during initialization
    * when database callbacks are NOT configured
    */
-  private loadProviderTokenSync(provider: string): ProviderTokenData | undefined {
+  private loadProviderTokensSync(provider: string): Map<string, ProviderTokenData> {
+    const tokens = new Map<string, ProviderTokenData>();
+
     // Only works for localStorage, not database callbacks
     if (this.getTokenCallback) {
-      return undefined;
+      return tokens;
     }
 
     // Read from localStorage synchronously
     if (typeof window !== 'undefined' && window.localStorage) {
       try {
-        const key = `integrate_token_${provider}`;
-        const stored = window.localStorage.getItem(key);
-        if (stored) {
-          return JSON.parse(stored) as ProviderTokenData;
+        const prefix = 'integrate_token_';
+        const accountKeys: string[] = [];
+        for (let i = 0; i < window.localStorage.length; i++) {
+          const key = window.localStorage.key(i);
+          if (key && key.startsWith(`${prefix}${provider}:`)) {
+            accountKeys.push(key);
+          }
+        }
+
+        for (const key of [`${prefix}${provider}`, ...accountKeys.sort()]) {
+          const stored = window.localStorage.getItem(key);
+          if (stored) {
+            tokens.set(key.slice(prefix.length), JSON.parse(stored) as ProviderTokenData);
+          }
         }
       } catch (error) {
-        console.error(`Failed to load token for ${provider} from localStorage:`, error);
+        this.logger.error(`Failed to load token for ${provider} from localStorage`, { error });
       }
     }
-    return undefined;
+    return tokens;
   }
 
   /**
@@ -623,9 +899,8 @@ export class OAuthManager {
     }
 
     for (const provider of providers) {
-      const tokenData = this.loadProviderTokenSync(provider);
-      if (tokenData) {
-        this.providerTokens.set(provider, tokenData);
+      for (const [key, tokenData] of this.loadProviderTokensSync(provider)) {
+        this.providerTokens.set(key, tokenData);
       }
     }
   }
@@ -649,7 +924,7 @@ export class OAuthManager {
         const key = `integrate_oauth_pending_${state}`;
         window.localStorage.setItem(key, JSON.stringify(pendingAuth));
       } catch (error) {
-        console.error('Failed to save pending auth to localStorage:', error);
+        this.logger.error('Failed to save pending auth to localStorage', { error });
       }
     }
   }
@@ -674,7 +949,7 @@ export class OAuthManager {
           return JSON.parse(stored) as PendingAuth;
         }
       } catch (error) {
-        console.error('Failed to load pending auth from localStorage:', error);
+        this.logger.error('Failed to load pending auth from localStorage', { error });
       }
     }
     return undefined;
@@ -696,7 +971,7 @@ export class OAuthManager {
         const key = `integrate_oauth_pending_${state}`;
         window.localStorage.removeItem(key);
       } catch (error) {
-        console.error('Failed to remove pending auth from localStorage:', error);
+        this.logger.error('Failed to remove pending auth from localStorage', { error });
       }
     }
   }
@@ -743,7 +1018,7 @@ export class OAuthManager {
         // Remove expired entries
         keysToRemove.forEach(key => window.localStorage.removeItem(key));
       } catch (error) {
-        console.error('Failed to cleanup expired pending auths:', error);
+        this.logger.error('Failed to cleanup expired pending auths', { error });
       }
     }
   }
@@ -756,7 +1031,8 @@ export class OAuthManager {
     provider: string,
     state: string,
     codeChallenge: string,
-    redirectUri?: string
+    redirectUri?: string,
+    additionalScopes?: string[]
   ): Promise<string> {
     // Construct URL: {apiBaseUrl}{oauthApiBase}/authorize
     // If apiBaseUrl is not set, use relative URL (same origin)
@@ -776,6 +1052,8 @@ export class OAuthManager {
         codeChallenge,
         codeChallengeMethod: 'S256',
         redirectUri,
+        // Extra scopes for incremental authorization, added to the server-side scopes
+        additionalScopes,
       }),
     });
 
@@ -796,7 +1074,8 @@ export class OAuthManager {
     provider: string,
     code: string,
     codeVerifier: string,
-    state: string
+    state: string,
+    accountId?: string
   ): Promise<OAuthCallbackResponse> {
     // Construct URL: {apiBaseUrl}{oauthApiBase}/callback
     // If apiBaseUrl is not set, use relative URL (same origin)
@@ -814,6 +1093,7 @@ export class OAuthManager {
         code,
         codeVerifier,
         state,
+        accountId,
       }),
     });
 
@@ -826,6 +1106,42 @@ export class OAuthManager {
     return data;
   }
 
+  /**
+   * Exchange refresh token for new token data via user's API route
+   * The API route will forward to MCP server
+   */
+  private async requestTokenRefresh(
+    provider: string,
+    refreshToken: string,
+    accountId?: string
+  ): Promise<OAuthCallbackResponse> {
+    // Construct URL: {apiBaseUrl}{oauthApiBase}/refresh
+    // If apiBaseUrl is not set, use relative URL (same origin)
+    const url = this.apiBaseUrl 
+      ? `${this.apiBaseUrl}${this.oauthApiBase}/refresh`
+      : `${this.oauthApiBase}/refresh`;
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        provider,
+        refreshToken,
+        accountId,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Failed to refresh token: ${error}`);
+    }
+
+    const data = await response.json() as OAuthCallbackResponse;
+    return data;
+  }
+
   /**
    * Close any open OAuth windows
    */
@@ -834,3 +1150,16 @@ export class OAuthManager {
   }
 }
 
+/**
+ * Build a stable key for a user context (used to single-flight token refreshes)
+ */
+function getContextKey(context?: MCPContext): string {
+  if (!context) {
+    return '';
+  }
+  return JSON.stringify(
+    Object.keys(context)
+      .sort()
+      .map(key => [key, context[key]])
+  );
+}
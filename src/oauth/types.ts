@@ -33,6 +33,8 @@ export interface AuthStatus {
   authorized: boolean;
   /** The provider name */
   provider: string;
+  /** Account the status is for, if one was named */
+  accountId?: string;
   /** Authorized scopes */
   scopes?: string[];
   /** Token expiration time */
@@ -58,6 +60,8 @@ export interface PendingAuth {
   redirectUri?: string;
   /** Return URL - where to redirect after OAuth completion */
   returnUrl?: string;
+  /** Account being connected (undefined for the provider's default account) */
+  accountId?: string;
   /** Timestamp when auth was initiated */
   initiatedAt: number;
 }
@@ -123,6 +127,8 @@ export interface OAuthCallbackParams {
 export interface AuthStartedEvent {
   /** Provider being authorized */
   provider: string;
+  /** Account being authorized, if one was named */
+  accountId?: string;
 }
 
 /**
@@ -131,6 +137,8 @@ export interface AuthStartedEvent {
 export interface AuthCompleteEvent {
   /** Provider that was authorized */
   provider: string;
+  /** Account that was authorized, if one was named */
+  accountId?: string;
   /** Access token for authenticated requests */
   accessToken: string;
   /** Token expiration timestamp */
@@ -143,6 +151,8 @@ export interface AuthCompleteEvent {
 export interface AuthErrorEvent {
   /** Provider that failed authorization */
   provider: string;
+  /** Account that failed authorization, if one was named */
+  accountId?: string;
   /** Error that occurred */
   error: Error;
 }
@@ -160,6 +170,8 @@ export interface AuthLogoutEvent {
 export interface AuthDisconnectEvent {
   /** Provider that was disconnected */
   provider: string;
+  /** Account that was disconnected, if one was named */
+  accountId?: string;
 }
 
 /**
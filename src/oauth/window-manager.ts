@@ -4,6 +4,7 @@
  */
 
 import type { PopupOptions, OAuthCallbackParams } from "./types.js";
+import { defaultLogger, resolveLogger, type Logger } from "../utils/logger.js";
 
 /**
  * Check if we're in a browser environment
@@ -23,6 +24,14 @@ export class OAuthWindowManager {
   private popupWindow: Window | null = null;
   private popupCheckInterval: ReturnType<typeof setInterval> | null = null;
   private popupCheckTimeout: ReturnType<typeof setTimeout> | null = null;
+  private logger: Logger;
+
+  /**
+   * @param logger - Logger for popup and callback parsing failures
+   */
+  constructor(logger?: Logger) {
+    this.logger = resolveLogger(logger);
+  }
 
   /**
    * Open OAuth authorization in a popup window
@@ -72,7 +81,7 @@ export class OAuthWindowManager {
     this.popupWindow = window.open(url, windowName, features);
     
     if (!this.popupWindow) {
-      console.warn('Popup was blocked by the browser. Please allow popups for this site.');
+      this.logger.warn('Popup was blocked by the browser. Please allow popups for this site.');
       return null;
     }
     
@@ -232,7 +241,7 @@ export class OAuthWindowManager {
             window.history.replaceState(null, '', window.location.pathname + window.location.search);
           }
         } catch (e) {
-          console.error('Failed to parse OAuth callback params from hash:', e);
+          this.logger.error('Failed to parse OAuth callback params from hash', { error: e });
         }
       }
       
@@ -248,7 +257,7 @@ export class OAuthWindowManager {
             sessionStorage.removeItem('oauth_callback_params');
           }
         } catch (e) {
-          console.error('Failed to parse OAuth callback params from sessionStorage:', e);
+          this.logger.error('Failed to parse OAuth callback params from sessionStorage', { error: e });
         }
       }
       
@@ -321,12 +330,12 @@ export function sendCallbackToOpener(params: {
   error?: string | null;
 }): void {
   if (!isBrowser()) {
-    console.error('sendCallbackToOpener() can only be used in browser environments');
+    defaultLogger.error('sendCallbackToOpener() can only be used in browser environments');
     return;
   }
   
   if (!window.opener) {
-    console.error('No opener window found. This function should only be called from a popup window.');
+    defaultLogger.error('No opener window found. This function should only be called from a popup window.');
     return;
   }
   
@@ -96,6 +96,158 @@ export interface MCPToolCallResponse {
   _meta?: Record<string, unknown>;
 }
 
+/**
+ * MCP Resource Definition
+ */
+export interface MCPResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+  size?: number;
+  annotations?: Record<string, unknown>;
+}
+
+/**
+ * MCP Resource Template Definition
+ * URI templates follow RFC 6570 (e.g., "github://repos/{owner}/{repo}/contents/{path}")
+ */
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+  annotations?: Record<string, unknown>;
+}
+
+/**
+ * MCP Resources List Response
+ */
+export interface MCPResourcesListResponse {
+  resources: MCPResource[];
+  nextCursor?: string;
+}
+
+/**
+ * MCP Resource Templates List Response
+ */
+export interface MCPResourceTemplatesListResponse {
+  resourceTemplates: MCPResourceTemplate[];
+  nextCursor?: string;
+}
+
+/**
+ * MCP Resource Contents
+ * Text resources set `text`, binary resources set base64-encoded `blob`
+ */
+export interface MCPResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+/**
+ * MCP Resource Read Response
+ */
+export interface MCPResourceReadResponse {
+  contents: MCPResourceContents[];
+}
+
+/**
+ * MCP Resource Updated Notification Parameters
+ * Sent by the server for resources the client has subscribed to
+ */
+export interface MCPResourceUpdatedNotificationParams {
+  uri: string;
+}
+
+/**
+ * MCP Prompt Argument Definition
+ */
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+/**
+ * MCP Prompt Definition
+ */
+export interface MCPPrompt {
+  name: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+}
+
+/**
+ * MCP Prompts List Response
+ */
+export interface MCPPromptsListResponse {
+  prompts: MCPPrompt[];
+  nextCursor?: string;
+}
+
+/**
+ * MCP Prompt Message Content
+ * Images and audio carry base64-encoded `data`; embedded resources carry resource contents
+ */
+export type MCPPromptContent =
+  | { type: "text"; text: string }
+  | { type: "image"; data: string; mimeType: string }
+  | { type: "audio"; data: string; mimeType: string }
+  | { type: "resource"; resource: MCPResourceContents };
+
+/**
+ * MCP Prompt Message
+ */
+export interface MCPPromptMessage {
+  role: "user" | "assistant";
+  content: MCPPromptContent;
+}
+
+/**
+ * MCP Get Prompt Request Parameters
+ */
+export interface MCPGetPromptParams {
+  name: string;
+  arguments?: Record<string, string>;
+}
+
+/**
+ * MCP Get Prompt Response
+ */
+export interface MCPGetPromptResponse {
+  description?: string;
+  messages: MCPPromptMessage[];
+}
+
+/**
+ * MCP Progress Notification Parameters
+ * Sent by the server for requests that carried a `progressToken` in `_meta`
+ */
+export interface MCPProgressNotificationParams {
+  progressToken: string | number;
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+/**
+ * Protocol revision requested during initialization
+ */
+export const LATEST_PROTOCOL_VERSION = "2025-06-18";
+
+/**
+ * MCP protocol revisions supported by this SDK, newest first
+ * The client requests the newest and accepts any of these from the server
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS: readonly string[] = [
+  LATEST_PROTOCOL_VERSION,
+  "2025-03-26",
+  "2024-11-05",
+];
+
 /**
  * MCP Protocol Methods
  */
@@ -105,10 +257,24 @@ export enum MCPMethod {
   TOOLS_CALL = "tools/call",
   RESOURCES_LIST = "resources/list",
   RESOURCES_READ = "resources/read",
+  RESOURCES_TEMPLATES_LIST = "resources/templates/list",
+  RESOURCES_SUBSCRIBE = "resources/subscribe",
+  RESOURCES_UNSUBSCRIBE = "resources/unsubscribe",
   PROMPTS_LIST = "prompts/list",
   PROMPTS_GET = "prompts/get",
 }
 
+/**
+ * MCP Server Notification Methods
+ */
+export enum MCPNotification {
+  INITIALIZED = "notifications/initialized",
+  CANCELLED = "notifications/cancelled",
+  PROGRESS = "notifications/progress",
+  RESOURCES_UPDATED = "notifications/resources/updated",
+  RESOURCES_LIST_CHANGED = "notifications/resources/list_changed",
+}
+
 /**
  * Initialize request parameters
  */
@@ -6,6 +6,7 @@
 
 import { useState, useEffect } from "react";
 import type { MCPClient } from "../client.js";
+import { defaultLogger } from "../utils/logger.js";
 
 /**
  * Return type for useIntegrateTokens hook
@@ -99,10 +100,12 @@ function isReactHooksAvailable(): boolean {
 export function useIntegrateTokens(
   client?: MCPClient<any> | null
 ): UseIntegrateTokensResult {
+  const logger = client?.logger ?? defaultLogger;
+
   // Guard 1: Check if React hooks are available
   // This handles SSR, Suspense boundaries, and initialization timing issues
   if (!isReactHooksAvailable()) {
-    console.warn(
+    logger.warn(
       '[useIntegrateTokens] React hooks are not available. ' +
       'This can happen during SSR, before React initialization, or in Suspense boundaries. ' +
       'Returning safe fallback values.'
@@ -132,7 +135,7 @@ export function useIntegrateTokens(
           setTokens(currentTokens);
           setIsLoading(false);
         } catch (error) {
-          console.error('[useIntegrateTokens] Failed to get provider tokens:', error);
+          logger.error('[useIntegrateTokens] Failed to get provider tokens', { error });
           setIsLoading(false);
         }
       };
@@ -164,7 +167,7 @@ export function useIntegrateTokens(
         client.off('auth:logout', handleAuthLogout);
       };
     } catch (error) {
-      console.error('[useIntegrateTokens] Error setting up hook:', error);
+      logger.error('[useIntegrateTokens] Error setting up hook', { error });
       setIsLoading(false);
       return;
     }
@@ -249,12 +252,13 @@ export function useIntegrateAI(
   options: UseIntegrateAIOptions = {}
 ): void {
   const { apiPattern = /\/api\/chat/, debug = false } = options;
+  const logger = client?.logger ?? defaultLogger;
 
   useEffect(() => {
     // Skip if no client or not in browser
     if (!client || typeof window === 'undefined') {
       if (debug && !client) {
-        console.warn('[useIntegrateAI] No client provided, skipping interceptor setup');
+        logger.warn('[useIntegrateAI] No client provided, skipping interceptor setup');
       }
       return;
     }
@@ -267,10 +271,10 @@ export function useIntegrateAI(
     try {
       currentTokens = client.getAllProviderTokens();
       if (debug) {
-        console.log('[useIntegrateAI] Initial tokens loaded:', Object.keys(currentTokens));
+        logger.info('[useIntegrateAI] Initial tokens loaded', { providers: Object.keys(currentTokens) });
       }
     } catch (error) {
-      console.error('[useIntegrateAI] Failed to get initial tokens:', error);
+      logger.error('[useIntegrateAI] Failed to get initial tokens', { error });
     }
 
     // Update tokens on auth events
@@ -278,17 +282,17 @@ export function useIntegrateAI(
       try {
         currentTokens = client.getAllProviderTokens();
         if (debug) {
-          console.log('[useIntegrateAI] Tokens updated:', Object.keys(currentTokens));
+          logger.info('[useIntegrateAI] Tokens updated', { providers: Object.keys(currentTokens) });
         }
       } catch (error) {
-        console.error('[useIntegrateAI] Failed to update tokens:', error);
+        logger.error('[useIntegrateAI] Failed to update tokens', { error });
       }
     };
 
     const handleLogout = () => {
       currentTokens = {};
       if (debug) {
-        console.log('[useIntegrateAI] Tokens cleared (logout)');
+        logger.info('[useIntegrateAI] Tokens cleared (logout)');
       }
     };
 
@@ -318,8 +322,8 @@ export function useIntegrateAI(
 
       if (shouldIntercept && Object.keys(currentTokens).length > 0) {
         if (debug) {
-          console.log('[useIntegrateAI] Intercepting request to:', url);
-          console.log('[useIntegrateAI] Injecting tokens:', Object.keys(currentTokens));
+          logger.info('[useIntegrateAI] Intercepting request', { url });
+          logger.info('[useIntegrateAI] Injecting tokens', { providers: Object.keys(currentTokens) });
         }
 
         // Clone init and add tokens header
@@ -340,8 +344,7 @@ export function useIntegrateAI(
     window.fetch = interceptedFetch as typeof window.fetch;
 
     if (debug) {
-      console.log('[useIntegrateAI] Global fetch interceptor installed');
-      console.log('[useIntegrateAI] Pattern:', apiPattern);
+      logger.info('[useIntegrateAI] Global fetch interceptor installed', { apiPattern: String(apiPattern) });
     }
 
     // Cleanup: restore original fetch and remove listeners
@@ -352,7 +355,7 @@ export function useIntegrateAI(
       client.off('auth:logout', handleLogout);
 
       if (debug) {
-        console.log('[useIntegrateAI] Global fetch interceptor removed');
+        logger.info('[useIntegrateAI] Global fetch interceptor removed');
       }
     };
   }, [client, apiPattern, debug]);
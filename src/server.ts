@@ -5,10 +5,14 @@
 
 import { MCPClient } from './client.js';
 import { MCPClientBase } from './client.js';
-import type { MCPServerConfig } from './config/types.js';
+import type { MCPServerConfig, ToolCallMiddleware, ToolEventListener } from './config/types.js';
 import type { MCPIntegration } from './integrations/types.js';
 import { createNextOAuthHandler } from './adapters/nextjs.js';
+import { getMCPErrorResponseInit } from './adapters/base-handler.js';
 import { getEnv } from './utils/env.js';
+import type { Tracer } from './utils/tracing.js';
+import { resolveLogger, type Logger } from './utils/logger.js';
+import type { ToolCallLimiter } from './utils/tool-call-limiter.js';
 
 /**
  * Server client with attached handler, POST, and GET route handlers
@@ -35,6 +39,12 @@ let globalServerConfig: {
   }>;
   serverUrl?: string;
   apiKey?: string;
+  middleware?: ToolCallMiddleware[];
+  getToolProvider?: (toolName: string) => string | undefined;
+  onToolEvent?: ToolEventListener;
+  tracer?: Tracer;
+  logger?: Logger;
+  toolCallLimiter?: ToolCallLimiter;
 } | null = null;
 
 /**
@@ -136,6 +146,8 @@ export function createMCPServer<TIntegrations extends readonly MCPIntegration[]>
     );
   }
 
+  const logger = resolveLogger(config.logger);
+
   // Extract OAuth providers from integrations with global redirectUri fallback
   const providers: Record<string, {
     clientId: string;
@@ -150,7 +162,7 @@ export function createMCPServer<TIntegrations extends readonly MCPIntegration[]>
       const { clientId, clientSecret, redirectUri: integrationRedirectUri, config: oauthConfig } = integration.oauth;
 
       if (!clientId || !clientSecret) {
-        console.warn(
+        logger.warn(
           `Warning: Integration "${integration.id}" is missing OAuth credentials. ` +
           `Provide clientId and clientSecret in the integration configuration.`
         );
@@ -179,12 +191,12 @@ export function createMCPServer<TIntegrations extends readonly MCPIntegration[]>
     return integration;
   }) as unknown as TIntegrations;
 
-  // Register config globally for singleton handlers
-  globalServerConfig = {
-    providers,
-    serverUrl: config.serverUrl,
-    apiKey: config.apiKey,
-  };
+  // Provider that owns each tool, for middleware in the /mcp route
+  const getToolProvider = (toolName: string): string | undefined =>
+    updatedIntegrations.find(integration => integration.tools.includes(toolName))?.oauth?.provider;
+
+  // Calls made through the /mcp route are reported as the client's tool:* events
+  const onToolEvent: ToolEventListener = (event, payload) => client.emitToolEvent(event, payload);
 
   // Create the client instance with lazy connection (same as client-side)
   const clientConfig = {
@@ -192,9 +204,34 @@ export function createMCPServer<TIntegrations extends readonly MCPIntegration[]>
     integrations: updatedIntegrations,
     connectionMode: config.connectionMode || 'lazy',
     singleton: config.singleton ?? true,
+    // Server-side token refresh goes straight to the MCP server with OAuth secrets
+    // (the client's default refresh path calls the /oauth/refresh API route)
+    refreshProviderToken: async (provider: string, refreshToken: string, _context?: import('./config/types.js').MCPContext, accountId?: string) => {
+      const { OAuthHandler } = await import('./adapters/base-handler.js');
+      const oauthHandler = new OAuthHandler({
+        providers,
+        serverUrl: config.serverUrl,
+        apiKey: config.apiKey,
+        logger,
+      });
+      return await oauthHandler.handleRefresh({ provider, refreshToken, accountId });
+    },
   };
   const client = new MCPClientBase(clientConfig) as MCPClient<TIntegrations>;
 
+  // Register config globally for singleton handlers
+  globalServerConfig = {
+    providers,
+    serverUrl: config.serverUrl,
+    apiKey: config.apiKey,
+    middleware: config.middleware,
+    getToolProvider,
+    onToolEvent,
+    tracer: config.tracer,
+    logger,
+    toolCallLimiter: client.toolCallLimiter,
+  };
+
   // Set API key header for authentication and usage tracking (server-side only)
   if (config.apiKey) {
     client.setRequestHeader('X-API-KEY', config.apiKey);
@@ -208,6 +245,12 @@ export function createMCPServer<TIntegrations extends readonly MCPIntegration[]>
     getSessionContext: config.getSessionContext,
     setProviderToken: config.setProviderToken,
     removeProviderToken: config.removeProviderToken,
+    middleware: config.middleware,
+    getToolProvider,
+    onToolEvent,
+    tracer: config.tracer,
+    logger,
+    toolCallLimiter: client.toolCallLimiter,
   };
 
   // Create route handlers with the provider configuration
@@ -218,6 +261,12 @@ export function createMCPServer<TIntegrations extends readonly MCPIntegration[]>
     getSessionContext: config.getSessionContext,
     setProviderToken: config.setProviderToken,
     removeProviderToken: config.removeProviderToken,
+    middleware: config.middleware,
+    getToolProvider,
+    onToolEvent,
+    tracer: config.tracer,
+    logger,
+    toolCallLimiter: client.toolCallLimiter,
   });
 
   /**
@@ -298,15 +347,26 @@ export function createMCPServer<TIntegrations extends readonly MCPIntegration[]>
           providers,
           serverUrl: config.serverUrl,
           apiKey: config.apiKey,
+          getSessionContext: config.getSessionContext,
+          middleware: config.middleware,
+          getToolProvider,
+          onToolEvent,
+          tracer: config.tracer,
+          logger,
+          toolCallLimiter: client.toolCallLimiter,
         });
 
-        const result = await oauthHandler.handleToolCall(body, authHeader);
+        // Bodies with a JSON-RPC method (resources, prompts) are proxied as-is,
+        // otherwise the body is a tool call ({ name, arguments })
+        const result = typeof body?.method === 'string'
+          ? await oauthHandler.handleMCPRequest(body, authHeader, request.signal, request)
+          : await oauthHandler.handleToolCall(body, authHeader, request.signal, request);
         return Response.json(result);
       } catch (error: any) {
-        console.error('[MCP Tool Call] Error:', error);
+        logger.error('[MCP Tool Call] Error', { error });
         return Response.json(
           { error: error.message || 'Failed to execute tool call' },
-          { status: error.statusCode || 500 }
+          getMCPErrorResponseInit(error)
         );
       }
     }
@@ -348,7 +408,7 @@ export function createMCPServer<TIntegrations extends readonly MCPIntegration[]>
       // Handle OAuth error
       if (error) {
         const errorMsg = errorDescription || error;
-        console.error('[OAuth Redirect] Error:', errorMsg);
+        logger.error('[OAuth Redirect] Error', { error: errorMsg });
 
         return Response.redirect(
           new URL(`${errorRedirectUrl}?error=${encodeURIComponent(errorMsg)}`, request.url)
@@ -357,7 +417,7 @@ export function createMCPServer<TIntegrations extends readonly MCPIntegration[]>
 
       // Validate required parameters
       if (!code || !state) {
-        console.error('[OAuth Redirect] Missing code or state parameter');
+        logger.error('[OAuth Redirect] Missing code or state parameter');
 
         return Response.redirect(
           new URL(`${errorRedirectUrl}?error=${encodeURIComponent('Invalid OAuth callback')}`, request.url)
@@ -442,8 +502,14 @@ function createOAuthRouteHandlers(config: {
   serverUrl?: string;
   apiKey?: string;
   getSessionContext?: (request: Request) => Promise<import('./config/types.js').MCPContext | undefined> | import('./config/types.js').MCPContext | undefined;
-  setProviderToken?: (provider: string, tokenData: import('./oauth/types.js').ProviderTokenData, context?: import('./config/types.js').MCPContext) => Promise<void> | void;
-  removeProviderToken?: (provider: string, context?: import('./config/types.js').MCPContext) => Promise<void> | void;
+  setProviderToken?: (provider: string, tokenData: import('./oauth/types.js').ProviderTokenData, context?: import('./config/types.js').MCPContext, accountId?: string) => Promise<void> | void;
+  removeProviderToken?: (provider: string, context?: import('./config/types.js').MCPContext, accountId?: string) => Promise<void> | void;
+  middleware?: ToolCallMiddleware[];
+  getToolProvider?: (toolName: string) => string | undefined;
+  onToolEvent?: ToolEventListener;
+  tracer?: Tracer;
+  logger?: Logger;
+  toolCallLimiter?: ToolCallLimiter;
 }) {
   const handler = createNextOAuthHandler(config);
   return handler.createRoutes();
@@ -451,8 +517,26 @@ function createOAuthRouteHandlers(config: {
 
 // Re-export integration types for convenience
 export type { MCPIntegration } from './integrations/types.js';
-export type { MCPClientConfig, MCPContext, ToolCallOptions } from './config/types.js';
+export type {
+  MCPClientConfig,
+  MCPContext,
+  ToolCallOptions,
+  PaginateOptions,
+  ToolCallMiddleware,
+  ToolCallMiddlewareContext,
+  ToolStartEvent,
+  ToolSuccessEvent,
+  ToolErrorEvent,
+  ToolEventMap,
+  ToolEventListener,
+} from './config/types.js';
 export type { ProviderTokenData } from './oauth/types.js';
+export type { MCPTransport, MessageHandler, SendRequestOptions } from './transport/types.js';
+export { getRawResponse } from './utils/tool-result.js';
+
+// Node-only transport for local MCP server processes
+export { StdioTransport } from './transport/stdio.js';
+export type { StdioTransportOptions } from './transport/stdio.js';
 
 // Re-export integrations
 export { githubIntegration } from './integrations/github.js';
@@ -664,7 +748,7 @@ export function toNextJsHandler<TIntegrations extends readonly MCPIntegration[]
 
   /**
    * POST handler for catch-all OAuth routes
-   * Handles authorize, callback, and disconnect actions
+   * Handles authorize, callback, disconnect, and refresh actions
    */
   const POST = async (
     req: any,
@@ -0,0 +1,101 @@
+/**
+ * In-Memory Tracer
+ * Records spans in memory for asserting on the SDK's tracing in tests
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { Tracer, TraceSpan, TraceAttributes, TraceAttributeValue } from "../utils/tracing.js";
+
+/**
+ * Span recorded by the in-memory tracer
+ */
+export interface RecordedSpan extends TraceSpan {
+  name: string;
+  traceId: string;
+  spanId: string;
+  /** Span that was active when this one started, if any */
+  parentSpanId?: string;
+  attributes: Record<string, TraceAttributeValue>;
+  /** Status code as in OpenTelemetry's `SpanStatusCode` (0 unset, 1 ok, 2 error) */
+  status: { code: number; message?: string };
+  exceptions: Array<Error | string>;
+  ended: boolean;
+}
+
+/**
+ * Tracer that records spans in memory
+ */
+export interface InMemoryTracer extends Tracer {
+  /** Spans in the order they were started */
+  readonly spans: RecordedSpan[];
+  /** Forget recorded spans */
+  reset(): void;
+}
+
+function randomHex(bytes: number): string {
+  const values = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(values, (value) => value.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Create a tracer that records spans in memory
+ * Parent spans are tracked across awaits like OpenTelemetry's async context manager.
+ *
+ * @example
+ * ```typescript
+ * const tracer = createInMemoryTracer();
+ * const client = createMCPClient({ integrations, transport, tracer });
+ * await client.connect();
+ * expect(tracer.spans.map((span) => span.name)).toContain('integrate.client.initialize');
+ * ```
+ */
+export function createInMemoryTracer(): InMemoryTracer {
+  const spans: RecordedSpan[] = [];
+  const active = new AsyncLocalStorage<RecordedSpan>();
+
+  return {
+    spans,
+    reset() {
+      spans.length = 0;
+    },
+    startActiveSpan(name, options, fn) {
+      const parent = active.getStore();
+      const span: RecordedSpan = {
+        name,
+        traceId: parent?.traceId ?? randomHex(16),
+        spanId: randomHex(8),
+        parentSpanId: parent?.spanId,
+        attributes: {},
+        status: { code: 0 },
+        exceptions: [],
+        ended: false,
+        setAttribute(key, value) {
+          span.attributes[key] = value;
+          return span;
+        },
+        setStatus(status) {
+          span.status = status;
+          return span;
+        },
+        recordException(exception) {
+          span.exceptions.push(exception);
+        },
+        end() {
+          span.ended = true;
+        },
+        spanContext() {
+          return { traceId: span.traceId, spanId: span.spanId, traceFlags: 1 };
+        },
+      };
+
+      for (const [key, value] of Object.entries(options.attributes ?? ({} as TraceAttributes))) {
+        if (value !== undefined) {
+          span.attributes[key] = value;
+        }
+      }
+
+      spans.push(span);
+      return active.run(span, () => fn(span)) as ReturnType<typeof fn>;
+    },
+  };
+}
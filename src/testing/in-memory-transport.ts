@@ -0,0 +1,263 @@
+/**
+ * In-Memory Transport for MCP
+ * Delivers JSON-RPC messages to an in-process server without any network access
+ */
+
+import type {
+  JSONRPCRequest,
+  JSONRPCResponse,
+  JSONRPCNotification,
+} from "../protocol/messages.js";
+import { MCPNotification } from "../protocol/messages.js";
+import { createNotification, createRequest } from "../protocol/jsonrpc.js";
+import type { MCPTransport, MessageHandler, SendRequestOptions } from "../transport/types.js";
+import { getAbortReason, getAbortReasonMessage } from "../transport/utils.js";
+import { resolveLogger, type Logger } from "../utils/logger.js";
+
+/**
+ * Server side of an in-memory connection
+ * Implemented by the mock server returned from createMockMCPServer()
+ */
+export interface InMemoryServer {
+  /**
+   * Handle a JSON-RPC message
+   * Resolves with the response for requests, or undefined for notifications
+   *
+   * @param message - Request or notification sent by the client
+   * @param headers - Shared and request-scoped headers the client attached
+   */
+  handleMessage(
+    message: JSONRPCRequest | JSONRPCNotification,
+    headers: Record<string, string>
+  ): Promise<JSONRPCResponse | undefined>;
+
+  /**
+   * Receive server-initiated notifications
+   *
+   * @returns Function that stops delivery
+   */
+  subscribe?(handler: MessageHandler): () => void;
+}
+
+export interface InMemoryTransportOptions {
+  /** Headers attached to every message (e.g., X-API-KEY) */
+  headers?: Record<string, string>;
+  /** Logger for connection, parse and handler errors (redacted; defaults to the console) */
+  logger?: Logger;
+}
+
+/**
+ * In-Memory Transport
+ * Plugs into MCPClientBase through `MCPClientConfig.transport`
+ *
+ * @example
+ * ```typescript
+ * const server = createMockMCPServer({ handlers: { github_list_own_repos: () => [] } });
+ * const client = createMCPClient({
+ *   integrations: [githubIntegration()],
+ *   transport: new InMemoryTransport(server),
+ * });
+ * ```
+ */
+export class InMemoryTransport implements MCPTransport {
+  private server: InMemoryServer;
+  private headers: Record<string, string>;
+  private messageHandlers: Set<MessageHandler> = new Set();
+  private unsubscribe?: () => void;
+  private connected = false;
+  private logger: Logger;
+
+  constructor(server: InMemoryServer, options: InMemoryTransportOptions = {}) {
+    this.server = server;
+    this.headers = { ...options.headers };
+    this.logger = resolveLogger(options.logger);
+  }
+
+  /**
+   * Attach to the server's notification stream
+   */
+  async connect(): Promise<void> {
+    if (this.connected) {
+      return;
+    }
+
+    this.unsubscribe = this.server.subscribe?.((message) => this.dispatchMessage(message));
+    this.connected = true;
+  }
+
+  /**
+   * Send a request to the server
+   *
+   * @param method - JSON-RPC method name
+   * @param params - JSON-RPC params
+   * @param options - Per-request options (e.g., request-scoped headers)
+   */
+  async sendRequest<T = unknown>(
+    method: string,
+    params?: unknown,
+    options?: SendRequestOptions
+  ): Promise<T> {
+    if (!this.connected) {
+      throw new Error("Not connected to server");
+    }
+
+    const signal = options?.signal;
+    if (signal?.aborted) {
+      throw getAbortReason(signal);
+    }
+
+    const request = createRequest(method, params);
+    const headers = { ...this.headers, ...options?.headers };
+
+    let onAbort: (() => void) | undefined;
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => {
+        this.sendCancelledNotification(request.id, signal!, options?.headers);
+        reject(getAbortReason(signal!));
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+
+    try {
+      const response = await Promise.race([
+        this.server.handleMessage(request, headers),
+        aborted,
+      ]);
+
+      if (!response) {
+        throw new Error(`No response for request: ${method}`);
+      }
+
+      if ("error" in response) {
+        // Same shape as the HTTP transports so the client can parse it
+        const error = new Error(
+          `JSON-RPC Error ${response.error.code}: ${response.error.message}`
+        ) as Error & { code?: number; data?: unknown };
+        error.code = response.error.code;
+        if (response.error.data) {
+          error.data = response.error.data;
+        }
+        (error as any).jsonrpcError = response.error;
+        throw error;
+      }
+
+      return response.result as T;
+    } finally {
+      signal?.removeEventListener("abort", onAbort!);
+    }
+  }
+
+  /**
+   * Send a notification to the server (no response expected)
+   *
+   * @param method - Notification method (e.g., 'notifications/cancelled')
+   * @param params - Notification params
+   * @param options - Per-request options (e.g., request-scoped headers)
+   */
+  async sendNotification(
+    method: string,
+    params?: Record<string, unknown>,
+    options?: SendRequestOptions
+  ): Promise<void> {
+    if (!this.connected) {
+      throw new Error("Not connected to server");
+    }
+
+    await this.server.handleMessage(createNotification(method, params), {
+      ...this.headers,
+      ...options?.headers,
+    });
+  }
+
+  /**
+   * Notify the server that a request was cancelled by the caller
+   * Best-effort: failures are logged, never thrown
+   */
+  private sendCancelledNotification(
+    requestId: string | number,
+    signal: AbortSignal,
+    headers?: Record<string, string>
+  ): void {
+    const params: Record<string, unknown> = { requestId };
+    const reason = getAbortReasonMessage(signal);
+    if (reason) {
+      params.reason = reason;
+    }
+
+    this.sendNotification(MCPNotification.CANCELLED, params, { headers }).catch((error) => {
+      this.logger.error("Failed to send cancellation notification", { error });
+    });
+  }
+
+  /**
+   * Deliver a server-initiated message to registered handlers
+   */
+  private dispatchMessage(message: JSONRPCResponse | JSONRPCNotification): void {
+    this.messageHandlers.forEach((handler) => {
+      try {
+        handler(message);
+      } catch (error) {
+        this.logger.error("Error in message handler", { error });
+      }
+    });
+  }
+
+  /**
+   * Register a message handler for notifications
+   */
+  onMessage(handler: MessageHandler): () => void {
+    this.messageHandlers.add(handler);
+
+    // Return unsubscribe function
+    return () => {
+      this.messageHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * Detach from the server
+   */
+  async disconnect(): Promise<void> {
+    if (!this.connected) {
+      return;
+    }
+
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    this.messageHandlers.clear();
+    this.connected = false;
+  }
+
+  /**
+   * Check if transport is connected
+   */
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Set a custom header for all requests
+   *
+   * @param key - Header name
+   * @param value - Header value
+   */
+  setHeader(key: string, value: string): void {
+    this.headers[key] = value;
+  }
+
+  /**
+   * Remove a custom header
+   *
+   * @param key - Header name to remove
+   */
+  removeHeader(key: string): void {
+    delete this.headers[key];
+  }
+
+  /**
+   * Get all current headers
+   */
+  getHeaders(): Record<string, string> {
+    return { ...this.headers };
+  }
+}
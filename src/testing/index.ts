@@ -0,0 +1,20 @@
+/**
+ * Testing Utilities
+ * Mock MCP server, in-memory transport and tracer for client tests without network access
+ */
+
+export { createMockMCPServer, MockMCPError } from "./mock-server.js";
+export type {
+  MockMCPServer,
+  MockMCPServerOptions,
+  MockToolHandler,
+  MockToolCallContext,
+  MockMCPRequestRecord,
+  MockOAuthToken,
+} from "./mock-server.js";
+
+export { InMemoryTransport } from "./in-memory-transport.js";
+export type { InMemoryServer, InMemoryTransportOptions } from "./in-memory-transport.js";
+
+export { createInMemoryTracer } from "./in-memory-tracer.js";
+export type { InMemoryTracer, RecordedSpan } from "./in-memory-tracer.js";
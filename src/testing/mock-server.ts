@@ -0,0 +1,489 @@
+/**
+ * Mock MCP Server
+ * In-process MCP server with JSON-RPC semantics and fake OAuth endpoints,
+ * for writing client tests without network access
+ */
+
+import type {
+  JSONRPCRequest,
+  JSONRPCResponse,
+  JSONRPCNotification,
+  MCPTool,
+  MCPToolCallResponse,
+  MCPInitializeResponse,
+} from "../protocol/messages.js";
+import {
+  MCPMethod,
+  LATEST_PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from "../protocol/messages.js";
+import type { MessageHandler } from "../transport/types.js";
+import { InMemoryTransport, type InMemoryServer } from "./in-memory-transport.js";
+
+/**
+ * Context passed to mock tool handlers
+ */
+export interface MockToolCallContext {
+  /** Headers the client sent with the call, lowercased (e.g., `authorization` with the provider token) */
+  headers: Record<string, string>;
+  /** Send a notification to every connected transport (e.g., notifications/progress) */
+  notify: (method: string, params?: Record<string, unknown>) => void;
+  /** Progress token the client attached to the call, if any */
+  progressToken?: string | number;
+}
+
+/**
+ * Mock tool handler
+ * Return an MCPToolCallResponse to control the result exactly; any other
+ * value is returned as JSON text content. Throw a MockMCPError to answer
+ * with a JSON-RPC error instead.
+ */
+export type MockToolHandler = (
+  args: Record<string, unknown>,
+  context: MockToolCallContext
+) => unknown | Promise<unknown>;
+
+export interface MockMCPServerOptions {
+  /**
+   * Tools returned by tools/list
+   * Names are expanded to a permissive object schema
+   */
+  tools?: Array<MCPTool | string>;
+  /**
+   * Handlers by tool name
+   * Tools with a handler are listed even when missing from `tools`
+   */
+  handlers?: Record<string, MockToolHandler>;
+  /** Server info returned by initialize */
+  serverInfo?: { name: string; version: string };
+  /** Capabilities returned by initialize */
+  capabilities?: MCPInitializeResponse["capabilities"];
+  /** Fake OAuth endpoint settings */
+  oauth?: {
+    /** Lifetime of issued access tokens in seconds (default: 3600) */
+    expiresIn?: number;
+    /** Scopes granted when the authorize request names none */
+    defaultScopes?: string[];
+  };
+}
+
+/**
+ * Request received by the mock server
+ */
+export interface MockMCPRequestRecord {
+  method: string;
+  params?: unknown;
+  /** Header names are lowercased */
+  headers: Record<string, string>;
+}
+
+/**
+ * Token issued by the fake OAuth endpoints
+ */
+export interface MockOAuthToken {
+  provider: string;
+  accessToken: string;
+  refreshToken: string;
+  tokenType: string;
+  expiresIn: number;
+  expiresAt: string;
+  scopes: string[];
+}
+
+/**
+ * Error thrown from a mock tool handler to answer with a JSON-RPC error
+ *
+ * @example
+ * ```typescript
+ * handlers: {
+ *   github_get_repo: () => { throw new MockMCPError(401, 'Token expired'); },
+ * }
+ * ```
+ */
+export class MockMCPError extends Error {
+  constructor(
+    public readonly code: number,
+    message: string,
+    public readonly data?: unknown
+  ) {
+    super(message);
+    this.name = "MockMCPError";
+  }
+}
+
+/**
+ * Mock MCP Server
+ * Created by createMockMCPServer()
+ */
+export interface MockMCPServer extends InMemoryServer {
+  /** Every request and notification received, in order */
+  readonly requests: MockMCPRequestRecord[];
+  /** Tool calls received, in order */
+  readonly toolCalls: Array<{ name: string; arguments: Record<string, unknown>; headers: Record<string, string> }>;
+  /** Tokens issued by the fake OAuth endpoints, by access token */
+  readonly tokens: Map<string, MockOAuthToken>;
+  /** Add or replace a tool (and its handler) after creation */
+  setTool(tool: MCPTool | string, handler?: MockToolHandler): void;
+  /** Send a notification to every connected transport */
+  notify(method: string, params?: Record<string, unknown>): void;
+  /** Create an InMemoryTransport connected to this server */
+  createTransport(headers?: Record<string, string>): InMemoryTransport;
+  /** Issue a token directly, skipping the authorize/callback round trip */
+  issueToken(provider: string, scopes?: string[]): MockOAuthToken;
+  /**
+   * fetch-compatible handler serving the MCP endpoint (JSON-RPC over POST)
+   * and the OAuth endpoints OAuthHandler calls (/oauth/authorize, /callback,
+   * /refresh, /status, /disconnect) on any host
+   */
+  fetch(input: string | URL | Request, init?: RequestInit): Promise<Response>;
+  /**
+   * Route globalThis.fetch to this server
+   *
+   * @returns Function that restores the previous fetch
+   */
+  installFetch(): () => void;
+  /** Clear recorded requests, tool calls and issued tokens */
+  reset(): void;
+}
+
+/**
+ * Create a mock MCP server
+ *
+ * Implements initialize, tools/list and tools/call with JSON-RPC semantics.
+ * Connect a client through `server.createTransport()`, or route fetch to it
+ * with `server.installFetch()` to exercise the HTTP transports and OAuthHandler.
+ *
+ * @example
+ * ```typescript
+ * const server = createMockMCPServer({
+ *   handlers: {
+ *     github_list_own_repos: (args, { headers }) => [{ name: 'repo', auth: headers.authorization }],
+ *   },
+ * });
+ *
+ * const { client } = createMCPServer({
+ *   integrations: [githubIntegration()],
+ *   transport: server.createTransport(),
+ *   getProviderToken: async () => server.issueToken('github'),
+ * });
+ *
+ * const result = await client.github.listOwnRepos({});
+ * expect(server.toolCalls[0].name).toBe('github_list_own_repos');
+ * ```
+ */
+export function createMockMCPServer(options: MockMCPServerOptions = {}): MockMCPServer {
+  const tools = new Map<string, MCPTool>();
+  const handlers = new Map<string, MockToolHandler>();
+  const subscribers = new Set<MessageHandler>();
+  const requests: MockMCPRequestRecord[] = [];
+  const toolCalls: MockMCPServer["toolCalls"] = [];
+  const tokens = new Map<string, MockOAuthToken>();
+  const refreshTokens = new Map<string, MockOAuthToken>();
+  const pendingStates = new Map<string, { provider: string; scopes: string[] }>();
+  const expiresIn = options.oauth?.expiresIn ?? 3600;
+  let tokenCounter = 0;
+
+  const setTool = (tool: MCPTool | string, handler?: MockToolHandler) => {
+    const definition = typeof tool === "string" ? toolDefinition(tool) : tool;
+    tools.set(definition.name, definition);
+    if (handler) {
+      handlers.set(definition.name, handler);
+    }
+  };
+
+  for (const tool of options.tools || []) {
+    setTool(tool);
+  }
+  for (const [name, handler] of Object.entries(options.handlers || {})) {
+    setTool(tools.get(name) || name, handler);
+  }
+
+  const notify = (method: string, params?: Record<string, unknown>) => {
+    const notification: JSONRPCNotification = { jsonrpc: "2.0", method, params };
+    subscribers.forEach((subscriber) => subscriber(notification));
+  };
+
+  const issueToken = (provider: string, scopes?: string[]): MockOAuthToken => {
+    tokenCounter++;
+    const token: MockOAuthToken = {
+      provider,
+      accessToken: `mock-access-token-${tokenCounter}`,
+      refreshToken: `mock-refresh-token-${tokenCounter}`,
+      tokenType: "Bearer",
+      expiresIn,
+      expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString(),
+      scopes: scopes || options.oauth?.defaultScopes || [],
+    };
+    tokens.set(token.accessToken, token);
+    refreshTokens.set(token.refreshToken, token);
+    return token;
+  };
+
+  const callTool = async (
+    params: Record<string, unknown>,
+    headers: Record<string, string>
+  ): Promise<MCPToolCallResponse> => {
+    const name = params.name;
+    if (typeof name !== "string") {
+      throw new MockMCPError(-32602, "Invalid params: tool name is required");
+    }
+
+    if (!tools.has(name)) {
+      throw new MockMCPError(-32602, `Unknown tool: ${name}`);
+    }
+    const handler = handlers.get(name);
+    if (!handler) {
+      throw new MockMCPError(-32603, `No handler registered for tool: ${name}`);
+    }
+
+    const args = (params.arguments as Record<string, unknown> | undefined) || {};
+    toolCalls.push({ name, arguments: args, headers });
+
+    const progressToken = (params._meta as { progressToken?: string | number } | undefined)?.progressToken;
+    const result = await handler(args, { headers, notify, progressToken });
+    return isToolCallResponse(result)
+      ? result
+      : { content: [{ type: "text", text: JSON.stringify(result ?? null) }] };
+  };
+
+  const handleMessage = async (
+    message: JSONRPCRequest | JSONRPCNotification,
+    rawHeaders: Record<string, string>
+  ): Promise<JSONRPCResponse | undefined> => {
+    // Match fetch's Headers, which lowercase names
+    const headers: Record<string, string> = {};
+    for (const [key, value] of Object.entries(rawHeaders)) {
+      headers[key.toLowerCase()] = value;
+    }
+    requests.push({ method: message.method, params: message.params, headers });
+
+    // Notifications get no response
+    if (!("id" in message) || message.id === undefined) {
+      return undefined;
+    }
+
+    const params = (message.params || {}) as Record<string, unknown>;
+    try {
+      return { jsonrpc: "2.0", id: message.id, result: await dispatch(message.method, params, headers) };
+    } catch (error) {
+      const code = error instanceof MockMCPError ? error.code : -32603;
+      const data = error instanceof MockMCPError ? error.data : undefined;
+      return {
+        jsonrpc: "2.0",
+        id: message.id,
+        error: {
+          code,
+          message: error instanceof Error ? error.message : String(error),
+          ...(data !== undefined ? { data } : {}),
+        },
+      };
+    }
+  };
+
+  const dispatch = async (
+    method: string,
+    params: Record<string, unknown>,
+    headers: Record<string, string>
+  ): Promise<unknown> => {
+    switch (method) {
+      case MCPMethod.INITIALIZE: {
+        const requested = params.protocolVersion;
+        const protocolVersion = typeof requested === "string" && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+          ? requested
+          : LATEST_PROTOCOL_VERSION;
+        const result: MCPInitializeResponse = {
+          protocolVersion,
+          capabilities: options.capabilities || { tools: {} },
+          serverInfo: options.serverInfo || { name: "mock-mcp-server", version: "1.0.0" },
+        };
+        return result;
+      }
+      case MCPMethod.TOOLS_LIST:
+        return { tools: Array.from(tools.values()) };
+      case MCPMethod.TOOLS_CALL:
+        return callTool(params, headers);
+      default:
+        throw new MockMCPError(-32601, `Method not found: ${method}`);
+    }
+  };
+
+  const handleOAuth = async (path: string, url: URL, request: Request): Promise<Response> => {
+    switch (path) {
+      case "authorize": {
+        const provider = url.searchParams.get("provider");
+        const state = url.searchParams.get("state");
+        if (!provider || !state || !url.searchParams.get("client_id") || !url.searchParams.get("code_challenge")) {
+          return textResponse("Missing provider, client_id, state or code_challenge", 400);
+        }
+        const scope = url.searchParams.get("scope");
+        pendingStates.set(state, {
+          provider,
+          scopes: scope ? scope.split(",") : options.oauth?.defaultScopes || [],
+        });
+        const authorizationUrl = new URL(`https://oauth.mock/${provider}/authorize`);
+        authorizationUrl.searchParams.set("state", state);
+        const redirectUri = url.searchParams.get("redirect_uri");
+        if (redirectUri) {
+          authorizationUrl.searchParams.set("redirect_uri", redirectUri);
+        }
+        return Response.json({ authorizationUrl: authorizationUrl.toString() });
+      }
+      case "callback": {
+        const body = await request.json() as Record<string, string | undefined>;
+        const pending = body.state ? pendingStates.get(body.state) : undefined;
+        if (!pending || pending.provider !== body.provider || !body.code || !body.code_verifier) {
+          return textResponse("invalid_grant", 400);
+        }
+        pendingStates.delete(body.state!);
+        return Response.json(toTokenResponse(issueToken(pending.provider, pending.scopes)));
+      }
+      case "refresh": {
+        const body = await request.json() as Record<string, string | undefined>;
+        const previous = body.refresh_token ? refreshTokens.get(body.refresh_token) : undefined;
+        if (!previous || previous.provider !== body.provider) {
+          return textResponse("invalid_grant", 400);
+        }
+        tokens.delete(previous.accessToken);
+        refreshTokens.delete(previous.refreshToken);
+        return Response.json(toTokenResponse(issueToken(previous.provider, previous.scopes)));
+      }
+      case "status": {
+        const token = tokens.get(getBearerToken(request));
+        if (!token || token.provider !== url.searchParams.get("provider")) {
+          return textResponse("Unauthorized", 401);
+        }
+        return Response.json({ authorized: true, scopes: token.scopes, expiresAt: token.expiresAt });
+      }
+      case "disconnect": {
+        const body = await request.json() as { provider?: string };
+        const token = tokens.get(getBearerToken(request));
+        if (!token || token.provider !== body.provider) {
+          return textResponse("Unauthorized", 401);
+        }
+        tokens.delete(token.accessToken);
+        refreshTokens.delete(token.refreshToken);
+        return Response.json({ success: true, provider: token.provider });
+      }
+      default:
+        return textResponse("Not found", 404);
+    }
+  };
+
+  const server: MockMCPServer = {
+    requests,
+    toolCalls,
+    tokens,
+    handleMessage,
+    setTool,
+    notify,
+    issueToken,
+
+    subscribe(handler: MessageHandler) {
+      subscribers.add(handler);
+      return () => {
+        subscribers.delete(handler);
+      };
+    },
+
+    createTransport(headers?: Record<string, string>) {
+      return new InMemoryTransport(server, { headers });
+    },
+
+    async fetch(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+      const request = new Request(input, init);
+      const url = new URL(request.url);
+
+      const oauthMatch = url.pathname.match(/\/oauth\/([^/]+)$/);
+      if (oauthMatch) {
+        return handleOAuth(oauthMatch[1]!, url, request);
+      }
+
+      // Session transports open an SSE stream with GET; the mock has none
+      if (request.method !== "POST") {
+        return textResponse("Method not allowed", 405);
+      }
+
+      let message: JSONRPCRequest | JSONRPCNotification;
+      try {
+        message = await request.json() as JSONRPCRequest | JSONRPCNotification;
+      } catch {
+        return Response.json(
+          { jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } },
+          { status: 400 }
+        );
+      }
+
+      const headers: Record<string, string> = {};
+      request.headers.forEach((value, key) => {
+        headers[key] = value;
+      });
+
+      const response = await handleMessage(message, headers);
+      return response ? Response.json(response) : new Response(null, { status: 202 });
+    },
+
+    installFetch() {
+      const previousFetch = globalThis.fetch;
+      globalThis.fetch = ((input: string | URL | Request, init?: RequestInit) =>
+        server.fetch(input, init)) as typeof fetch;
+      return () => {
+        globalThis.fetch = previousFetch;
+      };
+    },
+
+    reset() {
+      requests.length = 0;
+      toolCalls.length = 0;
+      tokens.clear();
+      refreshTokens.clear();
+      pendingStates.clear();
+    },
+  };
+
+  return server;
+}
+
+/**
+ * Build a tool definition that accepts any arguments
+ */
+function toolDefinition(name: string): MCPTool {
+  return {
+    name,
+    description: `Mock tool ${name}`,
+    inputSchema: { type: "object", properties: {} },
+  };
+}
+
+/**
+ * Check if a handler result is already an MCP tool call response
+ */
+function isToolCallResponse(value: unknown): value is MCPToolCallResponse {
+  return typeof value === "object"
+    && value !== null
+    && Array.isArray((value as { content?: unknown }).content);
+}
+
+/**
+ * Shape an issued token like the MCP server's OAuth responses
+ */
+function toTokenResponse(token: MockOAuthToken) {
+  return {
+    accessToken: token.accessToken,
+    refreshToken: token.refreshToken,
+    tokenType: token.tokenType,
+    expiresIn: token.expiresIn,
+    expiresAt: token.expiresAt,
+    scopes: token.scopes,
+  };
+}
+
+/**
+ * Extract the bearer token from a request's Authorization header
+ */
+function getBearerToken(request: Request): string {
+  return (request.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "");
+}
+
+function textResponse(body: string, status: number): Response {
+  return new Response(body, { status });
+}
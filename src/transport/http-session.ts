@@ -9,17 +9,38 @@ import type {
   JSONRPCResponse,
   JSONRPCNotification,
 } from "../protocol/messages.js";
+import { MCPNotification } from "../protocol/messages.js";
 import { parseMessage } from "../protocol/jsonrpc.js";
+import type { MCPTransport, MessageHandler, SendRequestOptions } from "./types.js";
+import { getAbortReason, getAbortReasonMessage } from "./utils.js";
+import { resolveLogger, type Logger } from "../utils/logger.js";
 
-export type MessageHandler = (
-  message: JSONRPCResponse | JSONRPCNotification
-) => void;
+export type { MessageHandler, SendRequestOptions } from "./types.js";
 
 export interface HttpSessionTransportOptions {
   url: string;
   headers?: Record<string, string>;
   /** Timeout for requests in milliseconds */
   timeout?: number;
+  /**
+   * Called when the server discards the session (404 for a request carrying
+   * `mcp-session-id`). Should re-run initialization; the failed request is
+   * replayed once after it resolves.
+   */
+  onSessionExpired?: () => Promise<void>;
+  /**
+   * Initial delay before reconnecting a dropped SSE stream, in milliseconds
+   * Doubles after each failed attempt
+   * @default 1000
+   */
+  reconnectDelay?: number;
+  /**
+   * Maximum delay between SSE reconnection attempts, in milliseconds
+   * @default 30000
+   */
+  maxReconnectDelay?: number;
+  /** Logger for connection, parse and handler errors (redacted; defaults to the console) */
+  logger?: Logger;
 }
 
 /**
@@ -29,19 +50,30 @@ export interface HttpSessionTransportOptions {
  * - Receives responses in POST response body
  * - Optionally listens for notifications via SSE
  */
-export class HttpSessionTransport {
+export class HttpSessionTransport implements MCPTransport {
   private url: string;
   private headers: Record<string, string>;
   private timeout: number;
   private messageHandlers: Set<MessageHandler> = new Set();
   private sessionId?: string;
   private sseController?: AbortController;
+  private lastEventId?: string;
   private connected = false;
+  private onSessionExpired?: () => Promise<void>;
+  private sessionRecovery?: Promise<void>;
+  private sessionReplaced?: { promise: Promise<void>; resolve: () => void };
+  private reconnectDelay: number;
+  private maxReconnectDelay: number;
+  private logger: Logger;
 
   constructor(options: HttpSessionTransportOptions) {
     this.url = options.url;
     this.headers = options.headers || {};
     this.timeout = options.timeout || 30000;
+    this.onSessionExpired = options.onSessionExpired;
+    this.reconnectDelay = options.reconnectDelay ?? 1000;
+    this.maxReconnectDelay = options.maxReconnectDelay ?? 30000;
+    this.logger = resolveLogger(options.logger);
   }
 
   /**
@@ -58,15 +90,50 @@ export class HttpSessionTransport {
 
   /**
    * Send a request to the server and get immediate response
+   * 
+   * If the server has discarded the session, the session is re-established
+   * (see `onSessionExpired`) and the request is replayed once.
+   * 
+   * @param method - JSON-RPC method name
+   * @param params - JSON-RPC params
+   * @param options - Per-request options (e.g., request-scoped headers)
    */
   async sendRequest<T = unknown>(
     method: string,
-    params?: unknown
+    params?: unknown,
+    options?: SendRequestOptions
+  ): Promise<T> {
+    try {
+      return await this.postRequest<T>(method, params, options);
+    } catch (error) {
+      const expiredSessionId = (error as { expiredSessionId?: string } | undefined)?.expiredSessionId;
+      if (!expiredSessionId || method === "initialize") {
+        throw error;
+      }
+
+      await this.recoverSession(expiredSessionId);
+      return await this.postRequest<T>(method, params, options);
+    }
+  }
+
+  /**
+   * POST a single JSON-RPC request and read its response
+   */
+  private async postRequest<T>(
+    method: string,
+    params?: unknown,
+    options?: SendRequestOptions
   ): Promise<T> {
     if (!this.connected) {
       throw new Error("Not connected to server");
     }
 
+    // While an expired session is being replaced, wait for the new session id
+    // instead of sending the request without one
+    if (method !== "initialize" && this.sessionReplaced) {
+      await this.sessionReplaced.promise;
+    }
+
     const request: JSONRPCRequest = {
       jsonrpc: "2.0",
       id: Date.now() + Math.random(),
@@ -76,7 +143,10 @@ export class HttpSessionTransport {
 
     const headers: Record<string, string> = {
       ...this.headers,
+      ...options?.headers,
       "Content-Type": "application/json",
+      // Streamable HTTP servers may answer with a single JSON body or an SSE stream
+      "Accept": "application/json, text/event-stream",
     };
 
     // Include session ID if we have one
@@ -84,10 +154,17 @@ export class HttpSessionTransport {
       headers["mcp-session-id"] = this.sessionId;
     }
 
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const signal = options?.signal;
+    if (signal?.aborted) {
+      throw getAbortReason(signal);
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
 
+    try {
       const response = await fetch(this.url, {
         method: "POST",
         headers,
@@ -95,12 +172,21 @@ export class HttpSessionTransport {
         signal: controller.signal,
       });
 
-      clearTimeout(timeoutId);
-
       if (!response.ok) {
-        // Preserve HTTP status code for auth error detection
-        const error = new Error(`Request failed: ${response.statusText}`) as Error & { statusCode?: number };
+        // Preserve HTTP status code for auth and rate limit error detection
+        const error = new Error(`Request failed: ${response.statusText}`) as Error & {
+          statusCode?: number;
+          retryAfter?: string;
+          expiredSessionId?: string;
+        };
         error.statusCode = response.status;
+        error.retryAfter = response.headers.get("retry-after") ?? undefined;
+
+        // Streamable HTTP servers answer 404 for sessions they no longer know
+        if (response.status === 404 && headers["mcp-session-id"]) {
+          error.message = "MCP session expired";
+          error.expiredSessionId = headers["mcp-session-id"];
+        }
         throw error;
       }
 
@@ -109,14 +195,17 @@ export class HttpSessionTransport {
         const sid = response.headers.get("mcp-session-id");
         if (sid) {
           this.sessionId = sid;
-          console.log("Session established:", sid);
+          this.logger.debug("Session established", { sessionId: sid });
           
           // Start SSE listener for notifications
           this.startSSEListener();
         }
       }
 
-      const jsonResponse = (await response.json()) as JSONRPCResponse<T>;
+      const contentType = response.headers.get("content-type") || "";
+      const jsonResponse = contentType.includes("text/event-stream") && response.body
+        ? await this.readSSEResponse<T>(response.body, request.id)
+        : (await response.json()) as JSONRPCResponse<T>;
 
       if ("error" in jsonResponse) {
         // Preserve the full error object for the client to parse
@@ -134,6 +223,12 @@ export class HttpSessionTransport {
 
       return jsonResponse.result as T;
     } catch (error) {
+      // Caller cancelled the request - tell the server to stop working on it
+      if (signal?.aborted) {
+        this.sendCancelledNotification(request.id, signal, options?.headers);
+        throw getAbortReason(signal);
+      }
+
       // If it's a fetch error (network, timeout, etc.), wrap it appropriately
       if (error instanceof Error) {
         if (error.name === "AbortError") {
@@ -145,78 +240,246 @@ export class HttpSessionTransport {
         throw error;
       }
       throw new Error(String(error));
+    } finally {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener("abort", onAbort);
+      if (method === "initialize") {
+        this.releaseSessionWaiters();
+      }
     }
   }
 
+  /**
+   * Send a JSON-RPC notification to the server (no response expected)
+   * 
+   * @param method - Notification method (e.g., 'notifications/cancelled')
+   * @param params - Notification params
+   * @param options - Per-request options (e.g., request-scoped headers)
+   */
+  async sendNotification(
+    method: string,
+    params?: Record<string, unknown>,
+    options?: SendRequestOptions
+  ): Promise<void> {
+    if (!this.connected) {
+      throw new Error("Not connected to server");
+    }
+
+    const notification: JSONRPCNotification = {
+      jsonrpc: "2.0",
+      method,
+      params,
+    };
+
+    const headers: Record<string, string> = {
+      ...this.headers,
+      ...options?.headers,
+      "Content-Type": "application/json",
+    };
+
+    if (this.sessionId) {
+      headers["mcp-session-id"] = this.sessionId;
+    }
+
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(notification),
+    });
+
+    if (!response.ok) {
+      const error = new Error(`Notification failed: ${response.statusText}`) as Error & { statusCode?: number };
+      error.statusCode = response.status;
+      throw error;
+    }
+  }
+
+  /**
+   * Notify the server that a request was cancelled by the caller
+   * Best-effort: failures are logged, never thrown
+   */
+  private sendCancelledNotification(
+    requestId: string | number,
+    signal: AbortSignal,
+    headers?: Record<string, string>
+  ): void {
+    const params: Record<string, unknown> = { requestId };
+    const reason = getAbortReasonMessage(signal);
+    if (reason) {
+      params.reason = reason;
+    }
+
+    this.sendNotification(MCPNotification.CANCELLED, params, { headers }).catch((error) => {
+      this.logger.error("Failed to send cancellation notification", { error });
+    });
+  }
+
+  /**
+   * Re-establish a session the server discarded
+   * Concurrent requests that hit the same stale session share one recovery;
+   * requests that carried an already-replaced session just replay
+   */
+  private async recoverSession(expiredSessionId: string): Promise<void> {
+    if (!this.sessionRecovery) {
+      if (this.sessionId !== expiredSessionId) {
+        return;
+      }
+
+      this.sessionRecovery = (async () => {
+        this.resetSession();
+        if (this.onSessionExpired) {
+          let resolve!: () => void;
+          const promise = new Promise<void>((r) => (resolve = r));
+          this.sessionReplaced = { promise, resolve };
+          await this.onSessionExpired();
+        }
+      })().finally(() => {
+        this.sessionRecovery = undefined;
+        this.releaseSessionWaiters();
+      });
+    }
+
+    await this.sessionRecovery;
+  }
+
+  /**
+   * Let requests held during session recovery go ahead
+   * Called once the new session's initialize completes, or recovery ends
+   */
+  private releaseSessionWaiters(): void {
+    this.sessionReplaced?.resolve();
+    this.sessionReplaced = undefined;
+  }
+
+  /**
+   * Forget the current session and close its SSE stream
+   */
+  private resetSession(): void {
+    if (this.sseController) {
+      this.sseController.abort();
+      this.sseController = undefined;
+    }
+    this.sessionId = undefined;
+    this.lastEventId = undefined;
+  }
+
   /**
    * Start SSE listener for server-initiated notifications
+   * Once a stream has been established, drops are reconnected with exponential
+   * backoff, resuming from the last received event via `Last-Event-ID`
    */
   private async startSSEListener(): Promise<void> {
     if (!this.sessionId || this.sseController) {
       return;
     }
 
-    this.sseController = new AbortController();
+    const controller = new AbortController();
+    const sessionId = this.sessionId;
+    let established = false;
+    let attempt = 0;
 
-    try {
-      const response = await fetch(this.url, {
-        method: "GET",
-        headers: {
+    this.sseController = controller;
+
+    while (!controller.signal.aborted) {
+      try {
+        const headers: Record<string, string> = {
           ...this.headers,
           "Accept": "text/event-stream",
-          "mcp-session-id": this.sessionId,
-        },
-        signal: this.sseController.signal,
-      });
+          "mcp-session-id": sessionId,
+        };
+        if (this.lastEventId) {
+          headers["Last-Event-ID"] = this.lastEventId;
+        }
 
-      if (!response.ok || !response.body) {
-        return;
+        const response = await fetch(this.url, {
+          method: "GET",
+          headers,
+          signal: controller.signal,
+        });
+
+        if (!response.ok || !response.body) {
+          // 405: server offers no GET stream; 404: session is gone (the next
+          // request recovers it). Before the first stream, give up quietly.
+          if (!established || response.status === 404 || response.status === 405) {
+            break;
+          }
+          throw new Error(`SSE reconnect failed: ${response.statusText}`);
+        }
+
+        established = true;
+        attempt = 0;
+
+        // Process SSE stream for notifications (resolves when the stream drops)
+        await this.processSSEStream(response.body);
+      } catch (error) {
+        if (controller.signal.aborted) {
+          // Connection was intentionally closed
+          break;
+        }
+        this.logger.error("SSE connection error", { error });
+        if (!established) {
+          break;
+        }
       }
 
-      // Process SSE stream for notifications
-      this.processSSEStream(response.body);
-    } catch (error) {
-      if (error instanceof Error && error.name === "AbortError") {
-        // Connection was intentionally closed
-        return;
+      if (controller.signal.aborted) {
+        break;
       }
-      console.error("SSE connection error:", error);
+
+      const delay = Math.min(this.reconnectDelay * 2 ** attempt, this.maxReconnectDelay);
+      attempt++;
+      await waitForReconnect(delay, controller.signal);
+    }
+
+    if (this.sseController === controller) {
+      this.sseController = undefined;
+    }
+  }
+
+  /**
+   * Read an SSE-framed POST response until the response for `requestId` arrives
+   * Notifications and server requests sent ahead of the response (e.g., progress)
+   * are dispatched to message handlers as they arrive
+   */
+  private async readSSEResponse<T>(
+    body: ReadableStream<Uint8Array>,
+    requestId: string | number
+  ): Promise<JSONRPCResponse<T>> {
+    for await (const event of readSSEEvents(body)) {
+      let message: JSONRPCResponse<T> | JSONRPCNotification;
+      try {
+        message = parseMessage(event.data) as JSONRPCResponse<T> | JSONRPCNotification;
+      } catch (error) {
+        this.logger.error("Failed to parse SSE response message", { error });
+        continue;
+      }
+
+      if ("id" in message && message.id === requestId && ("result" in message || "error" in message)) {
+        return message;
+      }
+
+      this.dispatchMessage(message);
     }
+
+    throw new Error("SSE response stream ended without a response");
   }
 
   /**
    * Process SSE stream for server notifications
    */
   private async processSSEStream(body: ReadableStream<Uint8Array>): Promise<void> {
-    const reader = body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = "";
-
     try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || "";
-
-        for (const line of lines) {
-          if (line.startsWith("data: ")) {
-            const data = line.slice(6).trim();
-            if (data) {
-              this.handleNotification(data);
-            }
-          }
+      for await (const event of readSSEEvents(body)) {
+        if (event.id !== undefined) {
+          this.lastEventId = event.id;
         }
+        this.handleNotification(event.data);
       }
     } catch (error) {
       if (error instanceof Error && error.name === "AbortError") {
         return;
       }
-      console.error("SSE stream error:", error);
-    } finally {
-      reader.releaseLock();
+      this.logger.error("SSE stream error", { error });
     }
   }
 
@@ -225,21 +488,25 @@ export class HttpSessionTransport {
    */
   private handleNotification(data: string): void {
     try {
-      const message = parseMessage(data);
-      
-      // Notify all message handlers
-      this.messageHandlers.forEach((handler) => {
-        try {
-          handler(message);
-        } catch (error) {
-          console.error("Error in message handler:", error);
-        }
-      });
+      this.dispatchMessage(parseMessage(data));
     } catch (error) {
-      console.error("Failed to parse notification:", error);
+      this.logger.error("Failed to parse notification", { error });
     }
   }
 
+  /**
+   * Notify all message handlers of a server message
+   */
+  private dispatchMessage(message: JSONRPCResponse | JSONRPCNotification): void {
+    this.messageHandlers.forEach((handler) => {
+      try {
+        handler(message);
+      } catch (error) {
+        this.logger.error("Error in message handler", { error });
+      }
+    });
+  }
+
   /**
    * Register a message handler for notifications
    */
@@ -261,15 +528,11 @@ export class HttpSessionTransport {
     }
 
     // Close SSE connection if open
-    if (this.sseController) {
-      this.sseController.abort();
-      this.sseController = undefined;
-    }
+    this.resetSession();
 
     // Clear handlers
     this.messageHandlers.clear();
 
-    this.sessionId = undefined;
     this.connected = false;
   }
 
@@ -320,3 +583,96 @@ export class HttpSessionTransport {
   }
 }
 
+/**
+ * A single Server-Sent Event
+ */
+interface SSEEvent {
+  /** Event ID (`id:` field), used to resume streams */
+  id?: string;
+  /** Event data, with multi-line `data:` fields joined by newlines */
+  data: string;
+}
+
+/**
+ * Read Server-Sent Events from a stream
+ * Events are dispatched on blank lines per the SSE spec; `event:`, `retry:`
+ * and comment lines are ignored
+ */
+async function* readSSEEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let dataLines: string[] = [];
+  let eventId: string | undefined;
+
+  const takeEvent = (): SSEEvent | undefined => {
+    if (dataLines.length === 0) {
+      return undefined;
+    }
+    const event: SSEEvent = { id: eventId, data: dataLines.join("\n") };
+    dataLines = [];
+    eventId = undefined;
+    return event;
+  };
+
+  const readLine = (line: string): SSEEvent | undefined => {
+    if (line === "") {
+      return takeEvent();
+    }
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+
+    if (field === "data") {
+      dataLines.push(value);
+    } else if (field === "id") {
+      eventId = value;
+    }
+    return undefined;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        const event = readLine(line);
+        if (event) {
+          yield event;
+        }
+      }
+    }
+
+    // Flush an event left unterminated when the stream closed
+    const trailing = buffer ? readLine(buffer) : undefined;
+    const event = trailing || takeEvent();
+    if (event) {
+      yield event;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Wait before an SSE reconnection attempt, resolving early if aborted
+ * The timer never keeps the process alive on its own
+ */
+function waitForReconnect(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    (timer as { unref?: () => void }).unref?.();
+    signal.addEventListener("abort", done, { once: true });
+  });
+}
@@ -9,11 +9,13 @@ import type {
   JSONRPCResponse,
   JSONRPCNotification,
 } from "../protocol/messages.js";
+import { MCPNotification } from "../protocol/messages.js";
 import { parseMessage } from "../protocol/jsonrpc.js";
+import type { MCPTransport, MessageHandler, SendRequestOptions } from "./types.js";
+import { getAbortReason, getAbortReasonMessage } from "./utils.js";
+import { resolveLogger, type Logger } from "../utils/logger.js";
 
-export type MessageHandler = (
-  message: JSONRPCResponse | JSONRPCNotification
-) => void;
+export type { MessageHandler, SendRequestOptions } from "./types.js";
 
 export interface HttpStreamTransportOptions {
   url: string;
@@ -22,6 +24,8 @@ export interface HttpStreamTransportOptions {
   timeout?: number;
   /** Heartbeat interval in milliseconds (default: 30000) */
   heartbeatInterval?: number;
+  /** Logger for connection, parse and handler errors (redacted; defaults to the console) */
+  logger?: Logger;
 }
 
 /**
@@ -29,7 +33,7 @@ export interface HttpStreamTransportOptions {
  * Handles bidirectional communication with MCP server via HTTP streaming
  * Uses newline-delimited JSON (NDJSON) over a single persistent connection
  */
-export class HttpStreamTransport {
+export class HttpStreamTransport implements MCPTransport {
   private url: string;
   private headers: Record<string, string>;
   private timeout: number;
@@ -46,12 +50,14 @@ export class HttpStreamTransport {
   private streamController?: AbortController;
   private connected = false;
   private heartbeatTimer?: ReturnType<typeof setInterval>;
+  private logger: Logger;
 
   constructor(options: HttpStreamTransportOptions) {
     this.url = options.url;
     this.headers = options.headers || {};
     this.timeout = options.timeout || 30000;
     this.heartbeatInterval = options.heartbeatInterval || 30000;
+    this.logger = resolveLogger(options.logger);
   }
 
   /**
@@ -146,7 +152,7 @@ export class HttpStreamTransport {
         // Stream was intentionally closed
         return;
       }
-      console.error("Stream error:", error);
+      this.logger.error("Stream error", { error });
     } finally {
       reader.releaseLock();
     }
@@ -164,7 +170,7 @@ export class HttpStreamTransport {
       if (this.connected) {
         // Send a ping/heartbeat (you can customize this based on your server's expectations)
         this.sendRawMessage({ jsonrpc: "2.0", method: "ping" }).catch((error) => {
-          console.error("Heartbeat failed:", error);
+          this.logger.error("Heartbeat failed", { error });
         });
       }
     }, this.heartbeatInterval);
@@ -195,44 +201,65 @@ export class HttpStreamTransport {
         try {
           handler(message);
         } catch (error) {
-          console.error("Error in message handler:", error);
+          this.logger.error("Error in message handler", { error });
         }
       });
     } catch (error) {
-      console.error("Failed to parse message:", error);
+      this.logger.error("Failed to parse message", { error });
     }
   }
 
   /**
    * Send a raw message to the server via POST (internal use)
    */
-  private async sendRawMessage(message: unknown): Promise<void> {
+  private async sendRawMessage(
+    message: unknown,
+    headers?: Record<string, string>
+  ): Promise<void> {
     // Send each message as a separate POST request
     const response = await fetch(this.url, {
       method: "POST",
       headers: {
         ...this.headers,
+        ...headers,
         "Content-Type": "application/json",
       },
       body: JSON.stringify(message),
     });
 
     if (!response.ok) {
-      throw new Error(`Failed to send message: ${response.statusText}`);
+      const error = new Error(`Failed to send message: ${response.statusText}`) as Error & {
+        statusCode?: number;
+        retryAfter?: string;
+      };
+      error.statusCode = response.status;
+      error.retryAfter = response.headers.get("retry-after") ?? undefined;
+      throw error;
     }
   }
 
   /**
    * Send a request to the server
+   * The response arrives over the stream and is matched by request id
+   *
+   * @param method - JSON-RPC method name
+   * @param params - JSON-RPC params
+   * @param options - Per-request options (e.g., request-scoped headers)
    */
   async sendRequest<T = unknown>(
     method: string,
-    params?: unknown
+    params?: unknown,
+    options?: SendRequestOptions
   ): Promise<T> {
     if (!this.connected) {
       throw new Error("Not connected to server");
     }
 
+    const signal = options?.signal;
+    if (signal?.aborted) {
+      throw getAbortReason(signal);
+    }
+
     const request: JSONRPCRequest = {
       jsonrpc: "2.0",
       id: Date.now() + Math.random(),
@@ -240,6 +267,17 @@ export class HttpStreamTransport {
       params: params as Record<string, unknown> | unknown[] | undefined,
     };
 
+    const onAbort = () => {
+      const pending = this.pendingRequests.get(request.id);
+      if (!pending) {
+        return;
+      }
+      clearTimeout(pending.timeoutId);
+      this.pendingRequests.delete(request.id);
+      this.sendCancelledNotification(request.id, signal!, options?.headers);
+      pending.reject(getAbortReason(signal!) as Error);
+    };
+
     // Create promise for response
     const responsePromise = new Promise<JSONRPCResponse>((resolve, reject) => {
       const timeoutId = setTimeout(() => {
@@ -254,24 +292,85 @@ export class HttpStreamTransport {
       });
     });
 
-    // Send request over the stream
+    signal?.addEventListener("abort", onAbort, { once: true });
+
     try {
-      await this.sendRawMessage(request);
-    } catch (error) {
-      this.pendingRequests.delete(request.id);
-      throw error;
+      // Send request over the stream
+      try {
+        await this.sendRawMessage(request, options?.headers);
+      } catch (error) {
+        const pending = this.pendingRequests.get(request.id);
+        clearTimeout(pending?.timeoutId);
+        this.pendingRequests.delete(request.id);
+        throw error;
+      }
+
+      // Wait for response over the same stream
+      const response = await responsePromise;
+
+      if ("error" in response) {
+        // Preserve the full error object for the client to parse
+        const error = new Error(
+          `JSON-RPC Error ${response.error.code}: ${response.error.message}`
+        ) as Error & { code?: number; data?: unknown };
+        error.code = response.error.code;
+        if (response.error.data) {
+          error.data = response.error.data;
+        }
+        // Attach the original JSON-RPC error for detailed parsing
+        (error as any).jsonrpcError = response.error;
+        throw error;
+      }
+
+      return response.result as T;
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * Send a notification to the server (no response expected)
+   *
+   * @param method - Notification method (e.g., 'notifications/cancelled')
+   * @param params - Notification params
+   * @param options - Per-request options (e.g., request-scoped headers)
+   */
+  async sendNotification(
+    method: string,
+    params?: Record<string, unknown>,
+    options?: SendRequestOptions
+  ): Promise<void> {
+    if (!this.connected) {
+      throw new Error("Not connected to server");
     }
 
-    // Wait for response over the same stream
-    const response = await responsePromise;
+    const notification: JSONRPCNotification = {
+      jsonrpc: "2.0",
+      method,
+      params,
+    };
+
+    await this.sendRawMessage(notification, options?.headers);
+  }
 
-    if ("error" in response) {
-      throw new Error(
-        `JSON-RPC Error ${response.error.code}: ${response.error.message}`
-      );
+  /**
+   * Notify the server that a request was cancelled by the caller
+   * Best-effort: failures are logged, never thrown
+   */
+  private sendCancelledNotification(
+    requestId: string | number,
+    signal: AbortSignal,
+    headers?: Record<string, string>
+  ): void {
+    const params: Record<string, unknown> = { requestId };
+    const reason = getAbortReasonMessage(signal);
+    if (reason) {
+      params.reason = reason;
     }
 
-    return response.result as T;
+    this.sendNotification(MCPNotification.CANCELLED, params, { headers }).catch((error) => {
+      this.logger.error("Failed to send cancellation notification", { error });
+    });
   }
 
   /**
@@ -327,5 +426,30 @@ export class HttpStreamTransport {
   isConnected(): boolean {
     return this.connected;
   }
-}
 
+  /**
+   * Set a custom header for all requests
+   *
+   * @param key - Header name
+   * @param value - Header value
+   */
+  setHeader(key: string, value: string): void {
+    this.headers[key] = value;
+  }
+
+  /**
+   * Remove a custom header
+   *
+   * @param key - Header name to remove
+   */
+  removeHeader(key: string): void {
+    delete this.headers[key];
+  }
+
+  /**
+   * Get all current headers
+   */
+  getHeaders(): Record<string, string> {
+    return { ...this.headers };
+  }
+}
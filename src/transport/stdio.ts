@@ -0,0 +1,545 @@
+/**
+ * Stdio Transport for MCP (Node.js only)
+ * Spawns a local MCP server process and exchanges newline-delimited
+ * JSON-RPC messages over its stdin/stdout
+ */
+
+import { spawn, type ChildProcess } from "node:child_process";
+import type {
+  JSONRPCRequest,
+  JSONRPCResponse,
+  JSONRPCNotification,
+} from "../protocol/messages.js";
+import { MCPMethod, MCPNotification } from "../protocol/messages.js";
+import {
+  createNotification,
+  createRequest,
+  parseMessage,
+  serializeMessage,
+} from "../protocol/jsonrpc.js";
+import type { MCPTransport, MessageHandler, SendRequestOptions } from "./types.js";
+import { getAbortReason, getAbortReasonMessage } from "./utils.js";
+import { resolveLogger, type Logger } from "../utils/logger.js";
+
+export interface StdioTransportOptions {
+  /** Executable that starts the MCP server (e.g., 'node', 'python') */
+  command: string;
+  /** Arguments passed to the command */
+  args?: string[];
+  /** Extra environment variables, merged over the current process environment */
+  env?: Record<string, string>;
+  /** Working directory for the server process */
+  cwd?: string;
+  /** Timeout for requests in milliseconds */
+  timeout?: number;
+  /**
+   * Restart the server process when it exits unexpectedly
+   * The last `initialize` handshake is replayed so the client keeps working
+   * @default true
+   */
+  restartOnCrash?: boolean;
+  /**
+   * Maximum consecutive restarts before giving up
+   * The count resets after a request succeeds
+   * @default 3
+   */
+  maxRestarts?: number;
+  /**
+   * Delay before restarting a crashed process, in milliseconds
+   * @default 1000
+   */
+  restartDelay?: number;
+  /**
+   * Called with each line the server writes to stderr
+   * Defaults to the logger's debug level prefixed with the command name, since
+   * servers write their routine logs to stderr
+   */
+  onStderr?: (line: string) => void;
+  /** Logger for connection, parse and handler errors (redacted; defaults to the console) */
+  logger?: Logger;
+}
+
+/**
+ * Stdio Transport
+ * Runs an MCP server as a child process of the current Node.js process
+ * - Sends requests and notifications as JSON lines on stdin
+ * - Matches responses read from stdout by request id
+ * - Forwards stderr lines to `onStderr`
+ *
+ * Headers have no meaning over stdio; they are kept so the transport satisfies
+ * `MCPTransport` but are never sent to the server.
+ *
+ * @example
+ * ```typescript
+ * const { client } = createMCPServer({
+ *   transport: new StdioTransport({ command: 'node', args: ['./mcp-server.js'] }),
+ *   integrations: [createSimpleIntegration({ id: 'inventory', tools: ['inventory_lookup'] })],
+ * });
+ * ```
+ */
+export class StdioTransport implements MCPTransport {
+  private command: string;
+  private args: string[];
+  private env?: Record<string, string>;
+  private cwd?: string;
+  private timeout: number;
+  private restartOnCrash: boolean;
+  private maxRestarts: number;
+  private restartDelay: number;
+  private onStderr: (line: string) => void;
+  private logger: Logger;
+  private headers: Record<string, string> = {};
+  private messageHandlers: Set<MessageHandler> = new Set();
+  private pendingRequests: Map<
+    string | number,
+    {
+      resolve: (value: JSONRPCResponse) => void;
+      reject: (error: Error) => void;
+      timeoutId: ReturnType<typeof setTimeout>;
+    }
+  > = new Map();
+  private process?: ChildProcess;
+  private connected = false;
+  private closing = false;
+  private restartCount = 0;
+  private restarting?: Promise<void>;
+  private initializeParams?: unknown;
+
+  constructor(options: StdioTransportOptions) {
+    this.command = options.command;
+    this.args = options.args || [];
+    this.env = options.env;
+    this.cwd = options.cwd;
+    this.timeout = options.timeout || 30000;
+    this.restartOnCrash = options.restartOnCrash ?? true;
+    this.maxRestarts = options.maxRestarts ?? 3;
+    this.restartDelay = options.restartDelay ?? 1000;
+    this.logger = resolveLogger(options.logger);
+    this.onStderr = options.onStderr || ((line) => this.logger.debug(`[${this.command}] ${line}`));
+  }
+
+  /**
+   * Spawn the server process
+   */
+  async connect(): Promise<void> {
+    if (this.connected) {
+      return;
+    }
+
+    this.closing = false;
+    await this.spawnProcess();
+    this.connected = true;
+  }
+
+  /**
+   * Start the child process and wire up its streams
+   * Resolves once the process has spawned, rejects if it cannot be started
+   */
+  private spawnProcess(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.command, this.args, {
+        cwd: this.cwd,
+        env: { ...process.env, ...this.env },
+        stdio: ["pipe", "pipe", "pipe"],
+      });
+
+      child.once("spawn", () => {
+        this.process = child;
+        resolve();
+      });
+
+      // Listen for every error: an unhandled 'error' event would crash the host process
+      child.on("error", (error) => {
+        if (this.process !== child) {
+          reject(new Error(`Failed to start MCP server "${this.command}": ${error.message}`));
+          return;
+        }
+        this.logger.error("MCP server process error", { error });
+      });
+
+      // Writing after the server has exited fails with EPIPE
+      child.stdin!.on("error", (error) => {
+        this.logger.error("Failed to write to MCP server process", { error });
+        if (this.process === child) {
+          this.rejectPending(new Error(`MCP server process stdin closed: ${error.message}`));
+        }
+      });
+
+      child.once("exit", (code, signal) => {
+        if (this.process === child) {
+          this.handleExit(code, signal);
+        }
+      });
+
+      readLines(child.stdout!, (line) => this.handleMessage(line));
+      readLines(child.stderr!, (line) => this.onStderr(line));
+    });
+  }
+
+  /**
+   * Fail in-flight requests and restart the process if it crashed
+   */
+  private handleExit(code: number | null, signal: NodeJS.Signals | null): void {
+    this.process = undefined;
+    const reason = signal ? `signal ${signal}` : `code ${code}`;
+    this.rejectPending(new Error(`MCP server process exited with ${reason}`));
+
+    if (this.closing) {
+      return;
+    }
+
+    if (!this.restartOnCrash || this.restartCount >= this.maxRestarts) {
+      this.logger.error(`MCP server process exited with ${reason}; not restarting`);
+      this.connected = false;
+      return;
+    }
+
+    this.restartCount++;
+    const restart: Promise<void> = this.restart().finally(() => {
+      // A crash during the replayed handshake schedules a newer restart
+      if (this.restarting === restart) {
+        this.restarting = undefined;
+      }
+    });
+    this.restarting = restart;
+  }
+
+  /**
+   * Respawn the process and replay the initialize handshake
+   */
+  private async restart(): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, this.restartDelay));
+    if (this.closing) {
+      return;
+    }
+
+    try {
+      await this.spawnProcess();
+    } catch (error) {
+      this.logger.error("Failed to restart MCP server process", { error });
+      this.connected = false;
+      return;
+    }
+
+    if (this.initializeParams === undefined) {
+      return;
+    }
+
+    try {
+      await this.request(MCPMethod.INITIALIZE, this.initializeParams);
+      this.write(createNotification(MCPNotification.INITIALIZED));
+    } catch (error) {
+      // If the process exited again, handleExit has already scheduled the next attempt
+      this.logger.error("Failed to re-initialize MCP server after restart", { error });
+    }
+  }
+
+  /**
+   * Handle a line read from the server's stdout
+   */
+  private handleMessage(line: string): void {
+    let message: JSONRPCResponse | JSONRPCNotification | JSONRPCRequest;
+    try {
+      message = parseMessage(line);
+    } catch {
+      // Servers sometimes print non-protocol output to stdout
+      this.onStderr(line);
+      return;
+    }
+
+    if ("id" in message && message.id !== undefined) {
+      // Server-initiated request (e.g., ping)
+      if ("method" in message) {
+        this.respondToServerRequest(message as JSONRPCRequest);
+        return;
+      }
+
+      const pending = this.pendingRequests.get(message.id);
+      if (pending) {
+        clearTimeout(pending.timeoutId);
+        this.pendingRequests.delete(message.id);
+        pending.resolve(message as JSONRPCResponse);
+        return;
+      }
+    }
+
+    this.messageHandlers.forEach((handler) => {
+      try {
+        handler(message as JSONRPCResponse | JSONRPCNotification);
+      } catch (error) {
+        this.logger.error("Error in message handler", { error });
+      }
+    });
+  }
+
+  /**
+   * Answer requests the server sends to the client
+   * Only ping is supported; anything else gets "method not found"
+   */
+  private respondToServerRequest(request: JSONRPCRequest): void {
+    const response = request.method === "ping"
+      ? { jsonrpc: "2.0", id: request.id, result: {} }
+      : {
+          jsonrpc: "2.0",
+          id: request.id,
+          error: { code: -32601, message: `Method not found: ${request.method}` },
+        };
+    this.write(response);
+  }
+
+  /**
+   * Write a message to the server's stdin
+   */
+  private write(message: unknown): void {
+    if (!this.process?.stdin?.writable) {
+      throw new Error("MCP server process is not running");
+    }
+    this.process.stdin.write(`${serializeMessage(message as JSONRPCRequest)}\n`);
+  }
+
+  /**
+   * Send a request and wait for the matching response
+   */
+  private async request<T>(
+    method: string,
+    params?: unknown,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const request = createRequest(method, params);
+
+    const responsePromise = new Promise<JSONRPCResponse>((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        this.pendingRequests.delete(request.id);
+        const error = new Error("Request timeout") as Error & { code?: number };
+        error.code = -32000; // Custom timeout code
+        reject(error);
+      }, this.timeout);
+
+      this.pendingRequests.set(request.id, { resolve, reject, timeoutId });
+    });
+
+    const onAbort = () => {
+      const pending = this.pendingRequests.get(request.id);
+      if (!pending) {
+        return;
+      }
+      clearTimeout(pending.timeoutId);
+      this.pendingRequests.delete(request.id);
+      this.sendCancelledNotification(request.id, signal!);
+      pending.reject(getAbortReason(signal!) as Error);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      try {
+        this.write(request);
+      } catch (error) {
+        const pending = this.pendingRequests.get(request.id);
+        clearTimeout(pending?.timeoutId);
+        this.pendingRequests.delete(request.id);
+        throw error;
+      }
+
+      const response = await responsePromise;
+
+      if ("error" in response) {
+        // Same shape as the HTTP transports so the client can parse it
+        const error = new Error(
+          `JSON-RPC Error ${response.error.code}: ${response.error.message}`
+        ) as Error & { code?: number; data?: unknown };
+        error.code = response.error.code;
+        if (response.error.data) {
+          error.data = response.error.data;
+        }
+        (error as any).jsonrpcError = response.error;
+        throw error;
+      }
+
+      return response.result as T;
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * Send a request to the server
+   * Waits for an in-progress restart before writing
+   *
+   * @param method - JSON-RPC method name
+   * @param params - JSON-RPC params
+   * @param options - Per-request options; headers are ignored over stdio
+   */
+  async sendRequest<T = unknown>(
+    method: string,
+    params?: unknown,
+    options?: SendRequestOptions
+  ): Promise<T> {
+    if (!this.connected) {
+      throw new Error("Not connected to server");
+    }
+
+    const signal = options?.signal;
+    if (signal?.aborted) {
+      throw getAbortReason(signal);
+    }
+
+    while (this.restarting) {
+      await this.restarting;
+    }
+    if (!this.connected) {
+      throw new Error("Not connected to server");
+    }
+
+    if (method === MCPMethod.INITIALIZE) {
+      this.initializeParams = params ?? {};
+    }
+
+    const result = await this.request<T>(method, params, signal);
+    this.restartCount = 0;
+    return result;
+  }
+
+  /**
+   * Send a notification to the server (no response expected)
+   *
+   * @param method - Notification method (e.g., 'notifications/cancelled')
+   * @param params - Notification params
+   */
+  async sendNotification(
+    method: string,
+    params?: Record<string, unknown>
+  ): Promise<void> {
+    if (!this.connected) {
+      throw new Error("Not connected to server");
+    }
+
+    while (this.restarting) {
+      await this.restarting;
+    }
+
+    this.write(createNotification(method, params));
+  }
+
+  /**
+   * Notify the server that a request was cancelled by the caller
+   * Best-effort: failures are logged, never thrown
+   */
+  private sendCancelledNotification(requestId: string | number, signal: AbortSignal): void {
+    const params: Record<string, unknown> = { requestId };
+    const reason = getAbortReasonMessage(signal);
+    if (reason) {
+      params.reason = reason;
+    }
+
+    try {
+      this.write(createNotification(MCPNotification.CANCELLED, params));
+    } catch (error) {
+      this.logger.error("Failed to send cancellation notification", { error });
+    }
+  }
+
+  /**
+   * Reject all in-flight requests
+   */
+  private rejectPending(error: Error): void {
+    this.pendingRequests.forEach(({ reject, timeoutId }) => {
+      clearTimeout(timeoutId);
+      reject(error);
+    });
+    this.pendingRequests.clear();
+  }
+
+  /**
+   * Register a message handler for notifications
+   */
+  onMessage(handler: MessageHandler): () => void {
+    this.messageHandlers.add(handler);
+
+    // Return unsubscribe function
+    return () => {
+      this.messageHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * Stop the server process
+   */
+  async disconnect(): Promise<void> {
+    if (!this.connected) {
+      return;
+    }
+
+    this.closing = true;
+    this.connected = false;
+
+    const child = this.process;
+    if (child) {
+      const exited = new Promise<void>((resolve) => child.once("exit", () => resolve()));
+      child.stdin?.end();
+      child.kill();
+      await exited;
+    }
+
+    this.rejectPending(new Error("Connection closed"));
+    this.messageHandlers.clear();
+    this.initializeParams = undefined;
+    this.restartCount = 0;
+  }
+
+  /**
+   * Check if transport is connected
+   */
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Get the server process id, if it is running
+   */
+  getPid(): number | undefined {
+    return this.process?.pid;
+  }
+
+  /**
+   * Set a header (kept for MCPTransport compatibility, not sent over stdio)
+   */
+  setHeader(key: string, value: string): void {
+    this.headers[key] = value;
+  }
+
+  /**
+   * Remove a header
+   */
+  removeHeader(key: string): void {
+    delete this.headers[key];
+  }
+
+  /**
+   * Get all current headers
+   */
+  getHeaders(): Record<string, string> {
+    return { ...this.headers };
+  }
+}
+
+/**
+ * Call onLine for each complete, non-empty line read from a stream
+ */
+function readLines(
+  stream: NodeJS.ReadableStream,
+  onLine: (line: string) => void
+): void {
+  let buffer = "";
+  stream.setEncoding("utf8");
+  stream.on("data", (chunk: string) => {
+    buffer += chunk;
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (trimmed) {
+        onLine(trimmed);
+      }
+    }
+  });
+}
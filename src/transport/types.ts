@@ -0,0 +1,119 @@
+/**
+ * Transport Types
+ * Contract shared by the built-in transports and custom implementations
+ */
+
+import type {
+  JSONRPCResponse,
+  JSONRPCNotification,
+} from "../protocol/messages.js";
+
+export type MessageHandler = (
+  message: JSONRPCResponse | JSONRPCNotification
+) => void;
+
+/**
+ * Per-request options for sendRequest
+ */
+export interface SendRequestOptions {
+  /**
+   * Headers scoped to this request only
+   * Merged over the transport's shared headers without mutating them,
+   * so concurrent requests can carry different provider tokens
+   */
+  headers?: Record<string, string>;
+  /**
+   * Signal to cancel the request
+   * When aborted mid-flight, a `notifications/cancelled` message is sent to the server
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Built-in transports selectable by name in `MCPClientConfig.transport`
+ */
+export type BuiltInTransport = 'http-session' | 'http-stream';
+
+/**
+ * MCP Transport
+ * Carries JSON-RPC messages between the client and the MCP server
+ *
+ * Implement this to route traffic through a corporate proxy, a custom
+ * protocol, or an in-process fake for tests, and pass the instance as
+ * `MCPClientConfig.transport`.
+ *
+ * @example
+ * ```typescript
+ * class ProxyTransport implements MCPTransport {
+ *   // ...
+ * }
+ *
+ * const client = createMCPClient({
+ *   integrations: [githubIntegration({ clientId: '...' })],
+ *   transport: new ProxyTransport(),
+ * });
+ * ```
+ */
+export interface MCPTransport {
+  /**
+   * Open the connection to the server
+   * Called once by the client before initialization
+   */
+  connect(): Promise<void>;
+
+  /**
+   * Send a JSON-RPC request and resolve with its result
+   * Should reject with the JSON-RPC error (code and message) when the server returns one
+   *
+   * @param method - JSON-RPC method name
+   * @param params - JSON-RPC params
+   * @param options - Per-request options (request-scoped headers, abort signal)
+   */
+  sendRequest<T = unknown>(
+    method: string,
+    params?: unknown,
+    options?: SendRequestOptions
+  ): Promise<T>;
+
+  /**
+   * Send a JSON-RPC notification (no response expected)
+   * Optional: when omitted, the client skips `notifications/initialized`
+   */
+  sendNotification?(
+    method: string,
+    params?: Record<string, unknown>,
+    options?: SendRequestOptions
+  ): Promise<void>;
+
+  /**
+   * Register a handler for server-initiated messages (notifications, etc.)
+   *
+   * @returns Function that removes the handler
+   */
+  onMessage(handler: MessageHandler): () => void;
+
+  /**
+   * Set a header sent with every request
+   */
+  setHeader(key: string, value: string): void;
+
+  /**
+   * Remove a header previously set with setHeader
+   */
+  removeHeader(key: string): void;
+
+  /**
+   * Get a copy of the headers sent with every request
+   */
+  getHeaders(): Record<string, string>;
+
+  /**
+   * Close the connection and release any resources
+   */
+  disconnect(): Promise<void>;
+
+  /**
+   * Check if the transport is connected
+   */
+  isConnected(): boolean;
+}
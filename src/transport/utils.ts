@@ -0,0 +1,30 @@
+/**
+ * Transport Utilities
+ * Helpers shared by the built-in transports
+ */
+
+/**
+ * Get the error to throw for an aborted signal
+ * Mirrors fetch(): the signal's reason, or a generic AbortError
+ */
+export function getAbortReason(signal: AbortSignal): unknown {
+  if (signal.reason !== undefined) {
+    return signal.reason;
+  }
+  const error = new Error("The operation was aborted");
+  error.name = "AbortError";
+  return error;
+}
+
+/**
+ * Get a human-readable cancellation reason for notifications/cancelled
+ */
+export function getAbortReasonMessage(signal: AbortSignal): string | undefined {
+  if (typeof signal.reason === "string") {
+    return signal.reason;
+  }
+  if (signal.reason instanceof Error) {
+    return signal.reason.message;
+  }
+  return undefined;
+}
@@ -0,0 +1,215 @@
+/**
+ * Logger
+ * Leveled, structured logging with automatic secret redaction
+ */
+
+/**
+ * Log levels, from most to least verbose
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured data attached to a log entry
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Logger used for all of the SDK's internal logging
+ *
+ * Messages and fields are redacted before they reach the logger: access and
+ * refresh tokens, client secrets, API keys and authorization codes are
+ * replaced with `[REDACTED]`.
+ *
+ * @example
+ * ```typescript
+ * import pino from 'pino';
+ *
+ * const log = pino();
+ * const logger: Logger = {
+ *   debug: (message, fields) => log.debug(fields, message),
+ *   info: (message, fields) => log.info(fields, message),
+ *   warn: (message, fields) => log.warn(fields, message),
+ *   error: (message, fields) => log.error(fields, message),
+ * };
+ * ```
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * Options for createConsoleLogger()
+ */
+export interface ConsoleLoggerOptions {
+  /**
+   * Minimum level written; 'silent' writes nothing
+   * @default 'info'
+   */
+  level?: LogLevel | 'silent';
+}
+
+const LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Create a logger that writes to the console
+ * Used when no `logger` is configured
+ *
+ * @example
+ * ```typescript
+ * createMCPServer({
+ *   integrations: [githubIntegration()],
+ *   logger: createConsoleLogger({ level: 'warn' }),
+ * })
+ * ```
+ */
+export function createConsoleLogger(options: ConsoleLoggerOptions = {}): Logger {
+  const level = options.level ?? 'info';
+  const minimum = level === 'silent' ? LEVELS.length : LEVELS.indexOf(level);
+
+  const write = (entryLevel: LogLevel) => (message: string, fields?: LogFields) => {
+    if (LEVELS.indexOf(entryLevel) < minimum) {
+      return;
+    }
+    // Looked up per call so console replacements (e.g., in tests) are honored
+    if (fields && Object.keys(fields).length > 0) {
+      console[entryLevel](message, fields);
+    } else {
+      console[entryLevel](message);
+    }
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Field names whose values are always redacted (compared lowercased, without - and _)
+ */
+const SECRET_FIELDS = new Set([
+  'accesstoken',
+  'refreshtoken',
+  'idtoken',
+  'sessiontoken',
+  'token',
+  'clientsecret',
+  'secret',
+  'password',
+  'apikey',
+  'xapikey',
+  'authorization',
+  'codeverifier',
+  'cookie',
+  'setcookie',
+]);
+
+/**
+ * Field names redacted only when they hold a string, so numeric
+ * JSON-RPC and HTTP error codes stay readable while OAuth codes don't
+ */
+const STRING_SECRET_FIELDS = new Set(['code']);
+
+const SECRET_PARAMS = 'access_token|refresh_token|id_token|session_token|client_secret|code|code_verifier|api_key|apiKey';
+const SECRET_JSON_KEYS = `${SECRET_PARAMS}|accessToken|refreshToken|sessionToken|clientSecret|codeVerifier`;
+
+/**
+ * Redact secrets embedded in free text
+ * Covers `Bearer` credentials, URL/form parameters and JSON properties
+ */
+function redactString(text: string): string {
+  return text
+    .replace(/\b(Bearer|Basic)\s+[A-Za-z0-9\-._~+/]+=*/gi, `$1 ${REDACTED}`)
+    .replace(new RegExp(`\\b(${SECRET_PARAMS})=[^&\\s#"']+`, 'g'), `$1=${REDACTED}`)
+    .replace(new RegExp(`"(${SECRET_JSON_KEYS})"\\s*:\\s*"[^"]*"`, 'g'), `"$1":"${REDACTED}"`);
+}
+
+function isSecretField(key: string, value: unknown): boolean {
+  const name = key.toLowerCase().replace(/[-_]/g, '');
+  return SECRET_FIELDS.has(name) || (STRING_SECRET_FIELDS.has(name) && typeof value === 'string');
+}
+
+function redactValue(value: unknown, seen: WeakSet<object>): unknown {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+  if (!value || typeof value !== 'object' || seen.has(value)) {
+    return value;
+  }
+  seen.add(value);
+
+  if (value instanceof Error) {
+    const message = redactString(value.message);
+    const stack = value.stack === undefined ? undefined : redactString(value.stack);
+    if (message === value.message && stack === value.stack) {
+      return value;
+    }
+    const redacted = new Error(message);
+    redacted.name = value.name;
+    redacted.stack = stack;
+    return redacted;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, seen));
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype !== Object.prototype && prototype !== null) {
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = isSecretField(key, item) && item !== undefined && item !== null
+      ? REDACTED
+      : redactValue(item, seen);
+  }
+  return result;
+}
+
+/**
+ * Replace tokens, client secrets, API keys and authorization codes with `[REDACTED]`
+ *
+ * Plain objects and arrays are copied with secret-named fields redacted;
+ * strings and error messages have embedded credentials redacted.
+ */
+export function redactSecrets<T>(value: T): T {
+  return redactValue(value, new WeakSet()) as T;
+}
+
+const redactingLoggers = new WeakSet<Logger>();
+
+/**
+ * Wrap a logger so messages and fields are redacted before it sees them
+ * Loggers that already redact are returned as-is
+ */
+export function resolveLogger(logger: Logger = defaultLogger): Logger {
+  if (redactingLoggers.has(logger)) {
+    return logger;
+  }
+
+  const write = (level: LogLevel) => (message: string, fields?: LogFields) => {
+    logger[level](redactString(message), fields === undefined ? undefined : redactSecrets(fields));
+  };
+  const redacting: Logger = {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+  redactingLoggers.add(redacting);
+  return redacting;
+}
+
+/**
+ * Console logger used when no `logger` is configured
+ */
+export const defaultLogger: Logger = resolveLogger(createConsoleLogger());
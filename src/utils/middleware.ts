@@ -0,0 +1,39 @@
+/**
+ * Tool call middleware runner
+ * Shared by the client and the server-side /mcp route
+ */
+
+import type { ToolCallMiddleware, ToolCallMiddlewareContext } from '../config/types.js';
+import type { MCPToolCallResponse } from '../protocol/messages.js';
+
+/**
+ * Run a tool call through a middleware chain
+ * 
+ * Each middleware receives the shared context and a `next` function that
+ * invokes the rest of the chain; the last `next` calls `handler` with the
+ * context as the middleware left it.
+ * 
+ * @param middleware - Middleware in execution order
+ * @param ctx - Tool call context (mutable)
+ * @param handler - Performs the actual tool call
+ * @returns Tool call response
+ */
+export function runToolCallMiddleware(
+  middleware: readonly ToolCallMiddleware[] | undefined,
+  ctx: ToolCallMiddlewareContext,
+  handler: (ctx: ToolCallMiddlewareContext) => Promise<MCPToolCallResponse>
+): Promise<MCPToolCallResponse> {
+  if (!middleware || middleware.length === 0) {
+    return handler(ctx);
+  }
+
+  const dispatch = async (index: number): Promise<MCPToolCallResponse> => {
+    const current = middleware[index];
+    if (!current) {
+      return handler(ctx);
+    }
+    return current(ctx, () => dispatch(index + 1));
+  };
+
+  return dispatch(0);
+}
@@ -0,0 +1,109 @@
+/**
+ * Pagination helpers
+ * Cursor strategies for the built-in integrations and the iterator behind
+ * `client.<integration>.paginate.*`
+ */
+
+import type { PaginationStrategy } from '../integrations/types.js';
+import type { PaginateOptions } from '../config/types.js';
+
+/**
+ * Page-number pagination (`page` / `per_page`)
+ * A page shorter than `per_page` is the last one.
+ *
+ * @param defaultPageSize - Page size the API uses when `per_page` is omitted
+ */
+export function pageNumberPagination(defaultPageSize: number): PaginationStrategy {
+  return {
+    getPage(args, result) {
+      const items = Array.isArray(result)
+        ? result
+        : getArray(result, 'items');
+      const pageSize = typeof args.per_page === 'number' ? args.per_page : defaultPageSize;
+      const page = typeof args.page === 'number' ? args.page : 1;
+
+      return {
+        items,
+        nextArgs: items.length < pageSize ? undefined : { ...args, page: page + 1 },
+      };
+    },
+  };
+}
+
+/**
+ * Token pagination (e.g., Gmail's `pageToken` / `nextPageToken`)
+ *
+ * @param itemsKey - Result field holding the items
+ * @param argName - Argument that takes the token
+ * @param tokenKey - Result field holding the next token
+ */
+export function tokenPagination(itemsKey: string, argName: string, tokenKey: string): PaginationStrategy {
+  return {
+    getPage(args, result) {
+      const token = (result as Record<string, unknown> | undefined)?.[tokenKey];
+      return {
+        items: getArray(result, itemsKey),
+        nextArgs: typeof token === 'string' && token ? { ...args, [argName]: token } : undefined,
+      };
+    },
+  };
+}
+
+/**
+ * Notion cursor pagination (`start_cursor` / `next_cursor` + `has_more`)
+ */
+export const notionCursorPagination: PaginationStrategy = {
+  getPage(args, result) {
+    const page = result as { has_more?: boolean; next_cursor?: string | null } | undefined;
+    return {
+      items: getArray(result, 'results'),
+      nextArgs: page?.has_more && page.next_cursor
+        ? { ...args, start_cursor: page.next_cursor }
+        : undefined,
+    };
+  },
+};
+
+/**
+ * Walk a list tool page by page, yielding each item
+ *
+ * @param fetchPage - Calls the tool with the page's arguments and returns the parsed result
+ * @param strategy - Cursor strategy for the tool's integration
+ * @param args - Arguments for the first page
+ * @param limits - Optional item and page limits
+ */
+export async function* paginate<T>(
+  fetchPage: (args: Record<string, unknown>) => Promise<unknown>,
+  strategy: PaginationStrategy,
+  args: Record<string, unknown>,
+  limits: Pick<PaginateOptions, 'maxItems' | 'maxPages'> = {}
+): AsyncGenerator<T, void, undefined> {
+  const { maxItems = Infinity, maxPages = Infinity } = limits;
+  let nextArgs: Record<string, unknown> | undefined = args;
+  let pages = 0;
+  let yielded = 0;
+
+  while (nextArgs && pages < maxPages && yielded < maxItems) {
+    const result = await fetchPage(nextArgs);
+    pages++;
+
+    const page = strategy.getPage(nextArgs, result);
+    for (const item of page.items) {
+      if (yielded >= maxItems) {
+        return;
+      }
+      yield item as T;
+      yielded++;
+    }
+
+    nextArgs = page.nextArgs;
+  }
+}
+
+/**
+ * Read an array field from a result, treating anything else as empty
+ */
+function getArray(result: unknown, key: string): unknown[] {
+  const value = (result as Record<string, unknown> | undefined)?.[key];
+  return Array.isArray(value) ? value : [];
+}
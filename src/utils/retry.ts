@@ -0,0 +1,153 @@
+/**
+ * Retry Policy
+ * Backoff for tool calls that fail with transient errors
+ */
+
+import { ConnectionError, ToolCallError, isRateLimitError } from '../errors.js';
+import { getAbortReason } from '../transport/utils.js';
+import { isWriteTool } from './tool-cache.js';
+
+/**
+ * When and how failed tool calls are retried
+ *
+ * Network errors, timeouts, 5xx responses and rate limits (429) are retried
+ * with exponential backoff. Rate-limited calls wait for the server's
+ * `Retry-After` instead, and are not retried if that is longer than `maxDelay`.
+ *
+ * @example
+ * ```typescript
+ * createMCPServer({
+ *   integrations: [githubIntegration()],
+ *   retry: { maxAttempts: 4, initialDelay: 500 },
+ * })
+ * ```
+ */
+export interface RetryPolicy {
+  /**
+   * Attempts per call, including the first
+   * @default 3
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the first retry, in milliseconds
+   * @default 250
+   */
+  initialDelay?: number;
+  /**
+   * Longest delay between attempts, in milliseconds
+   * @default 10000
+   */
+  maxDelay?: number;
+  /**
+   * Multiplier applied to the delay after each retry
+   * @default 2
+   */
+  backoffFactor?: number;
+  /**
+   * Pick each delay at random between 0 and the backoff delay ("full jitter"),
+   * so clients that failed together don't retry together
+   * @default true
+   */
+  jitter?: boolean;
+  /**
+   * Which tools are retried
+   * - 'idempotent': only reads (get/list/search-style tools), which are safe to repeat
+   * - 'all': every tool, including writes that may have been applied before failing
+   * @default 'idempotent'
+   */
+  tools?: 'idempotent' | 'all';
+}
+
+/**
+ * Messages of the TypeError fetch() rejects with when the network request fails
+ * (Node/undici, Chrome, Firefox, Safari, React Native)
+ */
+const NETWORK_ERROR_MESSAGE = /fetch failed|failed to fetch|networkerror|load failed|network request failed/i;
+
+/**
+ * Whether an error is fetch()'s network failure, rather than any TypeError
+ * (a programming error such as "x is not a function" must not be retried)
+ */
+function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError &&
+    (error.cause !== undefined || NETWORK_ERROR_MESSAGE.test(error.message));
+}
+
+/**
+ * Whether an error is worth retrying: network errors, timeouts, 5xx responses and rate limits
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (isRateLimitError(error)) {
+    return true;
+  }
+
+  const cause = error instanceof ToolCallError ? error.originalError : error;
+  if (cause instanceof ConnectionError) {
+    return true;
+  }
+  if (isNetworkError(cause)) {
+    return true;
+  }
+
+  const { code, statusCode } = (cause ?? {}) as { code?: unknown; statusCode?: unknown };
+  // -32000 is the transports' request timeout
+  if (code === -32000) {
+    return true;
+  }
+  // HTTP status, or an HTTP-style JSON-RPC error code from the MCP server
+  const status = typeof statusCode === 'number' ? statusCode : code;
+  return typeof status === 'number' &&
+    (status === 408 || (status >= 500 && status <= 599 && status !== 501));
+}
+
+/**
+ * Delay before retrying a failed call, or undefined if it should not be retried
+ *
+ * @param policy - Retry policy from the client config
+ * @param call - The tool, its provider, the error, and how many retries have been made
+ * @returns Milliseconds to wait
+ */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  call: { toolName: string; provider?: string; error: unknown; retries: number }
+): number | undefined {
+  const maxDelay = policy.maxDelay ?? 10_000;
+
+  if (call.retries + 1 >= (policy.maxAttempts ?? 3) || !isRetryableError(call.error)) {
+    return undefined;
+  }
+  if ((policy.tools ?? 'idempotent') === 'idempotent' && isWriteTool(call.toolName, call.provider)) {
+    return undefined;
+  }
+
+  if (isRateLimitError(call.error) && call.error.retryAfter !== undefined) {
+    const retryAfter = call.error.retryAfter * 1000;
+    return retryAfter <= maxDelay ? retryAfter : undefined;
+  }
+
+  const backoff = Math.min(
+    maxDelay,
+    (policy.initialDelay ?? 250) * (policy.backoffFactor ?? 2) ** call.retries
+  );
+  return policy.jitter === false ? backoff : Math.random() * backoff;
+}
+
+/**
+ * Wait before a retry; rejects with the abort reason if the signal aborts first
+ */
+export function waitForRetry(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(getAbortReason(signal));
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(getAbortReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,272 @@
+/**
+ * Tool Result Cache
+ * Read-through cache for idempotent tool calls, invalidated by write tools
+ */
+
+import type { MCPContext } from '../config/types.js';
+import type { MCPToolCallResponse } from '../protocol/messages.js';
+
+/**
+ * Storage for cached tool results
+ *
+ * Values are JSON-serializable, so a shared store (Redis, KV, a database)
+ * can back several client instances.
+ *
+ * @example
+ * ```typescript
+ * const store: ToolCacheStore = {
+ *   get: async (key) => {
+ *     const value = await redis.get(key);
+ *     return value === null ? undefined : JSON.parse(value);
+ *   },
+ *   set: async (key, value, ttlMs) => {
+ *     await redis.set(key, JSON.stringify(value), ttlMs ? { PX: ttlMs } : {});
+ *   },
+ * };
+ * ```
+ */
+export interface ToolCacheStore {
+  /** Get a value, or undefined if it is missing or expired */
+  get(key: string): Promise<unknown> | unknown;
+  /** Set a value, expiring after `ttlMs` (no expiry when omitted) */
+  set(key: string, value: unknown, ttlMs?: number): Promise<void> | void;
+}
+
+/**
+ * Tool result cache configuration
+ *
+ * @example
+ * ```typescript
+ * createMCPServer({
+ *   integrations: [githubIntegration(), notionIntegration()],
+ *   cache: {
+ *     tools: {
+ *       github_get_repo: 5 * 60_000,
+ *       notion_get_page: 60_000,
+ *     },
+ *   },
+ * })
+ * ```
+ */
+export interface ToolCacheConfig {
+  /**
+   * Tools whose results are cached, with each tool's TTL in milliseconds
+   * Only list tools that don't change anything; other tools are never cached
+   */
+  tools: Record<string, number>;
+  /**
+   * Where results are stored
+   * @default createMemoryCacheStore()
+   */
+  store?: ToolCacheStore;
+}
+
+/**
+ * Cache counters since the client was created
+ */
+export interface ToolCacheStats {
+  /** Calls answered from the cache */
+  hits: number;
+  /** Calls to cached tools that went to the server */
+  misses: number;
+  /** Write tool calls that invalidated a provider's cached results */
+  invalidations: number;
+}
+
+/**
+ * Who a cached result belongs to
+ * Results are only shared between calls with the same token, account and context
+ */
+export interface ToolCacheIdentity {
+  authorization?: string;
+  accountId?: string;
+  context?: MCPContext;
+}
+
+/**
+ * Options for createMemoryCacheStore()
+ */
+export interface MemoryCacheStoreOptions {
+  /**
+   * Entries kept before the least recently used is evicted
+   * @default 500
+   */
+  maxEntries?: number;
+}
+
+/**
+ * Create an in-memory LRU cache store
+ * Used when the cache config has no `store`
+ */
+export function createMemoryCacheStore(options: MemoryCacheStoreOptions = {}): ToolCacheStore {
+  const maxEntries = options.maxEntries ?? 500;
+  // Map iteration order is insertion order, so the first key is the least recently used
+  const entries = new Map<string, { value: unknown; expiresAt?: number }>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return undefined;
+      }
+      entries.delete(key);
+      if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+        return undefined;
+      }
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set(key, value, ttlMs) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: ttlMs === undefined ? undefined : Date.now() + ttlMs });
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) {
+          break;
+        }
+        entries.delete(oldest);
+      }
+    },
+  };
+}
+
+/**
+ * Action verbs of tools that only read (e.g., `github_get_repo`, `notion_query_database`)
+ */
+const READ_ACTIONS = new Set(['get', 'list', 'search', 'read', 'fetch', 'find', 'query', 'check', 'describe', 'count']);
+
+/**
+ * Whether a tool may change data, judged by the verb after its provider prefix
+ */
+export function isWriteTool(toolName: string, provider?: string): boolean {
+  const action = provider && toolName.startsWith(`${provider}_`)
+    ? toolName.slice(provider.length + 1)
+    : toolName;
+  return !READ_ACTIONS.has(action.split('_')[0] ?? '');
+}
+
+/**
+ * JSON with object keys sorted, so equal arguments produce equal keys
+ */
+export function canonicalize(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      return item;
+    }
+    return Object.fromEntries(
+      Object.keys(item).sort().map((key) => [key, (item as Record<string, unknown>)[key]])
+    );
+  }) ?? '';
+}
+
+/**
+ * SHA-256 hex digest, so keys never carry tokens or arguments to the store
+ */
+async function digest(text: string): Promise<string> {
+  const hash = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(hash), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Read-through cache for tool results
+ *
+ * Results of the configured tools are keyed by tool name, canonicalized
+ * arguments and caller identity. A call to any other tool of a provider that
+ * isn't a read (see isWriteTool()) invalidates that provider's cached results.
+ * Invalidation bumps a per-provider generation stored alongside the results,
+ * so it also applies across clients sharing a store.
+ */
+export class ToolResultCache {
+  private readonly store: ToolCacheStore;
+  private readonly stats: ToolCacheStats = { hits: 0, misses: 0, invalidations: 0 };
+
+  constructor(private readonly config: ToolCacheConfig) {
+    this.store = config.store ?? createMemoryCacheStore();
+  }
+
+  /**
+   * Make a tool call through the cache
+   *
+   * @param call - The tool, its arguments and provider, and who is calling
+   * @param invoke - Calls the tool on the server
+   * @returns The cached or fresh result
+   */
+  async call(
+    call: {
+      toolName: string;
+      args?: Record<string, unknown>;
+      provider?: string;
+      identity: ToolCacheIdentity;
+    },
+    invoke: () => Promise<MCPToolCallResponse>
+  ): Promise<MCPToolCallResponse> {
+    const ttl = this.config.tools[call.toolName];
+
+    if (ttl === undefined) {
+      const response = await invoke();
+      if (call.provider && isWriteTool(call.toolName, call.provider)) {
+        await this.invalidate(call.provider);
+      }
+      return response;
+    }
+
+    const generation = call.provider ? await this.getGeneration(call.provider) : '';
+    const key = `integrate:tool:${await digest(canonicalize([
+      call.toolName,
+      call.args ?? {},
+      call.provider ?? null,
+      generation,
+      call.identity,
+    ]))}`;
+
+    const cached = await this.store.get(key);
+    if (cached !== undefined) {
+      this.stats.hits++;
+      return cached as MCPToolCallResponse;
+    }
+
+    this.stats.misses++;
+    const response = await invoke();
+    // Error results are not cached so the next call retries
+    if (!response.isError) {
+      await this.store.set(key, response, ttl);
+    }
+    return response;
+  }
+
+  /**
+   * Drop a provider's cached results
+   */
+  async invalidate(provider: string): Promise<void> {
+    this.stats.invalidations++;
+    await this.store.set(this.getGenerationKey(provider), createGeneration());
+  }
+
+  /**
+   * Hit, miss and invalidation counts
+   */
+  getStats(): ToolCacheStats {
+    return { ...this.stats };
+  }
+
+  private async getGeneration(provider: string): Promise<string> {
+    const key = this.getGenerationKey(provider);
+    const generation = await this.store.get(key);
+    if (typeof generation === 'string') {
+      return generation;
+    }
+    // A missing generation (never set, or evicted) starts a new one, so results
+    // cached under an evicted generation are never served
+    const created = createGeneration();
+    await this.store.set(key, created);
+    return created;
+  }
+
+  private getGenerationKey(provider: string): string {
+    return `integrate:generation:${provider}`;
+  }
+}
+
+function createGeneration(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
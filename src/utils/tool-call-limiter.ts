@@ -0,0 +1,299 @@
+/**
+ * Tool Call Limiter
+ * Single-flight deduplication and per-provider concurrency limits
+ * Shared by the client and the server-side /mcp route
+ */
+
+import { QueueTimeoutError } from '../errors.js';
+import { canonicalize, isWriteTool, type ToolCacheIdentity } from './tool-cache.js';
+
+/**
+ * Options for a ToolCallLimiter
+ */
+export interface ToolCallLimiterOptions {
+  /**
+   * Maximum tool calls in flight per provider; excess calls wait in a queue
+   * Providers without a limit are not queued
+   */
+  concurrency?: Record<string, number>;
+  /**
+   * Longest a call waits in a provider's queue before failing with a
+   * QueueTimeoutError, in milliseconds (no limit when omitted)
+   */
+  maxQueueWait?: number;
+  /**
+   * Share one request between identical read tool calls made at the same time
+   * @default false
+   */
+  dedupeRequests?: boolean;
+}
+
+/**
+ * Queue metrics for one provider
+ */
+export interface ProviderQueueStats {
+  /** Configured concurrency limit */
+  limit: number;
+  /** Calls in flight */
+  active: number;
+  /** Calls waiting for a slot */
+  queued: number;
+  /** Calls that have had to wait for a slot */
+  totalQueued: number;
+  /** Calls that failed after waiting `maxQueueWait` */
+  timedOut: number;
+  /** Longest wait for a slot so far, in milliseconds */
+  maxWaitMs: number;
+}
+
+/**
+ * Concurrency and deduplication statistics
+ */
+export interface ToolCallLimiterStats {
+  /** Queue metrics for each provider with a concurrency limit */
+  queues: Record<string, ProviderQueueStats>;
+  /** Calls that shared another call's in-flight request */
+  deduplicated: number;
+}
+
+interface QueueWaiter {
+  start: () => void;
+}
+
+interface ProviderQueue {
+  stats: ProviderQueueStats;
+  waiters: QueueWaiter[];
+}
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  callers: number;
+}
+
+/**
+ * Reject with the signal's reason once it aborts
+ */
+function whenAborted(signal: AbortSignal): { promise: Promise<never>; dispose: () => void } {
+  let onAbort = () => {};
+  const promise = new Promise<never>((_resolve, reject) => {
+    onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+  // Avoid unhandled rejections when nobody is waiting on the promise anymore
+  promise.catch(() => {});
+  return { promise, dispose: () => signal.removeEventListener('abort', onAbort) };
+}
+
+/**
+ * Single-flight deduplication and per-provider concurrency limits for tool calls
+ *
+ * Identical calls made while one is in flight wait for its result instead of
+ * sending their own request; the shared request is only cancelled once every
+ * caller has aborted. Calls to a provider at its concurrency limit wait in a
+ * FIFO queue until a slot frees up.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new ToolCallLimiter({ concurrency: { github: 4 }, dedupeRequests: true });
+ * toNodeHandler({ providers, apiKey, toolCallLimiter: limiter });
+ * ```
+ */
+export class ToolCallLimiter {
+  private readonly queues = new Map<string, ProviderQueue>();
+  private readonly inFlight = new Map<string, InFlightRequest>();
+  private deduplicated = 0;
+
+  constructor(private readonly options: ToolCallLimiterOptions = {}) {}
+
+  /**
+   * Run a tool call under the limits
+   *
+   * @param call - The call's provider, a key identifying identical read calls
+   *   (omit for calls that must not be shared), and the caller's abort signal
+   * @param send - Sends the request; receives the signal to send it with
+   * @returns The call's result
+   */
+  run<T>(
+    call: { provider?: string; dedupeKey?: string; signal?: AbortSignal },
+    send: (signal?: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    if (!this.options.dedupeRequests || call.dedupeKey === undefined) {
+      return this.runLimited(call.provider, call.signal, send);
+    }
+    return this.runShared(call.dedupeKey, call.provider, call.signal, send);
+  }
+
+  /**
+   * Queue metrics per provider and the number of deduplicated calls
+   */
+  getStats(): ToolCallLimiterStats {
+    const queues: Record<string, ProviderQueueStats> = {};
+    for (const [provider, queue] of this.queues) {
+      queues[provider] = { ...queue.stats };
+    }
+    return { queues, deduplicated: this.deduplicated };
+  }
+
+  private async runShared<T>(
+    key: string,
+    provider: string | undefined,
+    signal: AbortSignal | undefined,
+    send: (signal?: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    let request = this.inFlight.get(key);
+    if (request) {
+      this.deduplicated++;
+      request.callers++;
+    } else {
+      const controller = new AbortController();
+      const promise = this.runLimited(provider, controller.signal, send).finally(() => {
+        if (this.inFlight.get(key) === created) {
+          this.inFlight.delete(key);
+        }
+      });
+      // Callers handle the outcome; a request whose callers all aborted has none
+      promise.catch(() => {});
+      const created: InFlightRequest = { promise, controller, callers: 1 };
+      request = created;
+      this.inFlight.set(key, request);
+    }
+
+    if (!signal) {
+      return await (request.promise as Promise<T>);
+    }
+
+    const shared = request;
+    const aborted = whenAborted(signal);
+    try {
+      if (signal.aborted) {
+        throw signal.reason;
+      }
+      return await Promise.race([shared.promise as Promise<T>, aborted.promise]);
+    } catch (error) {
+      if (signal.aborted && --shared.callers === 0) {
+        // Last caller gone: cancel the request and let the next call start fresh
+        if (this.inFlight.get(key) === shared) {
+          this.inFlight.delete(key);
+        }
+        shared.controller.abort(signal.reason);
+      }
+      throw error;
+    } finally {
+      aborted.dispose();
+    }
+  }
+
+  private async runLimited<T>(
+    provider: string | undefined,
+    signal: AbortSignal | undefined,
+    send: (signal?: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    const limit = provider ? this.options.concurrency?.[provider] : undefined;
+    if (!provider || limit === undefined) {
+      return await send(signal);
+    }
+
+    const queue = this.getQueue(provider, limit);
+    if (queue.stats.active >= limit) {
+      // A finishing call hands its slot straight to the next waiter
+      await this.waitForSlot(provider, queue, signal);
+    } else {
+      queue.stats.active++;
+    }
+
+    try {
+      return await send(signal);
+    } finally {
+      const next = queue.waiters.shift();
+      if (next) {
+        next.start();
+      } else {
+        queue.stats.active--;
+      }
+    }
+  }
+
+  private waitForSlot(provider: string, queue: ProviderQueue, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    const queuedAt = Date.now();
+    queue.stats.queued++;
+    queue.stats.totalQueued++;
+
+    return new Promise<void>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const leave = () => {
+        const index = queue.waiters.indexOf(waiter);
+        if (index !== -1) {
+          queue.waiters.splice(index, 1);
+        }
+        queue.stats.queued--;
+        queue.stats.maxWaitMs = Math.max(queue.stats.maxWaitMs, Date.now() - queuedAt);
+        if (timer) {
+          clearTimeout(timer);
+        }
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const waiter: QueueWaiter = {
+        start: () => {
+          leave();
+          resolve();
+        },
+      };
+
+      const onAbort = () => {
+        leave();
+        reject(signal?.reason);
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const maxQueueWait = this.options.maxQueueWait;
+      if (maxQueueWait !== undefined) {
+        timer = setTimeout(() => {
+          leave();
+          queue.stats.timedOut++;
+          reject(new QueueTimeoutError(
+            `Tool call waited over ${maxQueueWait}ms for a ${provider} concurrency slot`,
+            provider,
+            Date.now() - queuedAt
+          ));
+        }, maxQueueWait);
+      }
+
+      queue.waiters.push(waiter);
+    });
+  }
+
+  private getQueue(provider: string, limit: number): ProviderQueue {
+    let queue = this.queues.get(provider);
+    if (!queue) {
+      queue = {
+        stats: { limit, active: 0, queued: 0, totalQueued: 0, timedOut: 0, maxWaitMs: 0 },
+        waiters: [],
+      };
+      this.queues.set(provider, queue);
+    }
+    return queue;
+  }
+}
+
+/**
+ * Key that identifies identical calls for deduplication
+ * Write tools get no key, so repeated writes are always sent
+ */
+export function getDedupeKey(
+  toolName: string,
+  provider: string | undefined,
+  args: Record<string, unknown> | undefined,
+  identity: ToolCacheIdentity
+): string | undefined {
+  return isWriteTool(toolName, provider)
+    ? undefined
+    : canonicalize([toolName, args ?? {}, identity]);
+}
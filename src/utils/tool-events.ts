@@ -0,0 +1,66 @@
+/**
+ * Tool call lifecycle events
+ * Shared by the client and the server-side /mcp route
+ */
+
+import type { ToolEventListener } from '../config/types.js';
+import { IntegrateSDKError, parseServerError } from '../errors.js';
+
+/**
+ * Size of the JSON-encoded arguments in bytes
+ */
+export function getArgumentSize(args?: Record<string, unknown>): number {
+  try {
+    return new TextEncoder().encode(JSON.stringify(args ?? {})).length;
+  } catch {
+    // Arguments that cannot be serialized (e.g., circular) are reported as 0
+    return 0;
+  }
+}
+
+/**
+ * Run one tool call attempt, emitting `tool:start` and then `tool:success` or `tool:error`
+ * 
+ * Errors are rethrown unchanged; the `tool:error` payload carries them parsed
+ * into an IntegrateSDKError.
+ * 
+ * @param emit - Receives the events
+ * @param call - The tool, its provider, arguments, and retry count
+ * @param invoke - Performs the attempt
+ * @returns The attempt's result
+ */
+export async function observeToolCall<T>(
+  emit: ToolEventListener,
+  call: {
+    toolName: string;
+    provider?: string;
+    args?: Record<string, unknown>;
+    retryCount: number;
+  },
+  invoke: () => Promise<T>
+): Promise<T> {
+  const event = {
+    toolName: call.toolName,
+    provider: call.provider,
+    argumentSize: getArgumentSize(call.args),
+    retryCount: call.retryCount,
+  };
+
+  emit('tool:start', event);
+  const startedAt = Date.now();
+
+  try {
+    const result = await invoke();
+    emit('tool:success', { ...event, durationMs: Date.now() - startedAt });
+    return result;
+  } catch (error) {
+    emit('tool:error', {
+      ...event,
+      durationMs: Date.now() - startedAt,
+      error: error instanceof IntegrateSDKError
+        ? error
+        : parseServerError(error, { toolName: call.toolName, provider: call.provider }),
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Tool result parsing
+ * Turns MCPToolCallResponse into the data returned by typed integration methods
+ */
+
+import type { MCPToolCallResponse } from '../protocol/messages.js';
+import { ToolCallError, ToolResultParseError } from '../errors.js';
+
+/**
+ * Raw responses keyed by the parsed data they produced
+ */
+const rawResponses = new WeakMap<object, MCPToolCallResponse>();
+
+/**
+ * Parse a tool call response into data
+ *
+ * Uses `structuredContent` when the server provides it; otherwise every text
+ * content item is parsed as JSON. A single text item yields its value, several
+ * yield an array of values, and none yields undefined.
+ *
+ * @param response - Raw tool call response
+ * @param toolName - Tool that produced the response (used in error messages)
+ * @returns Parsed data
+ * @throws {ToolCallError} If the response is flagged with `isError`
+ * @throws {ToolResultParseError} If text content is not JSON or the response is malformed
+ */
+export function parseToolResult<T = unknown>(
+  response: MCPToolCallResponse,
+  toolName: string
+): T {
+  const texts = (response?.content ?? [])
+    .filter((item) => item.type === 'text' && typeof item.text === 'string')
+    .map((item) => item.text as string);
+
+  if (response?.isError) {
+    throw new ToolCallError(texts.join('\n') || `Tool ${toolName} returned an error`, toolName, response);
+  }
+
+  let data: unknown;
+  if (response?.structuredContent !== undefined) {
+    data = response.structuredContent;
+  } else if (texts.length === 0) {
+    // Tools with nothing to report (or only image/resource content) have no data
+    if (!response || !Array.isArray(response.content)) {
+      throw new ToolResultParseError(
+        `Tool ${toolName} returned a malformed response`,
+        toolName,
+        response
+      );
+    }
+    return undefined as T;
+  } else {
+    const values = texts.map((text) => {
+      try {
+        return JSON.parse(text);
+      } catch (error) {
+        const preview = text.length > 100 ? `${text.slice(0, 100)}...` : text;
+        throw new ToolResultParseError(
+          `Tool ${toolName} returned content that is not valid JSON: ${preview}`,
+          toolName,
+          response,
+          error
+        );
+      }
+    });
+    data = values.length === 1 ? values[0] : values;
+  }
+
+  if (data !== null && typeof data === 'object') {
+    rawResponses.set(data, response);
+  }
+
+  return data as T;
+}
+
+/**
+ * Get the raw MCP response behind data returned by a typed integration method
+ *
+ * @param data - Value returned by e.g. `client.github.getRepo()`
+ * @returns The raw response, or undefined if `data` was not produced by a tool
+ * call (primitive results such as `true` cannot be traced back)
+ *
+ * @example
+ * ```typescript
+ * const repo = await client.github.getRepo({ owner: 'octocat', repo: 'hello-world' });
+ * const raw = getRawResponse(repo);
+ * console.log(raw?._meta);
+ * ```
+ */
+export function getRawResponse(data: unknown): MCPToolCallResponse | undefined {
+  if (data === null || typeof data !== 'object') {
+    return undefined;
+  }
+  return rawResponses.get(data);
+}
@@ -0,0 +1,139 @@
+/**
+ * OpenTelemetry Tracing
+ * Spans around connection, tool calls and OAuth handler methods
+ *
+ * The types below are the subset of `@opentelemetry/api` the SDK uses, so any
+ * OpenTelemetry `Tracer` can be passed in without the SDK depending on it.
+ */
+
+/**
+ * Span attribute values
+ */
+export type TraceAttributeValue = string | number | boolean;
+
+/**
+ * Span attributes (undefined values are dropped by OpenTelemetry)
+ */
+export type TraceAttributes = Record<string, TraceAttributeValue | undefined>;
+
+/**
+ * Span status codes (same values as OpenTelemetry's `SpanStatusCode`)
+ */
+export const TraceStatusCode = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2,
+} as const;
+
+/**
+ * Span created by a Tracer
+ */
+export interface TraceSpan {
+  setAttribute(key: string, value: TraceAttributeValue): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): void;
+  end(): void;
+  spanContext(): { traceId: string; spanId: string; traceFlags: number };
+}
+
+/**
+ * Tracer that creates spans
+ * Pass `trace.getTracer('integrate-sdk')` from `@opentelemetry/api`
+ */
+export interface Tracer {
+  startActiveSpan<F extends (span: TraceSpan) => unknown>(
+    name: string,
+    options: { attributes?: TraceAttributes },
+    fn: F
+  ): ReturnType<F>;
+}
+
+/**
+ * Span names used by the SDK
+ */
+export const SpanName = {
+  CONNECT: 'integrate.client.connect',
+  INITIALIZE: 'integrate.client.initialize',
+  DISCOVER_TOOLS: 'integrate.client.discover_tools',
+  TOOL_CALL: 'integrate.client.tool_call',
+  HANDLER_AUTHORIZE: 'integrate.handler.authorize',
+  HANDLER_CALLBACK: 'integrate.handler.callback',
+  HANDLER_TOOL_CALL: 'integrate.handler.tool_call',
+} as const;
+
+/**
+ * Span attribute keys used by the SDK
+ */
+export const SpanAttribute = {
+  TOOL_NAME: 'integrate.tool.name',
+  PROVIDER: 'integrate.provider',
+  RETRY_COUNT: 'integrate.retry_count',
+  PROTOCOL_VERSION: 'integrate.protocol_version',
+  STATUS: 'integrate.status',
+  ERROR_TYPE: 'error.type',
+} as const;
+
+/**
+ * Run `fn` inside an active span
+ *
+ * The span's status (and `integrate.status` attribute) is set from the
+ * outcome, errors are recorded and rethrown, and the span is always ended.
+ * Without a tracer, `fn` is called directly with no span.
+ *
+ * @param tracer - Tracer from the client or handler config, if any
+ * @param name - Span name
+ * @param attributes - Attributes known before the call
+ * @param fn - The traced work; receives the span to add attributes or propagate
+ * @returns The result of `fn`
+ */
+export function withSpan<T>(
+  tracer: Tracer | undefined,
+  name: string,
+  attributes: TraceAttributes,
+  fn: (span?: TraceSpan) => Promise<T>
+): Promise<T> {
+  if (!tracer) {
+    return fn();
+  }
+
+  return tracer.startActiveSpan(name, { attributes }, async (span) => {
+    try {
+      const result = await fn(span);
+      span.setAttribute(SpanAttribute.STATUS, 'ok');
+      span.setStatus({ code: TraceStatusCode.OK });
+      return result;
+    } catch (error) {
+      span.setAttribute(SpanAttribute.STATUS, 'error');
+      span.setAttribute(SpanAttribute.ERROR_TYPE, error instanceof Error ? error.name : typeof error);
+      span.recordException(error instanceof Error ? error : String(error));
+      span.setStatus({
+        code: TraceStatusCode.ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * W3C trace context headers for a span
+ * Sent to the MCP server so its spans join the caller's trace
+ *
+ * @returns `{ traceparent }`, or no headers without a valid span
+ */
+export function getTraceHeaders(span?: TraceSpan): Record<string, string> {
+  if (!span) {
+    return {};
+  }
+
+  const { traceId, spanId, traceFlags } = span.spanContext();
+  // Non-recording spans report all-zero ids
+  if (!/^[0-9a-f]{32}$/.test(traceId) || /^0+$/.test(traceId) || !/^[0-9a-f]{16}$/.test(spanId) || /^0+$/.test(spanId)) {
+    return {};
+  }
+
+  const flags = (traceFlags & 0xff).toString(16).padStart(2, '0');
+  return { traceparent: `00-${traceId}-${spanId}-${flags}` };
+}
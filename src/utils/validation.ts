@@ -0,0 +1,42 @@
+/**
+ * Tool argument validation
+ * Checks arguments against a tool's inputSchema before it is called
+ */
+
+import type { MCPTool } from '../protocol/messages.js';
+import type { ValidationIssue } from '../errors.js';
+import { jsonSchemaToZod } from '../ai/utils.js';
+
+/**
+ * Validate tool arguments against the tool's inputSchema
+ *
+ * Uses the same JSON Schema conversion as the AI provider helpers, so
+ * arguments accepted here are the ones the AI SDKs would produce.
+ *
+ * @param tool - Discovered tool definition
+ * @param args - Arguments about to be sent
+ * @returns Issues found; empty when the arguments are valid
+ */
+export function validateToolArguments(
+  tool: MCPTool,
+  args: Record<string, unknown> | undefined
+): ValidationIssue[] {
+  const result = jsonSchemaToZod(tool.inputSchema).safeParse(args ?? {});
+  if (result.success) {
+    return [];
+  }
+
+  return result.error.issues.map((issue) => ({
+    path: issue.path.join('.'),
+    message: issue.message,
+  }));
+}
+
+/**
+ * Format issues as a single line for error and warning messages
+ */
+export function formatValidationIssues(issues: ValidationIssue[]): string {
+  return issues
+    .map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message))
+    .join('; ');
+}
@@ -0,0 +1,11 @@
+/**
+ * Testing Entry Point
+ * 
+ * Mock MCP server, in-memory transport, in-memory tracer and fake OAuth
+ * endpoints for writing client tests without network access:
+ * ```typescript
+ * import { createMockMCPServer, InMemoryTransport } from 'integrate-sdk/testing';
+ * ```
+ */
+
+export * from './src/testing/index.js';
@@ -236,6 +236,45 @@ describe("OAuthHandler - handleToolCall", () => {
     expect(mockFetch).toHaveBeenCalledTimes(1);
   });
 
+  it("should send notifications/cancelled when the call is aborted", async () => {
+    const notifications: any[] = [];
+    let requestId: any;
+
+    global.fetch = mock((_url: string, options?: any) => {
+      const body = JSON.parse(options?.body);
+      if (body.method === "notifications/cancelled") {
+        notifications.push({ body, headers: options.headers });
+        return Promise.resolve({ ok: true } as Response);
+      }
+
+      requestId = body.id;
+      return new Promise((_resolve, reject) => {
+        if (options.signal.aborted) {
+          reject(options.signal.reason);
+          return;
+        }
+        options.signal.addEventListener("abort", () => reject(options.signal.reason));
+      });
+    }) as any;
+
+    const controller = new AbortController();
+    const pending = handler.handleToolCall(
+      { name: "github_list_commits", arguments: {} },
+      "Bearer github-token-123",
+      controller.signal
+    );
+
+    controller.abort();
+
+    const error: any = await pending.catch((e) => e);
+    expect(error.name).toBe("AbortError");
+
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].body.params.requestId).toBe(requestId);
+    expect(notifications[0].headers["X-API-KEY"]).toBe("test-api-key-123");
+    expect(notifications[0].headers["Authorization"]).toBe("Bearer github-token-123");
+  });
+
   it("should handle empty arguments", async () => {
     const mockFetch = mock(async (url: string, options?: any) => {
       const body = JSON.parse(options?.body);
@@ -303,3 +342,133 @@ describe("OAuthHandler - handleToolCall", () => {
   });
 });
 
+describe("OAuthHandler - handleMCPRequest", () => {
+  let handler: OAuthHandler;
+
+  beforeEach(() => {
+    handler = new OAuthHandler({
+      providers: {
+        notion: {
+          clientId: "notion-client-id",
+          clientSecret: "notion-client-secret",
+        },
+      },
+      apiKey: "test-api-key-123",
+    });
+  });
+
+  it("should forward resources/read to MCP server with API key and provider token", async () => {
+    const mockFetch = mock(async (_url: string, options?: any) => {
+      expect(options?.headers?.["X-API-KEY"]).toBe("test-api-key-123");
+      expect(options?.headers?.["Authorization"]).toBe("Bearer notion-token");
+
+      const body = JSON.parse(options?.body);
+      expect(body.method).toBe("resources/read");
+      expect(body.params).toEqual({ uri: "notion://pages/abc" });
+
+      return {
+        ok: true,
+        json: async () => ({
+          jsonrpc: "2.0",
+          id: body.id,
+          result: {
+            contents: [{ uri: "notion://pages/abc", mimeType: "text/markdown", text: "# Page" }],
+          },
+        }),
+      } as Response;
+    });
+
+    global.fetch = mockFetch as any;
+
+    const result: any = await handler.handleMCPRequest(
+      { method: "resources/read", params: { uri: "notion://pages/abc" } },
+      "Bearer notion-token"
+    );
+
+    expect(result.contents[0].text).toBe("# Page");
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should forward prompts/get to MCP server", async () => {
+    const mockFetch = mock(async (_url: string, options?: any) => {
+      const body = JSON.parse(options?.body);
+      expect(body.method).toBe("prompts/get");
+      expect(body.params).toEqual({ name: "triage_issue", arguments: { issue: "42" } });
+
+      return {
+        ok: true,
+        json: async () => ({
+          jsonrpc: "2.0",
+          id: body.id,
+          result: { messages: [{ role: "user", content: { type: "text", text: "Triage #42" } }] },
+        }),
+      } as Response;
+    });
+
+    global.fetch = mockFetch as any;
+
+    const result: any = await handler.handleMCPRequest(
+      { method: "prompts/get", params: { name: "triage_issue", arguments: { issue: "42" } } },
+      null
+    );
+
+    expect(result.messages[0].content.text).toBe("Triage #42");
+  });
+
+  it("should forward tools/call through handleToolCall", async () => {
+    const mockFetch = mock(async (_url: string, options?: any) => {
+      const body = JSON.parse(options?.body);
+      expect(body.method).toBe("tools/call");
+      expect(body.params).toEqual({ name: "notion_search", arguments: {} });
+
+      return {
+        ok: true,
+        json: async () => ({
+          jsonrpc: "2.0",
+          id: body.id,
+          result: { content: [] },
+        }),
+      } as Response;
+    });
+
+    global.fetch = mockFetch as any;
+
+    await handler.handleMCPRequest(
+      { method: "tools/call", params: { name: "notion_search" } },
+      null
+    );
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject methods that cannot be proxied", async () => {
+    const mockFetch = mock(async () => ({ ok: true } as Response));
+    global.fetch = mockFetch as any;
+
+    const error = await handler
+      .handleMCPRequest({ method: "resources/subscribe", params: { uri: "notion://pages/abc" } }, null)
+      .catch((e) => e);
+
+    expect(error.message).toContain("Unsupported MCP method");
+    expect(error.statusCode).toBe(400);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("should surface JSON-RPC errors from the MCP server", async () => {
+    global.fetch = mock(async () => ({
+      ok: true,
+      json: async () => ({
+        jsonrpc: "2.0",
+        id: 1,
+        error: { code: -32002, message: "Resource not found" },
+      }),
+    } as Response)) as any;
+
+    const error = await handler
+      .handleMCPRequest({ method: "resources/read", params: { uri: "notion://pages/missing" } }, null)
+      .catch((e) => e);
+
+    expect(error.message).toBe("Resource not found");
+    expect(error.code).toBe(-32002);
+  });
+});
@@ -278,6 +278,91 @@ describe("OAuthHandler", () => {
     });
   });
 
+  describe("handleRefresh", () => {
+    it("should exchange refresh token for new access token", async () => {
+      const mockFetch = mock(async (url: string, options?: any) => {
+        expect(url).toContain("/oauth/refresh");
+        const body = JSON.parse(options?.body);
+        expect(body.provider).toBe("github");
+        expect(body.refresh_token).toBe("refresh-123");
+        expect(body.client_id).toBe("github-client-id");
+        expect(body.client_secret).toBe("github-client-secret");
+
+        return {
+          ok: true,
+          json: async () => ({
+            accessToken: "new-access-token",
+            tokenType: "Bearer",
+            expiresIn: 3600,
+            expiresAt: "2030-01-01T00:00:00Z",
+          }),
+        } as Response;
+      });
+
+      global.fetch = mockFetch as any;
+
+      const result = await handler.handleRefresh({
+        provider: "github",
+        refreshToken: "refresh-123",
+      });
+
+      expect(result.accessToken).toBe("new-access-token");
+      // Non-rotating providers keep the original refresh token
+      expect(result.refreshToken).toBe("refresh-123");
+      expect(mockFetch).toHaveBeenCalled();
+    });
+
+    it("should save refreshed token with session context", async () => {
+      const setProviderToken = mock(async () => {});
+      const refreshHandler = new OAuthHandler({
+        ...config,
+        getSessionContext: async () => ({ userId: "user-1" }),
+        setProviderToken,
+      });
+
+      global.fetch = mock(async () => ({
+        ok: true,
+        json: async () => ({
+          accessToken: "new-access-token",
+          refreshToken: "rotated-refresh",
+          tokenType: "Bearer",
+          expiresIn: 3600,
+        }),
+      })) as any;
+
+      const request = new Request("https://app.com/api/integrate/oauth/refresh", {
+        method: "POST",
+        body: JSON.stringify({ provider: "github", refreshToken: "refresh-123" }),
+      });
+
+      await refreshHandler.handleRefresh(request);
+
+      expect(setProviderToken).toHaveBeenCalledWith(
+        "github",
+        expect.objectContaining({ accessToken: "new-access-token", refreshToken: "rotated-refresh" }),
+        { userId: "user-1" }
+      );
+    });
+
+    it("should throw error when refresh token is missing", async () => {
+      await expect(
+        handler.handleRefresh({ provider: "github", refreshToken: "" })
+      ).rejects.toThrow("No refresh token provided");
+    });
+
+    it("should throw error when MCP server fails", async () => {
+      global.fetch = mock(async () => ({
+        ok: false,
+        status: 400,
+        text: async () => "invalid_grant",
+      })) as any;
+
+      await expect(
+        handler.handleRefresh({ provider: "github", refreshToken: "refresh-123" })
+      ).rejects.toThrow("MCP server failed to refresh token: invalid_grant");
+    });
+  });
+
   describe("handleStatus", () => {
     it("should check authorization status for provider", async () => {
       const mockFetch = mock(async (url: string, options?: any) => {
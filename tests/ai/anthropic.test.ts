@@ -7,12 +7,13 @@ import { createMCPClient } from "../../src/client.js";
 import { createSimpleIntegration } from "../../src/integrations/generic.js";
 import {
   getAnthropicTools,
+  convertPromptToAnthropicMessages,
   handleAnthropicMessage,
   type AnthropicTool,
   type AnthropicToolUseBlock,
   type AnthropicToolResultBlock,
 } from "../../src/ai/anthropic.js";
-import type { MCPTool } from "../../src/protocol/messages.js";
+import type { MCPTool, MCPGetPromptResponse } from "../../src/protocol/messages.js";
 
 describe("Anthropic Integration", () => {
   describe("convertMCPToolToAnthropic (via getAnthropicTools)", () => {
@@ -489,3 +490,34 @@ describe("Anthropic Integration", () => {
   });
 });
 
+describe("convertPromptToAnthropicMessages", () => {
+  const prompt: MCPGetPromptResponse = {
+    description: "Triage an issue",
+    messages: [
+      { role: "user", content: { type: "text", text: "Triage issue #42" } },
+      { role: "assistant", content: { type: "text", text: "Looking at it now." } },
+      { role: "user", content: { type: "image", data: "aW1n", mimeType: "image/png" } },
+      { role: "user", content: { type: "audio", data: "YXVk", mimeType: "audio/wav" } },
+      {
+        role: "user",
+        content: {
+          type: "resource",
+          resource: { uri: "github://repos/acme/app/issues/42", mimeType: "text/markdown", text: "# Bug" },
+        },
+      },
+    ],
+  };
+  test("converts prompt messages to Anthropic content blocks", () => {
+    const messages = convertPromptToAnthropicMessages(prompt);
+
+    expect(messages).toEqual([
+      { role: "user", content: [{ type: "text", text: "Triage issue #42" }] },
+      { role: "assistant", content: [{ type: "text", text: "Looking at it now." }] },
+      {
+        role: "user",
+        content: [{ type: "image", source: { type: "base64", media_type: "image/png", data: "aW1n" } }],
+      },
+      { role: "user", content: [{ type: "text", text: "# Bug" }] },
+    ]);
+  });
+});
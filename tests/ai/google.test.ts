@@ -7,11 +7,12 @@ import { createMCPClient } from "../../src/client.js";
 import { createSimpleIntegration } from "../../src/integrations/generic.js";
 import {
   getGoogleTools,
+  convertPromptToGoogleMessages,
   executeGoogleFunctionCalls,
   type GoogleTool,
   type GoogleFunctionCall,
 } from "../../src/ai/google.js";
-import type { MCPTool } from "../../src/protocol/messages.js";
+import type { MCPTool, MCPGetPromptResponse } from "../../src/protocol/messages.js";
 
 describe("Google GenAI Integration", () => {
   // Helper to check if @google/genai is available
@@ -531,3 +532,32 @@ describe("Google GenAI Integration", () => {
   });
 });
 
+describe("convertPromptToGoogleMessages", () => {
+  const prompt: MCPGetPromptResponse = {
+    description: "Triage an issue",
+    messages: [
+      { role: "user", content: { type: "text", text: "Triage issue #42" } },
+      { role: "assistant", content: { type: "text", text: "Looking at it now." } },
+      { role: "user", content: { type: "image", data: "aW1n", mimeType: "image/png" } },
+      { role: "user", content: { type: "audio", data: "YXVk", mimeType: "audio/wav" } },
+      {
+        role: "user",
+        content: {
+          type: "resource",
+          resource: { uri: "github://repos/acme/app/issues/42", mimeType: "text/markdown", text: "# Bug" },
+        },
+      },
+    ],
+  };
+  test("converts prompt messages to Google contents with model role", () => {
+    const contents = convertPromptToGoogleMessages(prompt);
+
+    expect(contents).toEqual([
+      { role: "user", parts: [{ text: "Triage issue #42" }] },
+      { role: "model", parts: [{ text: "Looking at it now." }] },
+      { role: "user", parts: [{ inlineData: { mimeType: "image/png", data: "aW1n" } }] },
+      { role: "user", parts: [{ inlineData: { mimeType: "audio/wav", data: "YXVk" } }] },
+      { role: "user", parts: [{ text: "# Bug" }] },
+    ]);
+  });
+});
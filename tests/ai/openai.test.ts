@@ -7,10 +7,11 @@ import { createMCPClient } from "../../src/client.js";
 import { createSimpleIntegration } from "../../src/integrations/generic.js";
 import {
   getOpenAITools,
+  convertPromptToOpenAIMessages,
   handleOpenAIResponse,
   type OpenAITool,
 } from "../../src/ai/openai.js";
-import type { MCPTool } from "../../src/protocol/messages.js";
+import type { MCPTool, MCPGetPromptResponse } from "../../src/protocol/messages.js";
 import type { OpenAI } from "openai";
 
 describe("OpenAI Integration", () => {
@@ -505,3 +506,35 @@ describe("OpenAI Integration", () => {
   });
 });
 
+describe("convertPromptToOpenAIMessages", () => {
+  const prompt: MCPGetPromptResponse = {
+    description: "Triage an issue",
+    messages: [
+      { role: "user", content: { type: "text", text: "Triage issue #42" } },
+      { role: "assistant", content: { type: "text", text: "Looking at it now." } },
+      { role: "user", content: { type: "image", data: "aW1n", mimeType: "image/png" } },
+      { role: "user", content: { type: "audio", data: "YXVk", mimeType: "audio/wav" } },
+      {
+        role: "user",
+        content: {
+          type: "resource",
+          resource: { uri: "github://repos/acme/app/issues/42", mimeType: "text/markdown", text: "# Bug" },
+        },
+      },
+    ],
+  };
+  test("converts prompt messages to Responses API input messages", () => {
+    const messages = convertPromptToOpenAIMessages(prompt);
+
+    expect(messages).toEqual([
+      { type: "message", role: "user", content: "Triage issue #42" },
+      { type: "message", role: "assistant", content: "Looking at it now." },
+      {
+        type: "message",
+        role: "user",
+        content: [{ type: "input_image", image_url: "data:image/png;base64,aW1n", detail: "auto" }],
+      },
+      { type: "message", role: "user", content: "# Bug" },
+    ]);
+  });
+});
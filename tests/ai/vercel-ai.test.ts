@@ -8,8 +8,9 @@ import { createMCPClient } from "../../src/client.js";
 import { createSimpleIntegration } from "../../src/integrations/generic.js";
 import {
   getVercelAITools,
+  convertPromptToVercelAIMessages,
 } from "../../src/ai/vercel-ai.js";
-import type { MCPTool } from "../../src/protocol/messages.js";
+import type { MCPTool, MCPGetPromptResponse } from "../../src/protocol/messages.js";
 
 describe("Vercel AI SDK Integration", () => {
   describe("convertMCPToolToVercelAI (via getVercelAITools)", () => {
@@ -782,3 +783,33 @@ describe("Vercel AI SDK Integration", () => {
     });
   });
 });
+
+describe("convertPromptToVercelAIMessages", () => {
+  const prompt: MCPGetPromptResponse = {
+    description: "Triage an issue",
+    messages: [
+      { role: "user", content: { type: "text", text: "Triage issue #42" } },
+      { role: "assistant", content: { type: "text", text: "Looking at it now." } },
+      { role: "user", content: { type: "image", data: "aW1n", mimeType: "image/png" } },
+      { role: "user", content: { type: "audio", data: "YXVk", mimeType: "audio/wav" } },
+      {
+        role: "user",
+        content: {
+          type: "resource",
+          resource: { uri: "github://repos/acme/app/issues/42", mimeType: "text/markdown", text: "# Bug" },
+        },
+      },
+    ],
+  };
+  test("converts prompt messages to Vercel AI model messages", () => {
+    const messages = convertPromptToVercelAIMessages(prompt);
+
+    expect(messages).toEqual([
+      { role: "user", content: "Triage issue #42" },
+      { role: "assistant", content: "Looking at it now." },
+      { role: "user", content: [{ type: "image", image: "aW1n", mediaType: "image/png" }] },
+      { role: "user", content: [{ type: "file", data: "YXVk", mediaType: "audio/wav" }] },
+      { role: "user", content: "# Bug" },
+    ]);
+  });
+});
@@ -121,8 +121,7 @@ describe("MCP Client - API Routing", () => {
 
     expect(apiHandlerCalled).toBe(true);
     // MCP server might be called for initialization, but not for tool calls
-    expect(result.content).toHaveLength(1);
-    expect(result.content[0].text).toContain("repo1");
+    expect(result).toEqual({ repos: [{ name: "repo1" }] });
   });
 
   it("should use default apiRouteBase when not specified", async () => {
@@ -135,7 +134,7 @@ describe("MCP Client - API Routing", () => {
           ok: true,
           headers: new Headers(),
           json: async () => ({
-            content: [{ type: "text", text: "result" }],
+            content: [{ type: "text", text: '{"ok": true}' }],
           }),
         } as Response;
       } else if (url.includes("mcp.integrate.dev")) {
@@ -202,7 +201,7 @@ describe("MCP Client - API Routing", () => {
           ok: true,
           headers: new Headers(),
           json: async () => ({
-            content: [{ type: "text", text: "result" }],
+            content: [{ type: "text", text: '{"ok": true}' }],
           }),
         } as Response;
       } else if (url.includes("mcp.integrate.dev")) {
@@ -276,7 +275,7 @@ describe("MCP Client - API Routing", () => {
           ok: true,
           headers: new Headers(),
           json: async () => ({
-            content: [{ type: "text", text: "result" }],
+            content: [{ type: "text", text: '{"ok": true}' }],
           }),
         } as Response;
       } else if (url.includes("mcp.integrate.dev")) {
@@ -409,7 +408,7 @@ describe("MCP Client - API Routing", () => {
           ok: true,
           headers: new Headers(),
           json: async () => ({
-            content: [{ type: "text", text: "result" }],
+            content: [{ type: "text", text: '{"ok": true}' }],
           }),
         } as Response;
       } else if (url.includes("mcp.integrate.dev")) {
@@ -0,0 +1,112 @@
+/**
+ * Argument Validation Tests
+ * Verifies validateArguments against discovered tool inputSchemas
+ */
+
+import { describe, test, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { createMCPServer } from "../../src/server.js";
+import { githubIntegration } from "../../src/integrations/github.js";
+import { createMockMCPServer } from "../../src/testing/index.js";
+import type { MockMCPServer } from "../../src/testing/index.js";
+import { ValidationError } from "../../src/errors.js";
+import type { MCPClientConfig } from "../../src/config/types.js";
+
+describe("Argument Validation", () => {
+  let server: MockMCPServer;
+  let warn: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    delete (globalThis as any).window;
+    warn = spyOn(console, "warn").mockImplementation(() => {});
+    server = createMockMCPServer({
+      tools: [
+        {
+          name: "github_create_issue",
+          description: "Create an issue",
+          inputSchema: {
+            type: "object",
+            properties: {
+              owner: { type: "string" },
+              repo: { type: "string" },
+              title: { type: "string", minLength: 1 },
+              labels: { type: "array", items: { type: "string" } },
+            },
+            required: ["owner", "repo", "title"],
+          },
+        },
+      ],
+      handlers: {
+        github_create_issue: (args) => ({ number: 1, title: args.title }),
+      },
+    });
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  const createClient = async (validateArguments?: MCPClientConfig<any>["validateArguments"]) => {
+    const { client } = createMCPServer({
+      singleton: false,
+      transport: server.createTransport(),
+      integrations: [githubIntegration({ clientId: "id", clientSecret: "secret" })],
+      validateArguments,
+    });
+    await client.connect();
+    return client;
+  };
+
+  test("throws a ValidationError with per-field issues in strict mode", async () => {
+    const client = await createClient("strict");
+
+    const error = await client.github
+      .createIssue({ owner: "o", title: "", labels: ["bug", 1] } as any)
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.toolName).toBe("github_create_issue");
+    expect(error.issues.map((issue: any) => issue.path).sort()).toEqual(["labels.1", "repo", "title"]);
+    expect(error.message).toStartWith('Invalid arguments for tool "github_create_issue": ');
+    expect(server.toolCalls).toHaveLength(0);
+    await client.disconnect();
+  });
+
+  test("sends valid arguments in strict mode", async () => {
+    const client = await createClient("strict");
+
+    const issue = await client.github.createIssue({ owner: "o", repo: "r", title: "Bug" });
+
+    expect(issue.title).toBe("Bug");
+    await client.disconnect();
+  });
+
+  test("logs a warning and still sends in warn mode", async () => {
+    const client = await createClient("warn");
+
+    await client.github.createIssue({ owner: "o", repo: "r" } as any);
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0]![0]).toContain("title: Required");
+    expect(server.toolCalls).toHaveLength(1);
+    await client.disconnect();
+  });
+
+  test("does not validate by default", async () => {
+    const client = await createClient();
+
+    await client.github.createIssue({ owner: "o" } as any);
+
+    expect(warn).not.toHaveBeenCalled();
+    expect(server.toolCalls).toHaveLength(1);
+    await client.disconnect();
+  });
+
+  test("validates server tool calls", async () => {
+    const client = await createClient("strict");
+
+    await expect(client.callServerTool("github_create_issue", { owner: 1 })).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    await client.disconnect();
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Tests for cancelling in-flight tool calls with an AbortSignal
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import { createMCPClient } from "../../src/client.js";
+import { createMCPServer } from "../../src/server.js";
+import { githubIntegration } from "../../src/integrations/github.js";
+
+/**
+ * Fetch mock whose tool calls hang until their signal aborts
+ */
+function createHangingFetch(notifications: any[]) {
+  return mock((_url: any, options: any) => {
+    const body = JSON.parse(options.body);
+
+    if (body.method === "notifications/cancelled") {
+      notifications.push(body);
+      return Promise.resolve(new Response(null, { status: 202 }));
+    }
+
+    if (body.method === "initialize" || body.method === "tools/list") {
+      const result = body.method === "tools/list"
+        ? { tools: [] }
+        : { protocolVersion: "2024-11-05", capabilities: {}, serverInfo: { name: "test", version: "1.0.0" } };
+      return Promise.resolve(new Response(JSON.stringify({ jsonrpc: "2.0", id: body.id, result }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }));
+    }
+
+    return new Promise((_resolve, reject) => {
+      if (options.signal.aborted) {
+        reject(options.signal.reason);
+        return;
+      }
+      options.signal.addEventListener("abort", () => reject(options.signal.reason));
+    });
+  });
+}
+
+describe("MCP Client - Cancellation", () => {
+  let originalFetch: typeof fetch;
+
+  beforeEach(() => {
+    originalFetch = global.fetch;
+    global.localStorage = {
+      getItem: mock(() => null),
+      setItem: mock(() => { }),
+      removeItem: mock(() => { }),
+      clear: mock(() => { }),
+      length: 0,
+      key: mock(() => null),
+    } as any;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it("aborts a browser tool call routed through the API handler", async () => {
+    const onReauthRequired = mock(async () => true);
+    global.fetch = createHangingFetch([]) as any;
+
+    const client = createMCPClient({
+      integrations: [githubIntegration({ clientId: "github-id" })],
+      connectionMode: "manual",
+      singleton: false,
+      onReauthRequired,
+    });
+
+    const controller = new AbortController();
+    const pending = client.github.listCommits(
+      { owner: "acme", repo: "app" },
+      { signal: controller.signal }
+    );
+
+    const reason = new Error("User pressed stop");
+    controller.abort(reason);
+
+    // The abort reason is surfaced as-is, without error parsing or re-auth
+    await expect(pending).rejects.toBe(reason);
+    expect(onReauthRequired).not.toHaveBeenCalled();
+  });
+
+  it("sends notifications/cancelled for aborted server-side calls", async () => {
+    delete (globalThis as any).window;
+    const notifications: any[] = [];
+    global.fetch = createHangingFetch(notifications) as any;
+
+    const { client } = createMCPServer({
+      apiKey: "test-api-key",
+      singleton: false,
+      integrations: [
+        githubIntegration({ clientId: "github-id", clientSecret: "github-secret" }),
+      ],
+    });
+
+    await client.connect();
+
+    const controller = new AbortController();
+    const pending = client.github.listCommits(
+      { owner: "acme", repo: "app" },
+      { signal: controller.signal }
+    );
+
+    // Let the request reach fetch before aborting
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    controller.abort();
+
+    const error: any = await pending.catch((e) => e);
+    expect(error.name).toBe("AbortError");
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(notifications).toHaveLength(1);
+    expect(notifications[0].method).toBe("notifications/cancelled");
+    expect(notifications[0].params.requestId).toBeDefined();
+
+    await client.disconnect();
+  });
+});
@@ -190,7 +190,7 @@ describe("MCP Client", () => {
             ok: true,
             status: 200,
             json: async () => ({
-              content: [{ type: "text", text: "api handler result" }],
+              content: [{ type: "text", text: JSON.stringify({ name: "test", full_name: "test/test" }) }],
             }),
             headers: new Headers(),
           } as Response;
@@ -212,8 +212,7 @@ describe("MCP Client", () => {
 
       // Should work through API handler without calling connect()
       const result = await client.github.getRepo({ owner: "test", repo: "test" });
-      expect(result.content).toHaveLength(1);
-      expect(result.content[0].text).toBe("api handler result");
+      expect(result.full_name).toBe("test/test");
     });
   });
 
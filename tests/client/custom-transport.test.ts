@@ -0,0 +1,249 @@
+/**
+ * Pluggable Transport Tests
+ * Verifies config.transport selection and that custom MCPTransport implementations are used as-is
+ */
+
+import { describe, test, expect, beforeEach } from "bun:test";
+import { MCPClientBase, createMCPClient } from "../../src/client.js";
+import { createMCPServer } from "../../src/server.js";
+import { HttpSessionTransport } from "../../src/transport/http-session.js";
+import { HttpStreamTransport } from "../../src/transport/http-stream.js";
+import { githubIntegration } from "../../src/integrations/github.js";
+import type {
+  MCPTransport,
+  MessageHandler,
+  SendRequestOptions,
+} from "../../src/transport/types.js";
+
+/**
+ * In-test transport that answers MCP requests without any network access
+ */
+class RecordingTransport implements MCPTransport {
+  requests: Array<{ method: string; params?: unknown; options?: SendRequestOptions }> = [];
+  notifications: string[] = [];
+  handlers = new Set<MessageHandler>();
+  private headers: Record<string, string> = {};
+  private connected = false;
+
+  async connect(): Promise<void> {
+    this.connected = true;
+  }
+
+  async sendRequest<T = unknown>(
+    method: string,
+    params?: unknown,
+    options?: SendRequestOptions
+  ): Promise<T> {
+    this.requests.push({ method, params, options });
+
+    switch (method) {
+      case "initialize":
+        return {
+          protocolVersion: "2025-06-18",
+          capabilities: { tools: {} },
+          serverInfo: { name: "recording", version: "1.0.0" },
+        } as T;
+      case "tools/list":
+        return {
+          tools: [
+            {
+              name: "github_list_own_repos",
+              description: "List repos",
+              inputSchema: { type: "object", properties: {} },
+            },
+          ],
+        } as T;
+      case "tools/call":
+        return { content: [{ type: "text", text: JSON.stringify({ via: "custom transport" }) }] } as T;
+      default:
+        throw new Error(`Unexpected method: ${method}`);
+    }
+  }
+
+  async sendNotification(method: string): Promise<void> {
+    this.notifications.push(method);
+  }
+
+  onMessage(handler: MessageHandler): () => void {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  setHeader(key: string, value: string): void {
+    this.headers[key] = value;
+  }
+
+  removeHeader(key: string): void {
+    delete this.headers[key];
+  }
+
+  getHeaders(): Record<string, string> {
+    return { ...this.headers };
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+}
+
+describe("Pluggable Transport", () => {
+  beforeEach(() => {
+    delete (globalThis as any).window;
+  });
+
+  describe("Built-in transport selection", () => {
+    test("defaults to the HTTP session transport", () => {
+      const client = new MCPClientBase({
+        integrations: [],
+        singleton: false,
+      });
+
+      expect((client as any).transport).toBeInstanceOf(HttpSessionTransport);
+    });
+
+    test("creates the HTTP stream transport for 'http-stream'", () => {
+      const client = new MCPClientBase({
+        integrations: [],
+        transport: "http-stream",
+        headers: { "X-Custom": "value" },
+        singleton: false,
+      });
+
+      const transport = (client as any).transport;
+      expect(transport).toBeInstanceOf(HttpStreamTransport);
+      expect(transport.getHeaders()["X-Custom"]).toBe("value");
+    });
+
+    test("rejects unknown transport names", () => {
+      expect(
+        () =>
+          new MCPClientBase({
+            integrations: [],
+            transport: "websocket" as any,
+            singleton: false,
+          })
+      ).toThrow("Unknown transport: websocket");
+    });
+
+    test("caches clients per built-in transport", () => {
+      const session = createMCPClient({ integrations: [], connectionMode: "manual" });
+      const stream = createMCPClient({
+        integrations: [],
+        transport: "http-stream",
+        connectionMode: "manual",
+      });
+
+      expect(session).not.toBe(stream);
+    });
+  });
+
+  describe("Custom transport", () => {
+    test("routes server-side tool calls through the injected transport", async () => {
+      const transport = new RecordingTransport();
+      const { client } = createMCPServer({
+        apiKey: "test-api-key",
+        singleton: false,
+        transport,
+        integrations: [
+          githubIntegration({
+            clientId: "test-id",
+            clientSecret: "test-secret",
+          }),
+        ],
+        getProviderToken: async () => ({
+          accessToken: "gh-token",
+          tokenType: "Bearer",
+          expiresIn: 3600,
+        }),
+      });
+
+      await client.connect();
+      const result = await client.github.listOwnRepos({});
+
+      expect(result).toEqual({ via: "custom transport" } as any);
+      expect(transport.requests.map((r) => r.method)).toEqual([
+        "initialize",
+        "tools/list",
+        "tools/call",
+      ]);
+      expect(transport.notifications).toEqual(["notifications/initialized"]);
+
+      // API key lands on the custom transport, provider token stays request-scoped
+      expect(transport.getHeaders()["X-API-KEY"]).toBe("test-api-key");
+      expect(transport.getHeaders()["MCP-Protocol-Version"]).toBe("2025-06-18");
+      expect(transport.requests[2]!.options?.headers?.["Authorization"]).toBe("Bearer gh-token");
+
+      await client.disconnect();
+      expect(transport.isConnected()).toBe(false);
+    });
+
+    test("forwards onMessage registrations to the injected transport", () => {
+      const transport = new RecordingTransport();
+      const client = new MCPClientBase({
+        integrations: [],
+        transport,
+        singleton: false,
+      });
+
+      const received: unknown[] = [];
+      const unsubscribe = client.onMessage((message) => received.push(message));
+      expect(transport.handlers.size).toBe(1);
+
+      const notification = { jsonrpc: "2.0" as const, method: "notifications/message" };
+      transport.handlers.forEach((handler) => handler(notification));
+      expect(received).toEqual([notification]);
+
+      unsubscribe();
+      expect(transport.handlers.size).toBe(0);
+    });
+
+    test("initializes without sendNotification", async () => {
+      const transport = new RecordingTransport();
+      (transport as any).sendNotification = undefined;
+      const client = new MCPClientBase({
+        integrations: [],
+        transport,
+        singleton: false,
+      });
+
+      await client.connect();
+
+      expect(client.getProtocolVersion()).toBe("2025-06-18");
+      await client.disconnect();
+    });
+
+    test("never shares a custom transport through the client cache", () => {
+      const transport = new RecordingTransport();
+      const first = createMCPClient({ integrations: [], transport, connectionMode: "manual" });
+      const second = createMCPClient({ integrations: [], transport: new RecordingTransport(), connectionMode: "manual" });
+
+      expect(first).not.toBe(second);
+      expect((first as any).transport).toBe(transport);
+    });
+
+    test("only shares cached clients with matching per-client options", () => {
+      const create = (config: Partial<Parameters<typeof createMCPClient>[0]> = {}) => {
+        const client = createMCPClient({ integrations: [], connectionMode: "manual", autoCleanup: false, ...config });
+        // Only connected clients are reused
+        (client as any).isConnected = () => true;
+        return client;
+      };
+
+      const shared = create({ retry: { maxAttempts: 2 } });
+      expect(create({ retry: { maxAttempts: 2 } })).toBe(shared);
+      expect(create({ retry: { maxAttempts: 5 } })).not.toBe(shared);
+      expect(create({ retry: { maxAttempts: 2 }, concurrency: { github: 1 } })).not.toBe(shared);
+
+      const cached = create({ cache: { tools: { github_get_repo: 1000 } } });
+      expect(create({ cache: { tools: { github_get_repo: 1000 } } })).not.toBe(cached);
+      const withMiddleware = create({ middleware: [(_call, next) => next()] });
+      expect(create({ middleware: [(_call, next) => next()] })).not.toBe(withMiddleware);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Integration Namespace Tests
+ * Verifies client.<id> namespaces for custom integrations
+ */
+
+import { describe, test, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { createMCPServer } from "../../src/server.js";
+import { genericOAuthIntegration, createSimpleIntegration } from "../../src/integrations/generic.js";
+import { createMockMCPServer } from "../../src/testing/index.js";
+import type { MockMCPServer } from "../../src/testing/index.js";
+import type { MCPIntegration } from "../../src/integrations/types.js";
+
+interface LinearClient {
+  createIssue(params: { teamId: string; title: string }): Promise<{ id: string; title: string }>;
+}
+
+describe("Integration Namespaces", () => {
+  let server: MockMCPServer;
+  let warn: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    delete (globalThis as any).window;
+    warn = spyOn(console, "warn").mockImplementation(() => {});
+    server = createMockMCPServer({
+      handlers: {
+        linear_create_issue: (args) => ({ id: "LIN-1", title: args.title }),
+        math_add: (args) => (args.a as number) + (args.b as number),
+      },
+    });
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  test("creates a typed namespace for generic OAuth integrations", async () => {
+    const linear: MCPIntegration<"linear", LinearClient> = genericOAuthIntegration({
+      id: "linear",
+      provider: "linear",
+      clientId: "id",
+      clientSecret: "secret",
+      scopes: ["write"],
+      tools: ["linear_create_issue"],
+    });
+    const seen: Array<string | undefined> = [];
+    const { client } = createMCPServer({
+      singleton: false,
+      transport: server.createTransport(),
+      integrations: [linear],
+      getProviderToken: async () => ({ accessToken: "lin-token", tokenType: "Bearer", expiresIn: 3600 }),
+      middleware: [
+        async (ctx, next) => {
+          seen.push(ctx.provider);
+          return next();
+        },
+      ],
+    });
+    await client.connect();
+
+    const issue = await client.linear.createIssue({ teamId: "team", title: "Bug" });
+
+    expect(issue).toEqual({ id: "LIN-1", title: "Bug" });
+    expect(seen).toEqual(["linear"]);
+    expect(server.toolCalls[0]!.headers.authorization).toBe("Bearer lin-token");
+    await client.disconnect();
+  });
+
+  test("creates a namespace for simple integrations", async () => {
+    const { client } = createMCPServer({
+      singleton: false,
+      transport: server.createTransport(),
+      integrations: [createSimpleIntegration({ id: "math", tools: ["math_add"] })],
+    });
+    await client.connect();
+
+    const sum = await client.math.add!({ a: 1, b: 2 });
+
+    expect(sum).toBe(3);
+    expect(server.toolCalls[0]!.name).toBe("math_add");
+    await client.disconnect();
+  });
+
+  test("skips integrations whose id conflicts with a client property", () => {
+    const { client } = createMCPServer({
+      singleton: false,
+      transport: server.createTransport(),
+      integrations: [createSimpleIntegration({ id: "connect", tools: ["connect_ping"] })],
+    });
+
+    expect(typeof client.connect).toBe("function");
+    expect(warn).toHaveBeenCalledWith(
+      'Integration "connect" conflicts with a client property; use _callToolByName() for its tools'
+    );
+  });
+});
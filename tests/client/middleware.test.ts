@@ -0,0 +1,277 @@
+/**
+ * Tool Call Middleware Tests
+ * Verifies the middleware pipeline on the client and in the server /mcp route
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { createMCPServer } from "../../src/server.js";
+import { MCPClientBase } from "../../src/client.js";
+import { githubIntegration } from "../../src/integrations/github.js";
+import { createMockMCPServer, MockMCPError } from "../../src/testing/index.js";
+import type { MockMCPServer } from "../../src/testing/index.js";
+import type { ToolCallMiddleware, ToolCallMiddlewareContext } from "../../src/config/types.js";
+
+describe("Tool Call Middleware", () => {
+  let server: MockMCPServer;
+
+  beforeEach(() => {
+    delete (globalThis as any).window;
+    server = createMockMCPServer({
+      handlers: {
+        github_list_own_repos: (args) => ({ args }),
+        github_get_repo: () => {
+          throw new MockMCPError(-32603, "Repository not found");
+        },
+        list_tools_by_integration: (args) => ({ integration: args.integration }),
+      },
+    });
+  });
+
+  const createClient = (middleware: ToolCallMiddleware[]) => {
+    const { client } = createMCPServer({
+      singleton: false,
+      transport: server.createTransport(),
+      integrations: [githubIntegration({ clientId: "id", clientSecret: "secret" })],
+      middleware,
+    });
+    return client;
+  };
+
+  const parse = (result: any) => JSON.parse(result.content[0].text);
+
+  describe("Client", () => {
+    test("runs middleware in order around the call", async () => {
+      const order: string[] = [];
+      const client = createClient([
+        async (_ctx, next) => {
+          order.push("first:before");
+          const result = await next();
+          order.push("first:after");
+          return result;
+        },
+        async (_ctx, next) => {
+          order.push("second:before");
+          const result = await next();
+          order.push("second:after");
+          return result;
+        },
+      ]);
+      await client.connect();
+
+      await client.github.listOwnRepos({});
+
+      expect(order).toEqual(["first:before", "second:before", "second:after", "first:after"]);
+      await client.disconnect();
+    });
+
+    test("exposes tool name, arguments, provider and context", async () => {
+      let seen: ToolCallMiddlewareContext | undefined;
+      const client = createClient([
+        async (ctx, next) => {
+          seen = { ...ctx };
+          return next();
+        },
+      ]);
+      await client.connect();
+
+      await client.github.listOwnRepos({ per_page: 5 } as any, { context: { userId: "user-1" } });
+
+      expect(seen).toMatchObject({
+        toolName: "github_list_own_repos",
+        arguments: { per_page: 5 },
+        provider: "github",
+        context: { userId: "user-1" },
+      });
+      await client.disconnect();
+    });
+
+    test("can change arguments before the call", async () => {
+      const client = createClient([
+        async (ctx, next) => {
+          ctx.arguments = { per_page: 100, ...ctx.arguments };
+          return next();
+        },
+      ]);
+      await client.connect();
+
+      const result: any = await client.github.listOwnRepos({ sort: "updated" } as any);
+
+      expect(result.args).toEqual({ per_page: 100, sort: "updated" });
+      await client.disconnect();
+    });
+
+    test("can short-circuit with a result", async () => {
+      const client = createClient([
+        async () => ({ content: [{ type: "text", text: JSON.stringify({ cached: true }) }] }),
+      ]);
+      await client.connect();
+
+      const result = await client.github.listOwnRepos({});
+
+      expect(result).toEqual({ cached: true } as any);
+      expect(server.toolCalls).toHaveLength(0);
+      await client.disconnect();
+    });
+
+    test("can transform errors", async () => {
+      const client = createClient([
+        async (ctx, next) => {
+          try {
+            return await next();
+          } catch (error: any) {
+            throw new Error(`[${ctx.toolName}] ${error.message}`);
+          }
+        },
+      ]);
+      await client.connect();
+
+      await expect(client.github.getRepo({ owner: "o", repo: "r" })).rejects.toThrow(
+        "[github_get_repo] Repository not found"
+      );
+      await client.disconnect();
+    });
+
+    test("runs for tool calls made by AI adapters", async () => {
+      const seen: string[] = [];
+      const client = createClient([
+        async (ctx, next) => {
+          seen.push(ctx.toolName);
+          return next();
+        },
+      ]);
+      await client.connect();
+
+      await client._callToolByName("github_list_own_repos", {});
+
+      expect(seen).toEqual(["github_list_own_repos"]);
+      await client.disconnect();
+    });
+
+    test("runs for server namespace and callServerTool", async () => {
+      const seen: Array<string | undefined> = [];
+      const client = new MCPClientBase({
+        singleton: false,
+        transport: server.createTransport(),
+        integrations: [],
+        middleware: [
+          async (ctx, next) => {
+            seen.push(`${ctx.toolName}:${ctx.provider}`);
+            return next();
+          },
+        ],
+      });
+      await client.connect();
+
+      await client.server.listToolsByIntegration({ integration: "github" });
+      await client.callServerTool("list_tools_by_integration", { integration: "gmail" });
+
+      expect(seen).toEqual([
+        "list_tools_by_integration:undefined",
+        "list_tools_by_integration:undefined",
+      ]);
+      await client.disconnect();
+    });
+  });
+
+  describe("Server /mcp route", () => {
+    let restoreFetch: () => void;
+
+    beforeEach(() => {
+      restoreFetch = server.installFetch();
+    });
+
+    afterEach(() => {
+      restoreFetch();
+    });
+
+    test("applies middleware to proxied tool calls with session context", async () => {
+      const seen: ToolCallMiddlewareContext[] = [];
+      const { client } = createMCPServer({
+        apiKey: "test-api-key",
+        serverUrl: "https://mcp.test/api/v1/mcp",
+        singleton: false,
+        integrations: [githubIntegration({ clientId: "id", clientSecret: "secret" })],
+        getSessionContext: () => ({ userId: "user-42" }),
+        middleware: [
+          async (ctx, next) => {
+            seen.push({ ...ctx });
+            ctx.arguments = { ...ctx.arguments, injected: true };
+            return next();
+          },
+        ],
+      });
+
+      const response = await client.handler(
+        new Request("http://localhost/api/integrate/mcp", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", Authorization: "Bearer gh-token" },
+          body: JSON.stringify({ name: "github_list_own_repos", arguments: { page: 2 } }),
+        })
+      );
+
+      expect(response.status).toBe(200);
+      expect(parse(await response.json()).args).toEqual({ page: 2, injected: true });
+      expect(seen[0]).toMatchObject({
+        toolName: "github_list_own_repos",
+        provider: "github",
+        context: { userId: "user-42" },
+      });
+      expect(server.toolCalls[0]!.headers.authorization).toBe("Bearer gh-token");
+    });
+
+    test("applies middleware to tool calls through the exported POST route", async () => {
+      const calls: string[] = [];
+      const { POST } = createMCPServer({
+        apiKey: "test-api-key",
+        serverUrl: "https://mcp.test/api/v1/mcp",
+        singleton: false,
+        integrations: [githubIntegration({ clientId: "id", clientSecret: "secret" })],
+        middleware: [
+          async (ctx, next) => {
+            calls.push(ctx.toolName);
+            return next();
+          },
+        ],
+      });
+
+      const response = await POST(
+        new Request("http://localhost/api/integrate/mcp", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", Authorization: "Bearer gh-token" },
+          body: JSON.stringify({ jsonrpc: "2.0", method: "tools/call", params: { name: "github_list_own_repos", arguments: {} } }),
+        }),
+        { params: { action: "mcp" } }
+      );
+
+      expect(response.status).toBe(200);
+      expect(calls).toEqual(["github_list_own_repos"]);
+      expect(server.toolCalls).toHaveLength(1);
+    });
+
+    test("middleware can reject calls before they reach the MCP server", async () => {
+      const { client } = createMCPServer({
+        apiKey: "test-api-key",
+        serverUrl: "https://mcp.test/api/v1/mcp",
+        singleton: false,
+        integrations: [githubIntegration({ clientId: "id", clientSecret: "secret" })],
+        middleware: [
+          async (ctx) => {
+            throw Object.assign(new Error(`Policy denied ${ctx.toolName}`), { statusCode: 403 });
+          },
+        ],
+      });
+
+      const response = await client.handler(
+        new Request("http://localhost/api/integrate/mcp", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ jsonrpc: "2.0", method: "tools/call", params: { name: "github_get_repo" } }),
+        })
+      );
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toEqual({ error: "Policy denied github_get_repo" });
+      expect(server.toolCalls).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Pagination Tests
+ * Verifies client.<integration>.paginate.* across the built-in cursor strategies
+ */
+
+import { describe, test, expect, beforeEach } from "bun:test";
+import { createMCPServer } from "../../src/server.js";
+import { githubIntegration } from "../../src/integrations/github.js";
+import { gmailIntegration } from "../../src/integrations/gmail.js";
+import { notionIntegration } from "../../src/integrations/notion.js";
+import { createMockMCPServer } from "../../src/testing/index.js";
+import type { MockMCPServer } from "../../src/testing/index.js";
+
+describe("Pagination", () => {
+  let server: MockMCPServer;
+
+  beforeEach(() => {
+    delete (globalThis as any).window;
+    server = createMockMCPServer({
+      handlers: {
+        // 7 issues served with page/per_page
+        github_list_issues: (args) => {
+          const perPage = (args.per_page as number) ?? 30;
+          const page = (args.page as number) ?? 1;
+          const all = Array.from({ length: 7 }, (_, i) => ({ number: i + 1 }));
+          return all.slice((page - 1) * perPage, page * perPage);
+        },
+        gmail_list_messages: (args) =>
+          args.pageToken === "t2"
+            ? { messages: [{ id: "m3", threadId: "t" }] }
+            : { messages: [{ id: "m1", threadId: "t" }, { id: "m2", threadId: "t" }], nextPageToken: "t2" },
+        notion_search: (args) =>
+          args.start_cursor === "c2"
+            ? { object: "list", results: [{ id: "p2" }], next_cursor: null, has_more: false }
+            : { object: "list", results: [{ id: "p1" }], next_cursor: "c2", has_more: true },
+      },
+    });
+  });
+
+  const createClient = async (middleware: any[] = []) => {
+    const { client } = createMCPServer({
+      singleton: false,
+      transport: server.createTransport(),
+      integrations: [
+        githubIntegration({ clientId: "id", clientSecret: "secret" }),
+        gmailIntegration({ clientId: "id", clientSecret: "secret" }),
+        notionIntegration({ clientId: "id", clientSecret: "secret" }),
+      ],
+      middleware,
+    });
+    await client.connect();
+    return client;
+  };
+
+  const collect = async <T>(iterable: AsyncIterable<T>) => {
+    const items: T[] = [];
+    for await (const item of iterable) {
+      items.push(item);
+    }
+    return items;
+  };
+
+  test("walks GitHub page numbers until a short page", async () => {
+    const client = await createClient();
+
+    const issues = await collect(client.github.paginate.listIssues({ owner: "o", repo: "r", per_page: 3 }));
+
+    expect(issues.map((issue) => issue.number)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(server.toolCalls.map((call) => call.arguments.page)).toEqual([undefined, 2, 3]);
+    await client.disconnect();
+  });
+
+  test("stops fetching once maxItems is reached", async () => {
+    const client = await createClient();
+
+    const issues = await collect(
+      client.github.paginate.listIssues({ owner: "o", repo: "r", per_page: 3 }, { maxItems: 4 })
+    );
+
+    expect(issues.map((issue) => issue.number)).toEqual([1, 2, 3, 4]);
+    expect(server.toolCalls).toHaveLength(2);
+    await client.disconnect();
+  });
+
+  test("stops fetching once maxPages is reached", async () => {
+    const client = await createClient();
+
+    const issues = await collect(
+      client.github.paginate.listIssues({ owner: "o", repo: "r", per_page: 2 }, { maxPages: 2 })
+    );
+
+    expect(issues).toHaveLength(4);
+    expect(server.toolCalls).toHaveLength(2);
+    await client.disconnect();
+  });
+
+  test("follows Gmail nextPageToken", async () => {
+    const client = await createClient();
+
+    const messages = await collect(client.gmail.paginate.listMessages({ q: "is:unread" }));
+
+    expect(messages.map((message) => message.id)).toEqual(["m1", "m2", "m3"]);
+    expect(server.toolCalls[1]!.arguments).toEqual({ q: "is:unread", pageToken: "t2" });
+    await client.disconnect();
+  });
+
+  test("follows Notion start_cursor while has_more is set", async () => {
+    const client = await createClient();
+
+    const results = await collect(client.notion.paginate.search({ query: "roadmap" }));
+
+    expect(results.map((result) => result.id)).toEqual(["p1", "p2"]);
+    expect(server.toolCalls[1]!.arguments).toEqual({ query: "roadmap", start_cursor: "c2" });
+    await client.disconnect();
+  });
+
+  test("passes call options and middleware to every page", async () => {
+    const seen: unknown[] = [];
+    const client = await createClient([
+      async (ctx: any, next: any) => {
+        seen.push(ctx.context);
+        return next();
+      },
+    ]);
+
+    await collect(client.notion.paginate.search({}, { context: { userId: "user-1" }, maxItems: 10 }));
+
+    expect(seen).toEqual([{ userId: "user-1" }, { userId: "user-1" }]);
+    await client.disconnect();
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Tests for progress notifications on long-running tool calls
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import { createMCPServer } from "../../src/server.js";
+import { gmailIntegration } from "../../src/integrations/gmail.js";
+
+describe("MCP Client - Progress", () => {
+  let originalFetch: typeof fetch;
+
+  beforeEach(() => {
+    originalFetch = global.fetch;
+    delete (globalThis as any).window;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  function jsonRpcResponse(id: unknown, result: unknown) {
+    return new Response(JSON.stringify({ jsonrpc: "2.0", id, result }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const initializeResult = {
+    protocolVersion: "2025-06-18",
+    capabilities: { tools: {} },
+    serverInfo: { name: "test", version: "1.0.0" },
+  };
+
+  function createServerClient() {
+    const { client } = createMCPServer({
+      apiKey: "test-api-key",
+      singleton: false,
+      integrations: [
+        gmailIntegration({ clientId: "gmail-id", clientSecret: "gmail-secret" }),
+      ],
+    });
+    return client;
+  }
+
+  it("routes progress notifications for the call's token to onProgress", async () => {
+    const client = createServerClient();
+    const transport = (client as any).transport;
+    const notify = (params: Record<string, unknown>) =>
+      transport.handleNotification(JSON.stringify({ jsonrpc: "2.0", method: "notifications/progress", params }));
+
+    let sentMeta: any;
+    global.fetch = mock(async (_url: any, options: any) => {
+      const body = JSON.parse(options.body);
+      if (body.method !== "tools/call") {
+        return jsonRpcResponse(body.id, body.method === "tools/list" ? { tools: [] } : initializeResult);
+      }
+
+      sentMeta = body.params._meta;
+      const progressToken = sentMeta.progressToken;
+
+      notify({ progressToken, progress: 10, total: 100, message: "Searching" });
+      notify({ progressToken: "someone-else", progress: 99 });
+      notify({ progressToken, progress: 100, total: 100 });
+
+      return jsonRpcResponse(body.id, { content: [] });
+    }) as any;
+
+    await client.connect();
+
+    const updates: unknown[][] = [];
+    await client.gmail.searchMessages({ query: "from:billing" }, {
+      onProgress: (progress, total, message) => updates.push([progress, total, message]),
+    });
+
+    expect(sentMeta.progressToken).toBeDefined();
+    expect(updates).toEqual([
+      [10, 100, "Searching"],
+      [100, 100, undefined],
+    ]);
+
+    // Stops listening once the call completes
+    notify({ progressToken: sentMeta.progressToken, progress: 101 });
+    expect(updates).toHaveLength(2);
+
+    await client.disconnect();
+  });
+
+  it("does not attach a progress token without onProgress", async () => {
+    const client = createServerClient();
+
+    let sentParams: any;
+    global.fetch = mock(async (_url: any, options: any) => {
+      const body = JSON.parse(options.body);
+      if (body.method === "tools/call") {
+        sentParams = body.params;
+      }
+      if (body.method === "initialize") {
+        return jsonRpcResponse(body.id, initializeResult);
+      }
+      return jsonRpcResponse(body.id, body.method === "tools/list" ? { tools: [] } : { content: [] });
+    }) as any;
+
+    await client.connect();
+    await client.gmail.searchMessages({ query: "from:billing" });
+
+    expect(sentParams._meta).toBeUndefined();
+
+    await client.disconnect();
+  });
+});
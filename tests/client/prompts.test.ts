@@ -0,0 +1,117 @@
+/**
+ * Tests for the MCP prompts API
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import { MCPClientBase } from "../../src/client.js";
+import { githubIntegration } from "../../src/integrations/github.js";
+
+describe("MCP Client - Prompts", () => {
+  let originalFetch: typeof fetch;
+
+  beforeEach(() => {
+    originalFetch = global.fetch;
+    global.localStorage = {
+      getItem: mock(() => null),
+      setItem: mock(() => { }),
+      removeItem: mock(() => { }),
+      clear: mock(() => { }),
+      length: 0,
+      key: mock(() => null),
+    } as any;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  function createClient() {
+    const client = new MCPClientBase({
+      integrations: [githubIntegration({ clientId: "github-id" })],
+      connectionMode: "manual",
+      singleton: false,
+    });
+
+    (client as any).oauthManager.getProviderToken = mock(async (provider: string) => ({
+      accessToken: `${provider}-token`,
+      tokenType: "Bearer",
+      expiresIn: 3600,
+    }));
+
+    return client;
+  }
+
+  it("lists prompts through the API handler", async () => {
+    let capturedBody: any;
+
+    global.fetch = mock(async (url: string, options?: any) => {
+      expect(url).toBe("/api/integrate/mcp");
+      capturedBody = JSON.parse(options.body);
+      return {
+        ok: true,
+        json: async () => ({
+          prompts: [
+            {
+              name: "triage_issue",
+              description: "Triage a GitHub issue",
+              arguments: [{ name: "issue", required: true }],
+            },
+          ],
+        }),
+      } as Response;
+    }) as any;
+
+    const client = createClient();
+    const result = await client.listPrompts();
+
+    expect(capturedBody).toEqual({ method: "prompts/list" });
+    expect(result.prompts[0].name).toBe("triage_issue");
+    expect(result.prompts[0].arguments?.[0].required).toBe(true);
+  });
+
+  it("gets a prompt with arguments and the provider token", async () => {
+    let capturedBody: any;
+    let capturedHeaders: any;
+
+    global.fetch = mock(async (_url: string, options?: any) => {
+      capturedBody = JSON.parse(options.body);
+      capturedHeaders = options.headers;
+      return {
+        ok: true,
+        json: async () => ({
+          description: "Triage a GitHub issue",
+          messages: [
+            { role: "user", content: { type: "text", text: "Triage issue #42" } },
+          ],
+        }),
+      } as Response;
+    }) as any;
+
+    const client = createClient();
+    const prompt = await client.getPrompt("triage_issue", { issue: "42" }, { provider: "github" });
+
+    expect(capturedBody).toEqual({
+      method: "prompts/get",
+      params: { name: "triage_issue", arguments: { issue: "42" } },
+    });
+    expect(capturedHeaders["Authorization"]).toBe("Bearer github-token");
+    expect(prompt.messages[0].content).toEqual({ type: "text", text: "Triage issue #42" });
+  });
+
+  it("omits arguments when none are given", async () => {
+    let capturedBody: any;
+
+    global.fetch = mock(async (_url: string, options?: any) => {
+      capturedBody = JSON.parse(options.body);
+      return {
+        ok: true,
+        json: async () => ({ messages: [] }),
+      } as Response;
+    }) as any;
+
+    const client = createClient();
+    await client.getPrompt("daily_standup");
+
+    expect(capturedBody.params).toEqual({ name: "daily_standup" });
+  });
+});
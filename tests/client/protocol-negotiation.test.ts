@@ -0,0 +1,100 @@
+/**
+ * Tests for MCP protocol version negotiation during connect()
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import { MCPClientBase } from "../../src/client.js";
+import { createSimpleIntegration } from "../../src/integrations/generic.js";
+import { ConnectionError } from "../../src/errors.js";
+import { LATEST_PROTOCOL_VERSION } from "../../src/protocol/messages.js";
+
+describe("MCP Client - Protocol Negotiation", () => {
+  let originalFetch: typeof fetch;
+
+  beforeEach(() => {
+    originalFetch = global.fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  function createClient() {
+    return new MCPClientBase({
+      integrations: [createSimpleIntegration({ id: "test", tools: ["test_tool"] })],
+      connectionMode: "manual",
+      singleton: false,
+    });
+  }
+
+  function mockServer(protocolVersion: string, requests: any[]) {
+    global.fetch = mock(async (_url: any, options: any) => {
+      const body = JSON.parse(options.body);
+      requests.push({ body, headers: options.headers });
+
+      if (body.id === undefined) {
+        return new Response(null, { status: 202 });
+      }
+
+      const result = body.method === "initialize"
+        ? {
+          protocolVersion,
+          capabilities: { tools: {}, resources: { subscribe: true } },
+          serverInfo: { name: "self-hosted", version: "2.1.0" },
+        }
+        : { tools: [] };
+
+      return new Response(JSON.stringify({ jsonrpc: "2.0", id: body.id, result }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    }) as any;
+  }
+
+  it("requests the latest version and accepts an older supported one", async () => {
+    const requests: any[] = [];
+    mockServer("2025-03-26", requests);
+
+    const client = createClient();
+    await client.connect();
+
+    expect(requests[0].body.method).toBe("initialize");
+    expect(requests[0].body.params.protocolVersion).toBe(LATEST_PROTOCOL_VERSION);
+
+    expect(client.getProtocolVersion()).toBe("2025-03-26");
+    expect(client.getServerCapabilities()).toEqual({ tools: {}, resources: { subscribe: true } });
+    expect(client.getServerInfo()).toEqual({ name: "self-hosted", version: "2.1.0" });
+
+    await client.disconnect();
+  });
+
+  it("sends notifications/initialized and the negotiated version header", async () => {
+    const requests: any[] = [];
+    mockServer("2025-06-18", requests);
+
+    const client = createClient();
+    await client.connect();
+
+    expect(requests.map((r) => r.body.method)).toEqual([
+      "initialize",
+      "notifications/initialized",
+      "tools/list",
+    ]);
+    expect(requests[0].headers["MCP-Protocol-Version"]).toBeUndefined();
+    expect(requests[1].headers["MCP-Protocol-Version"]).toBe("2025-06-18");
+    expect(requests[2].headers["MCP-Protocol-Version"]).toBe("2025-06-18");
+
+    await client.disconnect();
+  });
+
+  it("rejects servers that answer with an unsupported version", async () => {
+    mockServer("2023-01-01", []);
+
+    const client = createClient();
+    const error = await client.connect().catch((e) => e);
+
+    expect(error).toBeInstanceOf(ConnectionError);
+    expect(error.message).toContain("2023-01-01");
+    expect(client.isInitialized()).toBe(false);
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Request Deduplication and Concurrency Limit Tests
+ * Verifies single-flight tool calls, per-provider queues and the /mcp route
+ */
+
+import { describe, test, expect, beforeEach } from "bun:test";
+import { createMCPServer } from "../../src/server.js";
+import { genericOAuthIntegration } from "../../src/integrations/generic.js";
+import { QueueTimeoutError } from "../../src/errors.js";
+import { createMockMCPServer } from "../../src/testing/index.js";
+import type { MockMCPServer } from "../../src/testing/index.js";
+import type { MCPServerConfig } from "../../src/config/types.js";
+
+describe("Request Limits", () => {
+  let server: MockMCPServer;
+  let releases: Array<() => void>;
+  let active: number;
+  let maxActive: number;
+
+  beforeEach(() => {
+    delete (globalThis as any).window;
+    releases = [];
+    active = 0;
+    maxActive = 0;
+    const held = async (args: Record<string, unknown>) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise<void>((resolve) => releases.push(resolve));
+      active--;
+      return { id: args.id };
+    };
+    server = createMockMCPServer({
+      handlers: {
+        linear_get_issue: held,
+        linear_update_issue: held,
+      },
+    });
+  });
+
+  function createServer(config: Partial<MCPServerConfig<any>> = {}) {
+    return createMCPServer({
+      singleton: false,
+      transport: server.createTransport(),
+      integrations: [
+        genericOAuthIntegration({
+          id: "linear",
+          provider: "linear",
+          clientId: "id",
+          clientSecret: "secret",
+          scopes: ["read"],
+          tools: ["linear_get_issue", "linear_update_issue"],
+        }),
+      ],
+      getProviderToken: async () => ({ accessToken: "linear-token", tokenType: "Bearer", expiresIn: 3600 }),
+      ...config,
+    });
+  }
+
+  /** Let pending calls reach the mock server */
+  async function settle() {
+    for (let i = 0; i < 10; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+
+  async function releaseAll() {
+    while (releases.length > 0) {
+      releases.shift()!();
+      await settle();
+    }
+  }
+
+  test("identical concurrent read calls share one request", async () => {
+    const { client } = createServer({ dedupeRequests: true });
+    await client.connect();
+
+    const calls = [
+      client.linear.getIssue!({ id: "1" }),
+      client.linear.getIssue!({ id: "1" }),
+      client.linear.getIssue!({ id: "2" }),
+    ];
+    await settle();
+    await releaseAll();
+
+    expect(await Promise.all(calls)).toEqual([{ id: "1" }, { id: "1" }, { id: "2" }]);
+    expect(server.toolCalls).toHaveLength(2);
+    expect(client.getQueueStats().deduplicated).toBe(1);
+    await client.disconnect();
+  });
+
+  test("write tools and clients without dedupeRequests send every call", async () => {
+    const { client } = createServer({ dedupeRequests: true });
+    const { client: plain } = createServer();
+    await client.connect();
+    await plain.connect();
+
+    const calls = [
+      client.linear.updateIssue!({ id: "1" }),
+      client.linear.updateIssue!({ id: "1" }),
+      plain.linear.getIssue!({ id: "1" }),
+      plain.linear.getIssue!({ id: "1" }),
+    ];
+    await settle();
+    await releaseAll();
+    await Promise.all(calls);
+
+    expect(server.toolCalls).toHaveLength(4);
+    await client.disconnect();
+    await plain.disconnect();
+  });
+
+  test("an aborted caller does not cancel a shared request", async () => {
+    const { client } = createServer({ dedupeRequests: true });
+    await client.connect();
+    const controller = new AbortController();
+
+    const aborted = client.linear.getIssue!({ id: "1" }, { signal: controller.signal });
+    const kept = client.linear.getIssue!({ id: "1" });
+    await settle();
+    controller.abort(new Error("Stopped"));
+
+    await expect(aborted).rejects.toThrow("Stopped");
+    await releaseAll();
+    expect(await kept).toEqual({ id: "1" });
+    expect(server.toolCalls).toHaveLength(1);
+    await client.disconnect();
+  });
+
+  test("queues calls over the provider's concurrency limit", async () => {
+    const { client } = createServer({ concurrency: { linear: 1 } });
+    await client.connect();
+
+    const calls = [1, 2, 3].map((id) => client.linear.updateIssue!({ id }));
+    await settle();
+
+    expect(server.toolCalls).toHaveLength(1);
+    expect(client.getQueueStats().queues.linear).toMatchObject({ limit: 1, active: 1, queued: 2, totalQueued: 2 });
+
+    await releaseAll();
+    await Promise.all(calls);
+
+    expect(server.toolCalls).toHaveLength(3);
+    expect(maxActive).toBe(1);
+    expect(client.getQueueStats().queues.linear).toMatchObject({ active: 0, queued: 0, totalQueued: 2, timedOut: 0 });
+    await client.disconnect();
+  });
+
+  test("fails calls that wait longer than maxQueueWait", async () => {
+    const { client } = createServer({ concurrency: { linear: 1 }, maxQueueWait: 10 });
+    await client.connect();
+
+    const first = client.linear.updateIssue!({ id: 1 });
+    await settle();
+    const second = client.linear.updateIssue!({ id: 2 });
+
+    const error = await second.catch((e) => e);
+    expect(error).toBeInstanceOf(QueueTimeoutError);
+    expect(error.provider).toBe("linear");
+    expect(client.getQueueStats().queues.linear?.timedOut).toBe(1);
+
+    await releaseAll();
+    await first;
+    expect(server.toolCalls).toHaveLength(1);
+    await client.disconnect();
+  });
+
+  test("aborting a queued call removes it from the queue", async () => {
+    const { client } = createServer({ concurrency: { linear: 1 } });
+    await client.connect();
+    const controller = new AbortController();
+
+    const first = client.linear.updateIssue!({ id: 1 });
+    await settle();
+    const queued = client.linear.updateIssue!({ id: 2 }, { signal: controller.signal });
+    await settle();
+    controller.abort(new Error("Stopped"));
+
+    await expect(queued).rejects.toThrow("Stopped");
+    expect(client.getQueueStats().queues.linear?.queued).toBe(0);
+    await releaseAll();
+    await first;
+    expect(server.toolCalls).toHaveLength(1);
+    await client.disconnect();
+  });
+
+  test("the /mcp route shares deduplication and limits with the client", async () => {
+    const originalFetch = global.fetch;
+    const pending: Array<() => void> = [];
+    let fetches = 0;
+    global.fetch = (async () => {
+      fetches++;
+      await new Promise<void>((resolve) => pending.push(resolve));
+      return new Response(JSON.stringify({ jsonrpc: "2.0", id: 1, result: { content: [] } }));
+    }) as unknown as typeof fetch;
+
+    try {
+      const { client, POST } = createServer({ dedupeRequests: true, concurrency: { linear: 1 } });
+      const post = (body: Record<string, unknown>) =>
+        POST(
+          new Request("http://localhost/api/integrate/mcp", {
+            method: "POST",
+            headers: { Authorization: "Bearer linear-token" },
+            body: JSON.stringify(body),
+          }),
+          { params: { action: "mcp" } }
+        );
+
+      const responses = [
+        post({ name: "linear_get_issue", arguments: { id: "1" } }),
+        post({ name: "linear_get_issue", arguments: { id: "1" } }),
+        post({ name: "linear_update_issue", arguments: { id: "1" } }),
+      ];
+      await settle();
+
+      expect(fetches).toBe(1);
+      expect(client.getQueueStats()).toMatchObject({
+        deduplicated: 1,
+        queues: { linear: { active: 1, queued: 1 } },
+      });
+
+      while (pending.length > 0 || fetches < 2) {
+        pending.shift()?.();
+        await settle();
+      }
+      for (const response of await Promise.all(responses)) {
+        expect(response.status).toBe(200);
+      }
+      expect(fetches).toBe(2);
+    } finally {
+      global.fetch = originalFetch;
+    }
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Tests for the MCP resources API
+ * Covers listing, reading and subscribing to resources through the API handler
+ * (browser clients) and directly through the transport (server-side clients)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import { MCPClientBase } from "../../src/client.js";
+import { createMCPServer } from "../../src/server.js";
+import { notionIntegration } from "../../src/integrations/notion.js";
+import { githubIntegration } from "../../src/integrations/github.js";
+import { isAuthError } from "../../src/errors.js";
+
+describe("MCP Client - Resources", () => {
+  let originalFetch: typeof fetch;
+
+  beforeEach(() => {
+    originalFetch = global.fetch;
+    global.localStorage = {
+      getItem: mock(() => null),
+      setItem: mock(() => { }),
+      removeItem: mock(() => { }),
+      clear: mock(() => { }),
+      length: 0,
+      key: mock(() => null),
+    } as any;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  function createBrowserClient() {
+    const client = new MCPClientBase({
+      integrations: [
+        notionIntegration({ clientId: "notion-id" }),
+        githubIntegration({ clientId: "github-id" }),
+      ],
+      connectionMode: "manual",
+      singleton: false,
+    });
+
+    (client as any).oauthManager.getProviderToken = mock(async (provider: string) => ({
+      accessToken: `${provider}-token`,
+      tokenType: "Bearer",
+      expiresIn: 3600,
+    }));
+
+    return client;
+  }
+
+  describe("browser clients", () => {
+    it("lists resources through the API handler", async () => {
+      let capturedBody: any;
+      let capturedHeaders: any;
+
+      global.fetch = mock(async (url: string, options?: any) => {
+        expect(url).toBe("/api/integrate/mcp");
+        capturedBody = JSON.parse(options.body);
+        capturedHeaders = options.headers;
+        return {
+          ok: true,
+          json: async () => ({
+            resources: [{ uri: "notion://pages/abc", name: "Roadmap" }],
+            nextCursor: "page-2",
+          }),
+        } as Response;
+      }) as any;
+
+      const client = createBrowserClient();
+      const result = await client.listResources({ provider: "notion", cursor: "page-1" });
+
+      expect(capturedBody).toEqual({ method: "resources/list", params: { cursor: "page-1" } });
+      expect(capturedHeaders["Authorization"]).toBe("Bearer notion-token");
+      expect(result.resources[0].name).toBe("Roadmap");
+      expect(result.nextCursor).toBe("page-2");
+    });
+
+    it("infers the provider token from the resource URI scheme", async () => {
+      let capturedHeaders: any;
+      let capturedBody: any;
+
+      global.fetch = mock(async (_url: string, options?: any) => {
+        capturedHeaders = options.headers;
+        capturedBody = JSON.parse(options.body);
+        return {
+          ok: true,
+          json: async () => ({
+            contents: [{ uri: "github://repos/acme/app/contents/README.md", text: "# App" }],
+          }),
+        } as Response;
+      }) as any;
+
+      const client = createBrowserClient();
+      const result = await client.readResource("github://repos/acme/app/contents/README.md");
+
+      expect(capturedBody.method).toBe("resources/read");
+      expect(capturedBody.params).toEqual({ uri: "github://repos/acme/app/contents/README.md" });
+      expect(capturedHeaders["Authorization"]).toBe("Bearer github-token");
+      expect(result.contents[0].text).toBe("# App");
+    });
+
+    it("omits the provider token for unknown URI schemes", async () => {
+      let capturedHeaders: any;
+
+      global.fetch = mock(async (_url: string, options?: any) => {
+        capturedHeaders = options.headers;
+        return {
+          ok: true,
+          json: async () => ({ contents: [] }),
+        } as Response;
+      }) as any;
+
+      const client = createBrowserClient();
+      await client.readResource("file:///tmp/notes.txt");
+
+      expect(capturedHeaders["Authorization"]).toBeUndefined();
+    });
+
+    it("lists resource templates", async () => {
+      global.fetch = mock(async (_url: string, options?: any) => {
+        expect(JSON.parse(options.body).method).toBe("resources/templates/list");
+        return {
+          ok: true,
+          json: async () => ({
+            resourceTemplates: [{ uriTemplate: "notion://pages/{id}", name: "Notion page" }],
+          }),
+        } as Response;
+      }) as any;
+
+      const client = createBrowserClient();
+      const result = await client.listResourceTemplates();
+
+      expect(result.resourceTemplates[0].uriTemplate).toBe("notion://pages/{id}");
+    });
+
+    it("rejects resource subscriptions", async () => {
+      const mockFetch = mock(async () => ({ ok: true } as Response));
+      global.fetch = mockFetch as any;
+
+      const client = createBrowserClient();
+
+      await expect(client.subscribeResource("notion://pages/abc")).rejects.toThrow(
+        "require a server-side client"
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("parses handler errors", async () => {
+      global.fetch = mock(async () => ({
+        ok: false,
+        status: 401,
+        statusText: "Unauthorized",
+        json: async () => ({ error: "Unauthorized" }),
+      } as Response)) as any;
+
+      const client = createBrowserClient();
+
+      const error: any = await client.readResource("notion://pages/abc").catch((e) => e);
+
+      expect(isAuthError(error)).toBe(true);
+      expect(error.provider).toBe("notion");
+    });
+  });
+
+  describe("server-side clients", () => {
+    beforeEach(() => {
+      delete (globalThis as any).window;
+    });
+
+    it("reads and subscribes to resources through the transport", async () => {
+      const requests: Array<{ method: string; params: any; auth?: string }> = [];
+
+      global.fetch = mock(async (_url: any, options: any) => {
+        const body = JSON.parse(options.body);
+        requests.push({ method: body.method, params: body.params, auth: options.headers["Authorization"] });
+
+        let result: unknown = {};
+        if (body.method === "initialize") {
+          result = { protocolVersion: "2024-11-05", capabilities: { resources: { subscribe: true } }, serverInfo: { name: "test", version: "1.0.0" } };
+        } else if (body.method === "tools/list") {
+          result = { tools: [] };
+        } else if (body.method === "resources/read") {
+          result = { contents: [{ uri: body.params.uri, text: "# Page" }] };
+        }
+
+        return new Response(JSON.stringify({ jsonrpc: "2.0", id: body.id, result }), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      }) as any;
+
+      const { client } = createMCPServer({
+        apiKey: "test-api-key",
+        singleton: false,
+        integrations: [
+          notionIntegration({ clientId: "notion-id", clientSecret: "notion-secret" }),
+        ],
+        getProviderToken: async (_provider: string, context?: any) => ({
+          accessToken: `token-${context?.userId}`,
+          tokenType: "Bearer",
+          expiresIn: 3600,
+        }),
+      });
+
+      await client.connect();
+
+      const context = { userId: "user-1" };
+      const result = await client.readResource("notion://pages/abc", { context });
+      await client.subscribeResource("notion://pages/abc", { context });
+      await client.unsubscribeResource("notion://pages/abc", { context });
+
+      expect(result.contents[0].text).toBe("# Page");
+
+      const resourceRequests = requests.filter((r) => r.method.startsWith("resources/"));
+      expect(resourceRequests.map((r) => r.method)).toEqual([
+        "resources/read",
+        "resources/subscribe",
+        "resources/unsubscribe",
+      ]);
+      for (const request of resourceRequests) {
+        expect(request.params).toEqual({ uri: "notion://pages/abc" });
+        expect(request.auth).toBe("Bearer token-user-1");
+      }
+
+      await client.disconnect();
+    });
+  });
+});
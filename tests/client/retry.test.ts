@@ -0,0 +1,204 @@
+/**
+ * Retry Tests
+ * Verifies backoff for transient errors, rate limit handling and auth retries
+ */
+
+import { describe, test, expect, beforeEach } from "bun:test";
+import { createMCPServer } from "../../src/server.js";
+import { genericOAuthIntegration } from "../../src/integrations/generic.js";
+import { RateLimitError, ToolCallError } from "../../src/errors.js";
+import { getRetryDelay, isRetryableError } from "../../src/utils/retry.js";
+import { createMockMCPServer, MockMCPError } from "../../src/testing/index.js";
+import type { MockMCPServer } from "../../src/testing/index.js";
+import type { MCPServerConfig } from "../../src/config/types.js";
+
+describe("Retries", () => {
+  let server: MockMCPServer;
+  let failures: MockMCPError[];
+
+  beforeEach(() => {
+    delete (globalThis as any).window;
+    failures = [];
+    const handler = () => {
+      const failure = failures.shift();
+      if (failure) {
+        throw failure;
+      }
+      return { ok: true };
+    };
+    server = createMockMCPServer({
+      handlers: {
+        linear_get_issue: handler,
+        linear_update_issue: handler,
+      },
+    });
+  });
+
+  function createServer(config: Partial<MCPServerConfig<any>> = {}) {
+    return createMCPServer({
+      singleton: false,
+      transport: server.createTransport(),
+      integrations: [
+        genericOAuthIntegration({
+          id: "linear",
+          provider: "linear",
+          clientId: "id",
+          clientSecret: "secret",
+          scopes: ["read"],
+          tools: ["linear_get_issue", "linear_update_issue"],
+        }),
+      ],
+      getProviderToken: async () => ({ accessToken: "linear-token", tokenType: "Bearer", expiresIn: 3600 }),
+      retry: { initialDelay: 1, jitter: false },
+      ...config,
+    }).client;
+  }
+
+  test("retries idempotent tools after server errors and timeouts", async () => {
+    const client = createServer();
+    const retryCounts: number[] = [];
+    client.on("tool:start", (event) => retryCounts.push(event.retryCount));
+    await client.connect();
+    failures = [new MockMCPError(503, "Service unavailable"), new MockMCPError(-32000, "Request timeout")];
+
+    expect(await client.linear.getIssue!({ id: "1" })).toEqual({ ok: true });
+
+    expect(server.toolCalls).toHaveLength(3);
+    expect(retryCounts).toEqual([0, 1, 2]);
+    await client.disconnect();
+  });
+
+  test("stops after maxAttempts", async () => {
+    const client = createServer({ retry: { maxAttempts: 2, initialDelay: 1 } });
+    await client.connect();
+    failures = [new MockMCPError(502, "Bad gateway"), new MockMCPError(502, "Bad gateway"), new MockMCPError(502, "Bad gateway")];
+
+    await expect(client.linear.getIssue!({ id: "1" })).rejects.toBeInstanceOf(ToolCallError);
+    expect(server.toolCalls).toHaveLength(2);
+    await client.disconnect();
+  });
+
+  test("does not retry write tools or client errors by default", async () => {
+    const client = createServer();
+    await client.connect();
+
+    failures = [new MockMCPError(503, "Service unavailable")];
+    await expect(client.linear.updateIssue!({ id: "1" })).rejects.toThrow("Service unavailable");
+    failures = [new MockMCPError(400, "Bad request")];
+    await expect(client.linear.getIssue!({ id: "1" })).rejects.toThrow("Bad request");
+
+    expect(server.toolCalls).toHaveLength(2);
+    await client.disconnect();
+  });
+
+  test("retries write tools with tools: 'all'", async () => {
+    const client = createServer({ retry: { initialDelay: 1, tools: "all" } });
+    await client.connect();
+    failures = [new MockMCPError(503, "Service unavailable")];
+
+    await client.linear.updateIssue!({ id: "1" });
+
+    expect(server.toolCalls).toHaveLength(2);
+    await client.disconnect();
+  });
+
+  test("waits for Retry-After on rate limits and surfaces RateLimitError", async () => {
+    const client = createServer({ retry: { maxAttempts: 2, initialDelay: 1 } });
+    await client.connect();
+    const limited = () => new MockMCPError(429, "Rate limited", { retryAfter: 0.02 });
+    failures = [limited(), limited()];
+
+    const startedAt = Date.now();
+    const error = await client.linear.getIssue!({ id: "1" }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfter).toBe(0.02);
+    expect(error.provider).toBe("linear");
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(15);
+    expect(server.toolCalls).toHaveLength(2);
+    await client.disconnect();
+  });
+
+  test("does not retry when Retry-After exceeds maxDelay", async () => {
+    const client = createServer({ retry: { initialDelay: 1, maxDelay: 1000 } });
+    await client.connect();
+    failures = [new MockMCPError(429, "Rate limited", { retryAfter: 60 })];
+
+    await expect(client.linear.getIssue!({ id: "1" })).rejects.toBeInstanceOf(RateLimitError);
+    expect(server.toolCalls).toHaveLength(1);
+    await client.disconnect();
+  });
+
+  test("aborting during backoff rejects with the abort reason", async () => {
+    const client = createServer({ retry: { initialDelay: 10_000, jitter: false } });
+    await client.connect();
+    failures = [new MockMCPError(503, "Service unavailable")];
+    const controller = new AbortController();
+
+    const call = client.linear.getIssue!({ id: "1" }, { signal: controller.signal });
+    setTimeout(() => controller.abort(new Error("Stopped")), 10);
+
+    await expect(call).rejects.toThrow("Stopped");
+    expect(server.toolCalls).toHaveLength(1);
+    await client.disconnect();
+  });
+
+  test("re-authentication retries keep the call's options", async () => {
+    const contexts: unknown[] = [];
+    const client = createServer({
+      getProviderToken: async (_provider, context) => {
+        contexts.push(context);
+        return { accessToken: "linear-token", tokenType: "Bearer", expiresIn: 3600 };
+      },
+      onReauthRequired: async () => true,
+    });
+    await client.connect();
+    contexts.length = 0;
+    failures = [new MockMCPError(401, "Token expired")];
+
+    await client.linear.getIssue!({ id: "1" }, { context: { userId: "alice" } });
+
+    expect(server.toolCalls).toHaveLength(2);
+    expect(contexts.length).toBeGreaterThanOrEqual(2);
+    expect(contexts.every((context) => (context as any)?.userId === "alice")).toBe(true);
+    await client.disconnect();
+  });
+
+  test("retries fetch network failures but not other TypeErrors", async () => {
+    expect(isRetryableError(new TypeError("fetch failed", { cause: new Error("ECONNRESET") }))).toBe(true);
+    expect(isRetryableError(new TypeError("Failed to fetch"))).toBe(true);
+    expect(isRetryableError(new TypeError("NetworkError when attempting to fetch resource."))).toBe(true);
+    expect(isRetryableError(new TypeError("client.foo is not a function"))).toBe(false);
+
+    const client = createServer();
+    await client.connect();
+    const transport = (client as any).transport;
+    const sendRequest = transport.sendRequest.bind(transport);
+    let thrown = 0;
+    transport.sendRequest = (method: string, ...rest: unknown[]) => {
+      if (method === "tools/call" && thrown++ === 0) {
+        return Promise.reject(new TypeError("Cannot read properties of undefined (reading 'id')"));
+      }
+      return sendRequest(method, ...rest);
+    };
+
+    await expect(client.linear.getIssue!({ id: "1" })).rejects.toThrow("Cannot read properties of undefined");
+    expect(thrown).toBe(1);
+    await client.disconnect();
+  });
+
+  test("backoff grows exponentially up to maxDelay, with full jitter by default", () => {
+    const error = new RateLimitError("Rate limited");
+    const delays = [0, 1, 2, 3].map((retries) =>
+      getRetryDelay(
+        { maxAttempts: 10, initialDelay: 100, maxDelay: 500, jitter: false },
+        { toolName: "linear_get_issue", provider: "linear", error, retries }
+      )
+    );
+    expect(delays).toEqual([100, 200, 400, 500]);
+
+    const jittered = getRetryDelay({ initialDelay: 100 }, { toolName: "linear_get_issue", provider: "linear", error, retries: 0 });
+    expect(jittered).toBeGreaterThanOrEqual(0);
+    expect(jittered).toBeLessThanOrEqual(100);
+  });
+});
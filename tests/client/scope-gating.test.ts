@@ -0,0 +1,140 @@
+/**
+ * Scope Gating Tests
+ * Verifies tool calls are checked against the provider token's granted scopes
+ */
+
+import { describe, test, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { createMCPServer } from "../../src/server.js";
+import { gmailIntegration } from "../../src/integrations/gmail.js";
+import { OAuthHandler } from "../../src/adapters/base-handler.js";
+import { AuthorizationError } from "../../src/errors.js";
+import { createMockMCPServer } from "../../src/testing/index.js";
+import type { MockMCPServer } from "../../src/testing/index.js";
+import type { ProviderTokenData } from "../../src/oauth/types.js";
+
+const READONLY = "https://www.googleapis.com/auth/gmail.readonly";
+const SEND = "https://www.googleapis.com/auth/gmail.send";
+const MODIFY = "https://www.googleapis.com/auth/gmail.modify";
+
+describe("Scope Gating", () => {
+  let server: MockMCPServer;
+  let tokenData: ProviderTokenData;
+  let log: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    log = spyOn(console, "log").mockImplementation(() => {});
+    tokenData = { accessToken: "gmail-token", tokenType: "Bearer", expiresIn: 3600, scopes: [READONLY] };
+    server = createMockMCPServer({
+      handlers: {
+        gmail_send_message: () => ({ id: "msg-1" }),
+        gmail_list_messages: () => ({ messages: [] }),
+        gmail_search_messages: () => ({ messages: [] }),
+      },
+    });
+  });
+
+  afterEach(() => {
+    log.mockRestore();
+  });
+
+  function createClient(onMissingScopes?: "error" | "authorize" | "ignore") {
+    const { client } = createMCPServer({
+      singleton: false,
+      transport: server.createTransport(),
+      integrations: [gmailIntegration({ clientId: "id", clientSecret: "secret" })],
+      getProviderToken: async () => tokenData,
+      onMissingScopes,
+    });
+    return client;
+  }
+
+  test("reports the scopes a tool needs that were not granted", async () => {
+    const client = createClient();
+
+    expect(await client.getMissingScopes("gmail_send_message")).toEqual([SEND]);
+    expect(await client.getMissingScopes("gmail_list_messages")).toEqual([]);
+
+    tokenData = { ...tokenData, scopes: undefined };
+    expect(await client.getMissingScopes("gmail_send_message")).toEqual([]);
+  });
+
+  test("accepts broader scopes that cover a tool's scope", async () => {
+    tokenData = { ...tokenData, scopes: [MODIFY] };
+    const client = createClient();
+    await client.connect();
+
+    expect(await client.getMissingScopes("gmail_list_messages")).toEqual([]);
+    expect(await client.getMissingScopes("gmail_send_message")).toEqual([]);
+    await client.gmail.listMessages({});
+    await client.gmail.searchMessages({ query: "from:billing" });
+
+    expect(server.toolCalls.map((call) => call.name)).toEqual(["gmail_list_messages", "gmail_search_messages"]);
+    await client.disconnect();
+  });
+
+  test("fails fast without calling the tool when a scope is missing", async () => {
+    const client = createClient();
+    await client.connect();
+
+    const error = await client.gmail.sendMessage({ to: "a@b.c", subject: "Hi", body: "Hello" }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(AuthorizationError);
+    expect(error.requiredScopes).toEqual([SEND]);
+    expect(error.message).toBe(`Tool "gmail_send_message" requires gmail scopes that have not been granted: ${SEND}`);
+    expect(server.toolCalls).toHaveLength(0);
+
+    await client.gmail.listMessages({});
+    expect(server.toolCalls.map((call) => call.name)).toEqual(["gmail_list_messages"]);
+    await client.disconnect();
+  });
+
+  test("requests the missing scopes and retries in authorize mode", async () => {
+    const client = createClient("authorize");
+    const authorize = spyOn(client, "authorize").mockImplementation(async () => {
+      tokenData = { ...tokenData, scopes: [READONLY, SEND] };
+    });
+    await client.connect();
+
+    const result = await client.gmail.sendMessage({ to: "a@b.c", subject: "Hi", body: "Hello" });
+
+    expect(result as unknown).toEqual({ id: "msg-1" });
+    expect(authorize).toHaveBeenCalledWith("gmail", { additionalScopes: [SEND], accountId: undefined });
+    await client.disconnect();
+  });
+
+  test("calls the tool anyway in ignore mode", async () => {
+    const client = createClient("ignore");
+    await client.connect();
+
+    await client.gmail.sendMessage({ to: "a@b.c", subject: "Hi", body: "Hello" });
+
+    expect(server.toolCalls.map((call) => call.name)).toEqual(["gmail_send_message"]);
+    await client.disconnect();
+  });
+
+  test("the authorize route appends additional scopes to the configured ones", async () => {
+    const originalFetch = global.fetch;
+    let requestedUrl = "";
+    global.fetch = (async (url: string) => {
+      requestedUrl = url;
+      return new Response(JSON.stringify({ authorizationUrl: "https://accounts.google.com/o/oauth2" }));
+    }) as unknown as typeof fetch;
+
+    try {
+      const handler = new OAuthHandler({
+        providers: { gmail: { clientId: "id", clientSecret: "secret", scopes: [READONLY] } },
+      });
+      await handler.handleAuthorize({
+        provider: "gmail",
+        state: "state",
+        codeChallenge: "challenge",
+        codeChallengeMethod: "S256",
+        additionalScopes: [SEND, READONLY],
+      });
+
+      expect(new URL(requestedUrl).searchParams.get("scope")).toBe(`${READONLY},${SEND}`);
+    } finally {
+      global.fetch = originalFetch;
+    }
+  });
+});
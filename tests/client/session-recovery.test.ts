@@ -0,0 +1,85 @@
+/**
+ * Tests for recovering from MCP sessions discarded by the server
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import { createMCPServer } from "../../src/server.js";
+import { githubIntegration } from "../../src/integrations/github.js";
+
+describe("MCP Client - Session Recovery", () => {
+  let originalFetch: typeof fetch;
+
+  beforeEach(() => {
+    originalFetch = global.fetch;
+    delete (globalThis as any).window;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it("re-initializes, rediscovers tools and replays the call after a redeploy", async () => {
+    let currentSession = "session-1";
+    const posts: Array<{ method: string; session?: string }> = [];
+
+    global.fetch = mock(async (_url: any, options: any) => {
+      if (options.method === "GET") {
+        return new Response(null, { status: 405 });
+      }
+
+      const body = JSON.parse(options.body);
+      const session = options.headers["mcp-session-id"];
+      posts.push({ method: body.method, session });
+
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      let result: unknown;
+
+      if (body.method === "initialize") {
+        headers["mcp-session-id"] = currentSession;
+        result = {
+          protocolVersion: "2025-06-18",
+          capabilities: { tools: {} },
+          serverInfo: { name: "test", version: "1.0.0" },
+        };
+      } else if (session !== currentSession) {
+        return new Response("Session not found", { status: 404, statusText: "Not Found" });
+      } else if (body.id === undefined) {
+        return new Response(null, { status: 202 });
+      } else if (body.method === "tools/list") {
+        result = { tools: [{ name: "github_list_own_repos", inputSchema: { type: "object" } }] };
+      } else {
+        result = { content: [{ type: "text", text: JSON.stringify([{ name: "sdk" }]) }] };
+      }
+
+      return new Response(JSON.stringify({ jsonrpc: "2.0", id: body.id, result }), { status: 200, headers });
+    }) as any;
+
+    const { client } = createMCPServer({
+      apiKey: "test-api-key",
+      singleton: false,
+      integrations: [
+        githubIntegration({ clientId: "github-id", clientSecret: "github-secret" }),
+      ],
+    });
+
+    await client.connect();
+
+    // MCP server redeploys and drops all sessions
+    currentSession = "session-2";
+    posts.length = 0;
+
+    const result = await client.github.listOwnRepos({});
+
+    expect(result).toEqual([{ name: "sdk" }] as any);
+    expect(posts.map((p) => `${p.method}@${p.session ?? "none"}`)).toEqual([
+      "tools/call@session-1",
+      "initialize@none",
+      "notifications/initialized@session-2",
+      "tools/list@session-2",
+      "tools/call@session-2",
+    ]);
+    expect(client.getTool("github_list_own_repos")).toBeDefined();
+
+    await client.disconnect();
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Tool Result Cache Tests
+ * Verifies read-through caching, identity scoping, write invalidation and stats
+ */
+
+import { describe, test, expect, beforeEach } from "bun:test";
+import { createMCPServer } from "../../src/server.js";
+import { genericOAuthIntegration } from "../../src/integrations/generic.js";
+import { getVercelAITools } from "../../src/ai/vercel-ai.js";
+import { createMemoryCacheStore } from "../../src/utils/tool-cache.js";
+import { createMockMCPServer } from "../../src/testing/index.js";
+import type { MockMCPServer } from "../../src/testing/index.js";
+import type { MCPServerConfig } from "../../src/config/types.js";
+
+describe("Tool Result Cache", () => {
+  let server: MockMCPServer;
+  let title: string;
+
+  beforeEach(() => {
+    title = "First";
+    server = createMockMCPServer({
+      handlers: {
+        linear_get_issue: (args) => ({ id: args.id, title }),
+        linear_list_teams: () => [],
+        linear_update_issue: (args) => {
+          title = String(args.title);
+          return { ok: true };
+        },
+      },
+    });
+  });
+
+  function createServer(config: Partial<MCPServerConfig<any>> = {}) {
+    return createMCPServer({
+      singleton: false,
+      transport: server.createTransport(),
+      integrations: [
+        genericOAuthIntegration({
+          id: "linear",
+          provider: "linear",
+          clientId: "id",
+          clientSecret: "secret",
+          scopes: ["read"],
+          tools: ["linear_get_issue", "linear_list_teams", "linear_update_issue"],
+        }),
+      ],
+      getProviderToken: async (_provider, context) => ({
+        accessToken: `token-${context?.userId ?? "anonymous"}`,
+        tokenType: "Bearer",
+        expiresIn: 3600,
+      }),
+      cache: { tools: { linear_get_issue: 60_000 } },
+      ...config,
+    }).client;
+  }
+
+  function issueCalls() {
+    return server.toolCalls.filter((call) => call.name === "linear_get_issue");
+  }
+
+  test("serves repeated calls with equal arguments from the cache", async () => {
+    const client = createServer();
+    await client.connect();
+
+    const first = await client.linear.getIssue!({ id: "1", fields: { a: 1, b: 2 } });
+    const second = await client.linear.getIssue!({ fields: { b: 2, a: 1 }, id: "1" });
+    await client.linear.getIssue!({ id: "2" });
+
+    expect(second).toEqual(first);
+    expect(issueCalls()).toHaveLength(2);
+    expect(client.getCacheStats()).toEqual({ hits: 1, misses: 2, invalidations: 0 });
+    await client.disconnect();
+  });
+
+  test("does not share results between users", async () => {
+    const client = createServer();
+    await client.connect();
+
+    await client.linear.getIssue!({ id: "1" }, { context: { userId: "alice" } });
+    await client.linear.getIssue!({ id: "1" }, { context: { userId: "bob" } });
+    await client.linear.getIssue!({ id: "1" }, { context: { userId: "alice" } });
+
+    expect(issueCalls().map((call) => call.headers.authorization)).toEqual([
+      "Bearer token-alice",
+      "Bearer token-bob",
+    ]);
+    await client.disconnect();
+  });
+
+  test("write tools invalidate the provider's cached results", async () => {
+    const client = createServer();
+    await client.connect();
+
+    await client.linear.getIssue!({ id: "1" });
+    await client.linear.listTeams!({});
+    expect(client.getCacheStats().invalidations).toBe(0);
+
+    await client.linear.updateIssue!({ id: "1", title: "Second" });
+    const issue = await client.linear.getIssue!({ id: "1" });
+
+    expect(issue).toEqual({ id: "1", title: "Second" });
+    expect(issueCalls()).toHaveLength(2);
+    expect(client.getCacheStats()).toEqual({ hits: 0, misses: 2, invalidations: 1 });
+    await client.disconnect();
+  });
+
+  test("results expire after the tool's TTL", async () => {
+    const client = createServer({ cache: { tools: { linear_get_issue: 0 } } });
+    await client.connect();
+
+    await client.linear.getIssue!({ id: "1" });
+    await client.linear.getIssue!({ id: "1" });
+
+    expect(issueCalls()).toHaveLength(2);
+    await client.disconnect();
+  });
+
+  test("clients sharing a store share results and invalidations", async () => {
+    const store = createMemoryCacheStore();
+    const first = createServer({ cache: { tools: { linear_get_issue: 60_000 }, store } });
+    const second = createServer({ cache: { tools: { linear_get_issue: 60_000 }, store } });
+    await first.connect();
+    await second.connect();
+
+    await first.linear.getIssue!({ id: "1" });
+    await second.linear.getIssue!({ id: "1" });
+    expect(issueCalls()).toHaveLength(1);
+
+    await second.linear.updateIssue!({ id: "1", title: "Second" });
+    expect(await first.linear.getIssue!({ id: "1" })).toEqual({ id: "1", title: "Second" });
+    await first.disconnect();
+    await second.disconnect();
+  });
+
+  test("AI tool execute functions use the cache", async () => {
+    const client = createServer();
+    const tools = await getVercelAITools(client, { providerTokens: { linear: "ai-token" } });
+
+    await tools.linear_get_issue.execute({ id: "1" });
+    await tools.linear_get_issue.execute({ id: "1" });
+
+    expect(issueCalls()).toHaveLength(1);
+    expect(client.getCacheStats().hits).toBe(1);
+    await client.disconnect();
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Tool Event Tests
+ * Verifies tool:start, tool:success and tool:error events for client and /mcp route calls
+ */
+
+import { describe, test, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { createMCPServer } from "../../src/server.js";
+import { genericOAuthIntegration } from "../../src/integrations/generic.js";
+import { AuthenticationError, ValidationError } from "../../src/errors.js";
+import { createMockMCPServer, MockMCPError } from "../../src/testing/index.js";
+import type { MockMCPServer } from "../../src/testing/index.js";
+import type { MCPServerConfig } from "../../src/config/types.js";
+
+describe("Tool Events", () => {
+  let server: MockMCPServer;
+  let failures: number;
+  let events: Array<[string, any]>;
+  let log: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    log = spyOn(console, "error").mockImplementation(() => {});
+    failures = 0;
+    events = [];
+    server = createMockMCPServer({
+      tools: [
+        {
+          name: "linear_list_teams",
+          inputSchema: { type: "object", properties: { query: { type: "string" } } },
+        },
+      ],
+      handlers: {
+        linear_list_teams: () => {
+          if (failures > 0) {
+            failures--;
+            throw new MockMCPError(401, "Token expired");
+          }
+          return [];
+        },
+        list_tools_by_integration: () => ({ tools: [] }),
+      },
+    });
+  });
+
+  afterEach(() => {
+    log.mockRestore();
+  });
+
+  function createServer(config: Partial<MCPServerConfig<any>> = {}) {
+    const result = createMCPServer({
+      singleton: false,
+      transport: server.createTransport(),
+      integrations: [
+        genericOAuthIntegration({
+          id: "linear",
+          provider: "linear",
+          clientId: "id",
+          clientSecret: "secret",
+          scopes: ["read"],
+          tools: ["linear_list_teams"],
+        }),
+      ],
+      getProviderToken: async () => ({ accessToken: "linear-token", tokenType: "Bearer", expiresIn: 3600 }),
+      ...config,
+    });
+    for (const event of ["tool:start", "tool:success", "tool:error"] as const) {
+      result.client.on(event as "tool:start", (payload) => events.push([event, payload]));
+    }
+    return result;
+  }
+
+  test("emits start and success with the tool, provider and argument size", async () => {
+    const { client } = createServer();
+    await client.connect();
+
+    await client.linear.listTeams!({ query: "é" });
+
+    expect(events.map(([event]) => event)).toEqual(["tool:start", "tool:success"]);
+    expect(events[0]![1]).toEqual({
+      toolName: "linear_list_teams",
+      provider: "linear",
+      argumentSize: 14,
+      retryCount: 0,
+    });
+    expect(events[1]![1].durationMs).toBeGreaterThanOrEqual(0);
+    await client.disconnect();
+  });
+
+  test("emits an event per re-authentication attempt with the parsed error", async () => {
+    failures = 1;
+    const { client } = createServer({ onReauthRequired: async () => true });
+    await client.connect();
+
+    await client.linear.listTeams!({});
+
+    expect(events.map(([event, payload]) => [event, payload.retryCount])).toEqual([
+      ["tool:start", 0],
+      ["tool:error", 0],
+      ["tool:start", 1],
+      ["tool:success", 1],
+    ]);
+    expect(events[1]![1].error).toBeInstanceOf(AuthenticationError);
+    expect(events[1]![1].error.provider).toBe("linear");
+    await client.disconnect();
+  });
+
+  test("reports calls rejected before reaching the server", async () => {
+    const { client } = createServer({ validateArguments: "strict" });
+    await client.connect();
+
+    await expect(client.linear.listTeams!({ query: 5 })).rejects.toBeInstanceOf(ValidationError);
+
+    expect(events.map(([event]) => event)).toEqual(["tool:start", "tool:error"]);
+    expect(events[1]![1].error).toBeInstanceOf(ValidationError);
+    expect(server.toolCalls).toHaveLength(0);
+    await client.disconnect();
+  });
+
+  test("emits events for server tools without a provider", async () => {
+    const { client } = createServer();
+    await client.connect();
+
+    await client.server.listToolsByIntegration({ integration: "linear" });
+
+    expect(events.map(([event]) => event)).toEqual(["tool:start", "tool:success"]);
+    expect(events[0]![1].toolName).toBe("list_tools_by_integration");
+    expect(events[0]![1].provider).toBeUndefined();
+    await client.disconnect();
+  });
+
+  test("the /mcp route reports forwarded calls on the client", async () => {
+    const originalFetch = global.fetch;
+    global.fetch = (async () =>
+      new Response(JSON.stringify({ jsonrpc: "2.0", id: 1, error: { code: 401, message: "Unauthorized" } }))
+    ) as unknown as typeof fetch;
+
+    try {
+      const { POST } = createServer();
+      const response = await POST(
+        new Request("http://localhost/api/integrate/mcp", {
+          method: "POST",
+          body: JSON.stringify({ name: "linear_list_teams", arguments: {} }),
+        }),
+        { params: { action: "mcp" } }
+      );
+
+      expect(response.status).not.toBe(200);
+      expect(events.map(([event]) => event)).toEqual(["tool:start", "tool:error"]);
+      expect(events[0]![1]).toEqual({
+        toolName: "linear_list_teams",
+        provider: "linear",
+        argumentSize: 2,
+        retryCount: 0,
+      });
+      expect(events[1]![1].error).toBeInstanceOf(AuthenticationError);
+    } finally {
+      global.fetch = originalFetch;
+    }
+  });
+});
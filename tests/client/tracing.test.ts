@@ -0,0 +1,154 @@
+/**
+ * Tracing Tests
+ * Verifies spans and traceparent propagation with an in-memory tracer
+ */
+
+import { describe, test, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { createMCPServer } from "../../src/server.js";
+import { genericOAuthIntegration } from "../../src/integrations/generic.js";
+import { OAuthHandler } from "../../src/adapters/base-handler.js";
+import { LATEST_PROTOCOL_VERSION } from "../../src/protocol/messages.js";
+import { createInMemoryTracer, createMockMCPServer, MockMCPError } from "../../src/testing/index.js";
+import type { InMemoryTracer, MockMCPServer, RecordedSpan } from "../../src/testing/index.js";
+
+function traceparent(span: RecordedSpan): string {
+  return `00-${span.traceId}-${span.spanId}-01`;
+}
+
+describe("Tracing", () => {
+  let server: MockMCPServer;
+  let tracer: InMemoryTracer;
+  let log: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    log = spyOn(console, "log").mockImplementation(() => {});
+    tracer = createInMemoryTracer();
+    server = createMockMCPServer({
+      handlers: {
+        linear_list_teams: () => [],
+        linear_get_team: () => {
+          throw new MockMCPError(403, "Forbidden");
+        },
+      },
+    });
+  });
+
+  afterEach(() => {
+    log.mockRestore();
+  });
+
+  function createClient() {
+    const { client } = createMCPServer({
+      singleton: false,
+      transport: server.createTransport(),
+      integrations: [
+        genericOAuthIntegration({
+          id: "linear",
+          provider: "linear",
+          clientId: "id",
+          clientSecret: "secret",
+          scopes: ["read"],
+          tools: ["linear_list_teams", "linear_get_team"],
+        }),
+      ],
+      getProviderToken: async () => ({ accessToken: "linear-token", tokenType: "Bearer", expiresIn: 3600 }),
+      tracer,
+    });
+    return client;
+  }
+
+  test("nests initialize and tool discovery under the connect span", async () => {
+    const client = createClient();
+    await client.connect();
+
+    const [connect, initialize, discover] = tracer.spans;
+    expect(tracer.spans.map((span) => span.name)).toEqual([
+      "integrate.client.connect",
+      "integrate.client.initialize",
+      "integrate.client.discover_tools",
+    ]);
+    expect(initialize!.parentSpanId).toBe(connect!.spanId);
+    expect(discover!.parentSpanId).toBe(connect!.spanId);
+    expect(initialize!.attributes["integrate.protocol_version"]).toBe(LATEST_PROTOCOL_VERSION);
+    expect(tracer.spans.every((span) => span.ended && span.status.code === 1)).toBe(true);
+    expect(server.requests.find((request) => request.method === "initialize")?.headers.traceparent).toBe(
+      traceparent(initialize!)
+    );
+    await client.disconnect();
+  });
+
+  test("records tool, provider and status and propagates trace context to the server", async () => {
+    const client = createClient();
+    await client.connect();
+    tracer.reset();
+
+    await client.linear.listTeams!({});
+
+    const [span] = tracer.spans;
+    expect(span!.name).toBe("integrate.client.tool_call");
+    expect(span!.attributes).toEqual({
+      "integrate.tool.name": "linear_list_teams",
+      "integrate.provider": "linear",
+      "integrate.retry_count": 0,
+      "integrate.status": "ok",
+    });
+    expect(server.toolCalls[0]!.headers.traceparent).toBe(traceparent(span!));
+    await client.disconnect();
+  });
+
+  test("marks failed tool calls as errors", async () => {
+    const client = createClient();
+    await client.connect();
+    tracer.reset();
+
+    await expect(client.linear.getTeam!({})).rejects.toThrow("Forbidden");
+
+    const [span] = tracer.spans;
+    expect(span!.status).toEqual({ code: 2, message: "Forbidden" });
+    expect(span!.attributes["integrate.status"]).toBe("error");
+    expect(span!.attributes["error.type"]).toBe("AuthorizationError");
+    expect(span!.exceptions).toHaveLength(1);
+    expect(span!.ended).toBe(true);
+    await client.disconnect();
+  });
+
+  test("traces OAuthHandler requests to the MCP server", async () => {
+    const originalFetch = global.fetch;
+    const headers: Array<Record<string, string>> = [];
+    global.fetch = (async (_url: string, init?: RequestInit) => {
+      headers.push(init?.headers as Record<string, string>);
+      return new Response(
+        JSON.stringify({
+          jsonrpc: "2.0",
+          id: 1,
+          result: { content: [{ type: "text", text: "[]" }] },
+          authorizationUrl: "https://linear.app/oauth",
+        })
+      );
+    }) as unknown as typeof fetch;
+
+    try {
+      const handler = new OAuthHandler({
+        providers: { linear: { clientId: "id", clientSecret: "secret" } },
+        getToolProvider: () => "linear",
+        tracer,
+      });
+      await handler.handleAuthorize({
+        provider: "linear",
+        state: "state",
+        codeChallenge: "challenge",
+        codeChallengeMethod: "S256",
+      });
+      await handler.handleToolCall({ name: "linear_list_teams", arguments: {} }, "Bearer linear-token");
+
+      const [authorize, toolCall] = tracer.spans;
+      expect(authorize!.name).toBe("integrate.handler.authorize");
+      expect(authorize!.attributes["integrate.provider"]).toBe("linear");
+      expect(toolCall!.name).toBe("integrate.handler.tool_call");
+      expect(toolCall!.attributes["integrate.tool.name"]).toBe("linear_list_teams");
+      expect(headers.map((h) => h.traceparent)).toEqual([traceparent(authorize!), traceparent(toolCall!)]);
+    } finally {
+      global.fetch = originalFetch;
+    }
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Typed Tool Results Tests
+ * Verifies that integration methods resolve with parsed data
+ */
+
+import { describe, test, expect, beforeEach } from "bun:test";
+import { createMCPServer } from "../../src/server.js";
+import { githubIntegration } from "../../src/integrations/github.js";
+import { notionIntegration } from "../../src/integrations/notion.js";
+import { createMockMCPServer } from "../../src/testing/index.js";
+import type { MockMCPServer } from "../../src/testing/index.js";
+import { getRawResponse } from "../../src/utils/tool-result.js";
+import { ToolCallError, ToolResultParseError } from "../../src/errors.js";
+
+describe("Typed Tool Results", () => {
+  let server: MockMCPServer;
+
+  beforeEach(() => {
+    delete (globalThis as any).window;
+    server = createMockMCPServer();
+  });
+
+  const createClient = async () => {
+    const { client } = createMCPServer({
+      singleton: false,
+      transport: server.createTransport(),
+      integrations: [
+        githubIntegration({ clientId: "id", clientSecret: "secret" }),
+        notionIntegration({ clientId: "id", clientSecret: "secret" }),
+      ],
+    });
+    await client.connect();
+    return client;
+  };
+
+  test("parses JSON text content", async () => {
+    server.setTool("github_get_repo", (args) => ({ name: args.repo, full_name: `${args.owner}/${args.repo}` }));
+    const client = await createClient();
+
+    const repo = await client.github.getRepo({ owner: "octocat", repo: "hello-world" });
+
+    expect(repo.full_name).toBe("octocat/hello-world");
+    await client.disconnect();
+  });
+
+  test("prefers structuredContent over text content", async () => {
+    server.setTool("notion_search", () => ({
+      content: [{ type: "text", text: "Found 1 page" }],
+      structuredContent: { object: "list", results: [{ id: "page-1" }], next_cursor: null, has_more: false },
+    }));
+    const client = await createClient();
+
+    const response = await client.notion.search({ query: "roadmap" });
+
+    expect(response.results[0]!.id).toBe("page-1");
+    expect(response.has_more).toBe(false);
+    await client.disconnect();
+  });
+
+  test("keeps the raw response reachable", async () => {
+    server.setTool("github_list_own_repos", () => ({
+      content: [{ type: "text", text: JSON.stringify([{ name: "sdk" }]) }],
+      _meta: { requestId: "abc" },
+    }));
+    const client = await createClient();
+
+    const repos = await client.github.listOwnRepos();
+
+    expect(repos.map((repo) => repo.name)).toEqual(["sdk"]);
+    expect(getRawResponse(repos)?._meta).toEqual({ requestId: "abc" });
+    expect(getRawResponse({ name: "sdk" })).toBeUndefined();
+    await client.disconnect();
+  });
+
+  test("returns an array for several text items and undefined for none", async () => {
+    server.setTool("github_list_branches", () => ({
+      content: [
+        { type: "text", text: JSON.stringify({ name: "main" }) },
+        { type: "text", text: JSON.stringify({ name: "dev" }) },
+      ],
+    }));
+    server.setTool("github_close_issue", () => ({ content: [] }));
+    const client = await createClient();
+
+    const branches = await client.github.listBranches({ owner: "o", repo: "r" });
+    const closed = await client.github.closeIssue({ owner: "o", repo: "r", issue_number: 1 });
+
+    expect(branches.map((branch) => branch.name)).toEqual(["main", "dev"]);
+    expect(closed).toBeUndefined();
+    await client.disconnect();
+  });
+
+  test("throws ToolResultParseError for content that is not JSON", async () => {
+    server.setTool("github_get_user", () => ({ content: [{ type: "text", text: "Not Found" }] }));
+    const client = await createClient();
+
+    const error = await client.github.getUser({ username: "ghost" }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ToolResultParseError);
+    expect(error.message).toBe("Tool github_get_user returned content that is not valid JSON: Not Found");
+    expect(error.toolName).toBe("github_get_user");
+    expect(error.response.content[0].text).toBe("Not Found");
+    await client.disconnect();
+  });
+
+  test("throws ToolCallError for responses flagged with isError", async () => {
+    server.setTool("github_get_issue", () => ({
+      content: [{ type: "text", text: "Issue is locked" }],
+      isError: true,
+    }));
+    const client = await createClient();
+
+    const error = await client.github.getIssue({ owner: "o", repo: "r", issue_number: 1 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ToolCallError);
+    expect(error).not.toBeInstanceOf(ToolResultParseError);
+    expect(error.message).toBe("Issue is locked");
+    await client.disconnect();
+  });
+
+  test("leaves callServerTool responses raw", async () => {
+    server.setTool("github_get_repo", () => ({ name: "sdk" }));
+    const client = await createClient();
+
+    const response = await client.callServerTool("github_get_repo", {});
+
+    expect(response.content[0]!.text).toBe(JSON.stringify({ name: "sdk" }));
+    await client.disconnect();
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Code Generator Tests
+ * Verifies generated integration types from tools/list and saved snapshots
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { generateIntegrationTypes, runCodegenCli, schemaToTypeScript } from "../../src/codegen/index.js";
+import { createMockMCPServer } from "../../src/testing/index.js";
+import type { MCPTool } from "../../src/protocol/messages.js";
+
+const TOOLS: MCPTool[] = [
+  {
+    name: "linear_create_issue",
+    description: "Create a Linear issue",
+    inputSchema: {
+      type: "object",
+      properties: {
+        teamId: { type: "string", description: "Team to file the issue in" },
+        title: { type: "string" },
+        priority: { type: "integer", enum: [0, 1, 2] },
+        labels: { type: "array", items: { type: "string" } },
+        "due-date": { type: ["string", "null"] },
+      },
+      required: ["teamId", "title"],
+    },
+  },
+  {
+    name: "linear_list_teams",
+    inputSchema: { type: "object", properties: {} },
+  },
+  {
+    name: "slack_send_message",
+    description: "Send a message",
+    inputSchema: {
+      type: "object",
+      properties: { channel: { type: "string" }, text: { type: "string" } },
+      required: ["channel", "text"],
+    },
+  },
+];
+
+describe("Code Generator", () => {
+  describe("schemaToTypeScript", () => {
+    test("renders primitive, enum and union types", () => {
+      expect(schemaToTypeScript({ type: "integer" })).toBe("number");
+      expect(schemaToTypeScript({ enum: ["open", "closed"] })).toBe('"open" | "closed"');
+      expect(schemaToTypeScript({ type: ["string", "null"] })).toBe("string | null");
+      expect(schemaToTypeScript({ anyOf: [{ type: "string" }, {}] })).toBe("unknown");
+      expect(schemaToTypeScript(undefined)).toBe("unknown");
+    });
+
+    test("parenthesizes unions inside arrays", () => {
+      expect(
+        schemaToTypeScript({ type: "array", items: { anyOf: [{ type: "string" }, { type: "number" }] } })
+      ).toBe("(string | number)[]");
+      expect(schemaToTypeScript({ type: "array", items: { type: "object", nullable: true } })).toBe(
+        "(Record<string, unknown> | null)[]"
+      );
+    });
+
+    test("renders objects with optional, quoted and documented properties", () => {
+      expect(
+        schemaToTypeScript({
+          type: "object",
+          properties: {
+            id: { type: "string", description: "Identifier" },
+            "x-count": { type: "number" },
+          },
+          required: ["id"],
+        })
+      ).toBe('{\n  /** Identifier */\n  id: string;\n  "x-count"?: number;\n}');
+    });
+  });
+
+  describe("generateIntegrationTypes", () => {
+    test("groups tools by integration and emits interfaces and tool arrays", async () => {
+      const { code, files } = await generateIntegrationTypes({ snapshot: TOOLS });
+
+      expect(Object.keys(files)).toEqual(["linear", "slack"]);
+      expect(files.linear).toContain('export const LINEAR_TOOLS = [\n  "linear_create_issue",\n  "linear_list_teams",\n] as const;');
+      expect(files.linear).toContain("export interface LinearIntegrationClient {");
+      expect(files.linear).toContain("   * Create a Linear issue\n");
+      expect(files.linear).toContain("  createIssue(params: {\n    /** Team to file the issue in */\n    teamId: string;");
+      expect(files.linear).toContain("    priority?: 0 | 1 | 2;");
+      expect(files.linear).toContain('    "due-date"?: string | null;');
+      expect(files.linear).toContain("  listTeams(params?: Record<string, unknown>, options?: ToolCallOptions): Promise<unknown>;");
+      expect(code).toContain("import type { ToolCallOptions } from 'integrate-sdk';");
+      expect(files.slack).toContain("export interface SlackIntegrationClient {");
+
+      // Generated code must be valid TypeScript
+      expect(() => new Bun.Transpiler({ loader: "ts" }).transformSync(code)).not.toThrow();
+    });
+
+    test("limits output to the requested integrations", async () => {
+      const { files } = await generateIntegrationTypes({ snapshot: { tools: TOOLS }, integrations: ["slack"] });
+
+      expect(Object.keys(files)).toEqual(["slack"]);
+    });
+
+    test("fetches tools/list from the MCP server", async () => {
+      const server = createMockMCPServer({ tools: TOOLS });
+
+      const { files } = await generateIntegrationTypes({ transport: server.createTransport() });
+
+      expect(Object.keys(files)).toEqual(["linear", "slack"]);
+      expect(server.requests.map((request) => request.method)).toEqual([
+        "initialize",
+        "notifications/initialized",
+        "tools/list",
+      ]);
+    });
+
+    test("rejects malformed snapshots", async () => {
+      await expect(generateIntegrationTypes({ snapshot: { nope: true } as any })).rejects.toThrow(
+        "Tools snapshot must be a tools/list result"
+      );
+    });
+  });
+
+  describe("CLI", () => {
+    let dir: string;
+
+    beforeAll(async () => {
+      dir = await mkdtemp(join(tmpdir(), "integrate-codegen-"));
+      await writeFile(join(dir, "tools.json"), JSON.stringify({ tools: TOOLS }));
+    });
+
+    afterAll(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    test("writes generated types from a snapshot file", async () => {
+      const stderr: string[] = [];
+      const out = join(dir, "types.ts");
+
+      const code = await runCodegenCli(
+        ["--snapshot", join(dir, "tools.json"), "--integrations", "linear", "--out", out],
+        { stdout: () => {}, stderr: (text) => stderr.push(text) }
+      );
+
+      expect(code).toBe(0);
+      expect(await readFile(out, "utf8")).toContain("export interface LinearIntegrationClient {");
+      expect(stderr).toEqual([`Generated 1 integration(s) in ${out}\n`]);
+    });
+
+    test("reports failures with a non-zero exit code", async () => {
+      const stderr: string[] = [];
+
+      const code = await runCodegenCli(["--snapshot", join(dir, "missing.json")], {
+        stdout: () => {},
+        stderr: (text) => stderr.push(text),
+      });
+
+      expect(code).toBe(1);
+      expect(stderr[0]).toStartWith("Code generation failed: Failed to read tools snapshot");
+    });
+  });
+});
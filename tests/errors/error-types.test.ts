@@ -11,6 +11,7 @@ import {
   TokenExpiredError,
   ConnectionError,
   ToolCallError,
+  RateLimitError,
   isAuthError,
   isTokenExpiredError,
   isAuthorizationError,
@@ -253,6 +254,42 @@ describe("Error Types", () => {
       const error = parseServerError(null);
       expect(error).toBeInstanceOf(IntegrateSDKError);
     });
+
+    test("creates RateLimitError with Retry-After from HTTP 429 responses", () => {
+      const err = new Error("Request failed: Too Many Requests") as any;
+      err.statusCode = 429;
+      err.retryAfter = "30";
+      const error = parseServerError(err, { toolName: "github_get_repo", provider: "github" });
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect((error as RateLimitError).retryAfter).toBe(30);
+      expect((error as RateLimitError).provider).toBe("github");
+    });
+
+    test("reads retryAfter from JSON-RPC rate limit data", () => {
+      const error = parseServerError({
+        code: 429,
+        message: "Rate limited",
+        data: { headers: { "retry-after": "2" } },
+      });
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect((error as RateLimitError).retryAfter).toBe(2);
+    });
+
+    test("reads retryAfter from upstream rate limit reset times", () => {
+      const reset = Math.floor(Date.now() / 1000) + 60;
+      const error = parseServerError({
+        code: 429,
+        message: "API rate limit exceeded",
+        data: { headers: { "x-ratelimit-reset": String(reset) } },
+      }) as RateLimitError;
+      expect(error.retryAfter).toBeGreaterThan(58);
+      expect(error.retryAfter).toBeLessThanOrEqual(60);
+    });
+
+    test("returns SDK errors unchanged", () => {
+      const original = new RateLimitError("Rate limited", 5);
+      expect(parseServerError(original, { toolName: "github_get_repo" })).toBe(original);
+    });
   });
 });
 
@@ -109,7 +109,7 @@ describe("Integration - Error Handling", () => {
           ok: true,
           status: 200,
           json: async () => ({
-            content: [{ type: "text", text: "api handler result" }],
+            content: [{ type: "text", text: JSON.stringify({ name: "test", full_name: "test/test" }) }],
           }),
           headers: new Headers(),
         } as Response;
@@ -131,8 +131,7 @@ describe("Integration - Error Handling", () => {
 
     // Should work through API handler without calling connect()
     const result = await client.github.getRepo({ owner: "test", repo: "test" });
-    expect(result.content).toHaveLength(1);
-    expect(result.content[0].text).toBe("api handler result");
+    expect(result.full_name).toBe("test/test");
   });
 
   test.skip("handles connection to invalid URL", async () => {
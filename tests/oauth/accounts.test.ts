@@ -0,0 +1,222 @@
+/**
+ * Provider Account Tests
+ * Verifies several connected accounts per OAuth provider
+ */
+
+import { describe, test, expect, beforeEach, afterEach, mock, spyOn } from "bun:test";
+import { OAuthManager } from "../../src/oauth/manager.js";
+import { createMCPServer } from "../../src/server.js";
+import { genericOAuthIntegration } from "../../src/integrations/generic.js";
+import { githubIntegration } from "../../src/integrations/github.js";
+import { createMockMCPServer } from "../../src/testing/index.js";
+import type { MockMCPServer } from "../../src/testing/index.js";
+import type { ProviderTokenData } from "../../src/oauth/types.js";
+
+const TEST_SERVER_URL = "https://test.mcp.server.com";
+
+function token(accessToken: string): ProviderTokenData {
+  return { accessToken, tokenType: "Bearer", expiresIn: 3600 };
+}
+
+describe("Provider Accounts", () => {
+  describe("OAuthManager", () => {
+    let manager: OAuthManager;
+
+    beforeEach(() => {
+      manager = new OAuthManager(TEST_SERVER_URL);
+    });
+
+    afterEach(() => {
+      manager.close();
+    });
+
+    test("stores a token per account and lists accounts in connection order", async () => {
+      await manager.setProviderToken("github", token("work-token"), undefined, "work");
+      await manager.setProviderToken("github", token("personal-token"), undefined, "personal");
+      await manager.setProviderToken("gmail", token("gmail-token"));
+
+      expect(await manager.listAccounts("github")).toEqual(["work", "personal"]);
+      expect(await manager.listAccounts("gmail")).toEqual(["default"]);
+      expect((await manager.getProviderToken("github", undefined, "personal"))?.accessToken).toBe("personal-token");
+      expect((await manager.getProviderToken("github", undefined, "work"))?.accessToken).toBe("work-token");
+    });
+
+    test("defaults to the unnamed account, then the first connected account", async () => {
+      await manager.setProviderToken("github", token("work-token"), undefined, "work");
+      expect((await manager.getProviderToken("github"))?.accessToken).toBe("work-token");
+
+      await manager.setProviderToken("github", token("main-token"));
+      expect((await manager.getProviderToken("github"))?.accessToken).toBe("main-token");
+      expect((await manager.getProviderToken("github", undefined, "default"))?.accessToken).toBe("main-token");
+    });
+
+    test("setDefaultAccount overrides the default rule until the account is removed", async () => {
+      await manager.setProviderToken("github", token("main-token"));
+      await manager.setProviderToken("github", token("work-token"), undefined, "work");
+
+      manager.setDefaultAccount("github", "work");
+      expect((await manager.getProviderToken("github"))?.accessToken).toBe("work-token");
+      expect(manager.getAllProviderTokens().get("github")?.accessToken).toBe("work-token");
+
+      await manager.setProviderToken("github", null, undefined, "work");
+      expect((await manager.getProviderToken("github"))?.accessToken).toBe("main-token");
+    });
+
+    test("passes the account id to token callbacks only for named accounts", async () => {
+      const getProviderToken = mock(async (_provider: string, _context?: unknown, accountId?: string) =>
+        token(`${accountId ?? "default"}-token`)
+      );
+      const setProviderToken = mock(async () => {});
+      const callbackManager = new OAuthManager(TEST_SERVER_URL, undefined, undefined, {
+        getProviderToken,
+        setProviderToken,
+      });
+
+      await callbackManager.getProviderToken("github", { userId: "u1" });
+      await callbackManager.getProviderToken("github", { userId: "u1" }, "work");
+      await callbackManager.setProviderToken("github", token("new"), { userId: "u1" }, "work");
+
+      expect(getProviderToken.mock.calls).toEqual([
+        ["github", { userId: "u1" }],
+        ["github", { userId: "u1" }, "work"],
+      ]);
+      expect(setProviderToken).toHaveBeenCalledWith("github", token("new"), { userId: "u1" }, "work");
+    });
+  });
+
+  describe("Client", () => {
+    let server: MockMCPServer;
+    let removeProviderToken: ReturnType<typeof mock>;
+    let warn: ReturnType<typeof spyOn>;
+
+    const tokens: Record<string, ProviderTokenData> = {
+      work: token("work-token"),
+      personal: token("personal-token"),
+    };
+
+    beforeEach(() => {
+      delete (globalThis as any).window;
+      warn = spyOn(console, "warn").mockImplementation(() => {});
+      removeProviderToken = mock(async () => {});
+      server = createMockMCPServer({
+        handlers: { linear_list_teams: () => [] },
+      });
+    });
+
+    afterEach(() => {
+      warn.mockRestore();
+    });
+
+    function createClient() {
+      const { client } = createMCPServer({
+        singleton: false,
+        transport: server.createTransport(),
+        integrations: [
+          genericOAuthIntegration({
+            id: "linear",
+            provider: "linear",
+            clientId: "id",
+            clientSecret: "secret",
+            scopes: ["read"],
+            tools: ["linear_list_teams"],
+          }),
+        ],
+        getProviderToken: async (_provider, _context, accountId) => (accountId ? tokens[accountId] : undefined),
+        listProviderAccounts: async () => ["work", "personal"],
+        removeProviderToken,
+      });
+      return client;
+    }
+
+    test("authorizes tool calls with the requested account's token", async () => {
+      const client = createClient();
+      await client.connect();
+
+      await client.linear.listTeams!({}, { accountId: "personal" });
+      await client.linear.listTeams!({});
+
+      expect(server.toolCalls.map((call) => call.headers.authorization)).toEqual([
+        "Bearer personal-token",
+        "Bearer work-token",
+      ]);
+      expect(await client.listAccounts("linear")).toEqual(["work", "personal"]);
+      await client.disconnect();
+    });
+
+    test("resolves the default account per context when tokens come from callbacks", async () => {
+      const tenantTokens: Record<string, Record<string, ProviderTokenData>> = {
+        a: { work: token("a-work-token") },
+        b: { default: token("b-token") },
+      };
+      const getProviderToken = mock(async (_provider: string, context?: { userId?: string }, accountId?: string) =>
+        tenantTokens[context?.userId ?? ""]?.[accountId ?? "default"]
+      );
+      const { client } = createMCPServer({
+        singleton: false,
+        transport: server.createTransport(),
+        integrations: [
+          genericOAuthIntegration({
+            id: "linear",
+            provider: "linear",
+            clientId: "id",
+            clientSecret: "secret",
+            scopes: ["read"],
+            tools: ["linear_list_teams"],
+          }),
+        ],
+        getProviderToken,
+      });
+      await client.connect();
+      getProviderToken.mockClear();
+
+      await client.linear.listTeams!({}, { context: { userId: "a" }, accountId: "work" });
+      client.setDefaultAccount("linear", "work");
+      await client.linear.listTeams!({}, { context: { userId: "b" } });
+
+      expect(getProviderToken.mock.calls).toEqual([
+        ["linear", { userId: "a" }, "work"],
+        ["linear", { userId: "b" }],
+      ]);
+      expect(server.toolCalls.map((call) => call.headers.authorization)).toEqual([
+        "Bearer a-work-token",
+        "Bearer b-token",
+      ]);
+      expect(warn).toHaveBeenCalled();
+      await client.disconnect();
+    });
+
+    test("selects the account per call through typed integration methods", async () => {
+      const githubServer = createMockMCPServer({
+        handlers: { github_list_own_repos: () => [] },
+      });
+      const { client } = createMCPServer({
+        singleton: false,
+        transport: githubServer.createTransport(),
+        integrations: [githubIntegration({ clientId: "id", clientSecret: "secret" })],
+        getProviderToken: async (_provider, _context, accountId) => (accountId ? tokens[accountId] : undefined),
+      });
+      await client.connect();
+
+      await client.github.listOwnRepos({}, { accountId: "personal" });
+      await client.github.listOwnRepos({ per_page: 10 }, { accountId: "work" });
+
+      expect(githubServer.toolCalls.map((call) => call.headers.authorization)).toEqual([
+        "Bearer personal-token",
+        "Bearer work-token",
+      ]);
+      await client.disconnect();
+    });
+
+    test("disconnects a single account and reports it in the event", async () => {
+      const client = createClient();
+      const onDisconnect = mock(() => {});
+      client.on("auth:disconnect", onDisconnect);
+
+      await client.disconnectProvider("linear", { userId: "u1" }, "personal");
+
+      expect(removeProviderToken).toHaveBeenCalledWith("linear", { userId: "u1" }, "personal");
+      expect(onDisconnect).toHaveBeenCalledWith({ provider: "linear", accountId: "personal" });
+      expect(client.isProviderAuthenticated("linear")).toBe(true);
+    });
+  });
+});
@@ -92,6 +92,107 @@ describe("OAuth Manager", () => {
     });
   });
 
+  describe("Token Refresh", () => {
+    const expiringToken = () => ({
+      accessToken: "old-token",
+      refreshToken: "refresh-123",
+      tokenType: "Bearer",
+      expiresIn: 3600,
+      expiresAt: new Date(Date.now() + 10 * 1000).toISOString(),
+    });
+
+    test("refreshes token that is about to expire via refresh route", async () => {
+      let refreshUrl: string | undefined;
+      global.fetch = mock(async (url: string, options?: any) => {
+        refreshUrl = url;
+        expect(JSON.parse(options.body)).toEqual({ provider: "github", refreshToken: "refresh-123" });
+        return {
+          ok: true,
+          json: async () => ({
+            accessToken: "new-token",
+            tokenType: "Bearer",
+            expiresIn: 3600,
+            expiresAt: new Date(Date.now() + 3600 * 1000).toISOString(),
+          }),
+        } as Response;
+      }) as any;
+
+      await manager.setProviderToken("github", expiringToken());
+      const tokenData = await manager.getProviderToken("github");
+
+      expect(refreshUrl).toBe(`${TEST_SERVER_URL}/refresh`);
+      expect(tokenData?.accessToken).toBe("new-token");
+      expect(tokenData?.refreshToken).toBe("refresh-123");
+      expect(manager.getProviderTokenFromCache("github")?.accessToken).toBe("new-token");
+    });
+
+    test("does not refresh token that is not near expiry", async () => {
+      const fetchMock = mock(async () => ({ ok: true, json: async () => ({}) }));
+      global.fetch = fetchMock as any;
+
+      const tokenData = {
+        ...expiringToken(),
+        expiresAt: new Date(Date.now() + 3600 * 1000).toISOString(),
+      };
+      await manager.setProviderToken("github", tokenData);
+
+      expect(await manager.getProviderToken("github")).toEqual(tokenData);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    test("concurrent calls share a single refresh and persist with original context", async () => {
+      const context = { userId: "user-1" };
+      let stored = expiringToken();
+      const setProviderToken = mock(async (_provider: string, tokenData: any) => {
+        stored = tokenData;
+      });
+      const refreshProviderToken = mock(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        return {
+          accessToken: "new-token",
+          tokenType: "Bearer",
+          expiresIn: 3600,
+          expiresAt: new Date(Date.now() + 3600 * 1000).toISOString(),
+        };
+      });
+
+      const dbManager = new OAuthManager(TEST_SERVER_URL, undefined, undefined, {
+        getProviderToken: async () => stored,
+        setProviderToken,
+        refreshProviderToken,
+      });
+
+      const results = await Promise.all([
+        dbManager.getProviderToken("github", context),
+        dbManager.getProviderToken("github", context),
+        dbManager.getProviderToken("github", context),
+      ]);
+
+      expect(refreshProviderToken).toHaveBeenCalledTimes(1);
+      expect(results.every((token) => token?.accessToken === "new-token")).toBe(true);
+      expect(setProviderToken).toHaveBeenCalledTimes(1);
+      expect(setProviderToken).toHaveBeenCalledWith(
+        "github",
+        expect.objectContaining({ accessToken: "new-token", refreshToken: "refresh-123" }),
+        context
+      );
+      dbManager.close();
+    });
+
+    test("returns current token when refresh fails", async () => {
+      global.fetch = mock(async () => ({
+        ok: false,
+        status: 400,
+        text: async () => "invalid_grant",
+      })) as any;
+
+      const tokenData = expiringToken();
+      await manager.setProviderToken("github", tokenData);
+
+      expect(await manager.getProviderToken("github")).toEqual(tokenData);
+    });
+  });
+
   describe("checkAuthStatus", () => {
     test("returns unauthorized when no token exists locally", async () => {
       const status = await manager.checkAuthStatus("github");
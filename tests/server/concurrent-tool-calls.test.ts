@@ -0,0 +1,102 @@
+/**
+ * Tests for concurrent server-side tool calls
+ * Verifies that provider tokens are scoped to each call and never cross over
+ * between users sharing the singleton server client
+ */
+
+import { describe, test, expect, beforeEach, afterEach, mock } from "bun:test";
+import { createMCPServer } from "../../src/server.js";
+import { githubIntegration } from "../../src/integrations/github.js";
+import type { MCPContext } from "../../src/config/types.js";
+
+const originalFetch = globalThis.fetch;
+
+describe("Concurrent Server Tool Calls", () => {
+  beforeEach(() => {
+    delete (globalThis as any).window;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("each concurrent call carries its own user's provider token", async () => {
+    const userCount = 20;
+
+    // Record which Authorization header reached the server for each user
+    const received = new Map<string, string | undefined>();
+
+    globalThis.fetch = mock(async (_url: any, options: any) => {
+      const body = JSON.parse(options.body);
+      const authHeader = options.headers?.["Authorization"];
+
+      if (body.method !== "tools/call") {
+        const result = body.method === "tools/list"
+          ? { tools: [] }
+          : { protocolVersion: "2024-11-05", capabilities: {}, serverInfo: { name: "test", version: "1.0.0" } };
+        return new Response(JSON.stringify({ jsonrpc: "2.0", id: body.id, result }), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      // Random delay so requests interleave
+      await new Promise((resolve) => setTimeout(resolve, Math.random() * 20));
+
+      received.set(body.params.arguments.user, authHeader);
+
+      return new Response(JSON.stringify({
+        jsonrpc: "2.0",
+        id: body.id,
+        result: {
+          content: [{ type: "text", text: JSON.stringify({ user: body.params.arguments.user }) }],
+        },
+      }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    }) as any;
+
+    const { client } = createMCPServer({
+      apiKey: "test-api-key",
+      singleton: false,
+      integrations: [
+        githubIntegration({
+          clientId: "test-id",
+          clientSecret: "test-secret",
+        }),
+      ],
+      getProviderToken: async (_provider: string, context?: MCPContext) => {
+        if (!context?.userId) return undefined;
+        // Random delay so token lookups resolve out of order
+        await new Promise((resolve) => setTimeout(resolve, Math.random() * 20));
+        return {
+          accessToken: `token-${context.userId}`,
+          tokenType: "Bearer",
+          expiresIn: 3600,
+        };
+      },
+    });
+
+    await client.connect();
+
+    const users = Array.from({ length: userCount }, (_, i) => `user-${i}`);
+    await Promise.all(
+      users.map((userId) =>
+        client.github.listOwnRepos({ user: userId } as any, { context: { userId } })
+      )
+    );
+
+    expect(received.size).toBe(userCount);
+    for (const userId of users) {
+      expect(received.get(userId)).toBe(`Bearer token-${userId}`);
+    }
+
+    // The shared transport headers must never carry a provider token
+    const transportHeaders = (client as any).transport.getHeaders();
+    expect(transportHeaders["Authorization"]).toBeUndefined();
+    expect(transportHeaders["X-API-KEY"]).toBe("test-api-key");
+
+    await client.disconnect();
+  });
+});
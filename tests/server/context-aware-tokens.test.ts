@@ -34,7 +34,7 @@ describe('Context-Aware Token Storage', () => {
     global.fetch = vi.fn().mockResolvedValue({
       ok: true,
       status: 200,
-      json: async () => ({ content: [{ type: 'text', text: 'Success' }] }),
+      json: async () => ({ content: [{ type: 'text', text: '{"success":true}' }] }),
     } as Response);
   });
 
@@ -64,7 +64,7 @@ describe('Context-Aware Token Storage', () => {
 
       // Mock transport methods for server-side path
       (client as any).transport.sendRequest = vi.fn().mockResolvedValue({
-        content: [{ type: 'text', text: 'Success' }],
+        content: [{ type: 'text', text: '{"success":true}' }],
       });
       (client as any).transport.setHeader = vi.fn();
       (client as any).transport.removeHeader = vi.fn();
@@ -101,7 +101,7 @@ describe('Context-Aware Token Storage', () => {
 
       // Mock at callToolThroughHandler level
       vi.spyOn(client as any, 'callToolThroughHandler').mockResolvedValue({
-        content: [{ type: 'text', text: 'Success' }],
+        content: [{ type: 'text', text: '{"success":true}' }],
       });
 
       // Call integration method without context
@@ -134,7 +134,7 @@ describe('Context-Aware Token Storage', () => {
 
       // Mock transport methods for server-side path
       (client as any).transport.sendRequest = vi.fn().mockResolvedValue({
-        content: [{ type: 'text', text: 'Success' }],
+        content: [{ type: 'text', text: '{"success":true}' }],
       });
       (client as any).transport.setHeader = vi.fn();
       (client as any).transport.removeHeader = vi.fn();
@@ -221,7 +221,7 @@ describe('Context-Aware Token Storage', () => {
 
       // Mock the internal method
       vi.spyOn(client as any, 'callServerToolInternal').mockResolvedValue({
-        content: [{ type: 'text', text: 'Success' }],
+        content: [{ type: 'text', text: '{"success":true}' }],
       });
 
       const context: MCPContext = {
@@ -285,7 +285,7 @@ describe('Context-Aware Token Storage', () => {
 
       // Mock transport methods for server-side path
       (client as any).transport.sendRequest = vi.fn().mockResolvedValue({
-        content: [{ type: 'text', text: 'Success' }],
+        content: [{ type: 'text', text: '{"success":true}' }],
       });
       (client as any).transport.setHeader = vi.fn();
       (client as any).transport.removeHeader = vi.fn();
@@ -333,7 +333,7 @@ describe('Context-Aware Token Storage', () => {
 
       // Mock transport methods for server-side path
       (client as any).transport.sendRequest = vi.fn().mockResolvedValue({
-        content: [{ type: 'text', text: 'Success' }],
+        content: [{ type: 'text', text: '{"success":true}' }],
       });
       (client as any).transport.setHeader = vi.fn();
       (client as any).transport.removeHeader = vi.fn();
@@ -426,7 +426,7 @@ describe('Context-Aware Token Storage', () => {
 
       // Mock transport methods for server-side path
       (client as any).transport.sendRequest = vi.fn().mockResolvedValue({
-        content: [{ type: 'text', text: 'Success' }],
+        content: [{ type: 'text', text: '{"success":true}' }],
       });
       (client as any).transport.setHeader = vi.fn();
       (client as any).transport.removeHeader = vi.fn();
@@ -468,7 +468,7 @@ describe('Context-Aware Token Storage', () => {
 
       // Mock transport methods for server-side path
       (client as any).transport.sendRequest = vi.fn().mockResolvedValue({
-        content: [{ type: 'text', text: 'Success' }],
+        content: [{ type: 'text', text: '{"success":true}' }],
       });
       (client as any).transport.setHeader = vi.fn();
       (client as any).transport.removeHeader = vi.fn();
@@ -498,7 +498,7 @@ describe('Context-Aware Token Storage', () => {
 
       // Mock at callToolThroughHandler level
       vi.spyOn(client as any, 'callToolThroughHandler').mockResolvedValue({
-        content: [{ type: 'text', text: 'Success' }],
+        content: [{ type: 'text', text: '{"success":true}' }],
       });
 
       // Should not throw even without callbacks
@@ -524,7 +524,7 @@ describe('Context-Aware Token Storage', () => {
 
       // Mock at callToolThroughHandler level
       vi.spyOn(client as any, 'callToolThroughHandler').mockResolvedValue({
-        content: [{ type: 'text', text: 'Success' }],
+        content: [{ type: 'text', text: '{"success":true}' }],
       });
 
       const context: MCPContext = {
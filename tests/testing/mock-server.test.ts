@@ -0,0 +1,233 @@
+/**
+ * Mock MCP Server Tests
+ * Exercises the typed client, OAuthHandler and the HTTP transport against
+ * createMockMCPServer() with no network access
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { createMockMCPServer, MockMCPError, InMemoryTransport } from "../../src/testing/index.js";
+import type { MockMCPServer } from "../../src/testing/index.js";
+import { createMCPServer } from "../../src/server.js";
+import { MCPClientBase } from "../../src/client.js";
+import { OAuthHandler } from "../../src/adapters/base-handler.js";
+import { HttpSessionTransport } from "../../src/transport/http-session.js";
+import { githubIntegration } from "../../src/integrations/github.js";
+
+describe("Mock MCP Server", () => {
+  let server: MockMCPServer;
+
+  beforeEach(() => {
+    delete (globalThis as any).window;
+    server = createMockMCPServer({
+      tools: ["github_get_repo"],
+      handlers: {
+        github_list_own_repos: (args, { headers }) => ({
+          repos: [{ name: "sdk", owner: args.owner }],
+          authorization: headers.authorization,
+        }),
+      },
+    });
+  });
+
+  describe("JSON-RPC semantics", () => {
+    test("negotiates the protocol version on initialize", async () => {
+      const response = await server.handleMessage(
+        { jsonrpc: "2.0", id: 1, method: "initialize", params: { protocolVersion: "2024-11-05" } },
+        {}
+      );
+
+      expect(response).toMatchObject({
+        jsonrpc: "2.0",
+        id: 1,
+        result: { protocolVersion: "2024-11-05", serverInfo: { name: "mock-mcp-server" } },
+      });
+    });
+
+    test("lists declared tools and tools with handlers", async () => {
+      const response: any = await server.handleMessage(
+        { jsonrpc: "2.0", id: 2, method: "tools/list" },
+        {}
+      );
+
+      expect(response.result.tools.map((t: any) => t.name).sort()).toEqual([
+        "github_get_repo",
+        "github_list_own_repos",
+      ]);
+    });
+
+    test("answers unknown methods and tools with JSON-RPC errors", async () => {
+      const unknownMethod: any = await server.handleMessage(
+        { jsonrpc: "2.0", id: 3, method: "sampling/createMessage" },
+        {}
+      );
+      const unknownTool: any = await server.handleMessage(
+        { jsonrpc: "2.0", id: 4, method: "tools/call", params: { name: "nope" } },
+        {}
+      );
+      const noHandler: any = await server.handleMessage(
+        { jsonrpc: "2.0", id: 5, method: "tools/call", params: { name: "github_get_repo" } },
+        {}
+      );
+
+      expect(unknownMethod.error.code).toBe(-32601);
+      expect(unknownTool.error).toEqual({ code: -32602, message: "Unknown tool: nope" });
+      expect(noHandler.error.code).toBe(-32603);
+    });
+
+    test("records notifications without responding", async () => {
+      const response = await server.handleMessage(
+        { jsonrpc: "2.0", method: "notifications/initialized" },
+        { "X-API-KEY": "key" }
+      );
+
+      expect(response).toBeUndefined();
+      expect(server.requests).toEqual([
+        { method: "notifications/initialized", params: undefined, headers: { "x-api-key": "key" } },
+      ]);
+    });
+  });
+
+  describe("InMemoryTransport", () => {
+    test("drives the typed integration proxies with request-scoped tokens", async () => {
+      const token = server.issueToken("github");
+      const { client } = createMCPServer({
+        singleton: false,
+        transport: server.createTransport(),
+        integrations: [githubIntegration({ clientId: "id", clientSecret: "secret" })],
+        getProviderToken: async () => token,
+      });
+
+      await client.connect();
+      const result = await client.github.listOwnRepos({ owner: "octocat" } as any);
+
+      expect(result).toEqual({
+        repos: [{ name: "sdk", owner: "octocat" }],
+        authorization: `Bearer ${token.accessToken}`,
+      } as any);
+      expect(server.toolCalls).toHaveLength(1);
+      expect(server.toolCalls[0]!.name).toBe("github_list_own_repos");
+      await client.disconnect();
+    });
+
+    test("surfaces MockMCPError as a parsed client error", async () => {
+      server.setTool("github_list_own_repos", () => {
+        throw new MockMCPError(401, "Unauthorized");
+      });
+      const client = new MCPClientBase({
+        singleton: false,
+        transport: new InMemoryTransport(server),
+        integrations: [githubIntegration({ clientId: "id" })],
+      });
+
+      await client.connect();
+
+      await expect(client.callServerTool("github_list_own_repos", {})).rejects.toMatchObject({
+        message: "Unauthorized",
+      });
+      await client.disconnect();
+    });
+
+    test("delivers progress notifications sent by handlers", async () => {
+      server.setTool("github_list_own_repos", (_args, { notify, progressToken }) => {
+        notify("notifications/progress", { progressToken, progress: 1, total: 2 });
+        return { done: true };
+      });
+      const { client } = createMCPServer({
+        singleton: false,
+        transport: server.createTransport(),
+        integrations: [githubIntegration({ clientId: "id", clientSecret: "secret" })],
+      });
+
+      const progress: unknown[] = [];
+      await client.connect();
+      await client.github.listOwnRepos({} as any, {
+        onProgress: (value, total) => progress.push({ value, total }),
+      });
+
+      expect(progress).toEqual([{ value: 1, total: 2 }]);
+      await client.disconnect();
+    });
+
+    test("rejects requests before connect", async () => {
+      const transport = new InMemoryTransport(server);
+
+      await expect(transport.sendRequest("tools/list")).rejects.toThrow("Not connected to server");
+    });
+  });
+
+  describe("fetch handler", () => {
+    let restoreFetch: () => void;
+
+    beforeEach(() => {
+      restoreFetch = server.installFetch();
+    });
+
+    afterEach(() => {
+      restoreFetch();
+    });
+
+    test("serves JSON-RPC to the HTTP session transport", async () => {
+      const transport = new HttpSessionTransport({ url: "https://mcp.test/api/v1/mcp" });
+      await transport.connect();
+
+      const result = await transport.sendRequest<any>("tools/call", {
+        name: "github_list_own_repos",
+        arguments: { owner: "octocat" },
+      });
+
+      expect(JSON.parse(result.content[0].text).repos[0].owner).toBe("octocat");
+      await transport.disconnect();
+    });
+
+    test("runs the OAuth flow through OAuthHandler", async () => {
+      const handler = new OAuthHandler({
+        serverUrl: "https://mcp.test/api/v1/mcp",
+        apiKey: "test-key",
+        providers: {
+          github: { clientId: "id", clientSecret: "secret", scopes: ["repo"] },
+        },
+      });
+
+      const authorize = await handler.handleAuthorize({
+        provider: "github",
+        state: "state-1",
+        codeChallenge: "challenge",
+        codeChallengeMethod: "S256",
+      });
+      expect(new URL(authorize.authorizationUrl).searchParams.get("state")).toBe("state-1");
+
+      const tokens = await handler.handleCallback({
+        provider: "github",
+        code: "code",
+        codeVerifier: "verifier",
+        state: "state-1",
+      });
+      expect(tokens.scopes).toEqual(["repo"]);
+
+      const status = await handler.handleStatus("github", tokens.accessToken);
+      expect(status.authorized).toBe(true);
+
+      const refreshed = await handler.handleRefresh({
+        provider: "github",
+        refreshToken: tokens.refreshToken!,
+      });
+      expect(refreshed.accessToken).not.toBe(tokens.accessToken);
+      expect((await handler.handleStatus("github", tokens.accessToken)).authorized).toBe(false);
+
+      const disconnected = await handler.handleDisconnect({ provider: "github" }, refreshed.accessToken);
+      expect(disconnected).toEqual({ success: true, provider: "github" });
+      expect(server.tokens.size).toBe(0);
+    });
+
+    test("rejects callbacks for unknown state", async () => {
+      const handler = new OAuthHandler({
+        serverUrl: "https://mcp.test/api/v1/mcp",
+        providers: { github: { clientId: "id", clientSecret: "secret" } },
+      });
+
+      await expect(
+        handler.handleCallback({ provider: "github", code: "code", codeVerifier: "v", state: "forged" })
+      ).rejects.toThrow("invalid_grant");
+    });
+  });
+});
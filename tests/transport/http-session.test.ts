@@ -155,6 +155,394 @@ describe("HTTP Session Transport", () => {
         transport.sendRequest("nonexistent/method", {})
       ).rejects.toThrow();
     });
+
+    test("merges per-request headers without mutating shared headers", async () => {
+      const capturedHeaders: any[] = [];
+
+      transport.setHeader("X-API-KEY", "shared-key");
+
+      global.fetch = mock(async (url, options: any) => {
+        capturedHeaders.push(options.headers);
+        return {
+          ok: true,
+          headers: { get: () => null },
+          json: async () => ({
+            jsonrpc: "2.0",
+            id: 1,
+            result: {},
+          }),
+        };
+      }) as any;
+
+      await transport.connect();
+      await transport.sendRequest("test/method", {}, {
+        headers: { Authorization: "Bearer user-a" },
+      });
+      await transport.sendRequest("test/method", {});
+
+      expect(capturedHeaders[0]["Authorization"]).toBe("Bearer user-a");
+      expect(capturedHeaders[0]["X-API-KEY"]).toBe("shared-key");
+      expect(capturedHeaders[1]["Authorization"]).toBeUndefined();
+      expect(transport.getHeaders()["Authorization"]).toBeUndefined();
+    });
+  });
+
+  describe("Streamable HTTP responses", () => {
+    function sseResponse(chunks: string[]) {
+      const encoder = new TextEncoder();
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (const chunk of chunks) {
+            controller.enqueue(encoder.encode(chunk));
+          }
+          controller.close();
+        },
+      });
+      return new Response(body, {
+        status: 200,
+        headers: { "Content-Type": "text/event-stream" },
+      });
+    }
+
+    test("accepts both JSON and SSE responses", async () => {
+      let capturedHeaders: any;
+
+      global.fetch = mock(async (url, options: any) => {
+        capturedHeaders = options.headers;
+        return new Response(JSON.stringify({ jsonrpc: "2.0", id: 1, result: {} }), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        });
+      }) as any;
+
+      await transport.connect();
+      await transport.sendRequest("test/method", {});
+
+      expect(capturedHeaders["Accept"]).toBe("application/json, text/event-stream");
+    });
+
+    test("parses SSE-framed responses and dispatches interleaved notifications", async () => {
+      const messages: any[] = [];
+      transport.onMessage((message) => messages.push(message));
+
+      global.fetch = mock(async (url, options: any) => {
+        const { id } = JSON.parse(options.body);
+        const progress = JSON.stringify({
+          jsonrpc: "2.0",
+          method: "notifications/progress",
+          params: { progressToken: "p1", progress: 50, total: 100 },
+        });
+        const result = JSON.stringify({ jsonrpc: "2.0", id, result: { content: [{ type: "text", text: "done" }] } });
+
+        // Split frames across chunks to exercise buffering
+        return sseResponse([
+          `id: 1\nevent: message\ndata: ${progress}\n\n`,
+          `: keep-alive\n\ndata: ${result.slice(0, 20)}`,
+          `${result.slice(20)}\n\n`,
+        ]);
+      }) as any;
+
+      await transport.connect();
+      const result = await transport.sendRequest<any>("tools/call", { name: "slow_tool" });
+
+      expect(result.content[0].text).toBe("done");
+      expect(messages).toHaveLength(1);
+      expect(messages[0].method).toBe("notifications/progress");
+      expect(messages[0].params.progress).toBe(50);
+    });
+
+    test("joins multi-line SSE data fields", async () => {
+      global.fetch = mock(async (url, options: any) => {
+        const { id } = JSON.parse(options.body);
+        return sseResponse([
+          `data: {"jsonrpc": "2.0",\ndata: "id": ${id},\ndata: "result": {"ok": true}}\n\n`,
+        ]);
+      }) as any;
+
+      await transport.connect();
+      const result = await transport.sendRequest("test/method", {});
+
+      expect(result).toEqual({ ok: true });
+    });
+
+    test("surfaces JSON-RPC errors from SSE responses", async () => {
+      global.fetch = mock(async (url, options: any) => {
+        const { id } = JSON.parse(options.body);
+        return sseResponse([
+          `data: ${JSON.stringify({ jsonrpc: "2.0", id, error: { code: -32602, message: "Bad params" } })}\n\n`,
+        ]);
+      }) as any;
+
+      await transport.connect();
+
+      await expect(transport.sendRequest("test/method", {})).rejects.toThrow("Bad params");
+    });
+
+    test("rejects when the SSE stream ends without a response", async () => {
+      global.fetch = mock(async () => sseResponse([": nothing to see\n\n"])) as any;
+
+      await transport.connect();
+
+      await expect(transport.sendRequest("test/method", {})).rejects.toThrow(
+        "SSE response stream ended without a response"
+      );
+    });
+  });
+
+  describe("Session recovery", () => {
+    function jsonRpc(id: unknown, result: unknown, sessionId?: string) {
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (sessionId) {
+        headers["mcp-session-id"] = sessionId;
+      }
+      return new Response(JSON.stringify({ jsonrpc: "2.0", id, result }), { status: 200, headers });
+    }
+
+    test("re-initializes and replays a request that hit an expired session", async () => {
+      let currentSession = "session-1";
+      const posts: Array<{ method: string; session?: string }> = [];
+
+      global.fetch = mock(async (url, options: any) => {
+        if (options.method === "GET") {
+          return new Response(null, { status: 405 });
+        }
+
+        const body = JSON.parse(options.body);
+        const session = options.headers["mcp-session-id"];
+        posts.push({ method: body.method, session });
+
+        if (body.method === "initialize") {
+          return jsonRpc(body.id, {}, currentSession);
+        }
+        if (session !== currentSession) {
+          return new Response("Session not found", { status: 404, statusText: "Not Found" });
+        }
+        return jsonRpc(body.id, { ok: true });
+      }) as any;
+
+      const onSessionExpired = mock(async () => {
+        await recoveringTransport.sendRequest("initialize", {});
+      });
+      const recoveringTransport = new HttpSessionTransport({
+        url: "https://test.mcp.server.com",
+        onSessionExpired,
+      });
+
+      await recoveringTransport.connect();
+      await recoveringTransport.sendRequest("initialize", {});
+      expect(recoveringTransport.getSessionId()).toBe("session-1");
+
+      // Server redeploys and forgets every session
+      currentSession = "session-2";
+
+      const results = await Promise.all([
+        recoveringTransport.sendRequest("tools/call", { name: "a" }),
+        recoveringTransport.sendRequest("tools/call", { name: "b" }),
+      ]);
+
+      expect(results).toEqual([{ ok: true }, { ok: true }]);
+      expect(onSessionExpired).toHaveBeenCalledTimes(1);
+      expect(recoveringTransport.getSessionId()).toBe("session-2");
+
+      const replays = posts.filter((p) => p.method === "tools/call" && p.session === "session-2");
+      expect(replays).toHaveLength(2);
+
+      await recoveringTransport.disconnect();
+    });
+
+    test("holds requests started during recovery until the new session is established", async () => {
+      let currentSession = "session-1";
+      const posts: Array<{ method: string; session?: string }> = [];
+
+      global.fetch = mock(async (url, options: any) => {
+        if (options.method === "GET") {
+          return new Response(null, { status: 405 });
+        }
+
+        const body = JSON.parse(options.body);
+        const session = options.headers["mcp-session-id"];
+        posts.push({ method: body.method, session });
+
+        if (body.method === "initialize") {
+          return jsonRpc(body.id, {}, currentSession);
+        }
+        if (session !== currentSession) {
+          return new Response("Session not found", { status: 404, statusText: "Not Found" });
+        }
+        return jsonRpc(body.id, { ok: true });
+      }) as any;
+
+      let startInitialize!: () => void;
+      const recoveryStarted = new Promise<void>((resolve) => {
+        startInitialize = resolve;
+      });
+      let releaseInitialize!: () => void;
+      const initializeReleased = new Promise<void>((resolve) => {
+        releaseInitialize = resolve;
+      });
+      const recoveringTransport = new HttpSessionTransport({
+        url: "https://test.mcp.server.com",
+        onSessionExpired: async () => {
+          startInitialize();
+          await initializeReleased;
+          await recoveringTransport.sendRequest("initialize", {});
+          // Like the client, list tools on the new session before recovery ends
+          await recoveringTransport.sendRequest("tools/list");
+        },
+      });
+
+      await recoveringTransport.connect();
+      await recoveringTransport.sendRequest("initialize", {});
+      currentSession = "session-2";
+
+      const expired = recoveringTransport.sendRequest("tools/call", { name: "a" });
+      await recoveryStarted;
+      const started = recoveringTransport.sendRequest("tools/call", { name: "b" });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      releaseInitialize();
+
+      expect(await Promise.all([expired, started])).toEqual([{ ok: true }, { ok: true }]);
+      expect(posts.filter((p) => p.method !== "initialize" && !p.session)).toEqual([]);
+      expect(posts.filter((p) => p.method === "tools/call" && p.session === "session-2")).toHaveLength(2);
+
+      await recoveringTransport.disconnect();
+    });
+
+    test("does not retry 404s for requests without a session", async () => {
+      const mockFetch = mock(async () => new Response("Not Found", { status: 404, statusText: "Not Found" }));
+      global.fetch = mockFetch as any;
+
+      await transport.connect();
+      const error: any = await transport.sendRequest("test/method", {}).catch((e) => e);
+
+      expect(error.statusCode).toBe(404);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("SSE reconnection", () => {
+    test("reconnects a dropped stream with Last-Event-ID", async () => {
+      const getHeaders: any[] = [];
+      const messages: any[] = [];
+      const encoder = new TextEncoder();
+
+      const reconnectingTransport = new HttpSessionTransport({
+        url: "https://test.mcp.server.com",
+        reconnectDelay: 5,
+      });
+      reconnectingTransport.onMessage((message) => messages.push(message));
+
+      let secondStreamOpened: () => void;
+      const secondStream = new Promise<void>((resolve) => {
+        secondStreamOpened = resolve;
+      });
+
+      global.fetch = mock(async (url, options: any) => {
+        if (options.method === "GET") {
+          getHeaders.push(options.headers);
+          if (getHeaders.length === 1) {
+            // First stream delivers one event, then drops
+            const notification = JSON.stringify({ jsonrpc: "2.0", method: "notifications/message", params: { n: 1 } });
+            return new Response(new ReadableStream({
+              start(controller) {
+                controller.enqueue(encoder.encode(`id: evt-5\ndata: ${notification}\n\n`));
+                controller.close();
+              },
+            }), { status: 200, headers: { "Content-Type": "text/event-stream" } });
+          }
+
+          secondStreamOpened();
+          // Second stream stays open until the transport disconnects
+          return new Response(new ReadableStream({
+            start(controller) {
+              options.signal.addEventListener("abort", () => controller.error(options.signal.reason));
+            },
+          }), { status: 200, headers: { "Content-Type": "text/event-stream" } });
+        }
+
+        const body = JSON.parse(options.body);
+        return new Response(JSON.stringify({ jsonrpc: "2.0", id: body.id, result: {} }), {
+          status: 200,
+          headers: { "Content-Type": "application/json", "mcp-session-id": "session-1" },
+        });
+      }) as any;
+
+      await reconnectingTransport.connect();
+      await reconnectingTransport.sendRequest("initialize", {});
+      await secondStream;
+
+      expect(getHeaders).toHaveLength(2);
+      expect(getHeaders[0]["Last-Event-ID"]).toBeUndefined();
+      expect(getHeaders[1]["Last-Event-ID"]).toBe("evt-5");
+      expect(getHeaders[1]["mcp-session-id"]).toBe("session-1");
+      expect(messages).toHaveLength(1);
+
+      await reconnectingTransport.disconnect();
+    });
+  });
+
+  describe("Cancellation", () => {
+    test("aborting an in-flight request rejects and sends notifications/cancelled", async () => {
+      const notifications: any[] = [];
+      let requestId: any;
+
+      global.fetch = mock((url, options: any) => {
+        const body = JSON.parse(options.body);
+        if (body.id === undefined) {
+          notifications.push({ body, headers: options.headers });
+          return Promise.resolve(new Response(null, { status: 202 }));
+        }
+
+        requestId = body.id;
+        return new Promise((_resolve, reject) => {
+          if (options.signal.aborted) {
+            reject(options.signal.reason);
+            return;
+          }
+          options.signal.addEventListener("abort", () => reject(options.signal.reason));
+        });
+      }) as any;
+
+      await transport.connect();
+
+      const controller = new AbortController();
+      const pending = transport.sendRequest("tools/call", { name: "slow_tool" }, {
+        headers: { Authorization: "Bearer user-a" },
+        signal: controller.signal,
+      });
+
+      controller.abort("User pressed stop");
+
+      await expect(pending).rejects.toBe("User pressed stop");
+
+      // Notification is fire-and-forget - let it flush
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].body).toEqual({
+        jsonrpc: "2.0",
+        method: "notifications/cancelled",
+        params: { requestId, reason: "User pressed stop" },
+      });
+      expect(notifications[0].headers["Authorization"]).toBe("Bearer user-a");
+    });
+
+    test("does not send a request when the signal is already aborted", async () => {
+      const mockFetch = mock(async () => new Response(null, { status: 202 }));
+      global.fetch = mockFetch as any;
+
+      await transport.connect();
+
+      const controller = new AbortController();
+      controller.abort();
+
+      const error: any = await transport
+        .sendRequest("tools/call", {}, { signal: controller.signal })
+        .catch((e) => e);
+
+      expect(error.name).toBe("AbortError");
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
   });
 
   describe("onMessage", () => {
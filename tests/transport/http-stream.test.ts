@@ -0,0 +1,142 @@
+/**
+ * HTTP Stream Transport Tests
+ */
+
+import { describe, test, expect, beforeEach, afterEach, mock } from "bun:test";
+import { HttpStreamTransport } from "../../src/transport/http-stream.js";
+import { AuthenticationError, RateLimitError, parseServerError } from "../../src/errors.js";
+
+describe("HTTP Stream Transport", () => {
+  let transport: HttpStreamTransport;
+  let originalFetch: typeof fetch;
+  let posts: Array<{ body: any; headers: Record<string, string> }>;
+  let push: (message: unknown) => void;
+
+  beforeEach(() => {
+    originalFetch = global.fetch;
+    posts = [];
+
+    let controller!: ReadableStreamDefaultController<Uint8Array>;
+    const stream = new ReadableStream<Uint8Array>({
+      start(c) {
+        controller = c;
+      },
+    });
+    const encoder = new TextEncoder();
+    push = (message) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(message)}\n\n`));
+
+    global.fetch = mock(async (_url: any, options: any) => {
+      if (options.method === "GET") {
+        return new Response(stream, {
+          status: 200,
+          headers: { "Content-Type": "text/event-stream" },
+        });
+      }
+
+      const body = JSON.parse(options.body);
+      posts.push({ body, headers: options.headers });
+      if (body.method === "echo") {
+        push({ jsonrpc: "2.0", id: body.id, result: { echoed: body.params } });
+      }
+      if (body.method === "limited") {
+        push({ jsonrpc: "2.0", id: body.id, error: { code: 429, message: "Rate limited", data: { retryAfter: 30 } } });
+      }
+      if (body.method === "unauthorized") {
+        push({ jsonrpc: "2.0", id: body.id, error: { code: 401, message: "Unauthorized" } });
+      }
+      return new Response(null, { status: 202 });
+    }) as any;
+
+    transport = new HttpStreamTransport({
+      url: "https://test.mcp.server.com",
+      headers: { "X-API-KEY": "test-key" },
+      heartbeatInterval: 60000,
+    });
+  });
+
+  afterEach(async () => {
+    await transport.disconnect();
+    global.fetch = originalFetch;
+  });
+
+  test("matches streamed responses to requests by id", async () => {
+    await transport.connect();
+
+    const result = await transport.sendRequest("echo", { value: 1 });
+
+    expect(result).toEqual({ echoed: { value: 1 } });
+  });
+
+  test("rejects JSON-RPC errors with their code and data for the client to parse", async () => {
+    await transport.connect();
+
+    const limited = await transport.sendRequest("limited").catch((e) => e);
+    expect(limited.code).toBe(429);
+    expect(limited.data).toEqual({ retryAfter: 30 });
+    expect(limited.jsonrpcError).toEqual({ code: 429, message: "Rate limited", data: { retryAfter: 30 } });
+    const rateLimitError = parseServerError(limited, { provider: "github" });
+    expect(rateLimitError).toBeInstanceOf(RateLimitError);
+    expect((rateLimitError as RateLimitError).retryAfter).toBe(30);
+
+    const unauthorized = await transport.sendRequest("unauthorized").catch((e) => e);
+    expect(unauthorized.code).toBe(401);
+    expect(parseServerError(unauthorized, { provider: "github" })).toBeInstanceOf(AuthenticationError);
+  });
+
+  test("merges request-scoped headers without mutating shared headers", async () => {
+    await transport.connect();
+
+    await transport.sendRequest("echo", {}, { headers: { Authorization: "Bearer user-token" } });
+
+    expect(posts[0]!.headers["Authorization"]).toBe("Bearer user-token");
+    expect(posts[0]!.headers["X-API-KEY"]).toBe("test-key");
+    expect(transport.getHeaders()["Authorization"]).toBeUndefined();
+  });
+
+  test("manages shared headers", () => {
+    transport.setHeader("MCP-Protocol-Version", "2025-06-18");
+    expect(transport.getHeaders()["MCP-Protocol-Version"]).toBe("2025-06-18");
+
+    transport.removeHeader("MCP-Protocol-Version");
+    expect(transport.getHeaders()["MCP-Protocol-Version"]).toBeUndefined();
+  });
+
+  test("sends notifications without waiting for a response", async () => {
+    await transport.connect();
+
+    await transport.sendNotification("notifications/initialized");
+
+    expect(posts[0]!.body).toEqual({ jsonrpc: "2.0", method: "notifications/initialized" });
+  });
+
+  test("aborting a pending request rejects it and notifies the server", async () => {
+    await transport.connect();
+    const controller = new AbortController();
+
+    const pending = transport.sendRequest("slow", {}, { signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort("user cancelled");
+
+    await expect(pending).rejects.toBe("user cancelled");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const cancelled = posts.find((p) => p.body.method === "notifications/cancelled");
+    expect(cancelled?.body.params).toEqual({
+      requestId: posts[0]!.body.id,
+      reason: "user cancelled",
+    });
+  });
+
+  test("delivers server notifications to message handlers", async () => {
+    await transport.connect();
+    const received: unknown[] = [];
+    transport.onMessage((message) => received.push(message));
+
+    push({ jsonrpc: "2.0", method: "notifications/message", params: { level: "info" } });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(received).toEqual([
+      { jsonrpc: "2.0", method: "notifications/message", params: { level: "info" } },
+    ]);
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Stdio Transport Tests
+ * Runs a tiny MCP server script as a real child process
+ */
+
+import { describe, test, expect, afterEach } from "bun:test";
+import { StdioTransport } from "../../src/transport/stdio.js";
+import { MCPClientBase } from "../../src/client.js";
+import { createSimpleIntegration } from "../../src/integrations/generic.js";
+
+// Newline-delimited JSON-RPC echo server
+const SERVER_SCRIPT = `
+console.error("server starting");
+let buffer = "";
+let initializeCount = 0;
+const send = (message) => process.stdout.write(JSON.stringify(message) + "\\n");
+process.stdin.setEncoding("utf8");
+process.stdin.on("data", (chunk) => {
+  buffer += chunk;
+  const lines = buffer.split("\\n");
+  buffer = lines.pop();
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const message = JSON.parse(line);
+    if (message.id === undefined) {
+      if (message.method === "notifications/cancelled") {
+        console.error("cancelled " + message.params.requestId);
+      }
+      continue;
+    }
+    switch (message.method) {
+      case "initialize":
+        initializeCount++;
+        send({ jsonrpc: "2.0", id: message.id, result: {
+          protocolVersion: "2025-06-18",
+          capabilities: { tools: {} },
+          serverInfo: { name: "stdio-test", version: String(process.pid) },
+        } });
+        break;
+      case "tools/list":
+        send({ jsonrpc: "2.0", id: message.id, result: { tools: [
+          { name: "local_echo", description: "Echo", inputSchema: { type: "object", properties: {} } },
+        ] } });
+        break;
+      case "tools/call":
+        if (message.params.name === "local_crash") process.exit(1);
+        if (message.params.name === "local_slow") break;
+        send({ jsonrpc: "2.0", method: "notifications/message", params: { level: "info" } });
+        send({ jsonrpc: "2.0", id: message.id, result: {
+          content: [{ type: "text", text: JSON.stringify({ args: message.params.arguments, initializeCount }) }],
+        } });
+        break;
+      default:
+        send({ jsonrpc: "2.0", id: message.id, error: { code: -32601, message: "Method not found" } });
+    }
+  }
+});
+`;
+
+describe("Stdio Transport", () => {
+  let transport: StdioTransport;
+
+  const createTransport = (options: { restartOnCrash?: boolean; stderr?: string[] } = {}) =>
+    new StdioTransport({
+      command: process.execPath,
+      args: ["-e", SERVER_SCRIPT],
+      restartOnCrash: options.restartOnCrash,
+      restartDelay: 10,
+      timeout: 5000,
+      onStderr: (line) => options.stderr?.push(line),
+    });
+
+  afterEach(async () => {
+    await transport.disconnect();
+  });
+
+  test("exchanges newline-delimited JSON-RPC with the server process", async () => {
+    transport = createTransport();
+    await transport.connect();
+
+    expect(transport.isConnected()).toBe(true);
+    expect(transport.getPid()).toBeGreaterThan(0);
+
+    const result = await transport.sendRequest<any>("tools/call", {
+      name: "local_echo",
+      arguments: { value: 1 },
+    });
+    expect(JSON.parse(result.content[0].text).args).toEqual({ value: 1 });
+  });
+
+  test("surfaces JSON-RPC errors with their code", async () => {
+    transport = createTransport();
+    await transport.connect();
+
+    try {
+      await transport.sendRequest("unknown/method");
+      throw new Error("Should have thrown");
+    } catch (error: any) {
+      expect(error.message).toBe("JSON-RPC Error -32601: Method not found");
+      expect(error.code).toBe(-32601);
+    }
+  });
+
+  test("forwards stderr lines and server notifications", async () => {
+    const stderr: string[] = [];
+    transport = createTransport({ stderr });
+    await transport.connect();
+
+    const received: unknown[] = [];
+    transport.onMessage((message) => received.push(message));
+    await transport.sendRequest("tools/call", { name: "local_echo", arguments: {} });
+
+    expect(stderr).toContain("server starting");
+    expect(received).toEqual([
+      { jsonrpc: "2.0", method: "notifications/message", params: { level: "info" } },
+    ]);
+  });
+
+  test("logs stderr lines at debug level by default", async () => {
+    const logs: Array<[string, string]> = [];
+    const record = (level: string) => (message: string) => logs.push([level, message]);
+    transport = new StdioTransport({
+      command: process.execPath,
+      args: ["-e", SERVER_SCRIPT],
+      timeout: 5000,
+      logger: { debug: record("debug"), info: record("info"), warn: record("warn"), error: record("error") },
+    });
+    await transport.connect();
+
+    await transport.sendRequest("tools/call", { name: "local_echo", arguments: {} });
+
+    expect(logs).toContainEqual(["debug", `[${process.execPath}] server starting`]);
+    expect(logs.filter(([level]) => level === "error")).toEqual([]);
+  });
+
+  test("rejects when the command cannot be started", async () => {
+    transport = new StdioTransport({ command: "/nonexistent/mcp-server" });
+
+    await expect(transport.connect()).rejects.toThrow("Failed to start MCP server");
+    expect(transport.isConnected()).toBe(false);
+  });
+
+  test("aborting a request notifies the server", async () => {
+    const stderr: string[] = [];
+    transport = createTransport({ stderr });
+    await transport.connect();
+    const controller = new AbortController();
+
+    const pending = transport.sendRequest("tools/call", { name: "local_slow" }, { signal: controller.signal });
+    controller.abort("user cancelled");
+
+    await expect(pending).rejects.toBe("user cancelled");
+    await transport.sendRequest("tools/call", { name: "local_echo", arguments: {} });
+    expect(stderr.some((line) => line.startsWith("cancelled "))).toBe(true);
+  });
+
+  test("restarts a crashed server and replays the initialize handshake", async () => {
+    transport = createTransport();
+    await transport.connect();
+    await transport.sendRequest("initialize", { protocolVersion: "2025-06-18" });
+    const firstPid = transport.getPid();
+
+    await expect(
+      transport.sendRequest("tools/call", { name: "local_crash" })
+    ).rejects.toThrow("MCP server process exited with code 1");
+
+    const result = await transport.sendRequest<any>("tools/call", { name: "local_echo", arguments: {} });
+
+    expect(transport.getPid()).not.toBe(firstPid);
+    expect(JSON.parse(result.content[0].text).initializeCount).toBe(1);
+  });
+
+  test("stays disconnected after a crash when restarts are disabled", async () => {
+    transport = createTransport({ restartOnCrash: false });
+    await transport.connect();
+
+    await expect(
+      transport.sendRequest("tools/call", { name: "local_crash" })
+    ).rejects.toThrow("MCP server process exited");
+
+    expect(transport.isConnected()).toBe(false);
+    await expect(transport.sendRequest("tools/list")).rejects.toThrow("Not connected to server");
+  });
+
+  test("survives process and stdin errors, failing in-flight requests", async () => {
+    transport = new StdioTransport({
+      command: process.execPath,
+      args: ["-e", SERVER_SCRIPT],
+      timeout: 5000,
+      onStderr: () => {},
+      logger: { debug() {}, info() {}, warn() {}, error() {} },
+    });
+    await transport.connect();
+    const child = (transport as any).process;
+
+    const pending = transport.sendRequest("tools/call", { name: "local_slow" });
+    child.stdin.emit("error", Object.assign(new Error("write EPIPE"), { code: "EPIPE" }));
+    child.emit("error", new Error("kill EPERM"));
+    child.emit("error", new Error("kill EPERM"));
+
+    await expect(pending).rejects.toThrow("MCP server process stdin closed: write EPIPE");
+  });
+
+  test("drives a typed client without an API key", async () => {
+    delete (globalThis as any).window;
+    transport = createTransport();
+    const client = new MCPClientBase({
+      integrations: [createSimpleIntegration({ id: "local", tools: ["local_echo"] })],
+      transport,
+      singleton: false,
+    });
+
+    await client.connect();
+    const result = await client.callServerTool("local_echo", { value: 2 });
+
+    expect(client.getServerInfo()?.name).toBe("stdio-test");
+    expect(JSON.parse((result.content[0] as any).text).args).toEqual({ value: 2 });
+    await client.disconnect();
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Logger Tests
+ * Verifies level filtering, secret redaction and routing of internal logging
+ */
+
+import { describe, test, expect, beforeEach, afterEach, spyOn } from "bun:test";
+import { createConsoleLogger, redactSecrets, resolveLogger } from "../../src/utils/logger.js";
+import type { Logger, LogFields } from "../../src/utils/logger.js";
+import { createMCPServer } from "../../src/server.js";
+import { githubIntegration } from "../../src/integrations/github.js";
+import { createMockMCPServer } from "../../src/testing/index.js";
+
+function createRecordingLogger() {
+  const entries: Array<{ level: string; message: string; fields?: LogFields }> = [];
+  const record = (level: string) => (message: string, fields?: LogFields) => {
+    entries.push({ level, message, fields });
+  };
+  const logger: Logger = {
+    debug: record("debug"),
+    info: record("info"),
+    warn: record("warn"),
+    error: record("error"),
+  };
+  return { logger, entries };
+}
+
+describe("redactSecrets", () => {
+  test("redacts secret-named fields at any depth", () => {
+    const redacted = redactSecrets({
+      provider: "github",
+      accessToken: "gho_abc",
+      tokens: [{ refresh_token: "r1", expiresIn: 3600 }],
+      oauth: { clientId: "id", client_secret: "shh", "X-API-KEY": "key" },
+      code: "auth-code",
+    });
+
+    expect(redacted).toEqual({
+      provider: "github",
+      accessToken: "[REDACTED]",
+      tokens: [{ refresh_token: "[REDACTED]", expiresIn: 3600 }],
+      oauth: { clientId: "id", client_secret: "[REDACTED]", "X-API-KEY": "[REDACTED]" },
+      code: "[REDACTED]",
+    });
+  });
+
+  test("keeps numeric error codes", () => {
+    expect(redactSecrets({ error: { code: -32603, message: "Internal error" }, status: { code: 429 } })).toEqual({
+      error: { code: -32603, message: "Internal error" },
+      status: { code: 429 },
+    });
+  });
+
+  test("redacts credentials embedded in strings and errors", () => {
+    expect(redactSecrets("Authorization: Bearer gho_abc.def")).toBe("Authorization: Bearer [REDACTED]");
+    expect(redactSecrets("https://example.com/cb?code=xyz&state=s1")).toBe(
+      "https://example.com/cb?code=[REDACTED]&state=s1"
+    );
+    expect(redactSecrets('{"client_secret":"shh","provider":"github"}')).toBe(
+      '{"client_secret":"[REDACTED]","provider":"github"}'
+    );
+
+    const error = redactSecrets(new Error("Refresh failed for refresh_token=r1"));
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toBe("Refresh failed for refresh_token=[REDACTED]");
+  });
+
+  test("does not modify the original value", () => {
+    const fields = { accessToken: "gho_abc" };
+    redactSecrets(fields);
+    expect(fields.accessToken).toBe("gho_abc");
+  });
+});
+
+describe("Logger", () => {
+  test("console logger writes entries at or above its level", () => {
+    const debug = spyOn(console, "debug").mockImplementation(() => {});
+    const warn = spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      const logger = createConsoleLogger({ level: "warn" });
+      logger.debug("hidden");
+      logger.warn("shown", { provider: "github" });
+
+      expect(debug).not.toHaveBeenCalled();
+      expect(warn).toHaveBeenCalledWith("shown", { provider: "github" });
+    } finally {
+      debug.mockRestore();
+      warn.mockRestore();
+    }
+  });
+
+  test("silent console logger writes nothing", () => {
+    const error = spyOn(console, "error").mockImplementation(() => {});
+    try {
+      createConsoleLogger({ level: "silent" }).error("hidden");
+      expect(error).not.toHaveBeenCalled();
+    } finally {
+      error.mockRestore();
+    }
+  });
+
+  test("resolved loggers redact messages and fields", () => {
+    const { logger, entries } = createRecordingLogger();
+    const resolved = resolveLogger(logger);
+
+    resolved.error("Token exchange failed: Bearer abc123", { apiKey: "key", provider: "github" });
+
+    expect(entries).toEqual([
+      {
+        level: "error",
+        message: "Token exchange failed: Bearer [REDACTED]",
+        fields: { apiKey: "[REDACTED]", provider: "github" },
+      },
+    ]);
+    expect(resolveLogger(resolved)).toBe(resolved);
+  });
+});
+
+describe("Client logging", () => {
+  let warn: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    warn = spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  test("routes internal logging through the configured logger", async () => {
+    const { logger, entries } = createRecordingLogger();
+    const server = createMockMCPServer({ tools: [{ name: "github_list_repos" }] });
+    const { client } = createMCPServer({
+      singleton: false,
+      transport: server.createTransport(),
+      integrations: [
+        githubIntegration({ clientId: "id", clientSecret: "secret" }),
+        { id: "broken", tools: [], oauth: { provider: "broken", clientId: "", clientSecret: "" } } as any,
+      ],
+      logger,
+    });
+
+    await client.connect();
+
+    expect(entries).toContainEqual({
+      level: "info",
+      message: "Discovered 1 tools, 1 enabled by integrations",
+      fields: { total: 1, enabled: 1 },
+    });
+    expect(entries.some((entry) => entry.level === "warn" && entry.message.includes("missing OAuth credentials"))).toBe(true);
+    expect(warn).not.toHaveBeenCalled();
+    await client.disconnect();
+  });
+});